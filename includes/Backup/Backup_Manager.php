@@ -49,6 +49,11 @@ final class Backup_Manager {
      */
     private $cache;
     
+    /**
+     * Data source definitions
+     */
+    private $sources;
+    
     /**
      * Maximum revisions to keep per meta key
      */
@@ -70,6 +75,7 @@ final class Backup_Manager {
         $this->sanitizer = \WCFDR\Core\Container::getInstance()->get('sanitizer');
         $this->logger = \WCFDR\Core\Container::getInstance()->get('logger');
         $this->cache = \WCFDR\Core\Container::getInstance()->get('cache');
+        $this->sources = \WCFDR\Core\Container::getInstance()->get('sources');
         
         $this->backup_table = $wpdb->prefix . 'wcfdr_meta_backups';
         
@@ -120,7 +126,9 @@ final class Backup_Manager {
         $sql = "CREATE TABLE IF NOT EXISTS {$this->backup_table} (
             id bigint(20) unsigned NOT NULL AUTO_INCREMENT,
             revision_id varchar(50) NOT NULL,
+            source varchar(20) NOT NULL DEFAULT 'postmeta',
             post_id bigint(20) unsigned NOT NULL,
+            meta_id bigint(20) unsigned NOT NULL DEFAULT 0,
             meta_key varchar(255) NOT NULL,
             old_value longtext NOT NULL,
             new_value longtext NOT NULL,
@@ -137,6 +145,16 @@ final class Backup_Manager {
         
         require_once(ABSPATH . 'wp-admin/includes/upgrade.php');
         dbDelta($sql);
+        
+        // Tables created before other data sources were supported only hold post meta
+        if (!$wpdb->get_var("SHOW COLUMNS FROM {$this->backup_table} LIKE 'source'")) {
+            $wpdb->query("ALTER TABLE {$this->backup_table} ADD COLUMN source varchar(20) NOT NULL DEFAULT 'postmeta' AFTER revision_id");
+        }
+        
+        // Tables created before backups recorded their row restore by object and key only
+        if (!$wpdb->get_var("SHOW COLUMNS FROM {$this->backup_table} LIKE 'meta_id'")) {
+            $wpdb->query("ALTER TABLE {$this->backup_table} ADD COLUMN meta_id bigint(20) unsigned NOT NULL DEFAULT 0 AFTER post_id");
+        }
     }
     
     /**
@@ -156,7 +174,9 @@ final class Backup_Manager {
             // Create backup record
             $backup_data = [
                 'revision_id' => $revision_id,
+                'source' => $validated['source'],
                 'post_id' => $validated['post_id'],
+                'meta_id' => $validated['meta_id'],
                 'meta_key' => $validated['meta_key'],
                 'old_value' => $validated['old_value'],
                 'new_value' => $validated['new_value'] ?? '',
@@ -173,13 +193,14 @@ final class Backup_Manager {
             }
             
             // Cleanup old revisions if needed
-            $this->cleanup_old_revisions($validated['post_id'], $validated['meta_key']);
+            $this->cleanup_old_revisions($validated['post_id'], $validated['meta_key'], $validated['source']);
             
             // Clear cache
-            $this->cache->delete("wcfdr_backups_{$validated['post_id']}_{$validated['meta_key']}");
+            $this->cache->delete("wcfdr_backups_{$validated['source']}_{$validated['post_id']}_{$validated['meta_key']}");
             
             $this->logger->info('Backup created successfully', [
                 'revision_id' => $revision_id,
+                'source' => $validated['source'],
                 'post_id' => $validated['post_id'],
                 'meta_key' => $validated['meta_key'],
                 'actor_id' => $current_user->ID
@@ -205,12 +226,12 @@ final class Backup_Manager {
     }
     
     /**
-     * Get backups for a specific post meta
+     * Get backups for a specific object and key of a data source
      */
-    public function get_backups(int $post_id, string $meta_key): array {
+    public function get_backups(int $post_id, string $meta_key, string $source = 'postmeta'): array {
         try {
             // Check cache first
-            $cache_key = "wcfdr_backups_{$post_id}_{$meta_key}";
+            $cache_key = "wcfdr_backups_{$source}_{$post_id}_{$meta_key}";
             $cached_result = $this->cache->get($cache_key);
             
             if ($cached_result !== false) {
@@ -222,8 +243,9 @@ final class Backup_Manager {
             $query = $wpdb->prepare(
                 "SELECT revision_id, old_value, new_value, actor_name, created_at, batch_id 
                  FROM {$this->backup_table} 
-                 WHERE post_id = %d AND meta_key = %s 
+                 WHERE source = %s AND post_id = %d AND meta_key = %s 
                  ORDER BY created_at DESC",
+                $source,
                 $post_id,
                 $meta_key
             );
@@ -260,6 +282,7 @@ final class Backup_Manager {
             
         } catch (\Exception $e) {
             $this->logger->error('Failed to get backups: ' . $e->getMessage(), [
+                'source' => $source,
                 'post_id' => $post_id,
                 'meta_key' => $meta_key,
                 'trace' => $e->getTraceAsString()
@@ -274,6 +297,162 @@ final class Backup_Manager {
         }
     }
     
+    /**
+     * List backups across all posts with filters and pagination
+     */
+    public function list_backups(array $params): array {
+        try {
+            global $wpdb;
+
+            $filters = $this->validate_list_params($params);
+
+            $where_clauses = ['1=1'];
+            $where_values = [];
+
+            if (!empty($filters['source'])) {
+                $where_clauses[] = 'b.source = %s';
+                $where_values[] = $filters['source'];
+            }
+
+            // Old values of settings and user meta are only shown to those who may change them
+            $sources = $this->sources->available();
+            $where_clauses[] = 'b.source IN (' . implode(', ', array_fill(0, count($sources), '%s')) . ')';
+            $where_values = array_merge($where_values, $sources);
+
+            if ($filters['post_id']) {
+                $where_clauses[] = 'b.post_id = %d';
+                $where_values[] = $filters['post_id'];
+            }
+
+            if (!empty($filters['meta_key'])) {
+                $where_clauses[] = 'b.meta_key = %s';
+                $where_values[] = $filters['meta_key'];
+            }
+
+            if (!empty($filters['batch_id'])) {
+                $where_clauses[] = 'b.batch_id = %s';
+                $where_values[] = $filters['batch_id'];
+            }
+
+            // Actor can be a user ID or (part of) a display name
+            if (!empty($filters['actor'])) {
+                if (ctype_digit($filters['actor'])) {
+                    $where_clauses[] = 'b.actor_id = %d';
+                    $where_values[] = intval($filters['actor']);
+                } else {
+                    $where_clauses[] = 'b.actor_name LIKE %s';
+                    $where_values[] = '%' . $wpdb->esc_like($filters['actor']) . '%';
+                }
+            }
+
+            if (!empty($filters['date_from'])) {
+                $where_clauses[] = 'b.created_at >= %s';
+                $where_values[] = $filters['date_from'] . ' 00:00:00';
+            }
+
+            if (!empty($filters['date_to'])) {
+                $where_clauses[] = 'b.created_at <= %s';
+                $where_values[] = $filters['date_to'] . ' 23:59:59';
+            }
+
+            $where_sql = implode(' AND ', $where_clauses);
+
+            $count_sql = "SELECT COUNT(*) FROM {$this->backup_table} b WHERE {$where_sql}";
+            $total = $wpdb->get_var(
+                empty($where_values) ? $count_sql : $wpdb->prepare($count_sql, $where_values)
+            );
+
+            if ($total === null) {
+                throw new \Exception('Failed to count backups');
+            }
+
+            $offset = ($filters['page'] - 1) * $filters['per_page'];
+
+            $results_sql = $wpdb->prepare(
+                "SELECT
+                    b.*,
+                    p.post_title,
+                    (b.id = (
+                        SELECT MAX(b2.id) FROM {$this->backup_table} b2
+                        WHERE b2.source = b.source AND b2.post_id = b.post_id AND b2.meta_key = b.meta_key
+                    )) AS is_latest
+                 FROM {$this->backup_table} b
+                 LEFT JOIN {$wpdb->posts} p ON b.post_id = p.ID AND b.source IN ('postmeta', 'post_content', 'post_excerpt')
+                 WHERE {$where_sql}
+                 ORDER BY b.created_at DESC, b.id DESC
+                 LIMIT %d OFFSET %d",
+                array_merge($where_values, [$filters['per_page'], $offset])
+            );
+
+            $results = $wpdb->get_results($results_sql, ARRAY_A);
+
+            if ($results === null) {
+                throw new \Exception('Database query failed');
+            }
+
+            $rows = array_map([$this, 'format_backup_row'], $results);
+
+            return [
+                'success' => true,
+                'rows' => $rows,
+                'total' => (int) $total,
+                'total_pages' => (int) ceil($total / $filters['per_page']),
+                'page' => $filters['page'],
+                'per_page' => $filters['per_page']
+            ];
+
+        } catch (\Exception $e) {
+            $this->logger->error('Failed to list backups: ' . $e->getMessage(), [
+                'params' => $params,
+                'trace' => $e->getTraceAsString()
+            ]);
+
+            return [
+                'success' => false,
+                'error' => $e->getMessage(),
+                'rows' => [],
+                'total' => 0,
+                'total_pages' => 0
+            ];
+        }
+    }
+
+    /**
+     * Get backup statistics
+     */
+    public function get_backup_stats(): array {
+        global $wpdb;
+
+        $stats = $wpdb->get_row(
+            "SELECT
+                COUNT(*) AS total_backups,
+                COALESCE(SUM(LENGTH(old_value) + LENGTH(new_value)), 0) AS total_size,
+                MIN(created_at) AS oldest_backup,
+                MAX(created_at) AS newest_backup
+             FROM {$this->backup_table}",
+            ARRAY_A
+        );
+
+        $today = current_time('Y-m-d') . ' 00:00:00';
+        $week_ago = date('Y-m-d H:i:s', strtotime('-7 days', current_time('timestamp')));
+
+        $backups_today = $wpdb->get_var(
+            $wpdb->prepare("SELECT COUNT(*) FROM {$this->backup_table} WHERE created_at >= %s", $today)
+        );
+        $backups_this_week = $wpdb->get_var(
+            $wpdb->prepare("SELECT COUNT(*) FROM {$this->backup_table} WHERE created_at >= %s", $week_ago)
+        );
+
+        return [
+            'total_backups' => (int) ($stats['total_backups'] ?? 0),
+            'total_size' => (int) ($stats['total_size'] ?? 0),
+            'oldest_backup' => $stats['oldest_backup'] ?? null,
+            'newest_backup' => $stats['newest_backup'] ?? null,
+            'backups_today' => (int) $backups_today,
+            'backups_this_week' => (int) $backups_this_week
+        ];
+    }
+
     /**
      * Restore a specific revision
      */
@@ -293,11 +472,32 @@ final class Backup_Manager {
                 throw new \Exception('Backup not found');
             }
             
+            $def = $this->sources->get($backup['source']);
+            if (!$this->sources->can_access($def)) {
+                throw new \Exception('You are not allowed to restore ' . strtolower($def['label']));
+            }
+            
+            // Backups that name their row go back to that row; an object can hold several rows under one key
+            $row = [
+                'meta_id' => (int) ($backup['meta_id'] ?? 0),
+                'post_id' => (int) $backup['post_id'],
+                'meta_key' => $backup['meta_key']
+            ];
+            
             // Create backup of current value before restore
-            $current_value = get_post_meta($backup['post_id'], $backup['meta_key'], true);
+            if ($row['meta_id'] > 0) {
+                $current_value = $this->sources->read_row($def, $row['meta_id']);
+                if ($current_value === null) {
+                    throw new \Exception('The backed-up row no longer exists');
+                }
+            } else {
+                $current_value = $this->sources->read_value($def, $row['post_id'], $row['meta_key']);
+            }
             
             $pre_restore_backup = $this->create_backup([
+                'source' => $backup['source'],
                 'post_id' => $backup['post_id'],
+                'meta_id' => $row['meta_id'],
                 'meta_key' => $backup['meta_key'],
                 'old_value' => $current_value,
                 'new_value' => $backup['old_value'],
@@ -309,17 +509,20 @@ final class Backup_Manager {
             }
             
             // Restore the old value
-            $result = update_post_meta($backup['post_id'], $backup['meta_key'], $backup['old_value']);
+            $result = $row['meta_id'] > 0
+                ? $this->sources->write_row($def, $row, $backup['old_value'])
+                : $this->sources->write_value($def, $row['post_id'], $row['meta_key'], $backup['old_value']);
             
-            if ($result === false) {
-                throw new \Exception('Failed to restore post meta');
+            if (!$result) {
+                throw new \Exception('Failed to restore ' . strtolower($def['label']));
             }
             
             // Clear cache
-            $this->cache->delete("wcfdr_backups_{$backup['post_id']}_{$backup['meta_key']}");
+            $this->cache->delete("wcfdr_backups_{$backup['source']}_{$backup['post_id']}_{$backup['meta_key']}");
             
             $this->logger->info('Revision restored successfully', [
                 'revision_id' => $revision_id,
+                'source' => $backup['source'],
                 'post_id' => $backup['post_id'],
                 'meta_key' => $backup['meta_key'],
                 'actor_id' => get_current_user_id()
@@ -345,14 +548,14 @@ final class Backup_Manager {
     }
     
     /**
-     * Restore latest backup for a post meta
+     * Restore latest backup for an object and key of a data source
      */
-    public function restore_latest(int $post_id, string $meta_key): array {
+    public function restore_latest(int $post_id, string $meta_key, string $source = 'postmeta'): array {
         try {
-            $backups = $this->get_backups($post_id, $meta_key);
+            $backups = $this->get_backups($post_id, $meta_key, $source);
             
             if (!$backups['success'] || empty($backups['revisions'])) {
-                throw new \Exception('No backups found for this post meta');
+                throw new \Exception('No backups found for this value');
             }
             
             $latest_backup = $backups['revisions'][0];
@@ -361,6 +564,7 @@ final class Backup_Manager {
             
         } catch (\Exception $e) {
             $this->logger->error('Latest restore failed: ' . $e->getMessage(), [
+                'source' => $source,
                 'post_id' => $post_id,
                 'meta_key' => $meta_key,
                 'trace' => $e->getTraceAsString()
@@ -380,9 +584,9 @@ final class Backup_Manager {
         try {
             global $wpdb;
             
-            // Get all backups in the batch
+            // Newest first: a row backed up more than once ends at the oldest backup's value, its original
             $query = $wpdb->prepare(
-                "SELECT * FROM {$this->backup_table} WHERE batch_id = %s ORDER BY created_at ASC",
+                "SELECT * FROM {$this->backup_table} WHERE batch_id = %s ORDER BY created_at DESC, id DESC",
                 $batch_id
             );
             
@@ -404,6 +608,7 @@ final class Backup_Manager {
                 } else {
                     $failed++;
                     $errors[] = [
+                        'source' => $backup['source'],
                         'post_id' => $backup['post_id'],
                         'meta_key' => $backup['meta_key'],
                         'error' => $result['error']
@@ -433,16 +638,17 @@ final class Backup_Manager {
     }
     
     /**
-     * Cleanup old revisions for a specific post meta
+     * Cleanup old revisions for a specific object and key
      */
-    private function cleanup_old_revisions(int $post_id, string $meta_key): void {
+    private function cleanup_old_revisions(int $post_id, string $meta_key, string $source): void {
         global $wpdb;
         
         $query = $wpdb->prepare(
             "SELECT id FROM {$this->backup_table} 
-             WHERE post_id = %d AND meta_key = %s 
+             WHERE source = %s AND post_id = %d AND meta_key = %s 
              ORDER BY created_at DESC 
              LIMIT 99999 OFFSET %d",
+            $source,
             $post_id,
             $meta_key,
             self::MAX_REVISIONS
@@ -455,6 +661,7 @@ final class Backup_Manager {
             $wpdb->query("DELETE FROM {$this->backup_table} WHERE id IN ({$ids})");
             
             $this->logger->info('Cleaned up old revisions', [
+                'source' => $source,
                 'post_id' => $post_id,
                 'meta_key' => $meta_key,
                 'deleted_count' => count($old_revisions)
@@ -497,7 +704,9 @@ final class Backup_Manager {
             $data,
             [
                 '%s', // revision_id
+                '%s', // source
                 '%d', // post_id
+                '%d', // meta_id
                 '%s', // meta_key
                 '%s', // old_value
                 '%s', // new_value
@@ -531,6 +740,74 @@ final class Backup_Manager {
         return substr($value, 0, $max_length) . '...';
     }
     
+    /**
+     * Format a backup table row for the admin app
+     */
+    private function format_backup_row(array $row): array {
+        return [
+            'revision_id' => $row['revision_id'],
+            'source' => $row['source'],
+            'post_id' => (int) $row['post_id'],
+            // Only post sources join a title; the others are looked up one object at a time
+            'post_title' => $row['post_title'] ?? $this->sources->title($this->sources->get($row['source']), (int) $row['post_id'], $row['meta_key']),
+            'meta_key' => $row['meta_key'],
+            'old_value' => $row['old_value'],
+            'new_value' => $row['new_value'],
+            'operation' => $this->resolve_operation($row['batch_id']),
+            'batch_id' => $row['batch_id'],
+            'actor_id' => (int) $row['actor_id'],
+            'actor_name' => $row['actor_name'],
+            'created_at' => $row['created_at'],
+            'old_value_length' => strlen($row['old_value']),
+            'new_value_length' => strlen($row['new_value']),
+            'value_excerpt' => $this->create_value_excerpt($row['old_value']),
+            'is_latest' => !empty($row['is_latest'])
+        ];
+    }
+
+    /**
+     * Derive the operation type from the batch ID prefix
+     */
+    private function resolve_operation(?string $batch_id): string {
+        if ($batch_id !== null && strpos($batch_id, 'restore_') === 0) {
+            return 'restore';
+        }
+
+        if ($batch_id !== null && strpos($batch_id, 'wcfdr_row_') === 0) {
+            return 'manual';
+        }
+
+        if ($batch_id !== null && strpos($batch_id, 'wcfdr_import_') === 0) {
+            return 'import';
+        }
+
+        return 'update';
+    }
+
+    /**
+     * Validate backup list parameters
+     */
+    private function validate_list_params(array $params): array {
+        $validated = [];
+
+        $source = $this->sanitizer->sanitize_text_field($params['source'] ?? '');
+        $validated['source'] = in_array($source, \WCFDR\Search\Data_Source::SOURCES, true) ? $source : '';
+        $validated['post_id'] = intval($params['post_id'] ?? 0);
+        $validated['meta_key'] = $this->sanitizer->sanitize_text_field($params['meta_key'] ?? '');
+        $validated['batch_id'] = $this->sanitizer->sanitize_text_field($params['batch_id'] ?? '');
+        $validated['actor'] = $this->sanitizer->sanitize_text_field($params['actor'] ?? '');
+        $validated['page'] = max(1, intval($params['page'] ?? 1));
+        $validated['per_page'] = min(200, max(1, intval($params['per_page'] ?? 20)));
+
+        // Dates are accepted as Y-m-d only
+        foreach (['date_from', 'date_to'] as $field) {
+            $date = $this->sanitizer->sanitize_text_field($params[$field] ?? '');
+            $validated[$field] = preg_match('/^\d{4}-\d{2}-\d{2}$/', $date) ? $date : '';
+        }
+
+        return $validated;
+    }
+
     /**
      * Validate backup parameters
      */
@@ -538,15 +815,22 @@ final class Backup_Manager {
         $validated = [];
         
         // Required fields
+        $validated['source'] = $this->sanitizer->sanitize_text_field($params['source'] ?? '') ?: 'postmeta';
         $validated['post_id'] = intval($params['post_id'] ?? 0);
         $validated['meta_key'] = $this->sanitizer->sanitize_text_field($params['meta_key'] ?? '');
         $validated['old_value'] = $params['old_value'] ?? '';
         
-        if (!$validated['post_id'] || empty($validated['meta_key'])) {
-            throw new \InvalidArgumentException('Post ID and meta key are required');
+        if (!in_array($validated['source'], \WCFDR\Search\Data_Source::SOURCES, true)) {
+            throw new \InvalidArgumentException('Unknown data source: ' . $validated['source']);
+        }
+        
+        // Options belong to no object, so only they are backed up without an ID
+        if ((!$validated['post_id'] && $validated['source'] !== 'options') || empty($validated['meta_key'])) {
+            throw new \InvalidArgumentException('Object ID and key are required');
         }
         
-        // Optional fields
+        // Optional fields; without a row id the backup is restored to the object's first row under the key
+        $validated['meta_id'] = max(0, intval($params['meta_id'] ?? 0));
         $validated['new_value'] = $params['new_value'] ?? '';
         $validated['batch_id'] = $this->sanitizer->sanitize_text_field($params['batch_id'] ?? null);
         
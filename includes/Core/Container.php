@@ -97,6 +97,21 @@ final class Container {
             case 'backup':
                 return \WCFDR\Backup\Backup_Manager::getInstance();
                 
+            case 'recipes':
+                return \WCFDR\Recipe\Recipe_Manager::getInstance();
+                
+            case 'export':
+                return \WCFDR\Export\Export_Manager::getInstance();
+                
+            case 'import':
+                return \WCFDR\Import\Mapping_Import::getInstance();
+                
+            case 'sources':
+                return new \WCFDR\Search\Data_Source();
+                
+            case 'query_filter':
+                return new \WCFDR\Search\Query_Filter();
+                
             case 'admin':
                 return new \WCFDR\Admin\Admin_Controller();
                 
@@ -120,7 +135,7 @@ final class Container {
     public function has(string $service): bool {
         $available_services = [
             'database', 'logger', 'cache', 'validator', 'sanitizer',
-            'search', 'replace', 'backup', 'admin', 'rest',
+            'search', 'replace', 'backup', 'recipes', 'export', 'import', 'sources', 'query_filter', 'admin', 'rest',
             'string_helper', 'url_helper'
         ];
         
@@ -32,6 +32,9 @@ class Uninstaller {
         
         // Remove options
         $this->remove_options();
+        
+        // Remove per-user preferences
+        $this->remove_user_meta();
     }
     
     /**
@@ -57,10 +60,18 @@ class Uninstaller {
             'wcfdr_enable_auto_suggest',
             'wcfdr_enable_progress_bar',
             'wcfdr_enable_keyboard_shortcuts',
+            'wcfdr_recipes',
         ];
         
         foreach ($options as $option) {
             delete_option($option);
         }
     }
+    
+    /**
+     * Remove user meta
+     */
+    private function remove_user_meta() {
+        delete_metadata('user', 0, 'wcfdr_table_columns', '', true);
+    }
 }
@@ -93,6 +93,7 @@ final class Database_Manager {
         $backup_sql = "CREATE TABLE IF NOT EXISTS {$backup_table} (
             id bigint(20) unsigned NOT NULL AUTO_INCREMENT,
             revision_id varchar(50) NOT NULL,
+            source varchar(20) NOT NULL DEFAULT 'postmeta',
             post_id bigint(20) unsigned NOT NULL,
             meta_key varchar(255) NOT NULL,
             old_value longtext NOT NULL,
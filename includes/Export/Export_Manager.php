@@ -0,0 +1,335 @@
+<?php
+/**
+ * Search Result and Preview Exports
+ *
+ * @package WCFDR\Export
+ * @since 1.0.0
+ */
+
+namespace WCFDR\Export;
+
+use WCFDR\Search\Search_Engine;
+use WCFDR\Replace\Replace_Engine;
+
+/**
+ * Writes every row of a search or replace preview as CSV, JSON or NDJSON
+ *
+ * The rows are read and written in chunks walked by row id, so an export of any size
+ * holds one chunk in memory and starts downloading before the last chunk is read.
+ */
+final class Export_Manager {
+
+    /**
+     * Single instance
+     */
+    private static $instance = null;
+
+    /**
+     * Logger
+     */
+    private $logger;
+
+    /**
+     * File formats and their content types
+     */
+    public const FORMATS = [
+        'csv' => 'text/csv',
+        'json' => 'application/json',
+        'ndjson' => 'application/x-ndjson'
+    ];
+
+    /**
+     * Columns each kind of export can include, in file order
+     */
+    public const COLUMNS = [
+        'search' => ['post_id', 'post_title', 'post_type', 'post_status', 'meta_id', 'meta_key', 'meta_value', 'value_length', 'post_modified'],
+        'preview' => ['post_id', 'post_title', 'meta_id', 'meta_key', 'meta_before', 'meta_after', 'match_count', 'warnings']
+    ];
+
+    /**
+     * Rows read per query
+     */
+    private const CHUNK_SIZE = 500;
+
+    /**
+     * Private constructor
+     */
+    private function __construct() {
+        $this->logger = \WCFDR\Core\Container::getInstance()->get('logger');
+    }
+
+    /**
+     * Prevent cloning
+     */
+    private function __clone() {}
+
+    /**
+     * Prevent unserialization
+     */
+    public function __wakeup() {
+        throw new \Exception("Cannot unserialize singleton");
+    }
+
+    /**
+     * Get single instance
+     */
+    public static function getInstance(): self {
+        if (self::$instance === null) {
+            self::$instance = new self();
+        }
+        return self::$instance;
+    }
+
+    /**
+     * Initialize export manager
+     */
+    public function init(): void {
+        // AJAX handlers are registered in the main plugin file
+    }
+
+    /**
+     * Send an export as a file download
+     *
+     * The parameters are those of the search or preview being exported, plus an "export" entry
+     * naming the kind, format and columns. The first chunk is read before anything is sent, so bad
+     * parameters throw while a JSON error can still be returned; a later failure ends the file early.
+     */
+    public function stream(array $params): void {
+        $validated = $this->validate_export_params($params['export'] ?? []);
+        $fetch = $validated['kind'] === 'preview'
+            ? $this->preview_fetcher($params)
+            : $this->search_fetcher($params);
+
+        $chunk = $fetch(0);
+
+        $this->send_headers($validated, sanitize_key($params['source'] ?? '') ?: 'postmeta');
+        $output = fopen('php://output', 'w');
+        $written = 0;
+
+        try {
+            $this->write_start($output, $validated);
+
+            while (true) {
+                foreach ($chunk['rows'] as $row) {
+                    $this->write_row($output, $validated, $this->pick_columns($row, $validated['columns']), $written === 0);
+                    $written++;
+                }
+                flush();
+
+                if (!$chunk['has_more']) {
+                    break;
+                }
+                $chunk = $fetch($chunk['next_cursor']);
+            }
+
+            $this->write_end($output, $validated);
+
+            $this->logger->info('Export completed', [
+                'user_id' => get_current_user_id(),
+                'kind' => $validated['kind'],
+                'format' => $validated['format'],
+                'rows' => $written
+            ]);
+        } catch (\Exception $e) {
+            $this->logger->error('Export failed after ' . $written . ' rows: ' . $e->getMessage(), [
+                'user_id' => get_current_user_id(),
+                'kind' => $validated['kind'],
+                'trace' => $e->getTraceAsString()
+            ]);
+        }
+
+        fclose($output);
+    }
+
+    /**
+     * Validate the kind, format and columns of an export
+     */
+    private function validate_export_params($export): array {
+        $export = is_array($export) ? $export : [];
+
+        $kind = sanitize_key($export['kind'] ?? 'search');
+        if (!isset(self::COLUMNS[$kind])) {
+            throw new \InvalidArgumentException('Unknown export kind: ' . $kind);
+        }
+
+        $format = sanitize_key($export['format'] ?? 'csv');
+        if (!isset(self::FORMATS[$format])) {
+            throw new \InvalidArgumentException('Unknown export format: ' . $format);
+        }
+
+        // Requested columns come out in the standard order; none requested means all of them
+        $requested = is_array($export['columns'] ?? null) ? array_map('sanitize_key', $export['columns']) : [];
+        $unknown = array_diff($requested, self::COLUMNS[$kind]);
+        if (!empty($unknown)) {
+            throw new \InvalidArgumentException('Unknown export column: ' . reset($unknown));
+        }
+        $columns = empty($requested) ? self::COLUMNS[$kind] : array_values(array_intersect(self::COLUMNS[$kind], $requested));
+
+        return [
+            'kind' => $kind,
+            'format' => $format,
+            'columns' => $columns
+        ];
+    }
+
+    /**
+     * Reads the search's rows after a cursor
+     *
+     * The page, sort and pagination of the table are ignored: an export lists every row, in row id order.
+     */
+    private function search_fetcher(array $params): callable {
+        $search_params = array_diff_key($params, array_flip(['export', 'page', 'per_page', 'orderby', 'order', 'pagination', 'cursor']));
+
+        return function (int $cursor) use ($search_params): array {
+            $results = Search_Engine::getInstance()->search([
+                'per_page' => self::CHUNK_SIZE,
+                'page' => 1,
+                'after_meta_id' => $cursor,
+                'skip_cache' => true
+            ] + $search_params);
+
+            if (!$results['success']) {
+                throw new \Exception($results['error'] ?? 'Search failed');
+            }
+
+            $rows = $results['rows'];
+
+            return [
+                'rows' => $rows,
+                'next_cursor' => empty($rows) ? $cursor : (int) end($rows)['meta_id'],
+                'has_more' => $results['total'] > count($rows)
+            ];
+        };
+    }
+
+    /**
+     * Reads the preview rows of a replacement after a cursor
+     *
+     * Rows the replacement leaves alone are skipped, as in the preview itself.
+     */
+    private function preview_fetcher(array $params): callable {
+        $replace_params = ['limit' => self::CHUNK_SIZE] + array_diff_key($params, array_flip(['export', 'confirm', 'cursor', 'limit']));
+
+        return function (int $cursor) use ($replace_params): array {
+            return Replace_Engine::getInstance()->preview_chunk($replace_params, $cursor);
+        };
+    }
+
+    /**
+     * Download headers, with output buffering turned off so each chunk goes out as it is written
+     */
+    private function send_headers(array $validated, string $source): void {
+        while (ob_get_level() > 0) {
+            ob_end_clean();
+        }
+
+        $filename = sprintf('wcfdr-%s-%s-%s.%s', $validated['kind'], $source, gmdate('Ymd-His'), $validated['format']);
+
+        nocache_headers();
+        header('Content-Type: ' . self::FORMATS[$validated['format']] . '; charset=utf-8');
+        header('Content-Disposition: attachment; filename="' . $filename . '"');
+        header('X-Content-Type-Options: nosniff');
+
+        // Large previews run every replacement again, which can outlast the default time limit
+        set_time_limit(0);
+    }
+
+    /**
+     * The chosen columns of a row, with values as they should be written
+     */
+    private function pick_columns(array $row, array $columns): array {
+        $picked = [];
+        foreach ($columns as $column) {
+            switch ($column) {
+                case 'value_length':
+                    $picked[$column] = mb_strlen((string) ($row['meta_value'] ?? ''));
+                    break;
+                case 'post_id':
+                case 'meta_id':
+                case 'match_count':
+                    $picked[$column] = (int) ($row[$column] ?? 0);
+                    break;
+                case 'warnings':
+                    $picked[$column] = array_values((array) ($row['warnings'] ?? []));
+                    break;
+                default:
+                    $picked[$column] = $row[$column] ?? null;
+            }
+        }
+        return $picked;
+    }
+
+    /**
+     * Write what comes before the first row: the CSV header line, or the opening bracket of a JSON array
+     */
+    private function write_start($output, array $validated): void {
+        if ($validated['format'] === 'csv') {
+            // A byte order mark lets spreadsheet programs read the file as UTF-8
+            fwrite($output, "\xEF\xBB\xBF");
+            fputcsv($output, $validated['columns']);
+        } elseif ($validated['format'] === 'json') {
+            fwrite($output, '[');
+        }
+    }
+
+    /**
+     * Write one row in the export's format
+     */
+    private function write_row($output, array $validated, array $row, bool $is_first): void {
+        switch ($validated['format']) {
+            case 'csv':
+                fputcsv($output, array_map([$this, 'csv_cell'], $row));
+                break;
+            case 'json':
+                fwrite($output, ($is_first ? "\n" : ",\n") . $this->encode($row));
+                break;
+            default:
+                fwrite($output, $this->encode($row) . "\n");
+        }
+    }
+
+    /**
+     * Write what comes after the last row
+     */
+    private function write_end($output, array $validated): void {
+        if ($validated['format'] === 'json') {
+            fwrite($output, "\n]\n");
+        }
+    }
+
+    /**
+     * A value as a CSV cell
+     *
+     * Lists are joined, and text a spreadsheet would run as a formula is prefixed with a quote,
+     * so an export opened for review cannot execute anything stored in the data.
+     */
+    private function csv_cell($value): string {
+        if (is_array($value)) {
+            $value = implode(' ', $value);
+        }
+        $value = (string) $value;
+
+        if ($value !== '' && strpos("=+-@\t\r", $value[0]) !== false && !is_numeric($value)) {
+            return "'" . $value;
+        }
+        return $value;
+    }
+
+    /**
+     * A row as one line of JSON
+     */
+    private function encode(array $row): string {
+        $json = wp_json_encode($row, JSON_UNESCAPED_SLASHES | JSON_UNESCAPED_UNICODE);
+        if ($json === false) {
+            throw new \Exception('Failed to encode row ' . ($row['meta_id'] ?? ''));
+        }
+        return $json;
+    }
+
+    /**
+     * Reset singleton (for testing)
+     */
+    public static function reset(): void {
+        self::$instance = null;
+    }
+}
@@ -0,0 +1,451 @@
+<?php
+/**
+ * Mapping File Imports
+ *
+ * @package WCFDR\Import
+ * @since 1.0.0
+ */
+
+namespace WCFDR\Import;
+
+use WCFDR\Replace\Replace_Engine;
+
+/**
+ * Applies a mapping of rows to new values, as read from a spreadsheet
+ *
+ * Each mapping row names the rows it changes and what they become:
+ * - With an object ID, that object's rows (under the key, when one is given) change: the old
+ *   value is replaced wherever it occurs inside them, or with no old value the whole value of
+ *   the key is overwritten.
+ * - Without one, rows whose whole value is the old value (under the key, when one is given)
+ *   get the new value. Options belong to no object, so an option key alone overwrites that option.
+ *
+ * A preview resolves every mapping row against the live data without writing anything. Running
+ * the import resolves them again and only writes values still as they were in the preview,
+ * backing every write up under one batch that can be restored as a whole.
+ */
+final class Mapping_Import {
+
+    /**
+     * Single instance
+     */
+    private static $instance = null;
+
+    /**
+     * Logger
+     */
+    private $logger;
+
+    /**
+     * Most mapping rows in one import
+     */
+    private const MAX_ROWS = 5000;
+
+    /**
+     * Most values one import changes, as for an explicit row selection
+     */
+    private const MAX_CHANGES = 5000;
+
+    /**
+     * Most stored rows a single mapping row may match
+     */
+    private const MAX_MATCHES_PER_ROW = 100;
+
+    /**
+     * Private constructor
+     */
+    private function __construct() {
+        $this->logger = \WCFDR\Core\Container::getInstance()->get('logger');
+    }
+
+    /**
+     * Prevent cloning
+     */
+    private function __clone() {}
+
+    /**
+     * Prevent unserialization
+     */
+    public function __wakeup() {
+        throw new \Exception("Cannot unserialize singleton");
+    }
+
+    /**
+     * Get single instance
+     */
+    public static function getInstance(): self {
+        if (self::$instance === null) {
+            self::$instance = new self();
+        }
+        return self::$instance;
+    }
+
+    /**
+     * Initialize mapping import
+     */
+    public function init(): void {
+        // AJAX handlers are registered in the main plugin file
+    }
+
+    /**
+     * Resolve every mapping row against the live data and report what it would change
+     *
+     * Each change carries a checksum of the value it was worked out from, which the import
+     * hands back so values changed in the meantime are left alone.
+     */
+    public function preview(array $params): array {
+        try {
+            $validated = $this->validate_import_params($params);
+            $resolved = $this->resolve($validated);
+
+            $rows = [];
+            $ready = 0;
+            $errors = 0;
+            foreach ($resolved as $row) {
+                $ready += $row['status'] === 'ready' ? 1 : 0;
+                $errors += $row['status'] === 'error' ? 1 : 0;
+                $row['changes'] = array_map(function ($change) {
+                    $change['checksum'] = md5($change['meta_before']);
+                    return $change;
+                }, $row['changes']);
+                $rows[] = $row;
+            }
+
+            return [
+                'success' => true,
+                'source' => $validated['source'],
+                'rows' => $rows,
+                'total_rows' => count($rows),
+                'ready_rows' => $ready,
+                'error_rows' => $errors,
+                'total_changes' => array_sum(array_map(function ($row) {
+                    return count($row['changes']);
+                }, $rows))
+            ];
+
+        } catch (\Exception $e) {
+            $this->logger->error('Import preview failed: ' . $e->getMessage(), [
+                'trace' => $e->getTraceAsString()
+            ]);
+
+            return [
+                'success' => false,
+                'error' => $e->getMessage()
+            ];
+        }
+    }
+
+    /**
+     * Write the changes of a previewed import as one backed-up batch
+     *
+     * Only values listed in the preview's checksums, and still as they were then, are written.
+     */
+    public function execute(array $params): array {
+        try {
+            $validated = $this->validate_import_params($params);
+
+            $expected = json_decode(stripslashes($params['expected'] ?? ''), true);
+            if (!is_array($expected) || empty($expected)) {
+                throw new \InvalidArgumentException('Preview the import before running it');
+            }
+
+            $resolved = $this->resolve($validated);
+            $def = $validated['def'];
+            $batch_id = uniqid('wcfdr_import_', true);
+            $updated = 0;
+            $failed = 0;
+            $skipped = 0;
+            $items = [];
+
+            foreach ($resolved as $row) {
+                foreach ($row['changes'] as $change) {
+                    $item = [
+                        'line' => $row['line'],
+                        'post_id' => $change['post_id'],
+                        'meta_id' => $change['meta_id'],
+                        'meta_key' => $change['meta_key']
+                    ];
+
+                    $checksum = $expected[$change['meta_id']] ?? null;
+                    if ($checksum === null || $checksum !== md5($change['meta_before'])) {
+                        $skipped++;
+                        $items[] = $item + [
+                            'status' => 'skipped',
+                            'message' => $checksum === null ? 'Not in the preview' : 'Changed since the preview'
+                        ];
+                        continue;
+                    }
+
+                    try {
+                        $backup_result = \WCFDR\Core\Container::getInstance()->get('backup')->create_backup([
+                            'source' => $def['source'],
+                            'post_id' => $change['post_id'],
+                            'meta_id' => $change['meta_id'],
+                            'meta_key' => $change['meta_key'],
+                            'old_value' => $change['meta_before'],
+                            'new_value' => $change['meta_after'],
+                            'batch_id' => $batch_id
+                        ]);
+
+                        if (!$backup_result['success']) {
+                            throw new \Exception('Failed to create backup: ' . $backup_result['error']);
+                        }
+
+                        if (!\WCFDR\Core\Container::getInstance()->get('sources')->write_row($def, $change, $change['meta_after'])) {
+                            throw new \Exception('Failed to update ' . strtolower($def['label']));
+                        }
+
+                        $updated++;
+                        $items[] = $item + ['status' => 'updated'];
+
+                    } catch (\Exception $e) {
+                        $failed++;
+                        $items[] = $item + ['status' => 'failed', 'message' => $e->getMessage()];
+                    }
+                }
+            }
+
+            // Cached searches and previews no longer reflect the stored values
+            if ($updated > 0) {
+                \WCFDR\Core\Container::getInstance()->get('cache')->clear();
+            }
+
+            $this->logger->info('Import completed', [
+                'user_id' => get_current_user_id(),
+                'source' => $def['source'],
+                'batch_id' => $batch_id,
+                'rows' => count($validated['rows']),
+                'updated' => $updated,
+                'failed' => $failed,
+                'skipped' => $skipped
+            ]);
+
+            return [
+                'success' => true,
+                'ok' => $failed === 0,
+                'batch_id' => $batch_id,
+                'updated' => $updated,
+                'failed' => $failed,
+                'skipped' => $skipped,
+                'items' => $items
+            ];
+
+        } catch (\Exception $e) {
+            $this->logger->error('Import failed: ' . $e->getMessage(), [
+                'trace' => $e->getTraceAsString()
+            ]);
+
+            return [
+                'success' => false,
+                'error' => $e->getMessage()
+            ];
+        }
+    }
+
+    /**
+     * Validate the source and mapping rows of an import
+     *
+     * Rows arrive as JSON, since a large spreadsheet would exceed max_input_vars as form fields.
+     */
+    private function validate_import_params(array $params): array {
+        $source = sanitize_key($params['source'] ?? '') ?: 'postmeta';
+        if (!in_array($source, \WCFDR\Search\Data_Source::SOURCES, true)) {
+            throw new \InvalidArgumentException('Unknown data source: ' . $source);
+        }
+
+        $def = \WCFDR\Core\Container::getInstance()->get('sources')->get($source);
+        if (!\WCFDR\Core\Container::getInstance()->get('sources')->can_access($def)) {
+            throw new \InvalidArgumentException('You are not allowed to change ' . strtolower($def['label']));
+        }
+
+        $rows = json_decode(stripslashes($params['rows'] ?? ''), true);
+        if (!is_array($rows) || empty($rows)) {
+            throw new \InvalidArgumentException('The mapping has no rows');
+        }
+        if (count($rows) > self::MAX_ROWS) {
+            throw new \InvalidArgumentException('A mapping can have at most ' . self::MAX_ROWS . ' rows');
+        }
+
+        $validated = [];
+        foreach (array_values($rows) as $index => $row) {
+            $row = is_array($row) ? $row : [];
+            $validated[] = [
+                // The line in the uploaded file, so problems can be found there
+                'line' => max(1, intval($row['line'] ?? $index + 1)),
+                'post_id' => max(0, intval($row['post_id'] ?? 0)),
+                'meta_key' => sanitize_text_field((string) ($row['meta_key'] ?? '')),
+                'old_value' => $this->clean_value($row['old_value'] ?? ''),
+                'new_value' => array_key_exists('new_value', $row) ? $this->clean_value($row['new_value']) : null
+            ];
+        }
+
+        return [
+            'source' => $source,
+            'def' => $def,
+            'rows' => $validated
+        ];
+    }
+
+    /**
+     * A value from the file, kept exactly as written
+     *
+     * Values are data: encoded octets such as %20, markup and line breaks all have to reach the
+     * preview and the database unchanged. Every query they go into is prepared.
+     */
+    private function clean_value($value): string {
+        return is_scalar($value) ? (string) $value : '';
+    }
+
+    /**
+     * Work out the changes of every mapping row
+     *
+     * A row is 'ready' with changes to make, 'unchanged' when its values already are as mapped
+     * and 'error' when it cannot be applied. A stored value two rows would change is an error on
+     * the second, since the outcome would depend on the order of the file.
+     */
+    private function resolve(array $validated): array {
+        $def = $validated['def'];
+        $claimed = [];
+        $change_count = 0;
+        $resolved = [];
+
+        foreach ($validated['rows'] as $row) {
+            $result = ['line' => $row['line'], 'status' => 'ready', 'message' => '', 'changes' => []];
+
+            try {
+                $changes = $this->resolve_row($def, $row);
+
+                foreach ($changes as $change) {
+                    if (isset($claimed[$change['meta_id']])) {
+                        throw new \InvalidArgumentException("Line {$claimed[$change['meta_id']]} already changes row {$change['meta_id']}");
+                    }
+                }
+                foreach ($changes as $change) {
+                    $claimed[$change['meta_id']] = $row['line'];
+                }
+
+                $change_count += count($changes);
+                if ($change_count > self::MAX_CHANGES) {
+                    throw new \InvalidArgumentException('An import can change at most ' . self::MAX_CHANGES . ' values');
+                }
+
+                $result['changes'] = $changes;
+                if (empty($changes)) {
+                    $result['status'] = 'unchanged';
+                    $result['message'] = 'Already as mapped';
+                }
+
+            } catch (\InvalidArgumentException $e) {
+                $result['status'] = 'error';
+                $result['message'] = $e->getMessage();
+            }
+
+            $resolved[] = $result;
+        }
+
+        return $resolved;
+    }
+
+    /**
+     * The changes one mapping row makes, leaving out stored values it would not alter
+     */
+    private function resolve_row(array $def, array $row): array {
+        global $wpdb;
+
+        if ($row['new_value'] === null) {
+            throw new \InvalidArgumentException('No new value');
+        }
+
+        $has_object = $def['object_id'] !== '0';
+        if ($row['post_id'] > 0 && !$has_object) {
+            throw new \InvalidArgumentException(ucfirst(strtolower($def['label'])) . ' belong to no object; leave the object ID empty');
+        }
+
+        $where = [];
+        $values = [];
+        if ($row['post_id'] > 0) {
+            $where[] = "{$def['object_id']} = %d";
+            $values[] = $row['post_id'];
+        }
+        if ($row['meta_key'] !== '') {
+            $where[] = "{$def['key']} = %s";
+            $values[] = $row['meta_key'];
+        }
+
+        // Text found inside the values of one object, a whole value anywhere else, or the whole value of a key.
+        // BINARY keeps both comparisons case-sensitive under the usual case-insensitive collations.
+        if ($row['post_id'] > 0 && $row['old_value'] !== '') {
+            $mode = 'find';
+            $where[] = "{$def['value']} LIKE BINARY %s";
+            $values[] = '%' . $wpdb->esc_like($row['old_value']) . '%';
+        } elseif ($row['old_value'] !== '') {
+            $mode = 'match';
+            $where[] = "BINARY {$def['value']} = %s";
+            $values[] = $row['old_value'];
+        } elseif ($row['meta_key'] !== '' && ($row['post_id'] > 0 || !$has_object)) {
+            $mode = 'overwrite';
+        } else {
+            throw new \InvalidArgumentException($has_object
+                ? 'Give an object ID and key to overwrite, or an old value to replace'
+                : 'Give a key to overwrite, or an old value to replace');
+        }
+
+        $stored = $wpdb->get_results($wpdb->prepare(
+            "SELECT {$def['id']} as meta_id, {$def['object_id']} as post_id, {$def['title']} as post_title,
+                    {$def['key']} as meta_key, {$def['value']} as meta_value
+             FROM {$def['from']}
+             WHERE " . implode(' AND ', $where) . "
+             ORDER BY {$def['id']} ASC
+             LIMIT %d",
+            array_merge($values, [self::MAX_MATCHES_PER_ROW + 1])
+        ), ARRAY_A);
+
+        if ($stored === null) {
+            throw new \Exception('Failed to look up the rows of line ' . $row['line']);
+        }
+        if (empty($stored)) {
+            throw new \InvalidArgumentException('No stored value matches');
+        }
+        if (count($stored) > self::MAX_MATCHES_PER_ROW) {
+            throw new \InvalidArgumentException('Matches more than ' . self::MAX_MATCHES_PER_ROW . ' stored values; narrow it with an object ID or key');
+        }
+
+        $changes = [];
+        foreach ($stored as $match) {
+            $before = (string) $match['meta_value'];
+            $warnings = [];
+
+            if ($mode === 'find') {
+                $replaced = Replace_Engine::getInstance()->replace_text($before, $row['old_value'], $row['new_value']);
+                $after = $replaced['value'];
+                $warnings = $replaced['warnings'];
+            } else {
+                $after = $row['new_value'];
+            }
+
+            // Rows already holding the new value stay as they are
+            if ($after === $before) {
+                continue;
+            }
+
+            $changes[] = [
+                'meta_id' => (int) $match['meta_id'],
+                'post_id' => (int) $match['post_id'],
+                'post_title' => (string) $match['post_title'],
+                'meta_key' => (string) $match['meta_key'],
+                'meta_before' => $before,
+                'meta_after' => $after,
+                'warnings' => $warnings
+            ];
+        }
+
+        return $changes;
+    }
+
+    /**
+     * Reset singleton (for testing)
+     */
+    public static function reset(): void {
+        self::$instance = null;
+    }
+}
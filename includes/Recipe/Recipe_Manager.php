@@ -0,0 +1,262 @@
+<?php
+/**
+ * Saved Replace Recipes
+ *
+ * @package WCFDR\Recipe
+ * @since 1.0.0
+ */
+
+namespace WCFDR\Recipe;
+
+use WCFDR\Sanitizer\Sanitizer;
+use WCFDR\Logger\Logger;
+use WCFDR\Replace\Replace_Engine;
+
+/**
+ * Named replace settings stored in one option, so every admin sees the same recipes
+ */
+final class Recipe_Manager {
+    
+    /**
+     * Single instance
+     */
+    private static $instance = null;
+    
+    /**
+     * Sanitizer
+     */
+    private $sanitizer;
+    
+    /**
+     * Logger
+     */
+    private $logger;
+    
+    /**
+     * Option holding every recipe, keyed by ID
+     */
+    private const OPTION = 'wcfdr_recipes';
+    
+    /**
+     * Maximum number of stored recipes
+     */
+    private const MAX_RECIPES = 200;
+    
+    /**
+     * Placeholders are written as {{name}} and filled in when the recipe is run
+     */
+    private const PLACEHOLDER_PATTERN = '/\{\{\s*([a-z][a-z0-9_]*)\s*\}\}/i';
+    
+    /**
+     * Fields that may contain placeholders
+     */
+    private const TEMPLATE_FIELDS = ['find', 'replace', 'post_type', 'meta_key'];
+    
+    /**
+     * Private constructor
+     */
+    private function __construct() {
+        $this->sanitizer = \WCFDR\Core\Container::getInstance()->get('sanitizer');
+        $this->logger = \WCFDR\Core\Container::getInstance()->get('logger');
+    }
+    
+    /**
+     * Prevent cloning
+     */
+    private function __clone() {}
+    
+    /**
+     * Prevent unserialization
+     */
+    public function __wakeup() {
+        throw new \Exception("Cannot unserialize singleton");
+    }
+    
+    /**
+     * Get single instance
+     */
+    public static function getInstance(): self {
+        if (self::$instance === null) {
+            self::$instance = new self();
+        }
+        return self::$instance;
+    }
+    
+    /**
+     * Initialize recipe manager
+     */
+    public function init(): void {
+        // AJAX handlers are registered in the main plugin file
+    }
+    
+    /**
+     * Every saved recipe, sorted by name
+     */
+    public function get_recipes(): array {
+        $recipes = array_values($this->load());
+        usort($recipes, function ($a, $b) {
+            return strcasecmp($a['name'], $b['name']);
+        });
+        
+        return [
+            'success' => true,
+            'recipes' => $recipes
+        ];
+    }
+    
+    /**
+     * Create a recipe, or update the one with the given ID
+     */
+    public function save_recipe(array $params): array {
+        try {
+            $validated = $this->validate_recipe_params($params);
+            $recipes = $this->load();
+            $id = $validated['id'];
+            
+            if ($id !== '' && !isset($recipes[$id])) {
+                throw new \InvalidArgumentException('Recipe not found');
+            }
+            
+            foreach ($recipes as $other) {
+                if ($other['id'] !== $id && strcasecmp($other['name'], $validated['name']) === 0) {
+                    throw new \InvalidArgumentException('A recipe with this name already exists');
+                }
+            }
+            
+            if ($id === '' && count($recipes) >= self::MAX_RECIPES) {
+                throw new \InvalidArgumentException('The recipe limit has been reached; delete unused recipes first');
+            }
+            
+            $current_user = wp_get_current_user();
+            $now = current_time('mysql');
+            $existing = $id !== '' ? $recipes[$id] : null;
+            if ($id === '') {
+                $id = wp_generate_uuid4();
+            }
+            
+            $recipe = [
+                'id' => $id,
+                'name' => $validated['name'],
+                'description' => $validated['description'],
+                'find' => $validated['find'],
+                'replace' => $validated['replace'],
+                'mode' => $validated['mode'],
+                'structured' => $validated['structured'],
+                'post_type' => $validated['post_type'],
+                'meta_key' => $validated['meta_key'],
+                'placeholders' => $this->build_placeholders($validated),
+                'created_by' => $existing['created_by'] ?? $current_user->display_name,
+                'created_at' => $existing['created_at'] ?? $now,
+                'updated_by' => $current_user->display_name,
+                'updated_at' => $now
+            ];
+            
+            $recipes[$id] = $recipe;
+            update_option(self::OPTION, $recipes, false);
+            
+            $this->logger->info($existing ? 'Recipe updated' : 'Recipe created', [
+                'recipe_id' => $id,
+                'name' => $recipe['name'],
+                'actor_id' => $current_user->ID
+            ]);
+            
+            return [
+                'success' => true,
+                'recipe' => $recipe
+            ];
+            
+        } catch (\Exception $e) {
+            return [
+                'success' => false,
+                'error' => $e->getMessage()
+            ];
+        }
+    }
+    
+    /**
+     * Delete a recipe
+     */
+    public function delete_recipe(string $id): array {
+        $recipes = $this->load();
+        
+        if (!isset($recipes[$id])) {
+            return [
+                'success' => false,
+                'error' => 'Recipe not found'
+            ];
+        }
+        
+        unset($recipes[$id]);
+        update_option(self::OPTION, $recipes, false);
+        
+        $this->logger->info('Recipe deleted', [
+            'recipe_id' => $id,
+            'actor_id' => get_current_user_id()
+        ]);
+        
+        return [
+            'success' => true,
+            'deleted' => $id
+        ];
+    }
+    
+    /**
+     * Stored recipes keyed by ID
+     */
+    private function load(): array {
+        $recipes = get_option(self::OPTION, []);
+        return is_array($recipes) ? $recipes : [];
+    }
+    
+    /**
+     * Validate recipe parameters
+     */
+    private function validate_recipe_params(array $params): array {
+        $validated = [
+            'id' => $this->sanitizer->sanitize_text_field($params['id'] ?? ''),
+            'name' => $this->sanitizer->sanitize_text_field($params['name'] ?? ''),
+            'description' => $this->sanitizer->sanitize_text_field($params['description'] ?? ''),
+            // Sanitized exactly as the replace engine will sanitize them when the recipe runs
+            'find' => $this->sanitizer->sanitize_text_field($params['find'] ?? ''),
+            'replace' => $this->sanitizer->sanitize_text_field($params['replace'] ?? ''),
+            'mode' => $this->sanitizer->sanitize_text_field($params['mode'] ?? 'plain'),
+            'structured' => (bool) ($params['structured'] ?? false),
+            'post_type' => $this->sanitizer->sanitize_text_field($params['post_type'] ?? ''),
+            'meta_key' => $this->sanitizer->sanitize_text_field($params['meta_key'] ?? ''),
+            'defaults' => is_array($params['defaults'] ?? null) ? $params['defaults'] : []
+        ];
+        
+        if ($validated['name'] === '') {
+            throw new \InvalidArgumentException('Recipe name is required');
+        }
+        if ($validated['find'] === '') {
+            throw new \InvalidArgumentException('Find is required');
+        }
+        if (!in_array($validated['mode'], Replace_Engine::REPLACE_MODES)) {
+            throw new \InvalidArgumentException('Invalid replace mode');
+        }
+        
+        return $validated;
+    }
+    
+    /**
+     * Placeholders in the order they first appear, each with its default value
+     */
+    private function build_placeholders(array $validated): array {
+        $placeholders = [];
+        
+        foreach (self::TEMPLATE_FIELDS as $field) {
+            preg_match_all(self::PLACEHOLDER_PATTERN, $validated[$field], $matches);
+            foreach ($matches[1] as $name) {
+                if (!isset($placeholders[$name])) {
+                    $placeholders[$name] = [
+                        'name' => $name,
+                        'default' => $this->sanitizer->sanitize_text_field($validated['defaults'][$name] ?? '')
+                    ];
+                }
+            }
+        }
+        
+        return array_values($placeholders);
+    }
+}
@@ -67,11 +67,36 @@ final class Replace_Engine {
      */
     private $cache;
     
+    /**
+     * Serialized/JSON walker for structure-aware replacements
+     */
+    private $structured_value;
+    
+    /**
+     * Data source definitions
+     */
+    private $sources;
+    
     /**
      * Regex timeout in milliseconds
      */
     private const REGEX_TIMEOUT = 5000;
     
+    /**
+     * Supported replace modes
+     */
+    public const REPLACE_MODES = ['plain', 'plain_cs', 'regex', 'url', 'url_segment', 'prefix_swap', 'full_text'];
+    
+    /**
+     * Largest sample a dry run accepts, in bytes
+     */
+    private const DRY_RUN_MAX_BYTES = 65536;
+    
+    /**
+     * Most steps one pipeline may chain
+     */
+    private const MAX_PIPELINE_STEPS = 20;
+    
     /**
      * Private constructor
      */
@@ -85,6 +110,8 @@ final class Replace_Engine {
         $this->string_helper = null;
         $this->url_helper = null;
         $this->cache = null;
+        $this->structured_value = null;
+        $this->sources = null;
     }
     
     /**
@@ -135,17 +162,21 @@ final class Replace_Engine {
             
             // Get search results for preview
             $search_engine = \WCFDR\Search\Search_Engine::getInstance();
-            $search_params = [
-                'post_type' => $validated['post_type'],
-                'meta_key' => $validated['meta_key'],
-                'value' => $validated['value_filter'] ?? '',
-                'case_sensitive' => $validated['case_sensitive'],
-                'regex' => $validated['regex'],
-                'per_page' => $validated['limit'] ?? 5000, // Use the actual limit, default to 5000 for bulk operations
-                'page' => 1
-            ];
             
-            $search_results = $search_engine->search($search_params);
+            if (!empty($validated['targets'])) {
+                // Explicitly selected rows bypass the filter search
+                $search_results = $search_engine->fetch_targets($validated['targets'], 0, $validated['limit'], $validated['scope']['source']);
+            } else {
+                $search_params = $validated['scope'] + [
+                    'value' => $validated['value_filter'] ?? '',
+                    'case_sensitive' => $validated['case_sensitive'],
+                    'regex' => $validated['regex'],
+                    'per_page' => $validated['limit'] ?? 5000, // Use the actual limit, default to 5000 for bulk operations
+                    'page' => 1
+                ];
+                
+                $search_results = $search_engine->search($search_params);
+            }
             
             if (!$search_results['success']) {
                 throw new \Exception($search_results['error'] ?? 'Search failed');
@@ -153,31 +184,33 @@ final class Replace_Engine {
             
             // Process preview for each row
             $preview_rows = [];
+            $total_matches = 0;
+            $changed_rows = 0;
             foreach ($search_results['rows'] as $row) {
-                $preview = $this->preview_single_replacement(
-                    $row['meta_value'],
-                    $validated['find'],
-                    $validated['replace'],
-                    $validated['mode']
-                );
+                $preview_row = $this->preview_row($row, $validated);
                 
-                if ($preview['will_change']) {
-                    $preview_rows[] = [
-                        'post_id' => $row['post_id'],
-                        'post_title' => $row['post_title'],
-                        'meta_before' => $row['meta_value'],
-                        'meta_after' => $preview['new_value'],
-                        'match_count' => $preview['match_count'],
-                        'changes' => $preview['changes']
-                    ];
+                if ($preview_row !== null) {
+                    $total_matches += $preview_row['match_count'];
+                    $changed_rows += $preview_row['meta_after'] !== $preview_row['meta_before'] ? 1 : 0;
+                    $preview_rows[] = $preview_row;
                 }
             }
             
             $result = [
                 'success' => true,
                 'rows' => $preview_rows,
-                'total' => count($preview_rows),
+                'total' => $changed_rows,
+                'total_matches' => $total_matches,
+                'total_rows' => (int) $search_results['total'],
+                'scanned_rows' => count($search_results['rows']),
                 'total_pages' => 1,
+                'source' => $validated['scope']['source'],
+                'mode' => $validated['mode'],
+                'structured' => $validated['structured'],
+                'find' => $validated['find'],
+                'replace' => $validated['replace'],
+                'steps' => $validated['steps'],
+                'has_changes' => $changed_rows > 0,
                 'preview_mode' => true
             ];
             
@@ -202,6 +235,52 @@ final class Replace_Engine {
         }
     }
     
+    /**
+     * Run one replacement against caller-supplied sample text without touching the database
+     *
+     * Find, replace and mode are sanitized exactly as preview() and execute() sanitize them, and
+     * returned, so the Live Tester can show what the server actually ran.
+     */
+    public function dry_run(array $params): array {
+        try {
+            $sanitizer = $this->get_sanitizer();
+            $validated = [
+                'find' => $sanitizer->sanitize_text_field($params['find'] ?? ''),
+                'replace' => $sanitizer->sanitize_text_field($params['replace'] ?? ''),
+                'mode' => $sanitizer->sanitize_text_field($params['mode'] ?? 'plain'),
+                'structured' => (bool) ($params['structured'] ?? false)
+            ];
+            $sample = wp_unslash($params['sample'] ?? '');
+            
+            if (empty($validated['find'])) {
+                throw new \InvalidArgumentException('Find is required');
+            }
+            if (!in_array($validated['mode'], self::REPLACE_MODES)) {
+                throw new \InvalidArgumentException('Invalid replace mode');
+            }
+            if (strlen($sample) > self::DRY_RUN_MAX_BYTES) {
+                throw new \InvalidArgumentException('The sample is too large for a dry run');
+            }
+            
+            $result = $this->replace_value($sample, $validated);
+            
+            return [
+                'success' => true,
+                'value' => $result['value'],
+                'format' => $result['format'],
+                'warnings' => $result['warnings'],
+                'find' => $validated['find'],
+                'replace' => $validated['replace']
+            ];
+            
+        } catch (\Exception $e) {
+            return [
+                'success' => false,
+                'error' => $e->getMessage()
+            ];
+        }
+    }
+    
     /**
      * Execute replacements
      */
@@ -214,19 +293,7 @@ final class Replace_Engine {
                 throw new \Exception('Confirmation required for execution');
             }
             
-            // Get search results for replacement
-            $search_engine = \WCFDR\Search\Search_Engine::getInstance();
-            $search_params = [
-                'post_type' => $validated['post_type'],
-                'meta_key' => $validated['meta_key'],
-                'value' => $validated['value_filter'] ?? '',
-                'case_sensitive' => $validated['case_sensitive'],
-                'regex' => $validated['regex'],
-                'per_page' => $validated['limit'] ?? 1000,
-                'page' => 1
-            ];
-            
-            $search_results = $search_engine->search($search_params);
+            $search_results = $this->fetch_chunk($validated, $validated['cursor']);
             
             if (!$search_results['success']) {
                 throw new \Exception($search_results['error'] ?? 'Search failed');
@@ -235,6 +302,16 @@ final class Replace_Engine {
             // Execute replacements
             $results = $this->execute_replacements($search_results['rows'], $validated);
             
+            // Cached searches and previews no longer reflect the stored values
+            if ($results['updated'] > 0) {
+                $this->get_cache()->clear();
+            }
+            
+            $processed = count($search_results['rows']);
+            $next_cursor = $processed > 0
+                ? (int) end($search_results['rows'])['meta_id']
+                : $validated['cursor'];
+            
             // Log the operation
             $this->get_logger()->info('Replace operation completed', [
                 'user_id' => get_current_user_id(),
@@ -244,10 +321,17 @@ final class Replace_Engine {
             
             return [
                 'success' => true,
+                'ok' => $results['failed'] === 0,
                 'updated' => $results['updated'],
                 'failed' => $results['failed'],
+                'skipped' => $results['skipped'],
                 'items' => $results['items'],
-                'backup_batch_id' => $results['backup_batch_id']
+                'batch_id' => $results['backup_batch_id'],
+                'backup_batch_id' => $results['backup_batch_id'],
+                'total_processed' => $processed,
+                'total_remaining' => max(0, $search_results['total'] - $processed),
+                'next_cursor' => $next_cursor,
+                'has_more' => $search_results['total'] > $processed
             ];
             
         } catch (\Exception $e) {
@@ -266,59 +350,128 @@ final class Replace_Engine {
         }
     }
     
+    /**
+     * Preview the next chunk of rows after a cursor, for callers that walk a whole scope such as exports
+     *
+     * Unlike preview(), nothing is cached and the limit sizes each chunk instead of capping the scope.
+     * Invalid parameters throw.
+     */
+    public function preview_chunk(array $params, int $cursor): array {
+        $validated = $this->validate_replace_params($params);
+        $search_results = $this->fetch_chunk($validated, $cursor);
+        
+        if (!$search_results['success']) {
+            throw new \Exception($search_results['error'] ?? 'Search failed');
+        }
+        
+        $preview_rows = [];
+        foreach ($search_results['rows'] as $row) {
+            $preview_row = $this->preview_row($row, $validated);
+            if ($preview_row !== null) {
+                $preview_rows[] = $preview_row;
+            }
+        }
+        
+        $scanned = count($search_results['rows']);
+        
+        return [
+            'rows' => $preview_rows,
+            'scanned_rows' => $scanned,
+            'next_cursor' => $scanned > 0 ? (int) end($search_results['rows'])['meta_id'] : $cursor,
+            'has_more' => $search_results['total'] > $scanned
+        ];
+    }
+    
+    /**
+     * Replace every exact, case-sensitive occurrence of a text inside a stored value
+     *
+     * Serialized and JSON values are rebuilt around their string leaves, as a structure-aware
+     * plain text step would; returns the new value, its format and any warnings.
+     */
+    public function replace_text(string $value, string $find, string $replace): array {
+        return $this->replace_step($value, [
+            'find' => $find,
+            'replace' => $replace,
+            'mode' => 'plain_cs',
+            'structured' => true
+        ]);
+    }
+    
+    /**
+     * The next chunk of rows in scope after the cursor, in row id order and bypassing the search cache
+     */
+    private function fetch_chunk(array $validated, int $cursor): array {
+        $search_engine = \WCFDR\Search\Search_Engine::getInstance();
+        
+        // Explicitly selected rows bypass the filter search
+        if (!empty($validated['targets'])) {
+            return $search_engine->fetch_targets($validated['targets'], $cursor, $validated['limit'], $validated['scope']['source']);
+        }
+        
+        return $search_engine->search($validated['scope'] + [
+            'value' => $validated['value_filter'] ?? '',
+            'case_sensitive' => $validated['case_sensitive'],
+            'regex' => $validated['regex'],
+            'per_page' => $validated['limit'] ?? 1000,
+            'page' => 1,
+            'after_meta_id' => $cursor,
+            'skip_cache' => true
+        ]);
+    }
+    
+    /**
+     * Preview row for one search row, or null when the replacement leaves it alone
+     *
+     * Rows that could not be parsed are kept so their warnings are seen.
+     */
+    private function preview_row(array $row, array $validated): ?array {
+        $preview = $this->preview_single_replacement($row['meta_value'], $validated);
+        
+        if (!$preview['will_change'] && empty($preview['warnings'])) {
+            return null;
+        }
+        
+        return [
+            'source' => $validated['scope']['source'],
+            'post_id' => $row['post_id'],
+            'post_title' => $row['post_title'],
+            'meta_id' => (int) $row['meta_id'],
+            'meta_key' => $row['meta_key'],
+            'meta_before' => $row['meta_value'],
+            'meta_after' => $preview['new_value'],
+            'match_count' => $preview['match_count'],
+            'changes' => $preview['changes'],
+            'warnings' => $preview['warnings']
+        ];
+    }
+    
     /**
      * Preview a single replacement
      */
-    private function preview_single_replacement(string $old_value, string $find, string $replace, string $mode): array {
+    private function preview_single_replacement(string $old_value, array $params): array {
         $changes = [];
+        $warnings = [];
         $match_count = 0;
-        
-        // Always decode HTML entities if content contains URL patterns or &amp;
-        if ($this->contains_url_patterns($old_value) || strpos($old_value, '&amp;') !== false) {
-            $old_value = $this->decode_html_entities($old_value);
-        }
         $new_value = $old_value;
         
         try {
-            switch ($mode) {
-                case 'plain':
-                    $new_value = $this->replace_plain_text($old_value, $find, $replace, false);
-                    break;
-                    
-                case 'plain_cs':
-                    $new_value = $this->replace_plain_text($old_value, $find, $replace, true);
-                    break;
-                    
-                case 'regex':
-                    $new_value = $this->replace_regex($old_value, $find, $replace);
-                    break;
-                    
-                case 'url':
-                    $new_value = $this->replace_url($old_value, $find, $replace);
-                    break;
-                    
-                case 'url_segment':
-                    $new_value = $this->replace_url_segment($old_value, $find, $replace);
-                    break;
-                    
-                case 'prefix_swap':
-                    $new_value = $this->replace_prefix_swap($old_value, $find, $replace);
-                    break;
-                    
-                case 'full_text':
-                    $new_value = $replace;
-                    break;
-                    
-                default:
-                    throw new \InvalidArgumentException("Unknown replace mode: {$mode}");
-            }
-            
-            $will_change = ($new_value !== $old_value);
+            $replaced = $this->replace_value($old_value, $params);
+            $new_value = $replaced['value'];
+            $match_count = $replaced['match_count'];
+            $warnings = $replaced['warnings'];
             
-            if ($will_change) {
+            if ($new_value !== $old_value) {
                 $changes[] = [
                     'type' => 'replacement',
-                    'description' => "Changed from '{$old_value}' to '{$new_value}'"
+                    'description' => $replaced['format'] === 'plain'
+                        ? "Changed from '{$old_value}' to '{$new_value}'"
+                        : "Replaced inside {$replaced['format']} string values"
+                ];
+            }
+            if (count($params['steps'] ?? []) > 1 && !empty($replaced['changed_steps'])) {
+                $changes[] = [
+                    'type' => 'pipeline',
+                    'description' => 'Changed by step ' . implode(', ', $replaced['changed_steps'])
                 ];
             }
             
@@ -334,7 +487,8 @@ final class Replace_Engine {
             'will_change' => ($new_value !== $old_value),
             'new_value' => $new_value,
             'match_count' => $match_count,
-            'changes' => $changes
+            'changes' => $changes,
+            'warnings' => $warnings
         ];
     }
     
@@ -344,18 +498,43 @@ final class Replace_Engine {
     private function execute_replacements(array $rows, array $params): array {
         global $wpdb;
         
+        $def = $this->get_sources()->get($params['scope']['source']);
         $updated = 0;
         $failed = 0;
+        $skipped = 0;
         $items = [];
-        $batch_id = uniqid('wcfdr_', true);
+        // Chunks of one bulk run share the batch id handed back by the first chunk
+        $batch_id = $params['batch_id'] ?: uniqid('wcfdr_', true);
         
         foreach ($rows as $row) {
             try {
+                // Perform replacement
+                $replaced = $this->replace_value($row['meta_value'], $params);
+                $new_value = $replaced['value'];
+                
+                // Nothing to write, so nothing to back up; unparseable values end up here too
+                if ($new_value === $row['meta_value']) {
+                    $skipped++;
+                    $item = [
+                        'post_id' => $row['post_id'],
+                        'status' => 'skipped',
+                        'meta_key' => $row['meta_key']
+                    ];
+                    if (!empty($replaced['warnings'])) {
+                        $item['message'] = implode(' ', $replaced['warnings']);
+                    }
+                    $items[] = $item;
+                    continue;
+                }
+                
                 // Create backup before replacement
                 $backup_result = $this->get_backup()->create_backup([
+                    'source' => $def['source'],
                     'post_id' => $row['post_id'],
+                    'meta_id' => $row['meta_id'],
                     'meta_key' => $row['meta_key'],
                     'old_value' => $row['meta_value'],
+                    'new_value' => $new_value,
                     'batch_id' => $batch_id
                 ]);
                 
@@ -363,25 +542,14 @@ final class Replace_Engine {
                     throw new \Exception('Failed to create backup: ' . $backup_result['error']);
                 }
                 
-                // Perform replacement
-                $new_value = $this->perform_replacement(
-                    $row['meta_value'],
-                    $params['find'],
-                    $params['replace'],
-                    $params['mode']
-                );
-                
-                // Update the meta value
-                $update_result = update_post_meta($row['post_id'], $row['meta_key'], $new_value);
-                
-                if ($update_result === false) {
-                    throw new \Exception('Failed to update post meta');
+                if (!$this->get_sources()->write_row($def, $row, $new_value)) {
+                    throw new \Exception('Failed to update ' . strtolower($def['label']));
                 }
                 
                 $updated++;
                 $items[] = [
                     'post_id' => $row['post_id'],
-                    'status' => 'success',
+                    'status' => 'updated',
                     'meta_key' => $row['meta_key']
                 ];
                 
@@ -390,7 +558,7 @@ final class Replace_Engine {
                 $items[] = [
                     'post_id' => $row['post_id'],
                     'status' => 'failed',
-                    'error' => $e->getMessage(),
+                    'message' => $e->getMessage(),
                     'meta_key' => $row['meta_key']
                 ];
             }
@@ -399,15 +567,80 @@ final class Replace_Engine {
         return [
             'updated' => $updated,
             'failed' => $failed,
+            'skipped' => $skipped,
             'items' => $items,
             'backup_batch_id' => $batch_id
         ];
     }
     
     /**
-     * Perform a single replacement
+     * Apply the replacement to one stored value, running every pipeline step in order
+     *
+     * Any step that throws fails the whole row, so a row is written with every step applied or not at all.
      */
-    private function perform_replacement(string $old_value, string $find, string $replace, string $mode): string {
+    private function replace_value(string $old_value, array $params): array {
+        $steps = !empty($params['steps']) ? $params['steps'] : [$params];
+        $value = $old_value;
+        $format = 'plain';
+        $warnings = [];
+        $changed_steps = [];
+        $match_count = 0;
+        
+        foreach ($steps as $index => $step) {
+            $replaced = $this->replace_step($value, $step);
+            $match_count += $replaced['match_count'];
+            
+            if ($replaced['value'] !== $value) {
+                $changed_steps[] = $index + 1;
+            }
+            if ($replaced['format'] !== 'plain') {
+                $format = $replaced['format'];
+            }
+            foreach ($replaced['warnings'] as $warning) {
+                $warnings[] = count($steps) > 1 ? 'Step ' . ($index + 1) . ': ' . $warning : $warning;
+            }
+            $value = $replaced['value'];
+        }
+        
+        return [
+            'value' => $value,
+            'format' => $format,
+            'warnings' => $warnings,
+            'changed_steps' => $changed_steps,
+            'match_count' => $match_count
+        ];
+    }
+    
+    /**
+     * Apply one find/replace step to a value, walking serialized and JSON structure when requested
+     *
+     * The match count adds up the matches replaced in every string leaf.
+     */
+    private function replace_step(string $value, array $step): array {
+        $match_count = 0;
+        $replace_leaf = function (string $leaf) use ($step, &$match_count): string {
+            $count = 0;
+            $result = $this->perform_replacement($leaf, $step['find'], $step['replace'], $step['mode'], $count);
+            $match_count += $count;
+            return $result;
+        };
+        
+        // Full Text Overwrite replaces the whole value, so there is no structure to keep
+        if (empty($step['structured']) || $step['mode'] === 'full_text') {
+            $result = ['value' => $replace_leaf($value), 'format' => 'plain', 'warnings' => []];
+        } else {
+            $result = $this->get_structured_value()->replace($value, $replace_leaf);
+        }
+        
+        return $result + ['match_count' => $match_count];
+    }
+    
+    /**
+     * Perform a single replacement, setting $count to the number of matches replaced
+     */
+    private function perform_replacement(string $old_value, string $find, string $replace, string $mode, int &$count): string {
+        $count = 0;
+        
         // Always decode HTML entities if content contains URL patterns or &amp;
         if ($this->contains_url_patterns($old_value) || strpos($old_value, '&amp;') !== false) {
             $old_value = $this->decode_html_entities($old_value);
@@ -415,24 +648,25 @@ final class Replace_Engine {
         
         switch ($mode) {
             case 'plain':
-                return $this->replace_plain_text($old_value, $find, $replace, false);
+                return $this->replace_plain_text($old_value, $find, $replace, false, $count);
                 
             case 'plain_cs':
-                return $this->replace_plain_text($old_value, $find, $replace, true);
+                return $this->replace_plain_text($old_value, $find, $replace, true, $count);
                 
             case 'regex':
-                return $this->replace_regex($old_value, $find, $replace);
+                return $this->replace_regex($old_value, $find, $replace, $count);
                 
             case 'url':
-                return $this->replace_url($old_value, $find, $replace);
+                return $this->replace_url($old_value, $find, $replace, $count);
                 
             case 'url_segment':
-                return $this->replace_url_segment($old_value, $find, $replace);
+                return $this->replace_url_segment($old_value, $find, $replace, $count);
                 
             case 'prefix_swap':
-                return $this->replace_prefix_swap($old_value, $find, $replace);
+                return $this->replace_prefix_swap($old_value, $find, $replace, $count);
                 
             case 'full_text':
+                $count = 1;
                 return $replace;
                 
             default:
@@ -443,18 +677,18 @@ final class Replace_Engine {
     /**
      * Replace plain text
      */
-    private function replace_plain_text(string $text, string $find, string $replace, bool $case_sensitive): string {
+    private function replace_plain_text(string $text, string $find, string $replace, bool $case_sensitive, int &$count): string {
         if ($case_sensitive) {
-            return str_replace($find, $replace, $text);
+            return str_replace($find, $replace, $text, $count);
         } else {
-            return str_ireplace($find, $replace, $text);
+            return str_ireplace($find, $replace, $text, $count);
         }
     }
     
     /**
      * Replace using regex
      */
-    private function replace_regex(string $text, string $pattern, string $replace): string {
+    private function replace_regex(string $text, string $pattern, string $replace, int &$count): string {
         // Set regex timeout
         set_time_limit(self::REGEX_TIMEOUT / 1000);
         
@@ -463,7 +697,7 @@ final class Replace_Engine {
             throw new \InvalidArgumentException('Invalid regex pattern: ' . preg_last_error_msg());
         }
         
-        $result = preg_replace($pattern, $replace, $text);
+        $result = preg_replace($pattern, $replace, $text, -1, $count);
         
         if ($result === null) {
             throw new \Exception('Regex replacement failed');
@@ -475,22 +709,23 @@ final class Replace_Engine {
     /**
      * Replace URL
      */
-    private function replace_url(string $url, string $find, string $replace): string {
-        return $this->get_url_helper()->replace_url($url, $find, $replace);
+    private function replace_url(string $url, string $find, string $replace, int &$count): string {
+        return $this->get_url_helper()->replace_url($url, $find, $replace, $count);
     }
     
     /**
      * Replace URL segment
      */
-    private function replace_url_segment(string $url, string $find, string $replace): string {
-        return $this->get_url_helper()->replace_url_segment($url, $find, $replace);
+    private function replace_url_segment(string $url, string $find, string $replace, int &$count): string {
+        return $this->get_url_helper()->replace_url_segment($url, $find, $replace, $count);
     }
     
     /**
      * Replace prefix swap
      */
-    private function replace_prefix_swap(string $text, string $from_prefix, string $to_prefix): string {
+    private function replace_prefix_swap(string $text, string $from_prefix, string $to_prefix, int &$count): string {
         if (strpos($text, $from_prefix) === 0) {
+            $count = 1;
             return $to_prefix . substr($text, strlen($from_prefix));
         }
         return $text;
@@ -605,28 +840,94 @@ final class Replace_Engine {
         $validated['find'] = $this->get_sanitizer()->sanitize_text_field($params['find'] ?? '');
         $validated['replace'] = $this->get_sanitizer()->sanitize_text_field($params['replace'] ?? '');
         $validated['mode'] = $this->get_sanitizer()->sanitize_text_field($params['mode'] ?? 'plain');
-        $validated['meta_key'] = $this->get_sanitizer()->sanitize_text_field($params['meta_key'] ?? '');
-        $validated['post_type'] = $this->get_sanitizer()->sanitize_text_field($params['post_type'] ?? '');
         
-        if (empty($validated['find']) || empty($validated['meta_key']) || empty($validated['post_type'])) {
-            throw new \InvalidArgumentException('Find, meta_key, and post_type are required');
-        }
+        // Data source, post types and keys, validated exactly as a search validates them
+        $validated['scope'] = \WCFDR\Search\Search_Engine::getInstance()->validate_scope($params);
         
         // Optional fields with defaults
         $validated['value_filter'] = $this->get_sanitizer()->sanitize_text_field($params['value_filter'] ?? '');
         $validated['case_sensitive'] = (bool) ($params['case_sensitive'] ?? false);
+        $validated['regex'] = (bool) ($params['regex'] ?? false);
+        $validated['structured'] = (bool) ($params['structured'] ?? false);
+        
+        // Explicit rows picked in the results table, as post_id/meta_id pairs; options have no post_id
+        $validated['targets'] = [];
+        if (!empty($params['targets']) && is_array($params['targets'])) {
+            foreach ($params['targets'] as $target) {
+                $post_id = intval($target['post_id'] ?? 0);
+                $meta_id = intval($target['meta_id'] ?? 0);
+                if ($post_id >= 0 && $meta_id > 0) {
+                    $validated['targets'][$meta_id] = ['post_id' => $post_id, 'meta_id' => $meta_id];
+                }
+            }
+            $validated['targets'] = array_values($validated['targets']);
+            
+            if (count($validated['targets']) > 5000) {
+                throw new \InvalidArgumentException('At most 5000 rows can be targeted at once');
+            }
+        }
+        
+        // A pipeline chains several steps on each row; its top-level find, replace and mode are unused
+        $validated['steps'] = [];
+        if (!empty($params['steps']) && is_array($params['steps'])) {
+            if (count($params['steps']) > self::MAX_PIPELINE_STEPS) {
+                throw new \InvalidArgumentException('A pipeline can have at most ' . self::MAX_PIPELINE_STEPS . ' steps');
+            }
+            foreach (array_values($params['steps']) as $index => $step) {
+                $validated['steps'][] = $this->validate_step(is_array($step) ? $step : [], $index + 1);
+            }
+        }
+        
+        // Same scoping rule as search: post type is optional, but the rows must be narrowed by key, value, filters or target list
+        if (empty($validated['find']) && empty($validated['steps'])) {
+            throw new \InvalidArgumentException('Find is required');
+        }
+        $has_key_scope = \WCFDR\Search\Search_Engine::getInstance()->has_key_scope($validated['scope']);
+        if (!$has_key_scope && empty($validated['value_filter']) && empty($validated['scope']['filters']) && empty($validated['targets'])) {
+            throw new \InvalidArgumentException('Either keys, value_filter, filters or targets is required');
+        }
         $validated['limit'] = min(5000, max(1, intval($params['limit'] ?? 1000)));
         $validated['confirm'] = (bool) ($params['confirm'] ?? false);
+        $validated['cursor'] = max(0, intval($params['cursor'] ?? 0));
+        
+        // Only accept batch ids this engine could have issued
+        $batch_id = $this->get_sanitizer()->sanitize_text_field($params['batch_id'] ?? '');
+        $validated['batch_id'] = preg_match('/^wcfdr_[a-f0-9]+(\.[0-9]+)?$/', $batch_id) ? $batch_id : '';
         
         // Validate mode
-        $valid_modes = ['plain', 'plain_cs', 'regex', 'url', 'url_segment', 'prefix_swap', 'full_text'];
-        if (!in_array($validated['mode'], $valid_modes)) {
+        if (!in_array($validated['mode'], self::REPLACE_MODES)) {
             throw new \InvalidArgumentException('Invalid replace mode');
         }
         
         return $validated;
     }
     
+    /**
+     * Validate one pipeline step
+     *
+     * Patterns are checked up front, so a bad step fails the request instead of every row.
+     */
+    private function validate_step(array $step, int $number): array {
+        $validated = [
+            'find' => $this->get_sanitizer()->sanitize_text_field($step['find'] ?? ''),
+            'replace' => $this->get_sanitizer()->sanitize_text_field($step['replace'] ?? ''),
+            'mode' => $this->get_sanitizer()->sanitize_text_field($step['mode'] ?? 'plain'),
+            'structured' => (bool) ($step['structured'] ?? false)
+        ];
+        
+        if (empty($validated['find'])) {
+            throw new \InvalidArgumentException("Step {$number}: Find is required");
+        }
+        if (!in_array($validated['mode'], self::REPLACE_MODES)) {
+            throw new \InvalidArgumentException("Step {$number}: Invalid replace mode");
+        }
+        if ($validated['mode'] === 'regex' && @preg_match($validated['find'], '') === false) {
+            throw new \InvalidArgumentException("Step {$number}: Invalid regex pattern: " . preg_last_error_msg());
+        }
+        
+        return $validated;
+    }
+    
     /**
      * Generate cache key for preview
      */
@@ -673,18 +974,48 @@ final class Replace_Engine {
         }
         
         $post_id = intval($_POST['post_id'] ?? 0);
+        $meta_id = intval($_POST['meta_id'] ?? 0);
         $meta_key = sanitize_text_field($_POST['meta_key'] ?? '');
         $new_value = sanitize_text_field($_POST['new_value'] ?? '');
+        $source = sanitize_text_field($_POST['source'] ?? '') ?: 'postmeta';
         
-        if (!$post_id || empty($meta_key)) {
+        // Markup and line breaks inside serialized or JSON values are data; those are validated instead
+        $raw_value = wp_unslash($_POST['new_value'] ?? '');
+        $format = $this->get_structured_value()->detect_format($raw_value);
+        
+        if (!in_array($source, \WCFDR\Search\Data_Source::SOURCES, true) || empty($meta_key)) {
+            wp_send_json_error(['message' => 'Invalid parameters']);
+        }
+        
+        $def = $this->get_sources()->get($source);
+        
+        if (!$this->get_sources()->can_access($def)) {
+            wp_send_json_error(['message' => 'Permission denied']);
+        }
+        
+        // Options are the only rows that belong to no object
+        if (!$post_id && $def['object'] !== 'option') {
             wp_send_json_error(['message' => 'Invalid parameters']);
         }
         
         try {
+            // With a row id only that row is written; an object can hold several rows under one key
+            $row = ['meta_id' => $meta_id, 'post_id' => $post_id, 'meta_key' => $meta_key];
+            if ($meta_id > 0) {
+                $target = \WCFDR\Search\Search_Engine::getInstance()->fetch_targets([$row], 0, 1, $source);
+                if (empty($target['rows']) || $target['rows'][0]['meta_key'] !== $meta_key) {
+                    throw new \Exception('The row no longer belongs to this object and key');
+                }
+                $old_value = (string) $this->get_sources()->read_row($def, $meta_id);
+            } else {
+                $old_value = $this->get_sources()->read_value($def, $post_id, $meta_key);
+            }
+            
             // Create backup
-            $old_value = get_post_meta($post_id, $meta_key, true);
             $backup_result = $this->get_backup()->create_backup([
+                'source' => $source,
                 'post_id' => $post_id,
+                'meta_id' => $meta_id,
                 'meta_key' => $meta_key,
                 'old_value' => $old_value,
                 'batch_id' => uniqid('wcfdr_row_', true)
@@ -694,19 +1025,26 @@ final class Replace_Engine {
                 throw new \Exception('Failed to create backup');
             }
             
-            // Decode HTML entities if the new value contains URL patterns or &amp;
-            if ($this->contains_url_patterns($new_value) || strpos($new_value, '&amp;') !== false) {
-                $new_value = $this->decode_html_entities($new_value);
+            if ($format === 'plain') {
+                // Decode HTML entities if the new value contains URL patterns or &amp;
+                if ($this->contains_url_patterns($new_value) || strpos($new_value, '&amp;') !== false) {
+                    $new_value = $this->decode_html_entities($new_value);
+                }
+            } else {
+                $new_value = $raw_value;
             }
             
-            // Update meta
-            $result = update_post_meta($post_id, $meta_key, $new_value);
+            // Update the value
+            $result = $meta_id > 0
+                ? $this->get_sources()->write_row($def, $row, $new_value)
+                : $this->get_sources()->write_value($def, $post_id, $meta_key, $new_value);
             
-            if ($result === false) {
-                throw new \Exception('Failed to update post meta');
+            if (!$result) {
+                throw new \Exception('Failed to update ' . strtolower($def['label']));
             }
             
             wp_send_json_success([
+                'source' => $source,
                 'post_id' => $post_id,
                 'meta_key' => $meta_key,
                 'message' => 'Row updated successfully'
@@ -805,4 +1143,24 @@ final class Replace_Engine {
         }
         return $this->cache;
     }
+    
+    /**
+     * Get data source definitions (lazy loaded)
+     */
+    private function get_sources() {
+        if ($this->sources === null) {
+            $this->sources = \WCFDR\Core\Container::getInstance()->get('sources');
+        }
+        return $this->sources;
+    }
+    
+    /**
+     * Get structured value walker (lazy loaded)
+     */
+    private function get_structured_value() {
+        if ($this->structured_value === null) {
+            $this->structured_value = new Structured_Value();
+        }
+        return $this->structured_value;
+    }
 }
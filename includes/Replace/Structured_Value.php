@@ -0,0 +1,302 @@
+<?php
+/**
+ * Structure-aware replacement for serialized PHP and JSON meta values
+ *
+ * @package WCFDR\Replace
+ * @since 1.0.0
+ */
+
+namespace WCFDR\Replace;
+
+/**
+ * Structured Value Class
+ *
+ * Walks serialized PHP and JSON text without unserializing it, hands every
+ * string leaf to a callback and rebuilds the value with correct lengths.
+ * Array keys, property names and all non-string values are copied verbatim.
+ */
+final class Structured_Value {
+
+    /**
+     * How deep a leaf that is itself serialized or JSON is walked into
+     */
+    private const MAX_DEPTH = 5;
+
+    /**
+     * Replace inside the string leaves of a value
+     *
+     * Returns the rebuilt value, the detected format ('serialized', 'json' or 'plain')
+     * and any warnings. Values that look serialized but cannot be parsed are returned unchanged.
+     */
+    public function replace(string $value, callable $replace_leaf): array {
+        $warnings = [];
+        $result = $this->replace_value($value, $replace_leaf, 0, $warnings);
+        $result['warnings'] = array_values(array_unique($warnings));
+
+        return $result;
+    }
+
+    /**
+     * Detect whether a value is serialized PHP, valid JSON or plain text
+     */
+    public function detect_format(string $value): string {
+        if (is_serialized($value)) {
+            return 'serialized';
+        }
+        if ($this->looks_like_json($value)) {
+            json_decode($value);
+            if (json_last_error() === JSON_ERROR_NONE) {
+                return 'json';
+            }
+        }
+        return 'plain';
+    }
+    
+    /**
+     * Detect the format of a value and rebuild it
+     */
+    private function replace_value(string $value, callable $replace_leaf, int $depth, array &$warnings): array {
+        if ($depth < self::MAX_DEPTH && is_serialized($value)) {
+            try {
+                return [
+                    'value' => $this->rebuild_serialized_value($value, $replace_leaf, $depth, $warnings),
+                    'format' => 'serialized'
+                ];
+            } catch (\UnexpectedValueException $e) {
+                $warnings[] = 'Value looks like serialized PHP but could not be parsed (' . $e->getMessage() . '); it was left unchanged.';
+                return ['value' => $value, 'format' => 'serialized'];
+            }
+        }
+
+        if ($depth < self::MAX_DEPTH && $this->looks_like_json($value)) {
+            json_decode($value);
+            if (json_last_error() === JSON_ERROR_NONE) {
+                try {
+                    return [
+                        'value' => $this->rebuild_json($value, $replace_leaf, $depth, $warnings),
+                        'format' => 'json'
+                    ];
+                } catch (\UnexpectedValueException $e) {
+                    $warnings[] = 'A JSON string could not be re-encoded (' . $e->getMessage() . '); the value was left unchanged.';
+                    return ['value' => $value, 'format' => 'json'];
+                }
+            }
+            $warnings[] = 'Value looks like JSON but is not valid JSON (' . json_last_error_msg() . '); it was replaced as plain text.';
+        }
+
+        return ['value' => $replace_leaf($value), 'format' => 'plain'];
+    }
+
+    /**
+     * JSON objects and arrays only; "[gallery ids=...]" style shortcodes must not count
+     */
+    private function looks_like_json(string $value): bool {
+        return (bool) preg_match('/^\s*(\{\s*["}]|\[\s*([\[{"\]\d-]|true|false|null))/', $value);
+    }
+
+    /**
+     * Replace inside one string leaf, descending into nested serialized or JSON text
+     */
+    private function replace_leaf(string $leaf, callable $replace_leaf, int $depth, array &$warnings): string {
+        $result = $this->replace_value($leaf, $replace_leaf, $depth + 1, $warnings);
+        return $result['value'];
+    }
+
+    /**
+     * Rebuild a complete serialized value, keeping the surrounding whitespace WordPress tolerates
+     */
+    private function rebuild_serialized_value(string $value, callable $replace_leaf, int $depth, array &$warnings): string {
+        $trimmed = trim($value);
+        $leading = substr($value, 0, strlen($value) - strlen(ltrim($value)));
+        $trailing = substr($value, strlen($leading) + strlen($trimmed));
+
+        $offset = 0;
+        $rebuilt = $this->rebuild_serialized($trimmed, $offset, $replace_leaf, $depth, $warnings);
+
+        if ($offset !== strlen($trimmed)) {
+            throw new \UnexpectedValueException("unexpected data at byte {$offset}");
+        }
+
+        return $leading . $rebuilt . $trailing;
+    }
+
+    /**
+     * Rebuild the serialized token starting at $offset and advance past it
+     */
+    private function rebuild_serialized(string $data, int &$offset, callable $replace_leaf, int $depth, array &$warnings): string {
+        $type = $data[$offset] ?? '';
+
+        switch ($type) {
+            case 's':
+                $leaf = $this->read_string($data, $offset);
+                $new_leaf = $this->replace_leaf($leaf, $replace_leaf, $depth, $warnings);
+                return 's:' . strlen($new_leaf) . ':"' . $new_leaf . '";';
+
+            case 'a':
+                $header = $this->match_at('/\Ga:(\d+):\{/', $data, $offset, 'array header');
+                return $header[0] . $this->rebuild_members($data, $offset, (int) $header[1], $replace_leaf, $depth, $warnings);
+
+            case 'O':
+                $class = $this->read_class_name($data, $offset, 'O');
+                $header = $this->match_at('/\G:(\d+):\{/', $data, $offset, 'object header');
+                return 'O:' . strlen($class) . ':"' . $class . '"' . $header[0]
+                    . $this->rebuild_members($data, $offset, (int) $header[1], $replace_leaf, $depth, $warnings);
+
+            case 'C':
+                // Custom serializers own their payload format; copy it byte for byte
+                $start = $offset;
+                $class = $this->read_class_name($data, $offset, 'C');
+                $header = $this->match_at('/\G:(\d+):\{/', $data, $offset, 'object header');
+                $offset += (int) $header[1];
+                $this->expect($data, $offset, '}');
+                $warnings[] = "Custom-serialized object {$class} was left unchanged.";
+                return substr($data, $start, $offset - $start);
+
+            case 'E':
+                $start = $offset;
+                $this->read_string($data, $offset, 'E');
+                return substr($data, $start, $offset - $start);
+
+            case 'N':
+                $this->expect($data, $offset, 'N;');
+                return 'N;';
+
+            default:
+                $token = $this->match_at('/\G(b:[01]|i:[+-]?\d+|d:(-?INF|NAN|[+-]?[0-9.]+([eE][+-]?\d+)?)|[rR]:\d+);/', $data, $offset, 'value');
+                return $token[0];
+        }
+    }
+
+    /**
+     * Rebuild the key/value pairs of an array or object body, including the closing brace
+     */
+    private function rebuild_members(string $data, int &$offset, int $count, callable $replace_leaf, int $depth, array &$warnings): string {
+        $body = '';
+
+        for ($i = 0; $i < $count; $i++) {
+            // Keys and property names are structure, not content
+            $key_start = $offset;
+            if (($data[$offset] ?? '') === 's') {
+                $this->read_string($data, $offset);
+            } else {
+                $this->match_at('/\Gi:[+-]?\d+;/', $data, $offset, 'key');
+            }
+            $body .= substr($data, $key_start, $offset - $key_start);
+            $body .= $this->rebuild_serialized($data, $offset, $replace_leaf, $depth, $warnings);
+        }
+
+        $this->expect($data, $offset, '}');
+        return $body . '}';
+    }
+
+    /**
+     * Read a length-prefixed string token and return its raw bytes
+     */
+    private function read_string(string $data, int &$offset, string $type = 's'): string {
+        $header = $this->match_at('/\G' . $type . ':(\d+):"/', $data, $offset, 'string header');
+        $length = (int) $header[1];
+
+        if ($offset + $length + 2 > strlen($data) || substr($data, $offset + $length, 2) !== '";') {
+            throw new \UnexpectedValueException("string length {$length} does not match its contents at byte {$offset}");
+        }
+
+        $value = substr($data, $offset, $length);
+        $offset += $length + 2;
+
+        return $value;
+    }
+
+    /**
+     * Read the class name of an O: or C: token
+     */
+    private function read_class_name(string $data, int &$offset, string $type): string {
+        $header = $this->match_at('/\G' . $type . ':(\d+):"/', $data, $offset, 'class name');
+        $class = substr($data, $offset, (int) $header[1]);
+        $offset += strlen($class);
+        $this->expect($data, $offset, '"');
+
+        return $class;
+    }
+
+    /**
+     * Match a pattern anchored at $offset and advance past it
+     */
+    private function match_at(string $pattern, string $data, int &$offset, string $what): array {
+        if (!preg_match($pattern, $data, $matches, 0, $offset)) {
+            throw new \UnexpectedValueException("invalid {$what} at byte {$offset}");
+        }
+        $offset += strlen($matches[0]);
+
+        return $matches;
+    }
+
+    /**
+     * Require a literal at $offset and advance past it
+     */
+    private function expect(string $data, int &$offset, string $literal): void {
+        if (substr($data, $offset, strlen($literal)) !== $literal) {
+            throw new \UnexpectedValueException("expected '{$literal}' at byte {$offset}");
+        }
+        $offset += strlen($literal);
+    }
+
+    /**
+     * Rebuild JSON text, re-encoding only the string values that change
+     */
+    private function rebuild_json(string $json, callable $replace_leaf, int $depth, array &$warnings): string {
+        $rebuilt = '';
+        $offset = 0;
+        $length = strlen($json);
+
+        // The text is already known to be valid JSON, so every quote outside a string opens one
+        while (($quote = strpos($json, '"', $offset)) !== false) {
+            $rebuilt .= substr($json, $offset, $quote - $offset);
+
+            $end = $quote + 1;
+            while ($end < $length && $json[$end] !== '"') {
+                $end += $json[$end] === '\\' ? 2 : 1;
+            }
+            $literal = substr($json, $quote, $end - $quote + 1);
+            $offset = $end + 1;
+
+            // Object keys are followed by a colon and stay as they are
+            if (preg_match('/\G\s*:/', $json, $matches, 0, $offset)) {
+                $rebuilt .= $literal;
+            } else {
+                $rebuilt .= $this->replace_json_string($literal, $replace_leaf, $depth, $warnings);
+            }
+        }
+
+        return $rebuilt . substr($json, $offset);
+    }
+
+    /**
+     * Replace inside one JSON string literal, keeping the original escaping style
+     */
+    private function replace_json_string(string $literal, callable $replace_leaf, int $depth, array &$warnings): string {
+        $value = json_decode($literal);
+        if (!is_string($value)) {
+            return $literal;
+        }
+
+        $new_value = $this->replace_leaf($value, $replace_leaf, $depth, $warnings);
+        if ($new_value === $value) {
+            return $literal;
+        }
+
+        $flags = 0;
+        if (strpos($literal, '\\/') === false) {
+            $flags |= JSON_UNESCAPED_SLASHES;
+        }
+        if (!preg_match('/\\\\u[0-9a-fA-F]{4}/', $literal)) {
+            $flags |= JSON_UNESCAPED_UNICODE;
+        }
+
+        $encoded = json_encode($new_value, $flags);
+        if ($encoded === false) {
+            throw new \UnexpectedValueException(json_last_error_msg());
+        }
+
+        return $encoded;
+    }
+}
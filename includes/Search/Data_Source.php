@@ -0,0 +1,423 @@
+<?php
+/**
+ * Data sources that can be searched and replaced
+ *
+ * @package WCFDR\Search
+ * @since 1.0.0
+ */
+
+namespace WCFDR\Search;
+
+/**
+ * Data Source Class
+ *
+ * Describes every table the plugin can search as rows of key/value pairs that
+ * belong to an object: post meta to a post, term meta to a term and so on.
+ * Post fields use the column name as their key and options their option name.
+ * Rows keep the post meta column names (post_id, meta_id, meta_key, meta_value)
+ * whatever their source, so search, replace and backups handle them alike.
+ */
+final class Data_Source {
+
+    /**
+     * Supported data sources
+     */
+    public const SOURCES = ['postmeta', 'post_content', 'post_excerpt', 'termmeta', 'usermeta', 'commentmeta', 'options'];
+
+    /**
+     * Get the definition of a data source
+     *
+     * SQL expressions refer to the aliases declared in 'from'. 'keyed' sources can be narrowed by key,
+     * and 'post_type' and 'author' are the expressions post types and authors filter on, or null where
+     * rows have no post. Sources without dates use the literal NULL.
+     * Sources outside post data hold site settings and user roles, so only administrators reach them.
+     */
+    public function get(string $source): array {
+        global $wpdb;
+
+        switch ($source) {
+            case 'postmeta':
+                return [
+                    'source' => 'postmeta',
+                    'label' => 'Post meta',
+                    'object' => 'post',
+                    'meta_type' => 'post',
+                    'capability' => 'edit_posts',
+                    'table' => $wpdb->postmeta,
+                    'id_column' => 'meta_id',
+                    'from' => "{$wpdb->postmeta} pm INNER JOIN {$wpdb->posts} p ON pm.post_id = p.ID",
+                    'id' => 'pm.meta_id',
+                    'object_id' => 'pm.post_id',
+                    'key' => 'pm.meta_key',
+                    'value' => 'pm.meta_value',
+                    'title' => 'p.post_title',
+                    'type' => 'p.post_type',
+                    'status' => 'p.post_status',
+                    'date' => 'p.post_date',
+                    'modified' => 'p.post_modified',
+                    'author' => 'p.post_author',
+                    'post_type' => 'p.post_type',
+                    'keyed' => true,
+                    // Plugin and ACF field-definition keys are never searched or replaced
+                    'excluded' => [
+                        "pm.meta_key NOT LIKE '_field%'",
+                        "pm.meta_key NOT REGEXP '^field_[a-f0-9]{13}$'",
+                        "pm.meta_key NOT LIKE '_required_plugins%'",
+                        "pm.meta_key NOT LIKE '_acf%'",
+                        "pm.meta_key NOT LIKE '_acf_%'"
+                    ]
+                ];
+
+            case 'post_content':
+            case 'post_excerpt':
+                return [
+                    'source' => $source,
+                    'label' => $source === 'post_content' ? 'Post content' : 'Post excerpt',
+                    'object' => 'post',
+                    'meta_type' => null,
+                    'capability' => 'edit_posts',
+                    'table' => $wpdb->posts,
+                    'id_column' => 'ID',
+                    'value_column' => $source,
+                    'from' => "{$wpdb->posts} p",
+                    'id' => 'p.ID',
+                    'object_id' => 'p.ID',
+                    'key' => "'{$source}'",
+                    'value' => "p.{$source}",
+                    'title' => 'p.post_title',
+                    'type' => 'p.post_type',
+                    'status' => 'p.post_status',
+                    'date' => 'p.post_date',
+                    'modified' => 'p.post_modified',
+                    'author' => 'p.post_author',
+                    'post_type' => 'p.post_type',
+                    'keyed' => false,
+                    // Revisions keep the history as it was; rewriting them would change the past
+                    'excluded' => ["p.post_type <> 'revision'"]
+                ];
+
+            case 'termmeta':
+                return [
+                    'source' => 'termmeta',
+                    'label' => 'Term meta',
+                    'object' => 'term',
+                    'meta_type' => 'term',
+                    'capability' => 'manage_options',
+                    'table' => $wpdb->termmeta,
+                    'id_column' => 'meta_id',
+                    'from' => "{$wpdb->termmeta} tm INNER JOIN {$wpdb->terms} t ON tm.term_id = t.term_id",
+                    'id' => 'tm.meta_id',
+                    'object_id' => 'tm.term_id',
+                    'key' => 'tm.meta_key',
+                    'value' => 'tm.meta_value',
+                    'title' => 't.name',
+                    'type' => "(SELECT tt.taxonomy FROM {$wpdb->term_taxonomy} tt WHERE tt.term_id = t.term_id LIMIT 1)",
+                    'status' => "''",
+                    'date' => 'NULL',
+                    'modified' => 'NULL',
+                    'author' => null,
+                    'post_type' => null,
+                    'keyed' => true,
+                    'excluded' => []
+                ];
+
+            case 'usermeta':
+                return [
+                    'source' => 'usermeta',
+                    'label' => 'User meta',
+                    'object' => 'user',
+                    'meta_type' => 'user',
+                    'capability' => 'manage_options',
+                    'table' => $wpdb->usermeta,
+                    'id_column' => 'umeta_id',
+                    'from' => "{$wpdb->usermeta} um INNER JOIN {$wpdb->users} u ON um.user_id = u.ID",
+                    'id' => 'um.umeta_id',
+                    'object_id' => 'um.user_id',
+                    'key' => 'um.meta_key',
+                    'value' => 'um.meta_value',
+                    'title' => 'u.display_name',
+                    'type' => 'u.user_login',
+                    'status' => "''",
+                    'date' => 'u.user_registered',
+                    'modified' => 'NULL',
+                    'author' => null,
+                    'post_type' => null,
+                    'keyed' => true,
+                    // Login sessions hold hashed tokens, not content
+                    'excluded' => ["um.meta_key <> 'session_tokens'"]
+                ];
+
+            case 'commentmeta':
+                return [
+                    'source' => 'commentmeta',
+                    'label' => 'Comment meta',
+                    'object' => 'comment',
+                    'meta_type' => 'comment',
+                    'capability' => 'manage_options',
+                    'table' => $wpdb->commentmeta,
+                    'id_column' => 'meta_id',
+                    'from' => "{$wpdb->commentmeta} cm INNER JOIN {$wpdb->comments} c ON cm.comment_id = c.comment_ID",
+                    'id' => 'cm.meta_id',
+                    'object_id' => 'cm.comment_id',
+                    'key' => 'cm.meta_key',
+                    'value' => 'cm.meta_value',
+                    'title' => 'c.comment_author',
+                    'type' => 'c.comment_type',
+                    'status' => 'c.comment_approved',
+                    'date' => 'c.comment_date',
+                    'modified' => 'NULL',
+                    'author' => null,
+                    'post_type' => null,
+                    'keyed' => true,
+                    'excluded' => []
+                ];
+
+            case 'options':
+                return [
+                    'source' => 'options',
+                    'label' => 'Options',
+                    'object' => 'option',
+                    'meta_type' => null,
+                    'capability' => 'manage_options',
+                    'table' => $wpdb->options,
+                    'id_column' => 'option_id',
+                    'value_column' => 'option_value',
+                    'from' => "{$wpdb->options} o",
+                    'id' => 'o.option_id',
+                    // Options belong to no object; the pairing check in fetch_targets compares 0 with 0
+                    'object_id' => '0',
+                    'key' => 'o.option_name',
+                    'value' => 'o.option_value',
+                    'title' => 'o.option_name',
+                    'type' => "'option'",
+                    'status' => 'o.autoload',
+                    'date' => 'NULL',
+                    'modified' => 'NULL',
+                    'author' => null,
+                    'post_type' => null,
+                    'keyed' => true,
+                    // Transients are rebuilt on their own, and this plugin's settings and recipes are not content
+                    'excluded' => [
+                        "o.option_name NOT LIKE '\\_transient\\_%'",
+                        "o.option_name NOT LIKE '\\_site\\_transient\\_%'",
+                        "o.option_name NOT LIKE 'wcfdr\\_%'"
+                    ]
+                ];
+
+            default:
+                throw new \InvalidArgumentException('Unknown data source: ' . $source);
+        }
+    }
+
+    /**
+     * Whether the current user may search and change a source
+     */
+    public function can_access(array $def): bool {
+        return current_user_can($def['capability']);
+    }
+
+    /**
+     * The sources the current user may search and change
+     */
+    public function available(): array {
+        return array_values(array_filter(self::SOURCES, function ($source) {
+            return $this->can_access($this->get($source));
+        }));
+    }
+
+    /**
+     * The SELECT list that reads a source's rows under the post meta column names
+     */
+    public function select_sql(array $def): string {
+        return "{$def['object_id']} as post_id,
+                {$def['title']} as post_title,
+                {$def['type']} as post_type,
+                {$def['id']} as meta_id,
+                {$def['key']} as meta_key,
+                {$def['value']} as meta_value,
+                {$def['status']} as post_status,
+                {$def['date']} as post_date,
+                {$def['modified']} as post_modified";
+    }
+
+    /**
+     * Edit and view links for the object a row belongs to
+     */
+    public function links(array $def, int $object_id): array {
+        switch ($def['object']) {
+            case 'post':
+                return [
+                    'edit_url' => get_edit_post_link($object_id, 'raw') ?: '',
+                    'view_url' => get_permalink($object_id) ?: ''
+                ];
+
+            case 'term':
+                $view_url = get_term_link($object_id);
+                return [
+                    'edit_url' => get_edit_term_link($object_id) ?: '',
+                    'view_url' => is_wp_error($view_url) ? '' : $view_url
+                ];
+
+            case 'user':
+                return [
+                    'edit_url' => get_edit_user_link($object_id) ?: '',
+                    'view_url' => get_author_posts_url($object_id) ?: ''
+                ];
+
+            case 'comment':
+                return [
+                    'edit_url' => get_edit_comment_link($object_id) ?: '',
+                    'view_url' => get_comment_link($object_id) ?: ''
+                ];
+
+            default:
+                return ['edit_url' => '', 'view_url' => ''];
+        }
+    }
+
+    /**
+     * A readable name for the object a row belongs to
+     */
+    public function title(array $def, int $object_id, string $key): string {
+        switch ($def['object']) {
+            case 'post':
+                return get_the_title($object_id);
+
+            case 'term':
+                $term = get_term($object_id);
+                return $term && !is_wp_error($term) ? $term->name : '';
+
+            case 'user':
+                $user = get_userdata($object_id);
+                return $user ? $user->display_name : '';
+
+            case 'comment':
+                $comment = get_comment($object_id);
+                return $comment ? $comment->comment_author : '';
+
+            default:
+                return $key;
+        }
+    }
+
+    /**
+     * Read the stored value for an object and key, exactly as it is in the table
+     */
+    public function read_value(array $def, int $object_id, string $key): string {
+        global $wpdb;
+
+        if ($def['meta_type'] !== null) {
+            // Same row get_metadata() would return for a single value: the first one
+            $object_column = $def['meta_type'] . '_id';
+            $value = $wpdb->get_var($wpdb->prepare(
+                "SELECT meta_value FROM {$def['table']} WHERE {$object_column} = %d AND meta_key = %s ORDER BY {$def['id_column']} ASC LIMIT 1",
+                $object_id,
+                $key
+            ));
+        } elseif ($def['object'] === 'option') {
+            $value = $wpdb->get_var($wpdb->prepare(
+                "SELECT option_value FROM {$def['table']} WHERE option_name = %s",
+                $key
+            ));
+        } else {
+            $value = $wpdb->get_var($wpdb->prepare(
+                "SELECT {$def['value_column']} FROM {$def['table']} WHERE ID = %d",
+                $object_id
+            ));
+        }
+
+        return (string) $value;
+    }
+
+    /**
+     * Read the stored value of one exact row, or null when the row no longer exists
+     */
+    public function read_row(array $def, int $row_id): ?string {
+        global $wpdb;
+
+        $value_column = $def['meta_type'] !== null ? 'meta_value' : $def['value_column'];
+        $value = $wpdb->get_var($wpdb->prepare(
+            "SELECT {$value_column} FROM {$def['table']} WHERE {$def['id_column']} = %d",
+            $row_id
+        ));
+
+        return $value === null ? null : (string) $value;
+    }
+
+    /**
+     * Write a raw value for an object and key
+     */
+    public function write_value(array $def, int $object_id, string $key, string $value): bool {
+        global $wpdb;
+
+        if ($def['meta_type'] !== null) {
+            // The meta API unslashes what it is given, which would eat JSON escapes
+            return update_metadata($def['meta_type'], $object_id, $key, wp_slash($this->meta_data($value))) !== false;
+        }
+
+        if ($def['object'] === 'option') {
+            $result = $wpdb->update($def['table'], ['option_value' => $value], ['option_name' => $key]);
+        } else {
+            $result = $wpdb->update($def['table'], [$def['value_column'] => $value], ['ID' => $object_id]);
+        }
+
+        $this->clear_object_cache($def, $object_id, $key);
+
+        return $result !== false;
+    }
+
+    /**
+     * Write a raw value to one exact row, as returned by a search
+     */
+    public function write_row(array $def, array $row, string $value): bool {
+        global $wpdb;
+
+        // Update this exact meta row; an object can hold several rows under one key
+        if ($def['meta_type'] !== null) {
+            return update_metadata_by_mid($def['meta_type'], (int) $row['meta_id'], $this->meta_data($value)) !== false;
+        }
+
+        $result = $wpdb->update(
+            $def['table'],
+            [$def['value_column'] => $value],
+            [$def['id_column'] => (int) $row['meta_id']]
+        );
+
+        $this->clear_object_cache($def, (int) $row['post_id'], $row['meta_key']);
+
+        return $result !== false;
+    }
+
+    /**
+     * Turn a raw serialized string back into the data the meta API expects
+     *
+     * The meta API serializes whatever it is given, so a serialized string passed as-is
+     * would be stored double-serialized.
+     */
+    private function meta_data(string $value) {
+        if (!is_serialized($value)) {
+            return $value;
+        }
+
+        $data = @unserialize(trim($value), ['allowed_classes' => false]);
+        if ($data === false && trim($value) !== 'b:0;') {
+            throw new \Exception('The new value is not valid serialized PHP data');
+        }
+
+        return $data;
+    }
+
+    /**
+     * Drop cached copies of a value written straight to its table
+     */
+    private function clear_object_cache(array $def, int $object_id, string $key): void {
+        if ($def['object'] === 'option') {
+            wp_cache_delete($key, 'options');
+            wp_cache_delete('alloptions', 'options');
+            wp_cache_delete('notoptions', 'options');
+            return;
+        }
+
+        clean_post_cache($object_id);
+    }
+}
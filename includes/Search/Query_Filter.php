@@ -0,0 +1,326 @@
+<?php
+/**
+ * Composable row filters for searches and replaces
+ *
+ * @package WCFDR\Search
+ * @since 1.0.0
+ */
+
+namespace WCFDR\Search;
+
+/**
+ * Query Filter Class
+ *
+ * Validates a tree of filter conditions and compiles it into a WHERE clause
+ * for a data source. A group joins its conditions and nested groups with AND
+ * ("all") or OR ("any"); any condition or group can be negated. Every value
+ * goes through a placeholder, so the SQL never holds user input.
+ */
+final class Query_Filter {
+
+    /**
+     * Supported condition fields and the operators each accepts
+     */
+    public const FIELDS = [
+        'post_status' => ['in'],
+        'author' => ['in'],
+        'date' => ['before', 'after', 'between'],
+        'modified' => ['before', 'after', 'between'],
+        'object_id' => ['gt', 'lt', 'between'],
+        'term' => ['in'],
+        'value_length' => ['gt', 'lt', 'between'],
+        'value_empty' => ['is'],
+        'value_format' => ['is']
+    ];
+
+    /**
+     * Formats a value can be checked for
+     */
+    public const VALUE_FORMATS = ['serialized', 'json', 'url'];
+
+    /**
+     * Deepest nesting of groups, counting the top-level group
+     */
+    private const MAX_DEPTH = 3;
+
+    /**
+     * Most conditions in one tree
+     */
+    private const MAX_CONDITIONS = 30;
+
+    /**
+     * Most values in one "in" condition
+     */
+    private const MAX_VALUES = 100;
+
+    /**
+     * Validate a filter tree for a data source
+     *
+     * Returns null when the tree holds no conditions, so an empty builder adds no clause.
+     */
+    public function validate($group, array $def): ?array {
+        if (empty($group) || !is_array($group)) {
+            return null;
+        }
+
+        $count = 0;
+        $validated = $this->validate_group($group, $def, 1, $count);
+
+        return empty($validated['conditions']) ? null : $validated;
+    }
+
+    /**
+     * Compile a validated filter tree into a WHERE clause and its placeholder values
+     */
+    public function to_sql(array $group, array $def): array {
+        $clauses = [];
+        $values = [];
+
+        foreach ($group['conditions'] as $node) {
+            [$sql, $node_values] = isset($node['conditions'])
+                ? $this->to_sql($node, $def)
+                : $this->condition_sql($node, $def);
+
+            $clauses[] = $sql;
+            $values = array_merge($values, $node_values);
+        }
+
+        $sql = '(' . implode($group['match'] === 'any' ? ' OR ' : ' AND ', $clauses) . ')';
+
+        return [$group['negate'] ? "NOT {$sql}" : $sql, $values];
+    }
+
+    /**
+     * Validate a group and everything nested in it
+     */
+    private function validate_group(array $group, array $def, int $depth, int &$count): array {
+        if ($depth > self::MAX_DEPTH) {
+            throw new \InvalidArgumentException('Filter groups can be nested at most ' . self::MAX_DEPTH . ' levels deep');
+        }
+
+        $validated = [
+            'match' => ($group['match'] ?? 'all') === 'any' ? 'any' : 'all',
+            'negate' => (bool) ($group['negate'] ?? false),
+            'conditions' => []
+        ];
+
+        $nodes = is_array($group['conditions'] ?? null) ? array_values($group['conditions']) : [];
+        foreach ($nodes as $node) {
+            if (!is_array($node)) {
+                continue;
+            }
+
+            if (isset($node['conditions'])) {
+                $nested = $this->validate_group($node, $def, $depth + 1, $count);
+                // A group left empty would compile to "()", so it is dropped
+                if (!empty($nested['conditions'])) {
+                    $validated['conditions'][] = $nested;
+                }
+                continue;
+            }
+
+            if (++$count > self::MAX_CONDITIONS) {
+                throw new \InvalidArgumentException('A filter can have at most ' . self::MAX_CONDITIONS . ' conditions');
+            }
+            $validated['conditions'][] = $this->validate_condition($node, $def);
+        }
+
+        return $validated;
+    }
+
+    /**
+     * Validate one condition against the fields its data source has
+     */
+    private function validate_condition(array $condition, array $def): array {
+        $field = sanitize_key($condition['field'] ?? '');
+        $operator = sanitize_key($condition['operator'] ?? '');
+
+        if (!isset(self::FIELDS[$field])) {
+            throw new \InvalidArgumentException('Unknown filter field: ' . $field);
+        }
+        if (!in_array($operator, self::FIELDS[$field], true)) {
+            throw new \InvalidArgumentException("Invalid operator for the {$field} filter: {$operator}");
+        }
+
+        $is_post = $def['object'] === 'post';
+        $available = [
+            'post_status' => $is_post,
+            'author' => $def['author'] !== null,
+            'date' => $def['date'] !== 'NULL',
+            'modified' => $def['modified'] !== 'NULL',
+            'object_id' => $def['object_id'] !== '0',
+            'term' => $is_post
+        ];
+        if (isset($available[$field]) && !$available[$field]) {
+            throw new \InvalidArgumentException("The {$field} filter does not apply to " . strtolower($def['label']));
+        }
+
+        $validated = [
+            'field' => $field,
+            'operator' => $operator,
+            'negate' => (bool) ($condition['negate'] ?? false)
+        ];
+
+        switch ($field) {
+            case 'post_status':
+                $validated['values'] = $this->validate_values($condition, $field, 'sanitize_key');
+                break;
+
+            case 'author':
+                $validated['values'] = array_values(array_filter($this->validate_values($condition, $field, 'absint')));
+                if (empty($validated['values'])) {
+                    throw new \InvalidArgumentException('The author filter needs at least one user ID');
+                }
+                break;
+
+            case 'term':
+                $validated['taxonomy'] = sanitize_key($condition['taxonomy'] ?? '');
+                if (!taxonomy_exists($validated['taxonomy'])) {
+                    throw new \InvalidArgumentException('Unknown taxonomy: ' . $validated['taxonomy']);
+                }
+                $validated['values'] = $this->validate_values($condition, $field, 'sanitize_title');
+                break;
+
+            case 'date':
+            case 'modified':
+                $validated['value'] = $this->validate_date($condition['value'] ?? '', $field);
+                if ($operator === 'between') {
+                    $validated['to'] = $this->validate_date($condition['to'] ?? '', $field);
+                }
+                break;
+
+            case 'object_id':
+            case 'value_length':
+                $validated['value'] = $this->validate_number($condition['value'] ?? '', $field);
+                if ($operator === 'between') {
+                    $validated['to'] = $this->validate_number($condition['to'] ?? '', $field);
+                }
+                break;
+
+            case 'value_format':
+                $validated['value'] = sanitize_key($condition['value'] ?? '');
+                if (!in_array($validated['value'], self::VALUE_FORMATS, true)) {
+                    throw new \InvalidArgumentException('Unknown value format: ' . $validated['value']);
+                }
+                break;
+        }
+
+        // A reversed range would match nothing, which is never what was meant
+        if ($operator === 'between' && $validated['to'] < $validated['value']) {
+            [$validated['value'], $validated['to']] = [$validated['to'], $validated['value']];
+        }
+
+        return $validated;
+    }
+
+    /**
+     * Sanitize the value list of an "in" condition
+     */
+    private function validate_values(array $condition, string $field, callable $sanitize): array {
+        $values = is_array($condition['values'] ?? null) ? $condition['values'] : [];
+        $values = array_values(array_unique(array_filter(array_map($sanitize, $values), 'strlen')));
+
+        if (empty($values)) {
+            throw new \InvalidArgumentException("The {$field} filter needs at least one value");
+        }
+        if (count($values) > self::MAX_VALUES) {
+            throw new \InvalidArgumentException("The {$field} filter can list at most " . self::MAX_VALUES . ' values');
+        }
+
+        return $values;
+    }
+
+    /**
+     * Accept a calendar date as YYYY-MM-DD
+     */
+    private function validate_date($value, string $field): string {
+        $value = is_string($value) ? trim($value) : '';
+        if (!preg_match('/^(\d{4})-(\d{2})-(\d{2})$/', $value, $parts) || !checkdate((int) $parts[2], (int) $parts[3], (int) $parts[1])) {
+            throw new \InvalidArgumentException("The {$field} filter needs dates as YYYY-MM-DD");
+        }
+
+        return $value;
+    }
+
+    /**
+     * Accept a whole number of zero or more
+     */
+    private function validate_number($value, string $field): int {
+        if (!is_numeric($value) || (int) $value < 0) {
+            throw new \InvalidArgumentException("The {$field} filter needs a whole number of zero or more");
+        }
+
+        return (int) $value;
+    }
+
+    /**
+     * Compile one condition
+     *
+     * Dates compare whole days: "before" ends at the start of the day, "after" starts once it is over.
+     */
+    private function condition_sql(array $condition, array $def): array {
+        global $wpdb;
+
+        $value = $def['value'];
+        $range = function (string $column, string $placeholder, $from, $to = null, string $start = '', string $end = '') use ($condition): array {
+            switch ($condition['operator']) {
+                case 'before':
+                case 'lt':
+                    return ["{$column} < {$placeholder}", [$from . $start]];
+                case 'after':
+                case 'gt':
+                    return ["{$column} > {$placeholder}", [$from . $end]];
+                default:
+                    return ["{$column} BETWEEN {$placeholder} AND {$placeholder}", [$from . $start, $to . $end]];
+            }
+        };
+
+        switch ($condition['field']) {
+            case 'post_status':
+                [$sql, $values] = ["{$def['status']} IN (" . implode(', ', array_fill(0, count($condition['values']), '%s')) . ')', $condition['values']];
+                break;
+
+            case 'author':
+                [$sql, $values] = ["{$def['author']} IN (" . implode(', ', array_fill(0, count($condition['values']), '%d')) . ')', $condition['values']];
+                break;
+
+            case 'term':
+                $sql = "EXISTS (SELECT 1 FROM {$wpdb->term_relationships} tr
+                    INNER JOIN {$wpdb->term_taxonomy} tt ON tr.term_taxonomy_id = tt.term_taxonomy_id
+                    INNER JOIN {$wpdb->terms} tx ON tt.term_id = tx.term_id
+                    WHERE tr.object_id = {$def['object_id']} AND tt.taxonomy = %s
+                    AND tx.slug IN (" . implode(', ', array_fill(0, count($condition['values']), '%s')) . '))';
+                $values = array_merge([$condition['taxonomy']], $condition['values']);
+                break;
+
+            case 'date':
+            case 'modified':
+                [$sql, $values] = $range($def[$condition['field']], '%s', $condition['value'], $condition['to'] ?? null, ' 00:00:00', ' 23:59:59');
+                break;
+
+            case 'object_id':
+                [$sql, $values] = $range($def['object_id'], '%d', $condition['value'], $condition['to'] ?? null);
+                break;
+
+            case 'value_length':
+                [$sql, $values] = $range("CHAR_LENGTH({$value})", '%d', $condition['value'], $condition['to'] ?? null);
+                break;
+
+            case 'value_empty':
+                [$sql, $values] = ["({$value} IS NULL OR {$value} = '')", []];
+                break;
+
+            default:
+                // Formats are told apart by how the value starts; the patterns hold no % for prepare() to read
+                $format_sql = [
+                    'serialized' => "{$value} REGEXP '^([aOsC]:[0-9]+:|[idb]:[^;]*;|N;)'",
+                    'json' => "LEFT(TRIM({$value}), 1) IN ('{', '[')",
+                    'url' => "{$value} REGEXP '^(https?:)?//[^[:space:]]+$'"
+                ];
+                [$sql, $values] = [$format_sql[$condition['value']], []];
+                break;
+        }
+
+        return [$condition['negate'] ? "NOT ({$sql})" : $sql, $values];
+    }
+}
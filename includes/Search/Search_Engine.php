@@ -49,11 +49,59 @@ final class Search_Engine {
      */
     private $cache;
     
+    /**
+     * Data source definitions
+     */
+    private $sources;
+    
+    /**
+     * Filter tree compiler
+     */
+    private $query_filter;
+    
     /**
      * Cache TTL in seconds
      */
     private const CACHE_TTL = 300; // 5 minutes
     
+    /**
+     * Most variants one scan may count
+     */
+    private const MAX_SCAN_VARIANTS = 20;
+    
+    /**
+     * Rows examined per variant before the count is reported as incomplete
+     */
+    private const SCAN_MAX_ROWS = 50000;
+    
+    /**
+     * Rows fetched per query while scanning
+     */
+    private const SCAN_CHUNK_SIZE = 500;
+    
+    /**
+     * Most post types or meta keys one search may list
+     */
+    private const MAX_SCOPE_VALUES = 100;
+    
+    /**
+     * Most meta key groups counted for a multi-key search
+     */
+    private const MAX_KEY_GROUPS = 1000;
+    
+    /**
+     * Fields results can be sorted by, and the source column each one reads
+     */
+    public const SORT_FIELDS = [
+        'post_id' => 'object_id',
+        'title' => 'title',
+        'post_type' => 'type',
+        'status' => 'status',
+        'meta_key' => 'key',
+        'value_length' => 'value',
+        'modified' => 'modified'
+    ];
+    
     /**
      * Private constructor
      */
@@ -64,6 +112,7 @@ final class Search_Engine {
         $this->sanitizer = null;
         $this->logger = null;
         $this->cache = null;
+        $this->sources = null;
     }
     
     /**
@@ -97,13 +146,18 @@ final class Search_Engine {
     }
     
     /**
-     * Search post meta with optimized queries
+     * Search a data source with optimized queries
      */
     public function search(array $params): array {
         try {
             // Validate and sanitize parameters
             $validated = $this->validate_search_params($params);
             
+            // Writers must see live values, so they can opt out of the cache
+            if (!empty($params['skip_cache'])) {
+                return $this->execute_search($validated);
+            }
+            
             // Check cache first
             $cache_key = $this->generate_cache_key($validated);
             $cached_result = $this->get_cache()->get($cache_key);
@@ -140,22 +194,18 @@ final class Search_Engine {
      * Validate search parameters
      */
     private function validate_search_params(array $params): array {
-        $validated = [];
+        // Post types and keys are optional; an empty list matches all of them
+        $validated = $this->validate_scope($params);
         
-        // Post type is now optional - we can search across all post types
-        $validated['post_type'] = $this->get_sanitizer()->sanitize_text_field($params['post_type'] ?? '');
-        
-        // Meta key is optional if value is provided
-        $validated['meta_key'] = $this->get_sanitizer()->sanitize_text_field($params['meta_key'] ?? '');
         $validated['value'] = $this->get_sanitizer()->sanitize_text_field($params['value'] ?? '');
         
         // Validate and sanitize per_page
         $max_per_page = get_option('wcfdr_settings', ['maxResultsPerPage' => 1500])['maxResultsPerPage'] ?? 1500;
         $validated['per_page'] = min($max_per_page, max(1, intval($params['per_page'] ?? 20)));
         
-        // Require either meta_key or value to be present
-        if (empty($validated['meta_key']) && empty($validated['value'])) {
-            throw new \InvalidArgumentException('Either meta key or value must be provided');
+        // Require the keys to be chosen, a value to be present or filters to narrow the rows
+        if (!$this->has_key_scope($validated) && empty($validated['value']) && empty($validated['filters'])) {
+            throw new \InvalidArgumentException('Either a key, a value or a filter must be provided');
         }
         
         // Optional fields with defaults
@@ -164,85 +214,207 @@ final class Search_Engine {
         $validated['regex'] = (bool) ($params['regex'] ?? false);
         $validated['dry_run'] = (bool) ($params['dry_run'] ?? false);
         
+        // Keyset cursor: only rows after this row id, in row id order
+        $validated['after_meta_id'] = isset($params['after_meta_id']) ? max(0, intval($params['after_meta_id'])) : null;
+        
+        // Sorting is optional; without it the newest rows come first
+        $validated['orderby'] = sanitize_key($params['orderby'] ?? '');
+        if ($validated['orderby'] !== '' && !isset(self::SORT_FIELDS[$validated['orderby']])) {
+            throw new \InvalidArgumentException('Unknown sort field: ' . $validated['orderby']);
+        }
+        $validated['order'] = strtolower($params['order'] ?? '') === 'desc' ? 'desc' : 'asc';
+        
+        // Cursor pagination walks rows by row id from the last one seen, newest first unless asked otherwise,
+        // so rows added or removed while browsing never shift the next batch the way they shift an offset page
+        $validated['pagination'] = ($params['pagination'] ?? '') === 'cursor' ? 'cursor' : 'offset';
+        $validated['cursor'] = 0;
+        if ($validated['pagination'] === 'cursor') {
+            if ($validated['orderby'] !== '') {
+                throw new \InvalidArgumentException('Cursor pagination lists rows by row ID and cannot be sorted by another field');
+            }
+            $validated['order'] = strtolower($params['order'] ?? '') === 'asc' ? 'asc' : 'desc';
+            $validated['cursor'] = max(0, intval($params['cursor'] ?? 0));
+            $validated['page'] = 1;
+        }
+        
+        $def = $this->get_sources()->get($validated['source']);
+        if ($validated['orderby'] === 'modified' && $def['modified'] === 'NULL') {
+            throw new \InvalidArgumentException('Rows from ' . strtolower($def['label']) . ' have no last-modified date to sort by');
+        }
+        
         return $validated;
     }
     
+    /**
+     * Validate which data source, post types, keys and filters a search or replace covers
+     *
+     * The single post_type and meta_key fields are merged into the lists, so older callers keep working.
+     * A key pattern uses * for any run of characters and ? for one character, such as "_elementor_*".
+     * Filters are a tree of conditions on the row's object and value; see Query_Filter.
+     */
+    public function validate_scope(array $params): array {
+        $source = $this->get_sanitizer()->sanitize_text_field($params['source'] ?? '') ?: 'postmeta';
+        if (!in_array($source, Data_Source::SOURCES, true)) {
+            throw new \InvalidArgumentException('Unknown data source: ' . $source);
+        }
+        
+        $scope = [
+            'source' => $source,
+            'post_types' => $this->sanitize_list($params['post_type'] ?? '', $params['post_types'] ?? []),
+            'meta_keys' => $this->sanitize_list($params['meta_key'] ?? '', $params['meta_keys'] ?? []),
+            'meta_key_pattern' => $this->get_sanitizer()->sanitize_text_field($params['meta_key_pattern'] ?? ''),
+            'all_meta_keys' => (bool) ($params['all_meta_keys'] ?? false)
+        ];
+        
+        if (count($scope['post_types']) > self::MAX_SCOPE_VALUES || count($scope['meta_keys']) > self::MAX_SCOPE_VALUES) {
+            throw new \InvalidArgumentException('At most ' . self::MAX_SCOPE_VALUES . ' post types or meta keys can be searched at once');
+        }
+        if ($scope['meta_key_pattern'] !== '' && trim($scope['meta_key_pattern'], '*?') === '') {
+            throw new \InvalidArgumentException('A meta key pattern needs at least one character besides * and ?; use all meta keys instead');
+        }
+        
+        // Every key is searched, so listed keys and patterns would only narrow it by mistake
+        if ($scope['all_meta_keys']) {
+            $scope['meta_keys'] = [];
+            $scope['meta_key_pattern'] = '';
+        }
+        
+        $def = $this->get_sources()->get($source);
+        if (!$this->get_sources()->can_access($def)) {
+            throw new \InvalidArgumentException('You are not allowed to search ' . strtolower($def['label']));
+        }
+        
+        // Post types only narrow rows that belong to posts, and a post field is its own key
+        if ($def['post_type'] === null) {
+            $scope['post_types'] = [];
+        }
+        if (!$def['keyed']) {
+            $scope['meta_keys'] = [];
+            $scope['meta_key_pattern'] = '';
+            $scope['all_meta_keys'] = false;
+        }
+        
+        $scope['filters'] = $this->get_query_filter()->validate($params['filters'] ?? null, $def);
+        
+        return $scope;
+    }
+    
+    /**
+     * Whether the scope names its keys, rather than leaving the value filter to narrow the rows
+     */
+    public function has_key_scope(array $scope): bool {
+        if (!$this->get_sources()->get($scope['source'])['keyed']) {
+            return true;
+        }
+        
+        return !empty($scope['meta_keys']) || $scope['meta_key_pattern'] !== '' || $scope['all_meta_keys'];
+    }
+    
+    /**
+     * Sanitize a single value and a list of values into one list without blanks or duplicates
+     */
+    private function sanitize_list($single, $values): array {
+        $values = is_array($values) ? array_values($values) : [];
+        $values[] = $single;
+        
+        $sanitized = array_map(function ($value) {
+            return $this->get_sanitizer()->sanitize_text_field($value);
+        }, $values);
+        
+        return array_values(array_unique(array_filter($sanitized, 'strlen')));
+    }
+    
     /**
      * Execute the search query
      */
     private function execute_search(array $params): array {
         global $wpdb;
         
+        $def = $this->get_sources()->get($params['source']);
         $offset = ($params['page'] - 1) * $params['per_page'];
         
-        // Build WHERE clause
-        $where_clauses = [];
+        // Build WHERE clause, always leaving out the keys the source never searches
+        $where_clauses = $def['excluded'];
         $where_values = [];
         
-        // Always exclude ACF fields from search results
-        $where_clauses[] = "pm.meta_key NOT LIKE '_field%'";
-        $where_clauses[] = "pm.meta_key NOT REGEXP '^field_[a-f0-9]{13}$'";
-        $where_clauses[] = "pm.meta_key NOT LIKE '_required_plugins%'";
-        $where_clauses[] = "pm.meta_key NOT LIKE '_acf%'";
-        $where_clauses[] = "pm.meta_key NOT LIKE '_acf_%'";
+        // Post types are optional - only add if provided
+        if (!empty($params['post_types'])) {
+            $where_clauses[] = "{$def['post_type']} IN (" . implode(', ', array_fill(0, count($params['post_types']), '%s')) . ')';
+            $where_values = array_merge($where_values, $params['post_types']);
+        }
         
-        // Post type is optional - only add if provided
-        if (!empty($params['post_type'])) {
-            $where_clauses[] = "p.post_type = %s";
-            $where_values[] = $params['post_type'];
+        // Listed keys and a key pattern add up; all meta keys adds no clause at all
+        $key_clauses = [];
+        if (!empty($params['meta_keys'])) {
+            $key_clauses[] = "{$def['key']} IN (" . implode(', ', array_fill(0, count($params['meta_keys']), '%s')) . ')';
+            $where_values = array_merge($where_values, $params['meta_keys']);
+        }
+        if ($params['meta_key_pattern'] !== '') {
+            $key_clauses[] = "{$def['key']} LIKE %s";
+            $where_values[] = str_replace(['*', '?'], ['%', '_'], $wpdb->esc_like($params['meta_key_pattern']));
+        }
+        if (!empty($key_clauses)) {
+            $where_clauses[] = '(' . implode(' OR ', $key_clauses) . ')';
         }
         
-        // Meta key is optional - only add if provided
-        if (!empty($params['meta_key'])) {
-            $where_clauses[] = "pm.meta_key = %s";
-            $where_values[] = $params['meta_key'];
+        // Conditions from the filter builder
+        if (!empty($params['filters'])) {
+            [$filter_sql, $filter_values] = $this->get_query_filter()->to_sql($params['filters'], $def);
+            $where_clauses[] = $filter_sql;
+            $where_values = array_merge($where_values, $filter_values);
         }
         
         // Add value filter if provided
         if (!empty($params['value'])) {
             if ($params['regex']) {
-                $where_clauses[] = "pm.meta_value REGEXP %s";
+                $where_clauses[] = "{$def['value']} REGEXP %s";
                 $where_values[] = $params['value'];
             } else {
                 $operator = $params['case_sensitive'] ? 'LIKE BINARY' : 'LIKE';
-                $where_clauses[] = "pm.meta_value {$operator} %s";
+                $where_clauses[] = "{$def['value']} {$operator} %s";
                 $where_values[] = '%' . $wpdb->esc_like($params['value']) . '%';
             }
         }
         
-        $where_sql = implode(' AND ', $where_clauses);
+        if ($params['after_meta_id'] !== null) {
+            $where_clauses[] = "{$def['id']} > %d";
+            $where_values[] = $params['after_meta_id'];
+        }
         
-        // Count total results
-        $count_sql = $wpdb->prepare(
-            "SELECT COUNT(DISTINCT pm.meta_id) as total 
-             FROM {$wpdb->postmeta} pm 
-             INNER JOIN {$wpdb->posts} p ON pm.post_id = p.ID 
-             WHERE {$where_sql}",
-            $where_values
-        );
+        $where_sql = empty($where_clauses) ? '1=1' : implode(' AND ', $where_clauses);
         
-        $total = $wpdb->get_var($count_sql);
+        $is_cursor = $params['pagination'] === 'cursor';
         
-        if ($total === null) {
-            throw new \Exception('Failed to count search results');
+        // Results spanning several keys are grouped by key, so each page lists whole runs of one key
+        $grouped = $def['keyed'] && $params['after_meta_id'] === null && !$is_cursor && (count($params['meta_keys']) !== 1 || $params['meta_key_pattern'] !== '' || $params['all_meta_keys']);
+        if ($params['after_meta_id'] !== null) {
+            $order_sql = "{$def['id']} ASC";
+        } elseif ($is_cursor) {
+            $order_sql = "{$def['id']} " . strtoupper($params['order']);
+        } else {
+            $order_sql = $this->order_sql($def, $params['orderby'], $params['order'], $grouped);
+        }
+        
+        // Count total results; a cursor search counts the whole result, not what is left after the cursor
+        $total = $this->count_rows($def, $where_sql, $where_values, $is_cursor && $params['cursor'] > 0);
+        
+        // A cursor batch starts after the last row seen and fetches one extra row to tell whether more follow
+        $page_where_sql = $where_sql;
+        $page_values = $where_values;
+        if ($is_cursor && $params['cursor'] > 0) {
+            $page_where_sql .= " AND {$def['id']} " . ($params['order'] === 'asc' ? '>' : '<') . ' %d';
+            $page_values[] = $params['cursor'];
         }
+        $limit = $is_cursor ? $params['per_page'] + 1 : $params['per_page'];
         
         // Get paginated results
         $results_sql = $wpdb->prepare(
-            "SELECT 
-                p.ID as post_id,
-                p.post_title,
-                p.post_type,
-                pm.meta_key,
-                pm.meta_value,
-                p.post_status,
-                p.post_date
-             FROM {$wpdb->postmeta} pm 
-             INNER JOIN {$wpdb->posts} p ON pm.post_id = p.ID 
-             WHERE {$where_sql}
-             ORDER BY p.post_date DESC
+            "SELECT {$this->get_sources()->select_sql($def)}
+             FROM {$def['from']} 
+             WHERE {$page_where_sql}
+             ORDER BY {$order_sql}
              LIMIT %d OFFSET %d",
-            array_merge($where_values, [$params['per_page'], $offset])
+            array_merge($page_values, [$limit, $is_cursor ? 0 : $offset])
         );
         
         $rows = $wpdb->get_results($results_sql, ARRAY_A);
@@ -251,26 +423,297 @@ final class Search_Engine {
             throw new \Exception('Failed to fetch search results');
         }
         
+        $next_cursor = null;
+        if ($is_cursor && count($rows) > $params['per_page']) {
+            $rows = array_slice($rows, 0, $params['per_page']);
+            $next_cursor = (int) end($rows)['meta_id'];
+        }
+        
+        $groups = $grouped ? $this->count_key_groups($def, $where_sql, $where_values) : [];
+        
         // Add backup information
-        $rows = $this->add_backup_info($rows);
+        $rows = $this->add_backup_info($rows, $def['source']);
         
         // Decode HTML entities in meta values for display
         $rows = $this->decode_meta_values($rows);
         
+        // Add edit/view links
+        $rows = $this->add_object_links($rows, $def);
+        
+        $total_pages = (int) ceil($total / $params['per_page']);
+        
         return [
             'success' => true,
+            'source' => $def['source'],
             'rows' => $rows,
-            'total' => (int) $total,
-            'total_pages' => ceil($total / $params['per_page']),
+            'total' => $total,
+            'total_pages' => $total_pages,
             'page' => $params['page'],
-            'per_page' => $params['per_page']
+            'per_page' => $params['per_page'],
+            'has_next_page' => $is_cursor ? $next_cursor !== null : $params['page'] < $total_pages,
+            'has_prev_page' => !$is_cursor && $params['page'] > 1,
+            'groups' => $groups,
+            'orderby' => $params['orderby'],
+            'order' => $params['order'],
+            'pagination' => $params['pagination'],
+            'next_cursor' => $next_cursor
         ];
     }
     
+    /**
+     * Count the rows a search matches
+     *
+     * Later batches of a cursor search reuse the count of the first, which spares a full count per batch
+     * and keeps the total steady while browsing.
+     */
+    private function count_rows(array $def, string $where_sql, array $where_values, bool $reuse): int {
+        global $wpdb;
+        
+        $count_sql = "SELECT COUNT(DISTINCT {$def['id']}) as total 
+             FROM {$def['from']} 
+             WHERE {$where_sql}";
+        if (!empty($where_values)) {
+            $count_sql = $wpdb->prepare($count_sql, $where_values);
+        }
+        
+        $cache_key = 'wcfdr_search_count_' . md5($count_sql);
+        if ($reuse) {
+            $cached = $this->get_cache()->get($cache_key);
+            if ($cached !== false) {
+                return (int) $cached;
+            }
+        }
+        
+        $total = $wpdb->get_var($count_sql);
+        
+        if ($total === null) {
+            throw new \Exception('Failed to count search results');
+        }
+        
+        $this->get_cache()->set($cache_key, (int) $total, self::CACHE_TTL);
+        
+        return (int) $total;
+    }
+    
+    /**
+     * ORDER BY for a page of results
+     *
+     * Grouped results stay in key order, so the chosen sort applies within each key's run.
+     * The row id breaks ties, which keeps pages stable when many rows share a sort value.
+     */
+    private function order_sql(array $def, string $orderby, string $order, bool $grouped): string {
+        if ($orderby === '') {
+            $sort = $def['date'] !== 'NULL' ? "{$def['date']} DESC" : "{$def['id']} DESC";
+        } else {
+            // Options have no object, so their own row ID stands in for it, as the ID column shows
+            $column = $orderby === 'post_id' && $def['object_id'] === '0' ? $def['id'] : $def[self::SORT_FIELDS[$orderby]];
+            $direction = strtoupper($order);
+            $sort = ($orderby === 'value_length' ? "CHAR_LENGTH({$column})" : $column) . " {$direction}, {$def['id']} {$direction}";
+        }
+        
+        if (!$grouped) {
+            return $sort;
+        }
+        
+        return $orderby === 'meta_key' ? $sort : "{$def['key']} ASC, {$sort}";
+    }
+    
+    /**
+     * Matching rows per key across the whole result, not just the current page
+     */
+    private function count_key_groups(array $def, string $where_sql, array $where_values): array {
+        global $wpdb;
+        
+        $rows = $wpdb->get_results($wpdb->prepare(
+            "SELECT {$def['key']} as meta_key, COUNT(DISTINCT {$def['id']}) as total
+             FROM {$def['from']}
+             WHERE {$where_sql}
+             GROUP BY {$def['key']}
+             ORDER BY {$def['key']} ASC
+             LIMIT %d",
+            array_merge($where_values, [self::MAX_KEY_GROUPS])
+        ), ARRAY_A);
+        
+        return array_map(function ($row) {
+            return ['meta_key' => $row['meta_key'], 'total' => (int) $row['total']];
+        }, $rows ?: []);
+    }
+    
+    /**
+     * Count the rows and occurrences of each text variant across a whole data source
+     *
+     * Each variant gives a literal needle, which narrows the rows in SQL, and a PCRE pattern that
+     * is counted in PHP, so a needle such as "old.com" is not counted inside "old.com.au".
+     */
+    public function scan_variants(array $params): array {
+        global $wpdb;
+        
+        try {
+            $variants = $this->validate_scan_variants($params['variants'] ?? []);
+            $def = $this->get_sources()->get($this->validate_scope($params)['source']);
+            $where_sql = implode(' AND ', array_merge($def['excluded'], ['1=1']));
+            $counts = [];
+            
+            foreach ($variants as $variant) {
+                $after_meta_id = 0;
+                $rows = 0;
+                $matches = 0;
+                $scanned = 0;
+                
+                do {
+                    $chunk = $wpdb->get_results($wpdb->prepare(
+                        "SELECT {$def['id']} as meta_id, {$def['value']} as meta_value
+                         FROM {$def['from']}
+                         WHERE {$where_sql} AND {$def['value']} LIKE %s AND {$def['id']} > %d
+                         ORDER BY {$def['id']} ASC
+                         LIMIT %d",
+                        '%' . $wpdb->esc_like($variant['needle']) . '%',
+                        $after_meta_id,
+                        self::SCAN_CHUNK_SIZE
+                    ), ARRAY_A);
+                    
+                    if ($chunk === null) {
+                        throw new \Exception('Failed to scan ' . strtolower($def['label']));
+                    }
+                    
+                    foreach ($chunk as $row) {
+                        $found = (int) preg_match_all($variant['pattern'], (string) $row['meta_value']);
+                        $rows += $found > 0 ? 1 : 0;
+                        $matches += $found;
+                        $after_meta_id = (int) $row['meta_id'];
+                    }
+                    $scanned += count($chunk);
+                } while (count($chunk) === self::SCAN_CHUNK_SIZE && $scanned < self::SCAN_MAX_ROWS);
+                
+                $counts[] = [
+                    'needle' => $variant['needle'],
+                    'rows' => $rows,
+                    'matches' => $matches,
+                    'complete' => count($chunk) < self::SCAN_CHUNK_SIZE
+                ];
+            }
+            
+            return [
+                'success' => true,
+                'variants' => $counts
+            ];
+            
+        } catch (\Exception $e) {
+            $this->get_logger()->error('Variant scan failed: ' . $e->getMessage(), [
+                'params' => $params
+            ]);
+            
+            return [
+                'success' => false,
+                'error' => $e->getMessage(),
+                'variants' => []
+            ];
+        }
+    }
+    
+    /**
+     * Validate the needle and pattern of every variant to scan
+     */
+    private function validate_scan_variants($variants): array {
+        if (empty($variants) || !is_array($variants)) {
+            throw new \InvalidArgumentException('No variants to scan');
+        }
+        if (count($variants) > self::MAX_SCAN_VARIANTS) {
+            throw new \InvalidArgumentException('At most ' . self::MAX_SCAN_VARIANTS . ' variants can be scanned at once');
+        }
+        
+        $validated = [];
+        foreach (array_values($variants) as $index => $variant) {
+            $needle = $this->get_sanitizer()->sanitize_text_field($variant['needle'] ?? '');
+            $pattern = $this->get_sanitizer()->sanitize_text_field($variant['pattern'] ?? '');
+            
+            if ($needle === '') {
+                throw new \InvalidArgumentException('Variant ' . ($index + 1) . ': Text to find is required');
+            }
+            if (@preg_match($pattern, '') === false) {
+                throw new \InvalidArgumentException('Variant ' . ($index + 1) . ': Invalid regex pattern: ' . preg_last_error_msg());
+            }
+            
+            $validated[] = ['needle' => $needle, 'pattern' => $pattern];
+        }
+        
+        return $validated;
+    }
+    
+    /**
+     * Fetch explicit post_id/meta_id targets of one data source, in row id order after the cursor
+     */
+    public function fetch_targets(array $targets, int $after_meta_id = 0, int $limit = 1000, string $source = 'postmeta'): array {
+        global $wpdb;
+        
+        try {
+            if (empty($targets)) {
+                throw new \InvalidArgumentException('No target rows given');
+            }
+            
+            $def = $this->get_sources()->get($source);
+            
+            // Pairing the row id with its object id guards against ids reused after a row was deleted
+            $pair_clauses = [];
+            $where_values = [];
+            foreach ($targets as $target) {
+                $pair_clauses[] = "({$def['id']} = %d AND {$def['object_id']} = %d)";
+                $where_values[] = (int) $target['meta_id'];
+                $where_values[] = (int) $target['post_id'];
+            }
+            $where_values[] = $after_meta_id;
+            
+            $where_sql = '(' . implode(' OR ', $pair_clauses) . ") AND {$def['id']} > %d";
+            
+            $total = $wpdb->get_var($wpdb->prepare(
+                "SELECT COUNT(*) 
+                 FROM {$def['from']} 
+                 WHERE {$where_sql}",
+                $where_values
+            ));
+            
+            if ($total === null) {
+                throw new \Exception('Failed to count target rows');
+            }
+            
+            $rows = $wpdb->get_results($wpdb->prepare(
+                "SELECT {$this->get_sources()->select_sql($def)}
+                 FROM {$def['from']} 
+                 WHERE {$where_sql}
+                 ORDER BY {$def['id']} ASC
+                 LIMIT %d",
+                array_merge($where_values, [max(1, $limit)])
+            ), ARRAY_A);
+            
+            if ($rows === null) {
+                throw new \Exception('Failed to fetch target rows');
+            }
+            
+            return [
+                'success' => true,
+                'rows' => $this->decode_meta_values($rows),
+                'total' => (int) $total
+            ];
+            
+        } catch (\Exception $e) {
+            $this->get_logger()->error('Target fetch failed: ' . $e->getMessage(), [
+                'targets' => count($targets),
+                'trace' => $e->getTraceAsString()
+            ]);
+            
+            return [
+                'success' => false,
+                'error' => $e->getMessage(),
+                'rows' => [],
+                'total' => 0
+            ];
+        }
+    }
+    
     /**
      * Add backup information to search results
      */
-    private function add_backup_info(array $rows): array {
+    private function add_backup_info(array $rows, string $source): array {
         if (empty($rows)) {
             return $rows;
         }
@@ -298,14 +741,15 @@ final class Search_Engine {
         $post_ids = array_column($rows, 'post_id');
         $meta_keys = array_column($rows, 'meta_key');
         
-        // Get backup counts for these posts/meta keys
+        // Get backup counts for these objects/keys; ids of different sources overlap
         $backup_sql = $wpdb->prepare(
-            "SELECT post_id, meta_key, COUNT(*) as backup_count 
+            "SELECT CONCAT(post_id, '_', meta_key) as backup_key, COUNT(*) as backup_count 
              FROM {$backup_table} 
-             WHERE post_id IN (" . implode(',', array_fill(0, count($post_ids), '%d')) . ")
+             WHERE source = %s
+             AND post_id IN (" . implode(',', array_fill(0, count($post_ids), '%d')) . ")
              AND meta_key IN (" . implode(',', array_fill(0, count($meta_keys), '%s')) . ")
              GROUP BY post_id, meta_key",
-            array_merge($post_ids, $meta_keys)
+            array_merge([$source], $post_ids, $meta_keys)
         );
         
         $backup_counts = $wpdb->get_results($backup_sql, OBJECT_K);
@@ -320,6 +764,21 @@ final class Search_Engine {
         return $rows;
     }
     
+    /**
+     * Add the source, edit and view links, and cast numeric columns
+     */
+    private function add_object_links(array $rows, array $def): array {
+        foreach ($rows as &$row) {
+            $row['source'] = $def['source'];
+            $row['post_id'] = (int) $row['post_id'];
+            $row['meta_id'] = (int) $row['meta_id'];
+            $row['backup_count'] = (int) ($row['backup_count'] ?? 0);
+            $row = array_merge($row, $this->get_sources()->links($def, $row['post_id']));
+        }
+        
+        return $rows;
+    }
+    
     /**
      * Decode HTML entities in meta values for display
      */
@@ -380,11 +839,11 @@ final class Search_Engine {
     }
     
     /**
-     * Get meta keys filtered by post type (dynamic from postmeta table)
-     * Excludes ACF fields starting with _field and field_ format
+     * Get the keys of a data source, filtered by post type where its rows belong to posts
+     * Excludes the keys the source never searches, such as ACF field definitions
      */
-    public function get_meta_keys(string $post_type = ''): array {
-        $cache_key = "meta_keys_v2_" . ($post_type ?: 'all');
+    public function get_meta_keys(string $post_type = '', string $source = 'postmeta'): array {
+        $cache_key = "meta_keys_v3_{$source}_" . ($post_type ?: 'all');
         $cached = $this->get_cache()->get($cache_key);
         
         if ($cached !== false) {
@@ -393,41 +852,39 @@ final class Search_Engine {
         
         global $wpdb;
         
-        if (!empty($post_type)) {
-            // Get meta keys for specific post type, excluding ACF fields
+        $def = $this->get_sources()->get($source);
+        
+        // Post fields are their own key, so there is nothing to pick from
+        if (!$def['keyed'] || !$this->get_sources()->can_access($def)) {
+            return [];
+        }
+        
+        $where_clauses = array_merge($def['excluded'], ["{$def['key']} != ''"]);
+        
+        if (!empty($post_type) && $def['post_type'] !== null) {
+            // Get keys for a specific post type
+            $where_clauses[] = "{$def['post_type']} = %s";
             $sql = "
                 SELECT 
-                    pm.meta_key,
+                    {$def['key']} as meta_key,
                     COUNT(*) as frequency
-                 FROM {$wpdb->postmeta} pm 
-                 INNER JOIN {$wpdb->posts} p ON pm.post_id = p.ID 
-                 WHERE p.post_type = %s 
-                 AND pm.meta_key != '' 
-                 AND pm.meta_key NOT LIKE '_field%'
-                 AND pm.meta_key NOT REGEXP '^field_[a-f0-9]{13}$'
-                 AND pm.meta_key NOT LIKE '_required_plugins%'
-                 AND pm.meta_key NOT LIKE '_acf%'
-                 AND pm.meta_key NOT LIKE '_acf_%'
-                 GROUP BY pm.meta_key 
-                 ORDER BY frequency DESC, pm.meta_key ASC
+                 FROM {$def['from']} 
+                 WHERE " . implode(' AND ', $where_clauses) . "
+                 GROUP BY {$def['key']} 
+                 ORDER BY frequency DESC, {$def['key']} ASC
                  LIMIT 200
             ";
             $results = $wpdb->get_results($wpdb->prepare($sql, $post_type), ARRAY_A);
         } else {
-            // Get all meta keys across all post types, excluding ACF fields
+            // Get keys across the whole source
             $sql = "
                 SELECT 
-                    pm.meta_key,
+                    {$def['key']} as meta_key,
                     COUNT(*) as frequency
-                 FROM {$wpdb->postmeta} pm 
-                 WHERE pm.meta_key != '' 
-                 AND pm.meta_key NOT LIKE '_field%'
-                 AND pm.meta_key NOT REGEXP '^field_[a-f0-9]{13}$'
-                 AND pm.meta_key NOT LIKE '_required_plugins%'
-                 AND pm.meta_key NOT LIKE '_acf%'
-                 AND pm.meta_key NOT LIKE '_acf_%'
-                 GROUP BY pm.meta_key 
-                 ORDER BY frequency DESC, pm.meta_key ASC
+                 FROM {$def['from']} 
+                 WHERE " . implode(' AND ', $where_clauses) . "
+                 GROUP BY {$def['key']} 
+                 ORDER BY frequency DESC, {$def['key']} ASC
                  LIMIT 200
             ";
             $results = $wpdb->get_results($sql, ARRAY_A);
@@ -513,7 +970,8 @@ final class Search_Engine {
         }
         
         $post_type = sanitize_text_field($_POST['post_type'] ?? '');
-        $meta_keys = $this->get_meta_keys($post_type);
+        $source = sanitize_text_field($_POST['source'] ?? '') ?: 'postmeta';
+        $meta_keys = $this->get_meta_keys($post_type, $source);
         
         wp_send_json_success($meta_keys);
     }
@@ -549,6 +1007,26 @@ final class Search_Engine {
         return $this->cache;
     }
 
+    /**
+     * Get data source definitions (lazy loaded)
+     */
+    private function get_sources() {
+        if ($this->sources === null) {
+            $this->sources = \WCFDR\Core\Container::getInstance()->get('sources');
+        }
+        return $this->sources;
+    }
+
+    /**
+     * Get filter tree compiler (lazy loaded)
+     */
+    private function get_query_filter() {
+        if ($this->query_filter === null) {
+            $this->query_filter = \WCFDR\Core\Container::getInstance()->get('query_filter');
+        }
+        return $this->query_filter;
+    }
+
     /**
      * Get logger (lazy loaded)
      */
@@ -12,11 +12,99 @@ namespace WCFDR\Utils;
  * URL Helper Class
  */
 class URL_Helper {
-    
+
+    /**
+     * Absolute http(s) URLs inside free text; a URL ends at whitespace, quotes, brackets or angle brackets
+     */
+    private const URL_PATTERN = '~https?://[^\s"\'<>()\[\]{}]+~i';
+
     /**
      * Initialize URL helper functionality
      */
     public function init() {
         // URL helper initialization logic will go here
     }
+
+    /**
+     * Swap the base of every URL in the text that matches $find
+     *
+     * A find value with a scheme ("http://old.com/blog") is matched case-insensitively as a URL
+     * prefix; a bare host ("old.com") matches URLs on exactly that host. The match has to end on a
+     * URL boundary, so "old.com" never matches "old.com.au". $count is set to the number of URLs changed.
+     */
+    public function replace_url(string $text, string $find, string $replace, int &$count = 0): string {
+        $find = rtrim(trim($find), '/');
+        $replace = rtrim(trim($replace), '/');
+        $count = 0;
+
+        if ($find === '') {
+            return $text;
+        }
+
+        return preg_replace_callback(self::URL_PATTERN, function ($matches) use ($find, $replace, &$count) {
+            $url = $matches[0];
+
+            if (strpos($find, '://') !== false) {
+                $rest = substr($url, strlen($find));
+                if (strcasecmp(substr($url, 0, strlen($find)), $find) !== 0 || !$this->is_url_boundary($rest)) {
+                    return $url;
+                }
+                $count++;
+                return $replace . $rest;
+            }
+
+            if (!preg_match('~^(https?://)([^/?#:]+)(.*)$~is', $url, $parts) || strcasecmp($parts[2], $find) !== 0) {
+                return $url;
+            }
+
+            $count++;
+
+            // A replacement with its own scheme replaces the scheme too
+            return strpos($replace, '://') !== false
+                ? $replace . $parts[3]
+                : $parts[1] . $replace . $parts[3];
+        }, $text);
+    }
+
+    /**
+     * Replace whole path segments of every URL in the text
+     *
+     * "old-path" matches the segment in "/old-path/page" but not in "/old-paths/"; multi-segment
+     * values such as "blog/2019" work the same way. Query strings and fragments are left alone.
+     * $count is set to the number of segments replaced.
+     */
+    public function replace_url_segment(string $text, string $find, string $replace, int &$count = 0): string {
+        $find = trim($find, '/');
+        $replace = trim($replace, '/');
+        $count = 0;
+
+        if ($find === '') {
+            return $text;
+        }
+
+        $segment_pattern = '~(?<=/)' . preg_quote($find, '~') . '(?=/|$)~';
+
+        return preg_replace_callback(self::URL_PATTERN, function ($matches) use ($segment_pattern, $replace, &$count) {
+            if (!preg_match('~^(https?://[^/?#]+)([^?#]*)(.*)$~is', $matches[0], $parts)) {
+                return $matches[0];
+            }
+
+            $path = preg_replace($segment_pattern, $replace, $parts[2], -1, $replaced);
+            $count += $replaced;
+
+            // Replacing a segment with nothing removes it rather than leaving "//"
+            if ($replace === '') {
+                $path = preg_replace('~/{2,}~', '/', $path);
+            }
+
+            return $parts[1] . $path . $parts[3];
+        }, $text);
+    }
+
+    /**
+     * Whether the text following a matched prefix starts a new URL part
+     */
+    private function is_url_boundary(string $rest): bool {
+        return $rest === '' || strpos('/?#:', $rest[0]) !== false;
+    }
 }
@@ -0,0 +1,7 @@
+const defaults = require( '@wordpress/scripts/config/jest-unit.config' );
+
+module.exports = {
+	...defaults,
+	// jsdom leaves out TextEncoder and TextDecoder, which the structured replace reads values with
+	setupFiles: [ '<rootDir>/tests/jest-setup.js' ],
+};
@@ -45,6 +45,11 @@ if (file_exists(MCDR_PLUGIN_DIR . 'vendor/autoload.php')) {
  */
 final class Mangocube_Data_Replacer {
     
+    /**
+     * User meta holding each user's results table columns
+     */
+    public const TABLE_COLUMNS_META = 'wcfdr_table_columns';
+    
     /**
      * Plugin instance
      */
@@ -226,7 +231,9 @@ final class Mangocube_Data_Replacer {
             'ajax_url' => admin_url('admin-ajax.php'),
             'nonce' => wp_create_nonce('wcfdr_nonce'),
             'rest_url' => rest_url('wcfdr/v1/'),
-            'rest_nonce' => wp_create_nonce('wp_rest')
+            'rest_nonce' => wp_create_nonce('wp_rest'),
+            'sources' => $this->container->get('sources')->available(),
+            'table_columns' => get_user_meta(get_current_user_id(), self::TABLE_COLUMNS_META, true) ?: null
         ]);
     }
     
@@ -342,6 +349,110 @@ final class Mangocube_Data_Replacer {
         wp_send_json_success($result);
     }
     
+    public function ajax_dry_run() {
+        check_ajax_referer('wcfdr_nonce', 'nonce');
+        
+        if (!current_user_can('edit_posts')) {
+            wp_die(__('Permission denied', 'wcf-data-replacer'));
+        }
+        
+        $replace_engine = $this->container->get('replace');
+        $result = $replace_engine->dry_run($_POST);
+        
+        wp_send_json_success($result);
+    }
+    
+    public function ajax_scan_variants() {
+        check_ajax_referer('wcfdr_nonce', 'nonce');
+        
+        if (!current_user_can('edit_posts')) {
+            wp_die(__('Permission denied', 'wcf-data-replacer'));
+        }
+        
+        wp_send_json_success($this->container->get('search')->scan_variants($_POST));
+    }
+    
+    public function ajax_get_recipes() {
+        check_ajax_referer('wcfdr_nonce', 'nonce');
+        
+        if (!current_user_can('edit_posts')) {
+            wp_die(__('Permission denied', 'wcf-data-replacer'));
+        }
+        
+        wp_send_json_success($this->container->get('recipes')->get_recipes());
+    }
+    
+    /**
+     * Recipes are shared by every user, so only administrators may change them
+     */
+    public function ajax_save_recipe() {
+        check_ajax_referer('wcfdr_nonce', 'nonce');
+        
+        if (!current_user_can('manage_options')) {
+            wp_send_json_error('Permission denied');
+        }
+        
+        wp_send_json_success($this->container->get('recipes')->save_recipe($_POST));
+    }
+    
+    public function ajax_delete_recipe() {
+        check_ajax_referer('wcfdr_nonce', 'nonce');
+        
+        if (!current_user_can('manage_options')) {
+            wp_send_json_error('Permission denied');
+        }
+        
+        $id = sanitize_text_field($_POST['id'] ?? '');
+        wp_send_json_success($this->container->get('recipes')->delete_recipe($id));
+    }
+    
+    /**
+     * Download every row of a search or replace preview as CSV, JSON or NDJSON
+     *
+     * Errors found before the file starts come back as JSON like any other action; the file itself is streamed.
+     */
+    public function ajax_export(): void {
+        check_ajax_referer('wcfdr_nonce', 'nonce');
+        
+        if (!current_user_can('edit_posts')) {
+            wp_send_json_error('Permission denied');
+        }
+        
+        try {
+            $this->container->get('export')->stream($_POST);
+        } catch (\Exception $e) {
+            wp_send_json_error('Export failed: ' . $e->getMessage());
+        }
+        
+        exit;
+    }
+    
+    /**
+     * Check a mapping file against the live data without writing anything
+     */
+    public function ajax_import_preview() {
+        check_ajax_referer('wcfdr_nonce', 'nonce');
+        
+        if (!current_user_can('edit_posts')) {
+            wp_send_json_error('Permission denied');
+        }
+        
+        wp_send_json_success($this->container->get('import')->preview($_POST));
+    }
+    
+    /**
+     * Apply a previewed mapping file as one backed-up batch
+     */
+    public function ajax_import_execute() {
+        check_ajax_referer('wcfdr_nonce', 'nonce');
+        
+        if (!current_user_can('edit_posts')) {
+            wp_send_json_error('Permission denied');
+        }
+        
+        wp_send_json_success($this->container->get('import')->execute($_POST));
+    }
+    
     /**
      * Update row AJAX handler
      */
@@ -384,6 +495,11 @@ final class Mangocube_Data_Replacer {
             
             // Post type is now optional - we fetch all meta keys
             $post_type = sanitize_text_field($_POST['post_type'] ?? '');
+            $source = sanitize_text_field($_POST['source'] ?? '') ?: 'postmeta';
+            
+            if (!in_array($source, \WCFDR\Search\Data_Source::SOURCES, true)) {
+                wp_send_json_error('Unknown data source: ' . $source);
+            }
             
             // Get search engine from container
             try {
@@ -395,7 +511,7 @@ final class Mangocube_Data_Replacer {
             
             // Get meta keys (post_type parameter is now optional)
             try {
-                $meta_keys = $search_engine->get_meta_keys($post_type);
+                $meta_keys = $search_engine->get_meta_keys($post_type, $source);
                 
                 // Log for debugging
                 error_log('WCFDR: AJAX get_meta_keys - Raw result: ' . print_r($meta_keys, true));
@@ -479,6 +595,9 @@ final class Mangocube_Data_Replacer {
      * Backups AJAX handler
      */
     public function ajax_backups(): void {
+        // Initialize AJAX services if needed
+        $this->init_ajax_services();
+        
         // Verify nonce
         if (!wp_verify_nonce($_POST['nonce'], 'wcfdr_nonce')) {
             wp_send_json_error('Invalid nonce');
@@ -491,13 +610,43 @@ final class Mangocube_Data_Replacer {
         
         try {
             $backup_manager = $this->container->get('backup');
-            $results = $backup_manager->get_backups($_POST['post_id'], $_POST['meta_key']);
+            $results = $backup_manager->list_backups($_POST);
+            
+            if (!$results['success']) {
+                wp_send_json_error('Backup retrieval failed: ' . $results['error']);
+            }
+            
             wp_send_json_success($results);
         } catch (\Exception $e) {
             wp_send_json_error('Backup retrieval failed: ' . $e->getMessage());
         }
     }
     
+    /**
+     * Backup stats AJAX handler
+     */
+    public function ajax_backup_stats(): void {
+        // Initialize AJAX services if needed
+        $this->init_ajax_services();
+        
+        // Verify nonce
+        if (!wp_verify_nonce($_POST['nonce'], 'wcfdr_nonce')) {
+            wp_send_json_error('Invalid nonce');
+        }
+        
+        // Check user capabilities
+        if (!current_user_can('edit_posts')) {
+            wp_send_json_error('Insufficient permissions');
+        }
+        
+        try {
+            $backup_manager = $this->container->get('backup');
+            wp_send_json_success($backup_manager->get_backup_stats());
+        } catch (\Exception $e) {
+            wp_send_json_error('Backup stats failed: ' . $e->getMessage());
+        }
+    }
+    
     /**
      * Restore AJAX handler
      */
@@ -516,15 +665,29 @@ final class Mangocube_Data_Replacer {
         }
         
         try {
-            $post_id = intval($_POST['post_id'] ?? 0);
-            $meta_key = sanitize_text_field($_POST['meta_key'] ?? '');
+            $backup_manager = $this->container->get('backup');
+            $revision_id = sanitize_text_field($_POST['revision_id'] ?? '');
             
-            if (!$post_id || empty($meta_key)) {
-                wp_send_json_error('Invalid parameters');
+            if (!empty($revision_id)) {
+                // Restore a specific revision
+                $result = $backup_manager->restore_revision($revision_id);
+            } else {
+                // Restore the latest revision for an object and key
+                $post_id = intval($_POST['post_id'] ?? 0);
+                $meta_key = sanitize_text_field($_POST['meta_key'] ?? '');
+                $source = sanitize_text_field($_POST['source'] ?? '') ?: 'postmeta';
+                
+                if ((!$post_id && $source !== 'options') || empty($meta_key)) {
+                    wp_send_json_error('Invalid parameters');
+                }
+                
+                $result = $backup_manager->restore_latest($post_id, $meta_key, $source);
+            }
+            
+            if (!$result['success']) {
+                wp_send_json_error('Restore failed: ' . $result['error']);
             }
             
-            $backup_manager = $this->container->get('backup');
-            $result = $backup_manager->restore_latest($post_id, $meta_key);
             wp_send_json_success($result);
         } catch (\Exception $e) {
             wp_send_json_error('Restore failed: ' . $e->getMessage());
@@ -535,6 +698,9 @@ final class Mangocube_Data_Replacer {
      * Restore all AJAX handler
      */
     public function ajax_restore_all(): void {
+        // Initialize AJAX services if needed
+        $this->init_ajax_services();
+        
         // Verify nonce
         if (!wp_verify_nonce($_POST['nonce'], 'wcfdr_nonce')) {
             wp_send_json_error('Invalid nonce');
@@ -546,8 +712,19 @@ final class Mangocube_Data_Replacer {
         }
         
         try {
+            $batch_id = sanitize_text_field($_POST['batch_id'] ?? '');
+            
+            if (empty($batch_id)) {
+                wp_send_json_error('Batch ID is required');
+            }
+            
             $backup_manager = $this->container->get('backup');
-            $results = $backup_manager->restore_batch($_POST['batch_id']);
+            $results = $backup_manager->restore_batch($batch_id);
+            
+            if (!$results['success']) {
+                wp_send_json_error('Restore all failed: ' . $results['error']);
+            }
+            
             wp_send_json_success($results);
         } catch (\Exception $e) {
             wp_send_json_error('Restore all failed: ' . $e->getMessage());
@@ -612,7 +789,8 @@ final class Mangocube_Data_Replacer {
                 'maxResultsPerPage' => intval($settings['maxResultsPerPage'] ?? 1500),
                 'maxBulkOperations' => intval($settings['maxBulkOperations'] ?? 5000),
                 'backupRetention' => intval($settings['backupRetention'] ?? 10),
-                'autoCleanup' => intval($settings['autoCleanup'] ?? 30)
+                'autoCleanup' => intval($settings['autoCleanup'] ?? 30),
+                'regexTimeout' => max(100, intval($settings['regexTimeout'] ?? 5000))
             ];
 
             update_option('wcfdr_settings', $sanitized_settings);
@@ -627,6 +805,40 @@ final class Mangocube_Data_Replacer {
         }
     }
 
+    /**
+     * Save the current user's results table columns: which are hidden, how wide each one is and the row density
+     *
+     * Hidden columns are stored rather than visible ones, so columns added later start out shown.
+     */
+    public function ajax_save_table_columns(): void {
+        check_ajax_referer('wcfdr_nonce', 'nonce');
+
+        if (!current_user_can('edit_posts')) {
+            wp_send_json_error('Permission denied');
+        }
+
+        $columns = json_decode(stripslashes($_POST['columns'] ?? ''), true);
+        if (!is_array($columns)) {
+            wp_send_json_error('Invalid column settings');
+        }
+
+        $hidden = is_array($columns['hidden'] ?? null) ? $columns['hidden'] : [];
+        $widths = [];
+        foreach (is_array($columns['widths'] ?? null) ? $columns['widths'] : [] as $column => $width) {
+            $widths[sanitize_key($column)] = min(1200, max(60, intval($width)));
+        }
+
+        $sanitized = [
+            'hidden' => array_slice(array_values(array_unique(array_filter(array_map('sanitize_key', $hidden)))), 0, 20),
+            'widths' => array_slice($widths, 0, 20, true),
+            'compact' => !empty($columns['compact'])
+        ];
+
+        update_user_meta(get_current_user_id(), self::TABLE_COLUMNS_META, $sanitized);
+
+        wp_send_json_success($sanitized);
+    }
+
     public function ajax_get_settings() {
         check_ajax_referer('wcfdr_nonce', 'nonce');
 
@@ -636,11 +848,12 @@ final class Mangocube_Data_Replacer {
 
         try {
             // Get settings from WordPress options
-            $settings = get_option('wcfdr_settings', [
+            $settings = wp_parse_args(get_option('wcfdr_settings', []), [
                 'maxResultsPerPage' => 1500,
                 'maxBulkOperations' => 5000,
                 'backupRetention' => 10,
-                'autoCleanup' => 30
+                'autoCleanup' => 30,
+                'regexTimeout' => intval(get_option('wcfdr_regex_timeout', 5000))
             ]);
 
             wp_send_json_success($settings);
@@ -705,16 +918,26 @@ final class Mangocube_Data_Replacer {
         add_action('wp_ajax_wcfdr_search', [$this, 'ajax_search']);
         add_action('wp_ajax_wcfdr_preview', [$this, 'ajax_preview']);
         add_action('wp_ajax_wcfdr_replace', [$this, 'ajax_replace']);
+        add_action('wp_ajax_wcfdr_dry_run', [$this, 'ajax_dry_run']);
+        add_action('wp_ajax_wcfdr_scan_variants', [$this, 'ajax_scan_variants']);
+        add_action('wp_ajax_wcfdr_get_recipes', [$this, 'ajax_get_recipes']);
+        add_action('wp_ajax_wcfdr_save_recipe', [$this, 'ajax_save_recipe']);
+        add_action('wp_ajax_wcfdr_delete_recipe', [$this, 'ajax_delete_recipe']);
         add_action('wp_ajax_wcfdr_update_row', [$this, 'ajax_update_row']);
         add_action('wp_ajax_wcfdr_get_meta_keys', [$this, 'ajax_get_meta_keys']);
         add_action('wp_ajax_wcfdr_get_post_types', [$this, 'ajax_get_post_types']);
         add_action('wp_ajax_wcfdr_backup', [$this, 'ajax_backup']);
         add_action('wp_ajax_wcfdr_backups', [$this, 'ajax_backups']);
+        add_action('wp_ajax_wcfdr_backup_stats', [$this, 'ajax_backup_stats']);
         add_action('wp_ajax_wcfdr_restore', [$this, 'ajax_restore']);
         add_action('wp_ajax_wcfdr_restore_all', [$this, 'ajax_restore_all']);
         add_action('wp_ajax_wcfdr_test_connection', [$this, 'ajax_test_connection']);
         add_action('wp_ajax_wcfdr_save_settings', [$this, 'ajax_save_settings']);
         add_action('wp_ajax_wcfdr_get_settings', [$this, 'ajax_get_settings']);
+        add_action('wp_ajax_wcfdr_save_table_columns', [$this, 'ajax_save_table_columns']);
+        add_action('wp_ajax_wcfdr_export', [$this, 'ajax_export']);
+        add_action('wp_ajax_wcfdr_import_preview', [$this, 'ajax_import_preview']);
+        add_action('wp_ajax_wcfdr_import_execute', [$this, 'ajax_import_execute']);
     }
     
     /**
@@ -8,35 +8,39 @@ import { SearchFilters } from './components/SearchFilters';
 import { ResultsTable } from './components/ResultsTable';
 import { LiveTester } from './components/LiveTester';
 import { BulkActions } from './components/BulkActions';
+import { MigrationWizard } from './components/MigrationWizard';
+import { MappingImport } from './components/MappingImport';
+import { BackupManager } from './components/BackupManager';
+import { BulkJobProgress } from './components/BulkJobProgress';
 import { Sidebar } from './components/Sidebar';
 import { LoadingSpinner } from './components/ui/LoadingSpinner';
 import { useDataReplacerStore } from './store/dataReplacerStore';
-import { Loader2 } from 'lucide-react';
-
-// Declare WordPress AJAX object
-declare global {
-  interface Window {
-    wcfdr_ajax: {
-      ajax_url: string;
-      nonce: string;
-    };
-  }
-}
+import { api, onSessionError } from './services/api';
+import { readUrlState, urlForState } from './utils/urlState';
+import type { UrlState } from './utils/urlState';
+import type { AdminSettings, AdminTab, PaginationMode, SearchParams, SortField, SortOrder } from './types';
+import { Loader2, AlertTriangle } from 'lucide-react';
 
 // Main admin app component
 const DataReplacerApp: React.FC = () => {
   const [isLoading, setIsLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<'search' | 'live-tester' | 'backups' | 'settings' | 'help'>('search');
+  // The tab and search start from the address, so a reload or a shared link opens the same view
+  const [initialState] = useState<UrlState>(() => readUrlState());
+  const [activeTab, setActiveTab] = useState<AdminTab>(initialState.tab);
   
   // Store current search filters to preserve them
-  const [currentFilters, setCurrentFilters] = useState<any>(null);
+  const [currentFilters, setCurrentFilters] = useState<SearchParams | null>(initialState.filters);
+  
+  // Set when the nonce expires or the user is logged out mid-session
+  const [sessionError, setSessionError] = useState<string | null>(null);
   
   // Settings state
-  const [settings, setSettings] = useState({
+  const [settings, setSettings] = useState<AdminSettings>({
     maxResultsPerPage: 1500,
     maxBulkOperations: 5000,
     backupRetention: 10,
-    autoCleanup: 30
+    autoCleanup: 30,
+    regexTimeout: 5000
   });
   const [isSavingSettings, setIsSavingSettings] = useState(false);
   const [settingsMessage, setSettingsMessage] = useState<{type: 'success' | 'error', text: string} | null>(null);
@@ -46,7 +50,9 @@ const DataReplacerApp: React.FC = () => {
     isLoading: isSearching, 
     error,
     initializeStore,
-    searchMeta
+    searchMeta,
+    loadMoreResults,
+    clearSearch
   } = useDataReplacerStore();
 
   // Function to load settings from WordPress or localStorage
@@ -54,22 +60,12 @@ const DataReplacerApp: React.FC = () => {
     try {
       // Try to load from WordPress first
       if (window.wcfdr_ajax) {
-        const formData = new FormData();
-        formData.append('action', 'wcfdr_get_settings');
-        formData.append('nonce', window.wcfdr_ajax.nonce);
-        
-        const response = await fetch(window.wcfdr_ajax.ajax_url, {
-          method: 'POST',
-          body: formData,
-          credentials: 'same-origin'
-        });
-        
-        if (response.ok) {
-          const result = await response.json();
-          if (result.success && result.data) {
-            setSettings(result.data);
-            return;
-          }
+        try {
+          const saved = await api.getSettings();
+          setSettings(prev => ({ ...prev, ...saved }));
+          return;
+        } catch (error) {
+          console.warn('Failed to load settings from WordPress:', error);
         }
       }
       
@@ -78,7 +74,7 @@ const DataReplacerApp: React.FC = () => {
       if (savedSettings) {
         try {
           const parsedSettings = JSON.parse(savedSettings);
-          setSettings(parsedSettings);
+          setSettings(prev => ({ ...prev, ...parsedSettings }));
         } catch (e) {
           console.warn('Failed to parse saved settings from localStorage');
         }
@@ -88,6 +84,33 @@ const DataReplacerApp: React.FC = () => {
     }
   };
 
+  useEffect(() => onSessionError((error) => setSessionError(error.message)), []);
+
+  // Each search, page and tab is a history entry
+  const pushUrlState = (state: UrlState) => {
+    const url = urlForState(state);
+    if (url !== `${window.location.pathname}${window.location.search}${window.location.hash}`) {
+      window.history.pushState(null, '', url);
+    }
+  };
+
+  // Back and forward restore the tab and search from the address without adding entries
+  useEffect(() => {
+    const handlePopState = () => {
+      const state = readUrlState();
+      setActiveTab(state.tab);
+      setCurrentFilters(state.filters);
+      if (state.filters) {
+        searchMeta(state.filters).catch(error => console.error('❌ Search from history failed:', error));
+      } else {
+        clearSearch();
+      }
+    };
+
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [searchMeta, clearSearch]);
+
   useEffect(() => {
     // Initialize the store and test connection
     const init = async () => {
@@ -96,6 +119,9 @@ const DataReplacerApp: React.FC = () => {
         await initializeStore();
         await loadSettings(); // Load settings after store initialization
         setIsLoading(false);
+        if (initialState.filters) {
+          await searchMeta(initialState.filters);
+        }
         console.log('✅ WCF Data Replacer React App Ready!');
       } catch (err) {
         console.error('❌ Failed to initialize store:', err);
@@ -106,33 +132,96 @@ const DataReplacerApp: React.FC = () => {
     init();
   }, [initializeStore]);
 
+  const handleTabChange = (tab: AdminTab) => {
+    setActiveTab(tab);
+    pushUrlState({ tab, filters: currentFilters });
+  };
+
   // Function to handle settings button clicks
   const handleSettingsClick = () => {
-    setActiveTab('settings');
+    handleTabChange('settings');
   };
 
   // Function to handle help button clicks
   const handleHelpClick = () => {
-    setActiveTab('help');
+    handleTabChange('help');
   };
 
   // Function to handle search with filter preservation
-  const handleSearch = async (filters: any) => {
+  const handleSearch = async (search: SearchParams) => {
+    // A refined search of the same source keeps the column it was sorted by; every search keeps the pagination mode
+    const sameSource = (currentFilters?.source ?? 'postmeta') === (search.source ?? 'postmeta');
+    const filters = currentFilters?.orderby && sameSource
+      ? { ...search, orderby: currentFilters.orderby, order: currentFilters.order }
+      : { ...search, pagination: currentFilters?.pagination };
+
     try {
       console.log('🔍 Searching with filters:', filters);
       setCurrentFilters(filters); // Store current filters
+      pushUrlState({ tab: activeTab, filters });
       await searchMeta(filters);
     } catch (error) {
       console.error('❌ Search failed:', error);
     }
   };
 
+  // Sorting starts again from the first page, since the rows on every page change
+  const handleSortChange = async (orderby: SortField, order: SortOrder) => {
+    if (!currentFilters) return;
+
+    try {
+      const sortedFilters = { ...currentFilters, orderby, order, page: 1 };
+      setCurrentFilters(sortedFilters);
+      pushUrlState({ tab: activeTab, filters: sortedFilters });
+      await searchMeta(sortedFilters);
+    } catch (error) {
+      console.error('❌ Failed to sort results:', error);
+    }
+  };
+
+  // Cursor batches and sorting do not mix, so switching to scrolling drops the sort and starts again from the top
+  const handlePaginationChange = async (pagination: PaginationMode) => {
+    if (!currentFilters) return;
+
+    try {
+      const pagedFilters: SearchParams = {
+        ...currentFilters,
+        pagination: pagination === 'cursor' ? 'cursor' : undefined,
+        orderby: undefined,
+        order: undefined,
+        cursor: undefined,
+        page: 1
+      };
+      setCurrentFilters(pagedFilters);
+      pushUrlState({ tab: activeTab, filters: pagedFilters });
+      await searchMeta(pagedFilters);
+    } catch (error) {
+      console.error('❌ Failed to change pagination:', error);
+    }
+  };
+
+  const handleLoadMore = async () => {
+    if (!currentFilters) return;
+
+    try {
+      await loadMoreResults(currentFilters);
+    } catch (error) {
+      console.error('❌ Failed to load more results:', error);
+    }
+  };
+
   // Function to refresh search results with current filters
   const refreshResults = async () => {
     if (currentFilters) {
+      // Every batch scrolled into view is fetched again in one request, so the place in the list is kept
+      const loaded = currentFilters.pagination === 'cursor' ? searchResults?.rows.length ?? 0 : 0;
+      const refreshFilters = loaded > (currentFilters.per_page ?? 0)
+        ? { ...currentFilters, per_page: loaded }
+        : currentFilters;
+
       try {
-        console.log('🔄 Refreshing results with filters:', currentFilters);
-        await searchMeta(currentFilters);
+        console.log('🔄 Refreshing results with filters:', refreshFilters);
+        await searchMeta(refreshFilters);
       } catch (error) {
         console.error('❌ Failed to refresh results:', error);
       }
@@ -145,39 +234,18 @@ const DataReplacerApp: React.FC = () => {
     setSettingsMessage(null);
     
     try {
-      // Create form data for AJAX request
-      const formData = new FormData();
-      formData.append('action', 'wcfdr_save_settings');
-      formData.append('nonce', window.wcfdr_ajax.nonce);
-      formData.append('settings', JSON.stringify(settings));
+      await api.saveSettings(settings);
       
-      // Send AJAX request to WordPress
-      const response = await fetch(window.wcfdr_ajax.ajax_url, {
-        method: 'POST',
-        body: formData,
-        credentials: 'same-origin'
+      setSettingsMessage({
+        type: 'success',
+        text: 'Settings saved successfully!'
       });
       
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
+      // Store settings in localStorage as backup
+      localStorage.setItem('wcfdr_settings', JSON.stringify(settings));
       
-      const result = await response.json();
-      
-      if (result.success) {
-        setSettingsMessage({
-          type: 'success',
-          text: 'Settings saved successfully!'
-        });
-        
-        // Store settings in localStorage as backup
-        localStorage.setItem('wcfdr_settings', JSON.stringify(settings));
-        
-        // Clear message after 3 seconds
-        setTimeout(() => setSettingsMessage(null), 3000);
-      } else {
-        throw new Error(result.data?.message || 'Failed to save settings');
-      }
+      // Clear message after 3 seconds
+      setTimeout(() => setSettingsMessage(null), 3000);
       
     } catch (error) {
       console.error('❌ Settings save failed:', error);
@@ -199,38 +267,57 @@ const DataReplacerApp: React.FC = () => {
       <Header onSettingsClick={handleSettingsClick} onHelpClick={handleHelpClick} />
       
       <div className="wcfdr-flex wcfdr-min-h-screen">
-        <Sidebar activeTab={activeTab} onTabChange={setActiveTab} onSettingsClick={handleSettingsClick} />
+        <Sidebar activeTab={activeTab} onTabChange={handleTabChange} onSettingsClick={handleSettingsClick} />
         
         <main className="wcfdr-flex-1 wcfdr-p-6">
+          {sessionError && (
+            <div role="alert" className="wcfdr-mb-6 wcfdr-p-4 wcfdr-rounded-lg wcfdr-border wcfdr-bg-red-50 wcfdr-border-red-200 wcfdr-text-red-800 wcfdr-flex wcfdr-items-center wcfdr-justify-between">
+              <div className="wcfdr-flex wcfdr-items-center">
+                <AlertTriangle className="wcfdr-h-4 wcfdr-w-4 wcfdr-mr-2" />
+                {sessionError}
+              </div>
+              <button
+                onClick={() => window.location.reload()}
+                className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-3 wcfdr-py-1.5 wcfdr-text-sm wcfdr-font-medium wcfdr-rounded-md wcfdr-text-white wcfdr-bg-red-600 hover:wcfdr-bg-red-700"
+              >
+                Reload Page
+              </button>
+            </div>
+          )}
+          
           {activeTab === 'search' && (
             <div className="wcfdr-space-y-6">
               <SearchFilters 
+                filters={currentFilters}
                 onSearch={handleSearch}
                 onClear={() => {
                   console.log('🧹 Clearing search');
                   setCurrentFilters(null);
-                  // Clear search results
-                  useDataReplacerStore.getState().searchResults = null;
+                  pushUrlState({ tab: activeTab, filters: null });
+                  clearSearch();
                 }}
                 isLoading={isSearching}
                 settings={settings}
               />
+              <BulkJobProgress onComplete={refreshResults} />
+              {currentFilters && <BulkActions filters={currentFilters} onSearch={handleSearch} />}
               <ResultsTable 
                 results={searchResults}
                 onUpdateRow={async (data) => {
+                  console.log('Update row:', data);
+                  // A failed write is rethrown so the editor keeps the edits
+                  await useDataReplacerStore.getState().updateRow(data);
                   try {
-                    console.log('Update row:', data);
-                    await useDataReplacerStore.getState().updateRow(data);
                     // Refresh search results to show updated data
                     await refreshResults();
                   } catch (error) {
-                    console.error('Failed to update row:', error);
+                    console.error('Failed to refresh results after update:', error);
                   }
                 }}
                 onRestoreRow={async (data) => {
                   try {
                     console.log('Restore row:', data);
-                    await useDataReplacerStore.getState().restoreRow(data.post_id, data.meta_key);
+                    await useDataReplacerStore.getState().restoreRow(data.post_id, data.meta_key, data.source);
                     // Refresh search results to show restored data
                     await refreshResults();
                   } catch (error) {
@@ -242,42 +329,36 @@ const DataReplacerApp: React.FC = () => {
                     try {
                       console.log('📄 Changing to page:', page);
                       const pageFilters = { ...currentFilters, page };
+                      setCurrentFilters(pageFilters);
+                      pushUrlState({ tab: activeTab, filters: pageFilters });
                       await searchMeta(pageFilters);
                     } catch (error) {
                       console.error('Failed to change page:', error);
                     }
                   }
                 }}
+                onSortChange={handleSortChange}
+                onLoadMore={handleLoadMore}
+                onPaginationChange={handlePaginationChange}
+                searchFilters={currentFilters}
               />
             </div>
           )}
           
           {activeTab === 'live-tester' && (
-            <LiveTester />
+            <LiveTester regexTimeout={settings.regexTimeout} />
+          )}
+          
+          {activeTab === 'migration' && (
+            <MigrationWizard />
+          )}
+
+          {activeTab === 'import' && (
+            <MappingImport />
           )}
           
           {activeTab === 'backups' && (
-            <div className="wcfdr-space-y-6">
-              <h2 className="wcfdr-text-2xl wcfdr-font-bold wcfdr-text-gray-900">
-                Backup Management
-              </h2>
-              <div className="wcfdr-bg-white wcfdr-rounded-lg wcfdr-shadow wcfdr-p-12 wcfdr-text-center">
-                <div className="wcfdr-text-gray-400 wcfdr-mb-4">
-                  <svg className="wcfdr-h-12 wcfdr-w-12 wcfdr-mx-auto" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7v10c0 2.21 3.582 4 8 4s8-1.79 8-4V7M4 7c0 2.21 3.582 4 8 4s8-1.79 8M4 7c0-2.21 3.582-4 8-4s8 1.79 8 4" />
-                  </svg>
-                </div>
-                <h3 className="wcfdr-text-lg wcfdr-font-medium wcfdr-text-gray-900 wcfdr-mb-2">
-                  Backup Management
-                </h3>
-                <p className="wcfdr-text-gray-500">
-                  Manage your post meta backups and restore operations.
-                </p>
-                <p className="wcfdr-text-sm wcfdr-text-gray-400 wcfdr-mt-2">
-                  Coming soon in the next update.
-                </p>
-              </div>
-            </div>
+            <BackupManager onRestoreComplete={refreshResults} />
           )}
 
           {activeTab === 'settings' && (
@@ -337,6 +418,21 @@ const DataReplacerApp: React.FC = () => {
                           <option value={10000}>10,000</option>
                         </select>
                       </div>
+                      <div>
+                        <label className="wcfdr-block wcfdr-text-sm wcfdr-font-medium wcfdr-text-gray-700 wcfdr-mb-2">
+                          Live Tester Timeout
+                        </label>
+                        <select 
+                          value={settings.regexTimeout}
+                          onChange={(e) => setSettings(prev => ({ ...prev, regexTimeout: Number(e.target.value) }))}
+                          className="wcfdr-w-full wcfdr-rounded-md wcfdr-border-gray-300 wcfdr-shadow-sm focus:wcfdr-border-blue-500 focus:wcfdr-ring-blue-500"
+                        >
+                          <option value={1000}>1 second</option>
+                          <option value={2000}>2 seconds</option>
+                          <option value={5000}>5 seconds</option>
+                          <option value={10000}>10 seconds</option>
+                        </select>
+                      </div>
                     </div>
                   </div>
 
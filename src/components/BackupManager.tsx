@@ -0,0 +1,566 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Database, RotateCcw, Layers, Eye, EyeOff, Filter, X, ChevronLeft, ChevronRight, Loader2, History } from 'lucide-react';
+import { useDataReplacerStore } from '../store/dataReplacerStore';
+import { DiffViewer } from './DiffViewer';
+import { availableSources, sourceInfo } from '../utils/dataSources';
+import type { BackupInfo, BackupListParams, BackupListResponse, BackupStats, DataSource } from '../types';
+
+interface BackupManagerProps {
+  onRestoreComplete?: () => void;
+}
+
+const emptyFilters: BackupListParams = {
+  source: undefined,
+  post_id: undefined,
+  meta_key: '',
+  batch_id: '',
+  actor: '',
+  date_from: '',
+  date_to: ''
+};
+
+const operationStyles: Record<BackupInfo['operation'], string> = {
+  update: 'wcfdr-bg-blue-100 wcfdr-text-blue-800',
+  restore: 'wcfdr-bg-orange-100 wcfdr-text-orange-800',
+  manual: 'wcfdr-bg-purple-100 wcfdr-text-purple-800',
+  import: 'wcfdr-bg-teal-100 wcfdr-text-teal-800'
+};
+
+// Options have no object ID, so they are named by option name instead
+const describeObject = (backup: BackupInfo): string =>
+  backup.source === 'options'
+    ? `option "${backup.meta_key}"`
+    : `${sourceInfo(backup.source).objectLabel.toLowerCase()} #${backup.post_id}`;
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const BackupManager: React.FC<BackupManagerProps> = ({ onRestoreComplete }) => {
+  const { getBackups, getBackupStats, restoreRevision, restoreBatch } = useDataReplacerStore();
+
+  const [filters, setFilters] = useState<BackupListParams>(emptyFilters);
+  const [appliedFilters, setAppliedFilters] = useState<BackupListParams>(emptyFilters);
+  const [page, setPage] = useState(1);
+  const [perPage, setPerPage] = useState(20);
+  const [backups, setBackups] = useState<BackupListResponse | null>(null);
+  const [stats, setStats] = useState<BackupStats | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [expandedRevision, setExpandedRevision] = useState<string | null>(null);
+  const [pendingRestore, setPendingRestore] = useState<string | null>(null);
+  const [message, setMessage] = useState<{type: 'success' | 'error', text: string} | null>(null);
+
+  const loadBackups = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const results = await getBackups({ ...appliedFilters, page, per_page: perPage });
+      setBackups(results);
+    } catch (error) {
+      console.error('❌ Failed to load backups:', error);
+      setMessage({
+        type: 'error',
+        text: `Failed to load backups: ${error instanceof Error ? error.message : 'Unknown error'}`
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [getBackups, appliedFilters, page, perPage]);
+
+  const loadStats = useCallback(async () => {
+    try {
+      setStats(await getBackupStats());
+    } catch (error) {
+      console.warn('Failed to load backup stats:', error);
+    }
+  }, [getBackupStats]);
+
+  useEffect(() => {
+    loadBackups();
+  }, [loadBackups]);
+
+  useEffect(() => {
+    loadStats();
+  }, [loadStats]);
+
+  const applyFilters = (next: BackupListParams) => {
+    setFilters(next);
+    setAppliedFilters(next);
+    setPage(1);
+  };
+
+  const handleResetFilters = () => {
+    applyFilters(emptyFilters);
+  };
+
+  const runRestore = async (action: () => Promise<string>) => {
+    setIsRestoring(true);
+    setMessage(null);
+    try {
+      const text = await action();
+      setMessage({ type: 'success', text });
+      await Promise.all([loadBackups(), loadStats()]);
+      onRestoreComplete?.();
+      setTimeout(() => setMessage(null), 5000);
+    } catch (error) {
+      console.error('❌ Restore failed:', error);
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Restore failed'
+      });
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  // Restoring a single revision is confirmed inline, against a diff of what it will change
+  const handleRestoreRevision = (backup: BackupInfo) => {
+    setExpandedRevision(null);
+    setPendingRestore(pendingRestore === backup.revision_id ? null : backup.revision_id);
+  };
+
+  const confirmRestoreRevision = (backup: BackupInfo) => {
+    setPendingRestore(null);
+    runRestore(async () => {
+      await restoreRevision({ revision_id: backup.revision_id });
+      return `Restored revision from ${backup.created_at} for ${describeObject(backup)}.`;
+    });
+  };
+
+  const handleRestoreLatest = (backup: BackupInfo) => {
+    if (!confirm(`Restore the latest backup of "${backup.meta_key}" on ${describeObject(backup)}?`)) {
+      return;
+    }
+    runRestore(async () => {
+      await restoreRevision({ source: backup.source, post_id: backup.post_id, meta_key: backup.meta_key, latest: true });
+      return `Restored latest backup for ${describeObject(backup)}.`;
+    });
+  };
+
+  const handleRestoreBatch = (batchId: string) => {
+    if (!confirm(`Restore every revision in batch ${batchId}? Each current value will be backed up first.`)) {
+      return;
+    }
+    runRestore(async () => {
+      const result = await restoreBatch(batchId);
+      if (result.failed > 0) {
+        throw new Error(`${result.message}. First error: ${result.errors[0]?.error ?? 'unknown'}`);
+      }
+      return result.message;
+    });
+  };
+
+  const inputClass = 'wcfdr-w-full wcfdr-text-sm wcfdr-rounded-md wcfdr-border-gray-300 wcfdr-shadow-sm focus:wcfdr-border-blue-500 focus:wcfdr-ring-blue-500';
+  const labelClass = 'wcfdr-block wcfdr-text-xs wcfdr-font-medium wcfdr-text-gray-700 wcfdr-mb-1';
+
+  return (
+    <div className="wcfdr-space-y-6">
+      <h2 className="wcfdr-text-2xl wcfdr-font-bold wcfdr-text-gray-900">
+        Backup Management
+      </h2>
+
+      {/* Stats */}
+      {stats && (
+        <div className="wcfdr-grid wcfdr-grid-cols-2 wcfdr-gap-4 md:wcfdr-grid-cols-4">
+          {[
+            { label: 'Total Revisions', value: stats.total_backups.toLocaleString() },
+            { label: 'Storage Used', value: formatBytes(stats.total_size) },
+            { label: 'Today', value: stats.backups_today.toLocaleString() },
+            { label: 'This Week', value: stats.backups_this_week.toLocaleString() }
+          ].map((stat) => (
+            <div key={stat.label} className="wcfdr-bg-white wcfdr-rounded-lg wcfdr-shadow wcfdr-p-4">
+              <div className="wcfdr-text-xs wcfdr-text-gray-500">{stat.label}</div>
+              <div className="wcfdr-text-xl wcfdr-font-semibold wcfdr-text-gray-900">{stat.value}</div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="wcfdr-bg-white wcfdr-rounded-lg wcfdr-shadow wcfdr-p-6">
+        <div className="wcfdr-flex wcfdr-items-center wcfdr-space-x-2 wcfdr-mb-4">
+          <Filter className="wcfdr-h-5 wcfdr-w-5 wcfdr-text-gray-600" />
+          <h3 className="wcfdr-text-lg wcfdr-font-medium wcfdr-text-gray-900">
+            Filter Revisions
+          </h3>
+        </div>
+
+        <div className="wcfdr-grid wcfdr-grid-cols-1 wcfdr-gap-4 md:wcfdr-grid-cols-3">
+          <div>
+            <label className={labelClass}>Data Source</label>
+            <select
+              value={filters.source ?? ''}
+              onChange={(e) => setFilters(prev => ({ ...prev, source: (e.target.value || undefined) as DataSource | undefined }))}
+              className={inputClass}
+            >
+              <option value="">All sources</option>
+              {availableSources().map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>{filters.source ? sourceInfo(filters.source).objectLabel : 'Object'} ID</label>
+            <input
+              type="number"
+              min={1}
+              value={filters.post_id ?? ''}
+              onChange={(e) => setFilters(prev => ({ ...prev, post_id: e.target.value ? Number(e.target.value) : undefined }))}
+              placeholder="Any object"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>{filters.source ? sourceInfo(filters.source).keyLabel : 'Key'}</label>
+            <input
+              value={filters.meta_key}
+              onChange={(e) => setFilters(prev => ({ ...prev, meta_key: e.target.value }))}
+              placeholder="Any key"
+              className={`${inputClass} wcfdr-font-mono`}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Batch ID</label>
+            <input
+              value={filters.batch_id}
+              onChange={(e) => setFilters(prev => ({ ...prev, batch_id: e.target.value }))}
+              placeholder="Any batch"
+              className={`${inputClass} wcfdr-font-mono`}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Actor</label>
+            <input
+              value={filters.actor}
+              onChange={(e) => setFilters(prev => ({ ...prev, actor: e.target.value }))}
+              placeholder="User ID or name"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>From</label>
+            <input
+              type="date"
+              value={filters.date_from}
+              onChange={(e) => setFilters(prev => ({ ...prev, date_from: e.target.value }))}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>To</label>
+            <input
+              type="date"
+              value={filters.date_to}
+              onChange={(e) => setFilters(prev => ({ ...prev, date_to: e.target.value }))}
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <div className="wcfdr-mt-4 wcfdr-flex wcfdr-space-x-3">
+          <button
+            onClick={() => applyFilters(filters)}
+            disabled={isLoading}
+            className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-4 wcfdr-py-2 wcfdr-border wcfdr-border-transparent wcfdr-text-sm wcfdr-font-medium wcfdr-rounded-md wcfdr-text-white wcfdr-bg-blue-600 hover:wcfdr-bg-blue-700 disabled:wcfdr-opacity-50 disabled:wcfdr-cursor-not-allowed"
+          >
+            <Filter className="wcfdr-h-4 wcfdr-w-4 wcfdr-mr-2" />
+            Apply Filters
+          </button>
+          <button
+            onClick={handleResetFilters}
+            className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-4 wcfdr-py-2 wcfdr-border wcfdr-border-gray-300 wcfdr-shadow-sm wcfdr-text-sm wcfdr-font-medium wcfdr-rounded-md wcfdr-text-gray-700 wcfdr-bg-white hover:wcfdr-bg-gray-50"
+          >
+            <X className="wcfdr-h-4 wcfdr-w-4 wcfdr-mr-2" />
+            Reset
+          </button>
+          {appliedFilters.batch_id && (
+            <button
+              onClick={() => handleRestoreBatch(appliedFilters.batch_id as string)}
+              disabled={isRestoring}
+              className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-4 wcfdr-py-2 wcfdr-border wcfdr-border-transparent wcfdr-text-sm wcfdr-font-medium wcfdr-rounded-md wcfdr-text-orange-700 wcfdr-bg-orange-100 hover:wcfdr-bg-orange-200 disabled:wcfdr-opacity-50 disabled:wcfdr-cursor-not-allowed"
+            >
+              <Layers className="wcfdr-h-4 wcfdr-w-4 wcfdr-mr-2" />
+              Restore Whole Batch
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Restore Message */}
+      {message && (
+        <div role="status" aria-live="polite" className={`wcfdr-p-4 wcfdr-rounded-lg wcfdr-border ${
+          message.type === 'success'
+            ? 'wcfdr-bg-green-50 wcfdr-border-green-200 wcfdr-text-green-800'
+            : 'wcfdr-bg-red-50 wcfdr-border-red-200 wcfdr-text-red-800'
+        }`}>
+          {message.text}
+        </div>
+      )}
+
+      {/* Revisions Table */}
+      <div className="wcfdr-bg-white wcfdr-rounded-lg wcfdr-shadow">
+        <div className="wcfdr-px-6 wcfdr-py-4 wcfdr-border-b wcfdr-border-gray-200 wcfdr-flex wcfdr-items-center wcfdr-justify-between">
+          <div className="wcfdr-flex wcfdr-items-center wcfdr-space-x-2">
+            <History className="wcfdr-h-5 wcfdr-w-5 wcfdr-text-gray-600" />
+            <h3 className="wcfdr-text-lg wcfdr-font-medium wcfdr-text-gray-900">
+              Revisions
+            </h3>
+            {isLoading && <Loader2 className="wcfdr-h-4 wcfdr-w-4 wcfdr-animate-spin wcfdr-text-gray-400" />}
+          </div>
+          <div className="wcfdr-flex wcfdr-items-center wcfdr-space-x-4">
+            {backups && (
+              <span className="wcfdr-text-sm wcfdr-text-gray-500">
+                {backups.total} revision{backups.total !== 1 ? 's' : ''}
+              </span>
+            )}
+            <select
+              value={perPage}
+              onChange={(e) => { setPerPage(Number(e.target.value)); setPage(1); }}
+              className="wcfdr-text-sm wcfdr-rounded-md wcfdr-border-gray-300 wcfdr-shadow-sm focus:wcfdr-border-blue-500 focus:wcfdr-ring-blue-500"
+            >
+              <option value={20}>20 per page</option>
+              <option value={50}>50 per page</option>
+              <option value={100}>100 per page</option>
+            </select>
+          </div>
+        </div>
+
+        {backups && backups.rows.length === 0 ? (
+          <div className="wcfdr-p-12 wcfdr-text-center">
+            <Database className="wcfdr-h-12 wcfdr-w-12 wcfdr-mx-auto wcfdr-text-gray-300 wcfdr-mb-4" />
+            <h3 className="wcfdr-text-lg wcfdr-font-medium wcfdr-text-gray-900 wcfdr-mb-2">
+              No Backups Found
+            </h3>
+            <p className="wcfdr-text-gray-500">
+              Backups are created automatically before every change.
+            </p>
+          </div>
+        ) : (
+          <div className="wcfdr-overflow-x-auto">
+            <table className="wcfdr-min-w-full wcfdr-divide-y wcfdr-divide-gray-200">
+              <thead className="wcfdr-bg-gray-50">
+                <tr>
+                  {['Date', 'Object', 'Key', 'Operation', 'Actor', 'Batch', 'Value', 'Actions'].map((heading) => (
+                    <th key={heading} className="wcfdr-px-4 wcfdr-py-3 wcfdr-text-left wcfdr-text-xs wcfdr-font-medium wcfdr-text-gray-500 wcfdr-uppercase wcfdr-tracking-wider">
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="wcfdr-bg-white wcfdr-divide-y wcfdr-divide-gray-200">
+                {backups?.rows.map((backup) => {
+                  const isExpanded = expandedRevision === backup.revision_id;
+                  const isPendingRestore = pendingRestore === backup.revision_id;
+
+                  return (
+                    <React.Fragment key={backup.revision_id}>
+                      <tr className="hover:wcfdr-bg-gray-50">
+                        <td className="wcfdr-px-4 wcfdr-py-3 wcfdr-whitespace-nowrap wcfdr-text-sm wcfdr-text-gray-700">
+                          {backup.created_at}
+                          {backup.is_latest && (
+                            <span className="wcfdr-ml-2 wcfdr-inline-flex wcfdr-items-center wcfdr-px-2 wcfdr-py-0.5 wcfdr-rounded-full wcfdr-text-xs wcfdr-font-medium wcfdr-bg-green-100 wcfdr-text-green-800">
+                              Latest
+                            </span>
+                          )}
+                        </td>
+                        <td className="wcfdr-px-4 wcfdr-py-3 wcfdr-whitespace-nowrap">
+                          <button
+                            onClick={() => applyFilters({ ...emptyFilters, source: backup.source, post_id: backup.post_id || undefined, meta_key: backup.source === 'options' ? backup.meta_key : '' })}
+                            className="wcfdr-text-left"
+                            title={`Show all revisions for this ${sourceInfo(backup.source).objectLabel.toLowerCase()}`}
+                          >
+                            <div className="wcfdr-text-sm wcfdr-font-medium wcfdr-text-gray-900">
+                              {backup.post_title || '(no title)'}
+                            </div>
+                            <div className="wcfdr-text-xs wcfdr-text-gray-500">
+                              <span className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-1.5 wcfdr-rounded wcfdr-bg-gray-100 wcfdr-text-gray-700">
+                                {sourceInfo(backup.source).label}
+                              </span>
+                              {backup.source !== 'options' && ` ID: ${backup.post_id}`}
+                            </div>
+                          </button>
+                        </td>
+                        <td className="wcfdr-px-4 wcfdr-py-3 wcfdr-whitespace-nowrap wcfdr-text-sm wcfdr-font-mono wcfdr-text-gray-900">
+                          {backup.meta_key}
+                        </td>
+                        <td className="wcfdr-px-4 wcfdr-py-3 wcfdr-whitespace-nowrap">
+                          <span className={`wcfdr-inline-flex wcfdr-items-center wcfdr-px-2.5 wcfdr-py-0.5 wcfdr-rounded-full wcfdr-text-xs wcfdr-font-medium ${operationStyles[backup.operation]}`}>
+                            {backup.operation}
+                          </span>
+                        </td>
+                        <td className="wcfdr-px-4 wcfdr-py-3 wcfdr-whitespace-nowrap wcfdr-text-sm wcfdr-text-gray-700">
+                          {backup.actor_name || `User #${backup.actor_id}`}
+                        </td>
+                        <td className="wcfdr-px-4 wcfdr-py-3 wcfdr-whitespace-nowrap">
+                          {backup.batch_id ? (
+                            <button
+                              onClick={() => applyFilters({ ...emptyFilters, batch_id: backup.batch_id })}
+                              className="wcfdr-text-xs wcfdr-font-mono wcfdr-text-blue-700 hover:wcfdr-underline wcfdr-max-w-[10rem] wcfdr-truncate wcfdr-block"
+                              title={backup.batch_id}
+                            >
+                              {backup.batch_id}
+                            </button>
+                          ) : (
+                            <span className="wcfdr-text-xs wcfdr-text-gray-400">—</span>
+                          )}
+                        </td>
+                        <td className="wcfdr-px-4 wcfdr-py-3">
+                          <div className="wcfdr-text-xs wcfdr-font-mono wcfdr-text-gray-700 wcfdr-max-w-xs wcfdr-break-words">
+                            {backup.value_excerpt}
+                          </div>
+                          <div className="wcfdr-text-xs wcfdr-text-gray-400">
+                            {backup.old_value_length} chars saved
+                          </div>
+                        </td>
+                        <td className="wcfdr-px-4 wcfdr-py-3 wcfdr-whitespace-nowrap">
+                          <div className="wcfdr-flex wcfdr-items-center wcfdr-space-x-2">
+                            <button
+                              onClick={() => {
+                                setPendingRestore(null);
+                                setExpandedRevision(isExpanded ? null : backup.revision_id);
+                              }}
+                              className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-2 wcfdr-py-1 wcfdr-text-xs wcfdr-font-medium wcfdr-rounded wcfdr-text-gray-700 wcfdr-bg-gray-100 hover:wcfdr-bg-gray-200"
+                            >
+                              {isExpanded ? <EyeOff className="wcfdr-h-3 wcfdr-w-3 wcfdr-mr-1" /> : <Eye className="wcfdr-h-3 wcfdr-w-3 wcfdr-mr-1" />}
+                              {isExpanded ? 'Hide' : 'View'}
+                            </button>
+                            <button
+                              onClick={() => handleRestoreRevision(backup)}
+                              disabled={isRestoring}
+                              className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-2 wcfdr-py-1 wcfdr-text-xs wcfdr-font-medium wcfdr-rounded wcfdr-text-orange-700 wcfdr-bg-orange-100 hover:wcfdr-bg-orange-200 disabled:wcfdr-opacity-50 disabled:wcfdr-cursor-not-allowed"
+                            >
+                              <RotateCcw className="wcfdr-h-3 wcfdr-w-3 wcfdr-mr-1" />
+                              Restore
+                            </button>
+                            {!backup.is_latest && (
+                              <button
+                                onClick={() => handleRestoreLatest(backup)}
+                                disabled={isRestoring}
+                                className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-2 wcfdr-py-1 wcfdr-text-xs wcfdr-font-medium wcfdr-rounded wcfdr-text-blue-700 wcfdr-bg-blue-100 hover:wcfdr-bg-blue-200 disabled:wcfdr-opacity-50 disabled:wcfdr-cursor-not-allowed"
+                              >
+                                Restore Latest
+                              </button>
+                            )}
+                            {backup.batch_id && (
+                              <button
+                                onClick={() => handleRestoreBatch(backup.batch_id as string)}
+                                disabled={isRestoring}
+                                className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-2 wcfdr-py-1 wcfdr-text-xs wcfdr-font-medium wcfdr-rounded wcfdr-text-gray-700 wcfdr-bg-gray-100 hover:wcfdr-bg-gray-200 disabled:wcfdr-opacity-50 disabled:wcfdr-cursor-not-allowed"
+                              >
+                                <Layers className="wcfdr-h-3 wcfdr-w-3 wcfdr-mr-1" />
+                                Batch
+                              </button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+
+                      {/* Expanded compare: saved value vs value written by that change */}
+                      {isExpanded && (
+                        <tr className="wcfdr-bg-gray-50">
+                          <td colSpan={8} className="wcfdr-px-4 wcfdr-py-3">
+                            {backup.new_value ? (
+                              <DiffViewer
+                                before={backup.old_value}
+                                after={backup.new_value}
+                                beforeLabel="Saved value (restored by this revision)"
+                                afterLabel="Value written by the change"
+                                defaultLayout="side-by-side"
+                              />
+                            ) : (
+                              <div>
+                                <div className="wcfdr-text-xs wcfdr-font-medium wcfdr-text-gray-700 wcfdr-mb-1">
+                                  Saved value (the value written by the change was not recorded)
+                                </div>
+                                <pre className="wcfdr-bg-white wcfdr-border wcfdr-border-gray-200 wcfdr-rounded wcfdr-p-2 wcfdr-text-xs wcfdr-font-mono wcfdr-whitespace-pre-wrap wcfdr-break-all wcfdr-max-h-60 wcfdr-overflow-auto">
+                                  {backup.old_value}
+                                </pre>
+                              </div>
+                            )}
+                          </td>
+                        </tr>
+                      )}
+
+                      {/* Restore confirmation */}
+                      {isPendingRestore && (
+                        <tr className="wcfdr-bg-orange-50">
+                          <td colSpan={8} className="wcfdr-px-4 wcfdr-py-3">
+                            <div className="wcfdr-space-y-3">
+                              <div className="wcfdr-text-sm wcfdr-text-orange-900">
+                                Restore <span className="wcfdr-font-mono">{backup.meta_key}</span> on {describeObject(backup)} to the value saved on {backup.created_at}?
+                                The current value is backed up first.
+                              </div>
+                              {backup.new_value ? (
+                                <DiffViewer
+                                  before={backup.new_value}
+                                  after={backup.old_value}
+                                  beforeLabel="Value written by the change"
+                                  afterLabel="Value after restore"
+                                />
+                              ) : (
+                                <pre className="wcfdr-bg-white wcfdr-border wcfdr-border-gray-200 wcfdr-rounded wcfdr-p-2 wcfdr-text-xs wcfdr-font-mono wcfdr-whitespace-pre-wrap wcfdr-break-all wcfdr-max-h-60 wcfdr-overflow-auto">
+                                  {backup.old_value}
+                                </pre>
+                              )}
+                              <div className="wcfdr-flex wcfdr-space-x-2">
+                                <button
+                                  onClick={() => confirmRestoreRevision(backup)}
+                                  disabled={isRestoring}
+                                  className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-3 wcfdr-py-1.5 wcfdr-text-sm wcfdr-font-medium wcfdr-rounded-md wcfdr-text-white wcfdr-bg-orange-600 hover:wcfdr-bg-orange-700 disabled:wcfdr-opacity-50 disabled:wcfdr-cursor-not-allowed"
+                                >
+                                  <RotateCcw className="wcfdr-h-4 wcfdr-w-4 wcfdr-mr-1" />
+                                  Confirm Restore
+                                </button>
+                                <button
+                                  onClick={() => setPendingRestore(null)}
+                                  className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-3 wcfdr-py-1.5 wcfdr-border wcfdr-border-gray-300 wcfdr-text-sm wcfdr-font-medium wcfdr-rounded-md wcfdr-text-gray-700 wcfdr-bg-white hover:wcfdr-bg-gray-50"
+                                >
+                                  Cancel
+                                </button>
+                              </div>
+                            </div>
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Pagination */}
+        {backups && backups.total_pages > 1 && (
+          <div className="wcfdr-px-6 wcfdr-py-4 wcfdr-border-t wcfdr-border-gray-200">
+            <div className="wcfdr-flex wcfdr-items-center wcfdr-justify-between">
+              <div className="wcfdr-text-sm wcfdr-text-gray-700">
+                Showing page {backups.page} of {backups.total_pages}
+              </div>
+              <div className="wcfdr-flex wcfdr-space-x-2">
+                <button
+                  onClick={() => setPage(page - 1)}
+                  disabled={page <= 1 || isLoading}
+                  className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-3 wcfdr-py-2 wcfdr-border wcfdr-border-gray-300 wcfdr-shadow-sm wcfdr-text-sm wcfdr-font-medium wcfdr-rounded-md wcfdr-text-gray-700 wcfdr-bg-white hover:wcfdr-bg-gray-50 disabled:wcfdr-opacity-50 disabled:wcfdr-cursor-not-allowed"
+                >
+                  <ChevronLeft className="wcfdr-h-4 wcfdr-w-4 wcfdr-mr-1" />
+                  Previous
+                </button>
+                <button
+                  onClick={() => setPage(page + 1)}
+                  disabled={page >= backups.total_pages || isLoading}
+                  className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-3 wcfdr-py-2 wcfdr-border wcfdr-border-gray-300 wcfdr-shadow-sm wcfdr-text-sm wcfdr-font-medium wcfdr-rounded-md wcfdr-text-gray-700 wcfdr-bg-white hover:wcfdr-bg-gray-50 disabled:wcfdr-opacity-50 disabled:wcfdr-cursor-not-allowed"
+                >
+                  Next
+                  <ChevronRight className="wcfdr-h-4 wcfdr-w-4 wcfdr-ml-1" />
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
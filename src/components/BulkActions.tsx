@@ -1,17 +1,101 @@
-import React, { useState } from 'react';
-import { Play, AlertTriangle, CheckCircle, RotateCcw, Download, Upload, Zap, Eye } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { Play, AlertTriangle, CheckCircle, RotateCcw, Zap, Eye, Filter } from 'lucide-react';
+import { useDataReplacerStore } from '../store/dataReplacerStore';
+import { DiffViewer } from './DiffViewer';
+import { RecipePicker } from './RecipePicker';
+import { ExportMenu } from './ExportMenu';
+import { PipelineEditor, emptyStep } from './PipelineEditor';
+import { describeScope, pickScope } from '../utils/scope';
+import { sourceInfo } from '../utils/dataSources';
+import { describeFilters } from '../utils/filters';
+import type { RecipeFields, ReplaceMode, ReplaceParams, ReplacePreview, ReplaceStep, SearchParams } from '../types';
+
+interface BulkActionsProps {
+  filters: SearchParams | null;
+  // Runs a new search, used when a recipe targets a different post type or meta key
+  onSearch?: (filters: SearchParams) => void;
+}
+
+interface PreviewSummary {
+  preview: ReplacePreview;
+  params: ReplaceParams;
+  estimatedAffected: number;
+  estimatedTime: string;
+  warnings: string[];
+}
+
+// Rough cost of the backup insert plus update_post_meta for each changed row
+const WRITE_COST_MS = 4;
+
+const formatDuration = (ms: number): string => {
+  if (ms < 1000) return 'under a second';
+  if (ms < 60000) return `about ${Math.ceil(ms / 1000)} seconds`;
+  return `about ${Math.ceil(ms / 60000)} minutes`;
+};
+
+/**
+ * The preview examines at most one page of rows; scale its counts to the whole filter
+ */
+const estimateAffected = (preview: ReplacePreview): number => {
+  if (preview.scanned_rows === 0 || preview.scanned_rows >= preview.total_rows) {
+    return preview.total;
+  }
+  return Math.round((preview.total / preview.scanned_rows) * preview.total_rows);
+};
+
+/**
+ * Scan cost is measured from the preview request itself, write cost is a flat per-row figure
+ */
+const estimateTime = (preview: ReplacePreview, elapsedMs: number, affected: number): string => {
+  const scanCostPerRow = elapsedMs / Math.max(preview.scanned_rows, 1);
+  return formatDuration(preview.total_rows * scanCostPerRow + affected * WRITE_COST_MS);
+};
+
+const buildWarnings = (preview: ReplacePreview): string[] => {
+  const warnings = new Set<string>();
+
+  if (preview.scanned_rows < preview.total_rows) {
+    warnings.add(`The preview examined the first ${preview.scanned_rows.toLocaleString()} of ${preview.total_rows.toLocaleString()} matching rows; affected-row counts are extrapolated.`);
+  }
+
+  const steps: ReplaceStep[] = preview.steps?.length ? preview.steps : [preview];
+  if (steps.some(step => step.mode === 'full_text')) {
+    warnings.add('Full Text Overwrite replaces the entire value of every matching row, not just the matched text.');
+  }
+
+  // Structure-aware runs recompute lengths themselves
+  const serialized = steps.every(step => step.structured) ? 0 : preview.rows.filter(row =>
+    /^[aOs]:\d+:/.test(row.meta_before) && row.meta_before.length !== row.meta_after.length
+  ).length;
+  if (serialized > 0) {
+    warnings.add(`${serialized} serialized PHP value(s) change length. Their length prefixes will no longer match and WordPress will fail to unserialize them. Turn on "Keep serialized and JSON values valid" to replace inside them safely.`);
+  }
+
+  preview.rows.forEach(row => row.warnings.forEach(warning =>
+    warnings.add(`${row.post_title || `#${row.post_id}`} (${row.meta_key}): ${warning}`)
+  ));
+
+  return Array.from(warnings);
+};
+
+export const BulkActions: React.FC<BulkActionsProps> = ({ filters, onSearch }) => {
+  const { previewReplace, startBulkReplace, bulkJob } = useDataReplacerStore();
 
-export const BulkActions: React.FC = () => {
-  const [isPreviewMode, setIsPreviewMode] = useState(false);
   const [findText, setFindText] = useState('');
   const [replaceText, setReplaceText] = useState('');
-  const [mode, setMode] = useState('plain');
-  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [mode, setMode] = useState<ReplaceMode>('plain');
+  const [structured, setStructured] = useState(false);
+  const [usePipeline, setUsePipeline] = useState(false);
+  const [steps, setSteps] = useState<ReplaceStep[]>([emptyStep()]);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [progress, setProgress] = useState(0);
-  const [previewResults, setPreviewResults] = useState<any>(null);
+  const [previewResults, setPreviewResults] = useState<PreviewSummary | null>(null);
+  const [message, setMessage] = useState<{type: 'success' | 'error', text: string} | null>(null);
+  // Set while the applied recipe was saved for a different scope than the current search
+  const [recipeScope, setRecipeScope] = useState<Pick<RecipeFields, 'post_type' | 'meta_key'> | null>(null);
+
+  const hasActiveBulkJob = !!bulkJob && bulkJob.status !== 'completed' && bulkJob.status !== 'cancelled' && bulkJob.status !== 'rolled_back';
 
-  const modes = [
+  const modes: { value: ReplaceMode; label: string }[] = [
     { value: 'plain', label: 'Plain Text (Case-insensitive)' },
     { value: 'plain_cs', label: 'Plain Text (Case-sensitive)' },
     { value: 'regex', label: 'Regular Expression' },
@@ -21,50 +105,130 @@ export const BulkActions: React.FC = () => {
     { value: 'full_text', label: 'Full Text Overwrite' }
   ];
 
+  // A preview only holds for the filter it was made against
+  useEffect(() => {
+    setPreviewResults(null);
+  }, [filters]);
+
+  const handleTogglePipeline = (enabled: boolean) => {
+    // The single replacement becomes the first step, and back again
+    if (enabled) {
+      setSteps([{ find: findText, replace: replaceText, mode, structured }]);
+    } else if (steps.length > 0) {
+      setFindText(steps[0].find);
+      setReplaceText(steps[0].replace);
+      setMode(steps[0].mode);
+      setStructured(!!steps[0].structured);
+    }
+    setUsePipeline(enabled);
+    setPreviewResults(null);
+  };
+
+  const handleStepsChange = (next: ReplaceStep[]) => {
+    setSteps(next);
+    setPreviewResults(null);
+  };
+
+  const canPreview = usePipeline ? steps.length > 0 && steps.every(step => step.find) : !!findText;
+
+  const handleApplyRecipe = (fields: RecipeFields) => {
+    setUsePipeline(false);
+    setFindText(fields.find);
+    setReplaceText(fields.replace);
+    setMode(fields.mode);
+    setStructured(!!fields.structured);
+    setPreviewResults(null);
+
+    const differs = (fields.post_type && fields.post_type !== filters?.post_type)
+      || (fields.meta_key && fields.meta_key !== filters?.meta_key);
+    setRecipeScope(differs ? { post_type: fields.post_type, meta_key: fields.meta_key } : null);
+  };
+
+  const handleSearchRecipeScope = () => {
+    if (!recipeScope || !onSearch) return;
+    // The recipe's post type or key replaces whatever lists the current search used
+    const scope = { ...filters };
+    if (recipeScope.post_type) {
+      Object.assign(scope, { post_type: recipeScope.post_type, post_types: undefined });
+    }
+    if (recipeScope.meta_key) {
+      Object.assign(scope, { meta_key: recipeScope.meta_key, meta_keys: undefined, meta_key_pattern: undefined, all_meta_keys: undefined });
+    }
+    onSearch({
+      ...scope,
+      post_type: scope.post_type ?? '',
+      meta_key: scope.meta_key ?? '',
+      page: 1
+    });
+    setRecipeScope(null);
+  };
+
   const handlePreview = async () => {
-    if (!findText || !replaceText) return;
-    
-    setIsPreviewMode(true);
+    if (!filters || !canPreview) return;
+
+    const params: ReplaceParams = {
+      find: usePipeline ? steps[0].find : findText,
+      replace: usePipeline ? steps[0].replace : replaceText,
+      mode: usePipeline ? steps[0].mode : mode,
+      structured: usePipeline ? !!steps[0].structured : structured,
+      steps: usePipeline ? steps : undefined,
+      ...pickScope(filters),
+      value_filter: filters.value,
+      case_sensitive: filters.case_sensitive,
+      regex: filters.regex
+    };
+
     setIsProcessing(true);
-    
-    // Simulate preview processing
-    for (let i = 0; i <= 100; i += 10) {
-      setProgress(i);
-      await new Promise(resolve => setTimeout(resolve, 100));
+    setPreviewResults(null);
+    setMessage(null);
+
+    try {
+      const startedAt = performance.now();
+      const preview = await previewReplace({ ...params, limit: 5000 });
+      const elapsedMs = performance.now() - startedAt;
+      const estimatedAffected = estimateAffected(preview);
+
+      setPreviewResults({
+        preview,
+        params,
+        estimatedAffected,
+        estimatedTime: estimateTime(preview, elapsedMs, estimatedAffected),
+        warnings: buildWarnings(preview)
+      });
+    } catch (error) {
+      console.error('❌ Bulk preview failed:', error);
+      setMessage({
+        type: 'error',
+        text: `Preview failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      });
+    } finally {
+      setIsProcessing(false);
     }
-    
-    // Mock preview results
-    setPreviewResults({
-      totalRows: 45,
-      affectedRows: 23,
-      preview: 'Sample preview of changes...',
-      warnings: ['Some rows may have conflicts'],
-      estimatedTime: '2.5 seconds'
-    });
-    
-    setIsProcessing(false);
   };
 
   const handleExecute = async () => {
     if (!previewResults) return;
-    
-    setIsProcessing(true);
-    setProgress(0);
-    
-    // Simulate execution
-    for (let i = 0; i <= 100; i += 5) {
-      setProgress(i);
-      await new Promise(resolve => setTimeout(resolve, 200));
+
+    const { params, preview, estimatedAffected } = previewResults;
+    const scope = `about ${estimatedAffected.toLocaleString()} of ${preview.total_rows.toLocaleString()} matching rows`;
+    const confirmMessage = params.steps
+      ? `Run this ${params.steps.length}-step pipeline on ${scope}? Each row is written once with every step applied. If any row fails, every row already written is restored.`
+      : `Replace "${params.find}" with "${params.replace}" in ${scope}? Every changed value is backed up and can be restored from the Backups tab.`;
+    if (!confirm(confirmMessage)) {
+      return;
     }
-    
-    setIsProcessing(false);
-    // Show success message
+
+    setPreviewResults(null);
+    setMessage({
+      type: 'success',
+      text: 'Bulk replace started. Progress is shown above the results.'
+    });
+    await startBulkReplace(params, { rollbackOnFailure: !!params.steps });
   };
 
   const handleCancel = () => {
-    setIsPreviewMode(false);
-    setProgress(0);
     setPreviewResults(null);
+    setMessage(null);
   };
 
   return (
@@ -75,77 +239,175 @@ export const BulkActions: React.FC = () => {
         </h2>
         <div className="wcfdr-flex wcfdr-items-center wcfdr-space-x-2">
           <Zap className="wcfdr-h-4 wcfdr-w-4 wcfdr-text-yellow-500" />
-          <span className="wcfdr-text-sm wcfdr-text-gray-500">Bulk Replace Operations</span>
+          <span className="wcfdr-text-sm wcfdr-text-gray-500">Replace across every row matching the current search</span>
         </div>
       </div>
 
+      {/* Scope */}
+      <div className="wcfdr-flex wcfdr-items-start wcfdr-mb-4 wcfdr-text-sm wcfdr-text-gray-600">
+        <Filter className="wcfdr-h-4 wcfdr-w-4 wcfdr-mr-2 wcfdr-mt-0.5 wcfdr-text-gray-400" />
+        {filters ? (
+          <span>
+            Source: <strong>{describeScope(filters).source}</strong>
+            {sourceInfo(filters.source).postTypes && (
+              <>
+                {' · '}Post types: <strong>{describeScope(filters).postTypes}</strong>
+              </>
+            )}
+            {sourceInfo(filters.source).keyed && (
+              <>
+                {' · '}{sourceInfo(filters.source).keyLabel}s: <strong className="wcfdr-font-mono">{describeScope(filters).metaKeys}</strong>
+              </>
+            )}
+            {filters.filters && (
+              <>
+                {' · '}Where: <strong>{describeFilters(filters.filters, filters.source)}</strong>
+              </>
+            )}
+            {filters.value && (
+              <>
+                {' · '}Value {filters.regex ? 'matches' : 'contains'}: <strong className="wcfdr-font-mono">{filters.value}</strong>
+              </>
+            )}
+          </span>
+        ) : (
+          <span>Run a search first; bulk replace applies to everything that search matches.</span>
+        )}
+      </div>
+
+      {recipeScope && (
+        <div className="wcfdr-mb-4 wcfdr-p-3 wcfdr-rounded-lg wcfdr-border wcfdr-bg-yellow-50 wcfdr-border-yellow-200 wcfdr-text-sm wcfdr-text-yellow-800 wcfdr-flex wcfdr-items-center wcfdr-justify-between">
+          <span>
+            This recipe was saved for post type <strong>{recipeScope.post_type || 'all'}</strong> and
+            meta key <strong className="wcfdr-font-mono">{recipeScope.meta_key || 'any'}</strong>, not the current search.
+          </span>
+          {onSearch && (
+            <button
+              onClick={handleSearchRecipeScope}
+              className="wcfdr-ml-4 wcfdr-flex-shrink-0 wcfdr-px-3 wcfdr-py-1.5 wcfdr-text-xs wcfdr-font-medium wcfdr-rounded wcfdr-text-yellow-900 wcfdr-bg-yellow-100 hover:wcfdr-bg-yellow-200"
+            >
+              Search Recipe Scope
+            </button>
+          )}
+        </div>
+      )}
+
+      {message && (
+        <div
+          className={`wcfdr-mb-4 wcfdr-p-3 wcfdr-rounded-lg wcfdr-border wcfdr-text-sm ${
+            message.type === 'success'
+              ? 'wcfdr-bg-green-50 wcfdr-border-green-200 wcfdr-text-green-800'
+              : 'wcfdr-bg-red-50 wcfdr-border-red-200 wcfdr-text-red-800'
+          }`}
+          aria-live="polite"
+        >
+          {message.text}
+        </div>
+      )}
+
       <div className="wcfdr-grid wcfdr-grid-cols-1 wcfdr-gap-6 lg:wcfdr-grid-cols-2">
         {/* Configuration */}
         <div className="wcfdr-space-y-4">
-          <div>
-            <label className="wcfdr-block wcfdr-text-sm wcfdr-font-medium wcfdr-text-gray-700 wcfdr-mb-2">
-              Find
-            </label>
-            <input
-              value={findText}
-              onChange={(e) => setFindText(e.target.value)}
-              placeholder="Text to find..."
-              className="wcfdr-w-full wcfdr-font-mono wcfdr-rounded-md wcfdr-border-gray-300 wcfdr-shadow-sm focus:wcfdr-border-blue-500 focus:wcfdr-ring-blue-500"
-            />
-          </div>
+          <RecipePicker
+            current={{
+              find: findText,
+              replace: replaceText,
+              mode,
+              structured,
+              post_type: filters?.post_type ?? '',
+              meta_key: filters?.meta_key ?? ''
+            }}
+            onApply={handleApplyRecipe}
+          />
 
           <div>
-            <label className="wcfdr-block wcfdr-text-sm wcfdr-font-medium wcfdr-text-gray-700 wcfdr-mb-2">
-              Replace With
+            <label className="wcfdr-flex wcfdr-items-center wcfdr-text-sm wcfdr-font-medium wcfdr-text-gray-700">
+              <input
+                type="checkbox"
+                checked={usePipeline}
+                onChange={(e) => handleTogglePipeline(e.target.checked)}
+                className="wcfdr-mr-2 wcfdr-rounded wcfdr-border-gray-300 wcfdr-text-blue-600 focus:wcfdr-ring-blue-500"
+              />
+              Multi-step pipeline
             </label>
-            <input
-              value={replaceText}
-              onChange={(e) => setReplaceText(e.target.value)}
-              placeholder="Replacement text..."
-              className="wcfdr-w-full wcfdr-font-mono wcfdr-rounded-md wcfdr-border-gray-300 wcfdr-shadow-sm focus:wcfdr-border-blue-500 focus:wcfdr-ring-blue-500"
-            />
+            <p className="wcfdr-mt-1 wcfdr-text-xs wcfdr-text-gray-500">
+              Chain several replacements. Each row is written once with every step applied, and a failed row rolls back the whole run.
+            </p>
           </div>
 
-          <div>
-            <label className="wcfdr-block wcfdr-text-sm wcfdr-font-medium wcfdr-text-gray-700 wcfdr-mb-2">
-              Mode
-            </label>
-            <select
-              value={mode}
-              onChange={(e) => setMode(e.target.value)}
-              className="wcfdr-w-full wcfdr-rounded-md wcfdr-border-gray-300 wcfdr-shadow-sm focus:wcfdr-border-blue-500 focus:wcfdr-ring-blue-500"
-            >
-              {modes.map((m) => (
-                <option key={m.value} value={m.value}>
-                  {m.label}
-                </option>
-              ))}
-            </select>
-          </div>
+          {usePipeline ? (
+            <PipelineEditor steps={steps} onChange={handleStepsChange} modes={modes} />
+          ) : (
+            <>
+              <div>
+                <label className="wcfdr-block wcfdr-text-sm wcfdr-font-medium wcfdr-text-gray-700 wcfdr-mb-2">
+                  Find
+                </label>
+                <input
+                  value={findText}
+                  onChange={(e) => setFindText(e.target.value)}
+                  placeholder="Text to find..."
+                  className="wcfdr-w-full wcfdr-font-mono wcfdr-rounded-md wcfdr-border-gray-300 wcfdr-shadow-sm focus:wcfdr-border-blue-500 focus:wcfdr-ring-blue-500"
+                />
+              </div>
 
-          <div className="wcfdr-flex wcfdr-items-center wcfdr-justify-between">
-            <label className="wcfdr-text-sm wcfdr-font-medium wcfdr-text-gray-700">
-              Case Sensitive
-            </label>
-            <input
-              type="checkbox"
-              checked={caseSensitive}
-              onChange={(e) => setCaseSensitive(e.target.checked)}
-              disabled={mode === 'plain'}
-              className="wcfdr-rounded wcfdr-border-gray-300 wcfdr-text-blue-600 focus:wcfdr-ring-blue-500"
-            />
-          </div>
+              <div>
+                <label className="wcfdr-block wcfdr-text-sm wcfdr-font-medium wcfdr-text-gray-700 wcfdr-mb-2">
+                  Replace With
+                </label>
+                <input
+                  value={replaceText}
+                  onChange={(e) => setReplaceText(e.target.value)}
+                  placeholder="Replacement text..."
+                  className="wcfdr-w-full wcfdr-font-mono wcfdr-rounded-md wcfdr-border-gray-300 wcfdr-shadow-sm focus:wcfdr-border-blue-500 focus:wcfdr-ring-blue-500"
+                />
+              </div>
+
+              <div>
+                <label className="wcfdr-block wcfdr-text-sm wcfdr-font-medium wcfdr-text-gray-700 wcfdr-mb-2">
+                  Mode
+                </label>
+                <select
+                  value={mode}
+                  onChange={(e) => setMode(e.target.value as ReplaceMode)}
+                  className="wcfdr-w-full wcfdr-rounded-md wcfdr-border-gray-300 wcfdr-shadow-sm focus:wcfdr-border-blue-500 focus:wcfdr-ring-blue-500"
+                >
+                  {modes.map((m) => (
+                    <option key={m.value} value={m.value}>
+                      {m.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="wcfdr-flex wcfdr-items-center wcfdr-text-sm wcfdr-font-medium wcfdr-text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={structured}
+                    onChange={(e) => setStructured(e.target.checked)}
+                    disabled={mode === 'full_text'}
+                    className="wcfdr-mr-2 wcfdr-rounded wcfdr-border-gray-300 wcfdr-text-blue-600 focus:wcfdr-ring-blue-500"
+                  />
+                  Keep serialized and JSON values valid
+                </label>
+                <p className="wcfdr-mt-1 wcfdr-text-xs wcfdr-text-gray-500">
+                  Replaces only inside string values of serialized PHP and JSON data, leaving keys alone and recalculating lengths.
+                </p>
+              </div>
+            </>
+          )}
 
           <div className="wcfdr-flex wcfdr-space-x-3">
             <button
               onClick={handlePreview}
-              disabled={!findText || !replaceText || isProcessing}
+              disabled={!filters || !canPreview || isProcessing}
               className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-4 wcfdr-py-2 wcfdr-border wcfdr-border-transparent wcfdr-text-sm wcfdr-font-medium wcfdr-rounded-md wcfdr-text-white wcfdr-bg-blue-600 hover:wcfdr-bg-blue-700 disabled:wcfdr-opacity-50 disabled:wcfdr-cursor-not-allowed"
             >
               <Eye className="wcfdr-h-4 wcfdr-w-4 wcfdr-mr-2" />
               Preview Changes
             </button>
-            
+
             <button
               onClick={handleCancel}
               className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-4 wcfdr-py-2 wcfdr-border wcfdr-border-gray-300 wcfdr-shadow-sm wcfdr-text-sm wcfdr-font-medium wcfdr-rounded-md wcfdr-text-gray-700 wcfdr-bg-white hover:wcfdr-bg-gray-50"
@@ -160,45 +422,41 @@ export const BulkActions: React.FC = () => {
         <div className="wcfdr-space-y-4">
           {isProcessing && (
             <div className="wcfdr-bg-blue-50 wcfdr-border wcfdr-border-blue-200 wcfdr-rounded-lg wcfdr-p-4">
-              <div className="wcfdr-flex wcfdr-items-center wcfdr-mb-3">
+              <div className="wcfdr-flex wcfdr-items-center">
                 <div className="wcfdr-animate-spin wcfdr-rounded-full wcfdr-h-4 wcfdr-w-4 wcfdr-border-b-2 wcfdr-border-blue-600 wcfdr-mr-2"></div>
                 <span className="wcfdr-text-sm wcfdr-font-medium wcfdr-text-blue-800">
-                  {isPreviewMode ? 'Previewing changes...' : 'Executing changes...'}
+                  Previewing changes...
                 </span>
               </div>
-              <div className="wcfdr-w-full wcfdr-bg-blue-200 wcfdr-rounded-full wcfdr-h-2">
-                <div 
-                  className="wcfdr-bg-blue-600 wcfdr-h-2 wcfdr-rounded-full wcfdr-transition-all wcfdr-duration-300"
-                  style={{ width: `${progress}%` }}
-                ></div>
-              </div>
-              <div className="wcfdr-text-xs wcfdr-text-blue-600 wcfdr-mt-2">
-                {progress}% complete
-              </div>
             </div>
           )}
 
           {previewResults && !isProcessing && (
             <div className="wcfdr-bg-gray-50 wcfdr-border wcfdr-border-gray-200 wcfdr-rounded-lg wcfdr-p-4">
-              <h3 className="wcfdr-text-sm wcfdr-font-medium wcfdr-text-gray-900 wcfdr-mb-3">
-                Preview Results
-              </h3>
-              
+              <div className="wcfdr-flex wcfdr-items-center wcfdr-justify-between wcfdr-mb-3">
+                <h3 className="wcfdr-text-sm wcfdr-font-medium wcfdr-text-gray-900">
+                  Preview Results
+                </h3>
+                <ExportMenu kind="preview" params={previewResults.params} label="Export preview" align="right" />
+              </div>
+
               <div className="wcfdr-space-y-3">
                 <div className="wcfdr-flex wcfdr-justify-between">
-                  <span className="wcfdr-text-sm wcfdr-text-gray-600">Total Rows:</span>
+                  <span className="wcfdr-text-sm wcfdr-text-gray-600">Matching Rows:</span>
                   <span className="wcfdr-text-sm wcfdr-font-medium wcfdr-text-gray-900">
-                    {previewResults.totalRows}
+                    {previewResults.preview.total_rows.toLocaleString()}
                   </span>
                 </div>
-                
+
                 <div className="wcfdr-flex wcfdr-justify-between">
                   <span className="wcfdr-text-sm wcfdr-text-gray-600">Affected Rows:</span>
                   <span className="wcfdr-text-sm wcfdr-font-medium wcfdr-text-gray-900">
-                    {previewResults.affectedRows}
+                    {previewResults.preview.scanned_rows < previewResults.preview.total_rows
+                      ? `~${previewResults.estimatedAffected.toLocaleString()} (${previewResults.preview.total} of ${previewResults.preview.scanned_rows} previewed)`
+                      : previewResults.preview.total.toLocaleString()}
                   </span>
                 </div>
-                
+
                 <div className="wcfdr-flex wcfdr-justify-between">
                   <span className="wcfdr-text-sm wcfdr-text-gray-600">Estimated Time:</span>
                   <span className="wcfdr-text-sm wcfdr-font-medium wcfdr-text-gray-900">
@@ -214,7 +472,7 @@ export const BulkActions: React.FC = () => {
                     <div className="wcfdr-text-sm wcfdr-text-yellow-800">
                       <strong>Warnings:</strong>
                       <ul className="wcfdr-mt-1 wcfdr-list-disc wcfdr-list-inside">
-                        {previewResults.warnings.map((warning: string, index: number) => (
+                        {previewResults.warnings.map((warning, index) => (
                           <li key={index}>{warning}</li>
                         ))}
                       </ul>
@@ -223,15 +481,43 @@ export const BulkActions: React.FC = () => {
                 </div>
               )}
 
+              {/* Sample of affected rows */}
+              {previewResults.preview.rows.length > 0 && (
+                <div className="wcfdr-mt-3 wcfdr-space-y-3">
+                  {previewResults.preview.rows.slice(0, 5).map((row) => (
+                    <div key={`${row.post_id}-${row.meta_key}`}>
+                      <div className="wcfdr-text-xs wcfdr-text-gray-600 wcfdr-mb-1 wcfdr-truncate">
+                        <span className="wcfdr-font-medium wcfdr-text-gray-900">{row.post_title || `#${row.post_id}`}</span>
+                        {' · '}<span className="wcfdr-font-mono">{row.meta_key}</span>
+                      </div>
+                      <DiffViewer before={row.meta_before} after={row.meta_after} matchCount={row.match_count} compact />
+                    </div>
+                  ))}
+                  {previewResults.preview.rows.length > 5 && (
+                    <div className="wcfdr-text-xs wcfdr-text-gray-600">
+                      …and {previewResults.preview.rows.length - 5} more in this preview
+                    </div>
+                  )}
+                </div>
+              )}
+
               <div className="wcfdr-mt-4">
-                <button
-                  onClick={handleExecute}
-                  disabled={isProcessing}
-                  className="wcfdr-w-full wcfdr-inline-flex wcfdr-items-center wcfdr-justify-center wcfdr-px-4 wcfdr-py-2 wcfdr-border wcfdr-border-transparent wcfdr-text-sm wcfdr-font-medium wcfdr-rounded-md wcfdr-text-white wcfdr-bg-green-600 hover:wcfdr-bg-green-700 disabled:wcfdr-opacity-50 disabled:wcfdr-cursor-not-allowed"
-                >
-                  <Play className="wcfdr-h-4 wcfdr-w-4 wcfdr-mr-2" />
-                  Execute Changes
-                </button>
+                {previewResults.preview.has_changes || previewResults.preview.scanned_rows < previewResults.preview.total_rows ? (
+                  <button
+                    onClick={handleExecute}
+                    disabled={isProcessing || hasActiveBulkJob}
+                    title={hasActiveBulkJob ? 'Finish or cancel the current bulk replace first' : undefined}
+                    className="wcfdr-w-full wcfdr-inline-flex wcfdr-items-center wcfdr-justify-center wcfdr-px-4 wcfdr-py-2 wcfdr-border wcfdr-border-transparent wcfdr-text-sm wcfdr-font-medium wcfdr-rounded-md wcfdr-text-white wcfdr-bg-green-600 hover:wcfdr-bg-green-700 disabled:wcfdr-opacity-50 disabled:wcfdr-cursor-not-allowed"
+                  >
+                    <Play className="wcfdr-h-4 wcfdr-w-4 wcfdr-mr-2" />
+                    Execute Changes
+                  </button>
+                ) : (
+                  <div className="wcfdr-flex wcfdr-items-center wcfdr-justify-center wcfdr-text-sm wcfdr-text-gray-600">
+                    <CheckCircle className="wcfdr-h-4 wcfdr-w-4 wcfdr-mr-2 wcfdr-text-green-500" />
+                    No previewed row would change
+                  </div>
+                )}
               </div>
             </div>
           )}
@@ -0,0 +1,214 @@
+import React, { useEffect, useRef } from 'react';
+import { Pause, Play, X, CheckCircle, AlertTriangle, History, Undo2 } from 'lucide-react';
+import { useDataReplacerStore } from '../store/dataReplacerStore';
+import type { BulkJobStatus } from '../types';
+
+interface BulkJobProgressProps {
+  onComplete?: () => void;
+}
+
+const statusLabels: Record<BulkJobStatus, string> = {
+  running: 'Running',
+  paused: 'Paused',
+  interrupted: 'Interrupted',
+  cancelled: 'Cancelled',
+  completed: 'Completed',
+  failed: 'Stopped on error',
+  rolled_back: 'Rolled back'
+};
+
+const statusStyles: Record<BulkJobStatus, string> = {
+  running: 'wcfdr-bg-blue-50 wcfdr-border-blue-200',
+  paused: 'wcfdr-bg-yellow-50 wcfdr-border-yellow-200',
+  interrupted: 'wcfdr-bg-yellow-50 wcfdr-border-yellow-200',
+  cancelled: 'wcfdr-bg-gray-50 wcfdr-border-gray-200',
+  completed: 'wcfdr-bg-green-50 wcfdr-border-green-200',
+  failed: 'wcfdr-bg-red-50 wcfdr-border-red-200',
+  rolled_back: 'wcfdr-bg-red-50 wcfdr-border-red-200'
+};
+
+export const BulkJobProgress: React.FC<BulkJobProgressProps> = ({ onComplete }) => {
+  const {
+    bulkJob,
+    pauseBulkReplace,
+    resumeBulkReplace,
+    cancelBulkReplace,
+    rollbackBulkReplace,
+    dismissBulkReplace
+  } = useDataReplacerStore();
+
+  const status = bulkJob?.status;
+  const previousStatus = useRef(status);
+
+  // Refresh the results once, when a run finishes or stops part-way
+  useEffect(() => {
+    if (previousStatus.current === 'running' && status && status !== 'running' && status !== 'paused') {
+      onComplete?.();
+    }
+    previousStatus.current = status;
+  }, [status, onComplete]);
+
+  // Closing the tab mid-run leaves a recoverable job, but warn anyway
+  useEffect(() => {
+    if (status !== 'running') return;
+
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [status]);
+
+  if (!bulkJob) {
+    return null;
+  }
+
+  const percent = bulkJob.total > 0
+    ? Math.min(100, Math.round((bulkJob.processed / bulkJob.total) * 100))
+    : (bulkJob.status === 'completed' ? 100 : 0);
+  const canResume = ['paused', 'interrupted', 'failed'].includes(bulkJob.status);
+  const isFinished = bulkJob.status === 'completed' || bulkJob.status === 'cancelled' || bulkJob.status === 'rolled_back';
+  // All-or-nothing runs stopped part-way can be undone here instead of resumed
+  const canRollback = !!bulkJob.rollback_on_failure && canResume && bulkJob.updated > 0;
+  const stepCount = bulkJob.params.steps?.length ?? 0;
+
+  const handleCancel = () => {
+    const message = bulkJob.batch_id
+      ? `Cancel this bulk replace? Rows already written stay changed; you can undo them from the Backups tab with batch ${bulkJob.batch_id}.`
+      : 'Cancel this bulk replace?';
+    if (confirm(message)) {
+      cancelBulkReplace();
+    }
+  };
+
+  const handleRollback = () => {
+    if (confirm(`Restore the ${bulkJob.updated} row(s) this run has written so far and stop it?`)) {
+      rollbackBulkReplace('The run was rolled back.');
+    }
+  };
+
+  return (
+    <div className={`wcfdr-border wcfdr-rounded-lg wcfdr-p-4 ${statusStyles[bulkJob.status]}`} aria-live="polite">
+      <div className="wcfdr-flex wcfdr-items-start wcfdr-justify-between">
+        <div className="wcfdr-space-y-1">
+          <div className="wcfdr-flex wcfdr-items-center wcfdr-text-sm wcfdr-font-medium wcfdr-text-gray-900">
+            {bulkJob.status === 'running' && (
+              <div className="wcfdr-animate-spin wcfdr-rounded-full wcfdr-h-4 wcfdr-w-4 wcfdr-border-b-2 wcfdr-border-blue-600 wcfdr-mr-2"></div>
+            )}
+            {bulkJob.status === 'completed' && <CheckCircle className="wcfdr-h-4 wcfdr-w-4 wcfdr-text-green-600 wcfdr-mr-2" />}
+            {(bulkJob.status === 'failed' || bulkJob.status === 'rolled_back') && <AlertTriangle className="wcfdr-h-4 wcfdr-w-4 wcfdr-text-red-600 wcfdr-mr-2" />}
+            {bulkJob.status === 'interrupted' && <History className="wcfdr-h-4 wcfdr-w-4 wcfdr-text-yellow-600 wcfdr-mr-2" />}
+            Bulk replace: {statusLabels[bulkJob.status]}
+          </div>
+          <div className="wcfdr-text-xs wcfdr-text-gray-600">
+            {stepCount > 0 ? (
+              <>{stepCount}-step pipeline</>
+            ) : (
+              <>
+                <span className="wcfdr-font-mono">"{bulkJob.params.find}"</span> → <span className="wcfdr-font-mono">"{bulkJob.params.replace}"</span>
+              </>
+            )}
+            {bulkJob.params.targets ? (
+              <> in {bulkJob.params.targets.length} selected rows</>
+            ) : (
+              <>
+                {' '}in <span className="wcfdr-font-mono">{bulkJob.params.meta_key || 'any meta key'}</span> ({bulkJob.params.post_type || 'all post types'})
+              </>
+            )}
+            {bulkJob.params.value_filter && (
+              <> where value {bulkJob.params.regex ? 'matches' : 'contains'} <span className="wcfdr-font-mono">"{bulkJob.params.value_filter}"</span></>
+            )}
+          </div>
+          {bulkJob.batch_id && (
+            <div className="wcfdr-text-xs wcfdr-text-gray-500">
+              Batch: <span className="wcfdr-font-mono">{bulkJob.batch_id}</span>
+            </div>
+          )}
+        </div>
+
+        <div className="wcfdr-flex wcfdr-items-center wcfdr-space-x-2">
+          {bulkJob.status === 'running' && (
+            <button
+              onClick={pauseBulkReplace}
+              className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-3 wcfdr-py-1.5 wcfdr-border wcfdr-border-gray-300 wcfdr-text-sm wcfdr-font-medium wcfdr-rounded-md wcfdr-text-gray-700 wcfdr-bg-white hover:wcfdr-bg-gray-50"
+            >
+              <Pause className="wcfdr-h-4 wcfdr-w-4 wcfdr-mr-1" />
+              Pause
+            </button>
+          )}
+          {canResume && (
+            <button
+              onClick={() => resumeBulkReplace()}
+              className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-3 wcfdr-py-1.5 wcfdr-text-sm wcfdr-font-medium wcfdr-rounded-md wcfdr-text-white wcfdr-bg-blue-600 hover:wcfdr-bg-blue-700"
+            >
+              <Play className="wcfdr-h-4 wcfdr-w-4 wcfdr-mr-1" />
+              {bulkJob.status === 'failed' ? 'Retry' : 'Resume'}
+            </button>
+          )}
+          {canRollback && (
+            <button
+              onClick={handleRollback}
+              className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-3 wcfdr-py-1.5 wcfdr-border wcfdr-border-red-300 wcfdr-text-sm wcfdr-font-medium wcfdr-rounded-md wcfdr-text-red-700 wcfdr-bg-white hover:wcfdr-bg-red-50"
+            >
+              <Undo2 className="wcfdr-h-4 wcfdr-w-4 wcfdr-mr-1" />
+              Roll Back
+            </button>
+          )}
+          {!isFinished && (
+            <button
+              onClick={handleCancel}
+              className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-3 wcfdr-py-1.5 wcfdr-border wcfdr-border-gray-300 wcfdr-text-sm wcfdr-font-medium wcfdr-rounded-md wcfdr-text-gray-700 wcfdr-bg-white hover:wcfdr-bg-gray-50"
+            >
+              <X className="wcfdr-h-4 wcfdr-w-4 wcfdr-mr-1" />
+              Cancel
+            </button>
+          )}
+          {isFinished && (
+            <button
+              onClick={dismissBulkReplace}
+              className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-3 wcfdr-py-1.5 wcfdr-border wcfdr-border-gray-300 wcfdr-text-sm wcfdr-font-medium wcfdr-rounded-md wcfdr-text-gray-700 wcfdr-bg-white hover:wcfdr-bg-gray-50"
+            >
+              Dismiss
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Progress Bar */}
+      <div className="wcfdr-mt-3">
+        <div
+          className="wcfdr-w-full wcfdr-bg-gray-200 wcfdr-rounded-full wcfdr-h-2"
+          role="progressbar"
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={percent}
+        >
+          <div
+            className="wcfdr-bg-blue-600 wcfdr-h-2 wcfdr-rounded-full wcfdr-transition-all wcfdr-duration-300"
+            style={{ width: `${percent}%` }}
+          ></div>
+        </div>
+        <div className="wcfdr-flex wcfdr-justify-between wcfdr-text-xs wcfdr-text-gray-600 wcfdr-mt-1">
+          <span>
+            {bulkJob.processed.toLocaleString()} of {bulkJob.total > 0 ? bulkJob.total.toLocaleString() : '…'} rows processed ({percent}%)
+          </span>
+          <span>
+            Updated: {bulkJob.updated} · Unchanged: {bulkJob.skipped} · Failed: {bulkJob.failed}
+          </span>
+        </div>
+      </div>
+
+      {bulkJob.status === 'interrupted' && (
+        <div className="wcfdr-text-sm wcfdr-text-yellow-800 wcfdr-mt-2">
+          This run stopped when the page was closed or reloaded. Resume to continue from row {bulkJob.processed + 1}.
+        </div>
+      )}
+      {bulkJob.error && (
+        <div className="wcfdr-text-sm wcfdr-text-red-700 wcfdr-mt-2">
+          {bulkJob.error}
+        </div>
+      )}
+    </div>
+  );
+};
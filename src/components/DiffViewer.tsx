@@ -0,0 +1,164 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Columns, AlignLeft, Pilcrow, ChevronsUpDown } from 'lucide-react';
+import { diffChars, diffStats } from '../utils/diff';
+import type { DiffSegment } from '../utils/diff';
+
+type DiffLayout = 'inline' | 'side-by-side';
+
+interface DiffViewerProps {
+  before: string;
+  after: string;
+  beforeLabel?: string;
+  afterLabel?: string;
+  matchCount?: number;
+  defaultLayout?: DiffLayout;
+  compact?: boolean;
+}
+
+// Unchanged runs longer than this are folded, keeping CONTEXT_CHARS on each side
+const COLLAPSE_THRESHOLD = 160;
+const CONTEXT_CHARS = 40;
+
+const visibleWhitespace = (text: string): string =>
+  text.replace(/ /g, '·').replace(/\t/g, '→').replace(/\r?\n/g, '↵\n');
+
+interface DiffTextProps {
+  segments: DiffSegment[];
+  side: 'inline' | 'before' | 'after';
+  showWhitespace: boolean;
+  expanded: Set<number>;
+  onExpand: (index: number) => void;
+}
+
+const DiffText: React.FC<DiffTextProps> = ({ segments, side, showWhitespace, expanded, onExpand }) => (
+  <pre className="wcfdr-text-xs wcfdr-font-mono wcfdr-whitespace-pre-wrap wcfdr-break-all wcfdr-m-0">
+    {segments.map((segment, index) => {
+      if (segment.op === 'delete' && side === 'after') return null;
+      if (segment.op === 'insert' && side === 'before') return null;
+
+      if (segment.op !== 'equal') {
+        // Changed text always shows its whitespace, or a changed space would be invisible
+        const text = visibleWhitespace(segment.text);
+        return segment.op === 'delete' ? (
+          <del key={index} className="wcfdr-bg-red-200 wcfdr-text-red-900 wcfdr-rounded-sm">{text}</del>
+        ) : (
+          <ins key={index} className="wcfdr-bg-green-200 wcfdr-text-green-900 wcfdr-rounded-sm wcfdr-no-underline">{text}</ins>
+        );
+      }
+
+      const text = showWhitespace ? visibleWhitespace(segment.text) : segment.text;
+      if (segment.text.length <= COLLAPSE_THRESHOLD || expanded.has(index)) {
+        return <span key={index} className="wcfdr-text-gray-700">{text}</span>;
+      }
+
+      const isFirst = index === 0;
+      const isLast = index === segments.length - 1;
+      const head = isFirst ? '' : text.slice(0, CONTEXT_CHARS);
+      const tail = isLast ? '' : text.slice(-CONTEXT_CHARS);
+      const hidden = segment.text.length - head.length - tail.length;
+
+      return (
+        <span key={index} className="wcfdr-text-gray-700">
+          {head}
+          <button
+            type="button"
+            onClick={() => onExpand(index)}
+            className="wcfdr-mx-1 wcfdr-px-1.5 wcfdr-rounded wcfdr-bg-gray-200 wcfdr-text-gray-600 hover:wcfdr-bg-gray-300 wcfdr-font-sans"
+            title="Show unchanged text"
+          >
+            ⋯ {hidden.toLocaleString()} unchanged characters
+          </button>
+          {tail}
+        </span>
+      );
+    })}
+  </pre>
+);
+
+export const DiffViewer: React.FC<DiffViewerProps> = ({
+  before,
+  after,
+  beforeLabel = 'Before',
+  afterLabel = 'After',
+  matchCount,
+  defaultLayout = 'inline',
+  compact = false
+}) => {
+  const [layout, setLayout] = useState<DiffLayout>(defaultLayout);
+  const [showWhitespace, setShowWhitespace] = useState(false);
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+
+  const segments = useMemo(() => diffChars(before, after), [before, after]);
+  const stats = useMemo(() => diffStats(segments), [segments]);
+
+  // Expanded indices belong to the previous segment list
+  useEffect(() => {
+    setExpanded(new Set());
+  }, [segments]);
+
+  const expand = (index: number) => setExpanded(prev => new Set(prev).add(index));
+  const expandAll = () => setExpanded(new Set(segments.map((_, index) => index)));
+
+  const toggleClass = (active: boolean) =>
+    `wcfdr-inline-flex wcfdr-items-center wcfdr-px-2 wcfdr-py-0.5 wcfdr-text-xs wcfdr-rounded ${
+      active ? 'wcfdr-bg-blue-100 wcfdr-text-blue-800' : 'wcfdr-text-gray-600 hover:wcfdr-bg-gray-100'
+    }`;
+
+  const textProps = { segments, showWhitespace, expanded, onExpand: expand };
+
+  return (
+    <div className="wcfdr-border wcfdr-border-gray-200 wcfdr-rounded-md wcfdr-bg-white">
+      {/* Toolbar */}
+      <div className="wcfdr-flex wcfdr-items-center wcfdr-justify-between wcfdr-px-2 wcfdr-py-1 wcfdr-border-b wcfdr-border-gray-200 wcfdr-bg-gray-50">
+        <div className="wcfdr-text-xs wcfdr-text-gray-600">
+          {stats.changes === 0 ? (
+            'No changes'
+          ) : (
+            <>
+              <span className="wcfdr-text-red-700">−{stats.deleted}</span>
+              {' '}<span className="wcfdr-text-green-700">+{stats.inserted}</span>
+              {' '}chars in {stats.changes} {stats.changes === 1 ? 'place' : 'places'}
+              {matchCount !== undefined && matchCount > 0 && <> · {matchCount} {matchCount === 1 ? 'match' : 'matches'}</>}
+            </>
+          )}
+        </div>
+        <div className="wcfdr-flex wcfdr-items-center wcfdr-space-x-1">
+          <button type="button" onClick={() => setLayout('inline')} className={toggleClass(layout === 'inline')} title="Inline">
+            <AlignLeft className="wcfdr-h-3 wcfdr-w-3" />
+            {!compact && <span className="wcfdr-ml-1">Inline</span>}
+          </button>
+          <button type="button" onClick={() => setLayout('side-by-side')} className={toggleClass(layout === 'side-by-side')} title="Side by side">
+            <Columns className="wcfdr-h-3 wcfdr-w-3" />
+            {!compact && <span className="wcfdr-ml-1">Side by side</span>}
+          </button>
+          <button type="button" onClick={() => setShowWhitespace(!showWhitespace)} className={toggleClass(showWhitespace)} title="Show whitespace">
+            <Pilcrow className="wcfdr-h-3 wcfdr-w-3" />
+          </button>
+          <button type="button" onClick={expandAll} className={toggleClass(false)} title="Expand unchanged text">
+            <ChevronsUpDown className="wcfdr-h-3 wcfdr-w-3" />
+          </button>
+        </div>
+      </div>
+
+      {/* Diff */}
+      <div className={`wcfdr-overflow-auto ${compact ? 'wcfdr-max-h-40' : 'wcfdr-max-h-96'}`}>
+        {layout === 'inline' ? (
+          <div className="wcfdr-p-2">
+            <DiffText {...textProps} side="inline" />
+          </div>
+        ) : (
+          <div className="wcfdr-grid wcfdr-grid-cols-2 wcfdr-divide-x wcfdr-divide-gray-200">
+            <div className="wcfdr-p-2">
+              <div className="wcfdr-text-xs wcfdr-font-medium wcfdr-text-gray-500 wcfdr-mb-1">{beforeLabel}</div>
+              <DiffText {...textProps} side="before" />
+            </div>
+            <div className="wcfdr-p-2">
+              <div className="wcfdr-text-xs wcfdr-font-medium wcfdr-text-gray-500 wcfdr-mb-1">{afterLabel}</div>
+              <DiffText {...textProps} side="after" />
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
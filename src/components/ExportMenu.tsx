@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import { api } from '../services/api';
+import { EXPORT_COLUMNS, EXPORT_FORMATS } from '../utils/exports';
+import type { ExportFormat, ExportKind, ReplaceParams, SearchParams } from '../types';
+
+interface ExportMenuProps {
+  kind: ExportKind;
+  // The search or replacement to export; every matching row is exported, not only the rows shown
+  params: SearchParams | ReplaceParams | null;
+  label?: string;
+  // Side of the button the menu lines up with
+  align?: 'left' | 'right';
+}
+
+const errorText = (error: unknown, fallback: string): string =>
+  error instanceof Error && error.message ? error.message : fallback;
+
+/**
+ * Button that downloads every row of a search or replace preview in a chosen format and set of columns
+ */
+export const ExportMenu: React.FC<ExportMenuProps> = ({ kind, params, label = 'Export', align = 'left' }) => {
+  const columns = EXPORT_COLUMNS[kind];
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [selected, setSelected] = useState<string[]>(columns.map(column => column.value));
+  const [isExporting, setIsExporting] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const toggleColumn = (value: string) => {
+    setSelected(current => (current.includes(value) ? current.filter(item => item !== value) : [...current, value]));
+  };
+
+  const handleExport = async () => {
+    if (!params || selected.length === 0) return;
+
+    setIsExporting(true);
+    setMessage(null);
+    try {
+      // Listed in the standard order, as the server writes them
+      const ordered = columns.map(column => column.value).filter(value => selected.includes(value));
+      const filename = await api.exportResults({ ...params, export: { kind, format, columns: ordered } });
+      setMessage({ type: 'success', text: `Saved ${filename}` });
+    } catch (error) {
+      setMessage({ type: 'error', text: errorText(error, 'Export failed') });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="wcfdr-relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={!params}
+        aria-expanded={isOpen}
+        className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-3 wcfdr-py-1.5 wcfdr-text-sm wcfdr-font-medium wcfdr-rounded-md wcfdr-text-gray-700 wcfdr-bg-gray-100 hover:wcfdr-bg-gray-200 disabled:wcfdr-opacity-50 disabled:wcfdr-cursor-not-allowed"
+      >
+        <Download className="wcfdr-h-4 wcfdr-w-4 wcfdr-mr-2" />
+        {label}
+      </button>
+      {isOpen && (
+        <div className={`wcfdr-absolute ${align === 'right' ? 'wcfdr-right-0' : 'wcfdr-left-0'} wcfdr-z-10 wcfdr-mt-1 wcfdr-w-64 wcfdr-p-3 wcfdr-space-y-3 wcfdr-bg-white wcfdr-border wcfdr-border-gray-300 wcfdr-rounded-md wcfdr-shadow-lg`}>
+          <fieldset>
+            <legend className="wcfdr-text-xs wcfdr-font-medium wcfdr-text-gray-700 wcfdr-mb-1">Format</legend>
+            {EXPORT_FORMATS.map(option => (
+              <label key={option.value} className="wcfdr-flex wcfdr-items-center wcfdr-text-sm wcfdr-text-gray-700" title={option.description}>
+                <input
+                  type="radio"
+                  name={`wcfdr-export-format-${kind}`}
+                  checked={format === option.value}
+                  onChange={() => setFormat(option.value)}
+                  className="wcfdr-mr-2 wcfdr-border-gray-300 wcfdr-text-blue-600 focus:wcfdr-ring-blue-500"
+                />
+                {option.label}
+                <span className="wcfdr-ml-1 wcfdr-text-xs wcfdr-text-gray-500">{option.description}</span>
+              </label>
+            ))}
+          </fieldset>
+
+          <fieldset className="wcfdr-pt-2 wcfdr-border-t wcfdr-border-gray-200">
+            <legend className="wcfdr-text-xs wcfdr-font-medium wcfdr-text-gray-700 wcfdr-mb-1">Columns</legend>
+            {columns.map(column => (
+              <label key={column.value} className="wcfdr-flex wcfdr-items-center wcfdr-text-sm wcfdr-text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(column.value)}
+                  onChange={() => toggleColumn(column.value)}
+                  className="wcfdr-mr-2 wcfdr-rounded wcfdr-border-gray-300 wcfdr-text-blue-600 focus:wcfdr-ring-blue-500"
+                />
+                {column.label}
+              </label>
+            ))}
+          </fieldset>
+
+          <button
+            onClick={handleExport}
+            disabled={isExporting || selected.length === 0}
+            className="wcfdr-w-full wcfdr-inline-flex wcfdr-items-center wcfdr-justify-center wcfdr-px-3 wcfdr-py-2 wcfdr-text-sm wcfdr-font-medium wcfdr-rounded-md wcfdr-text-white wcfdr-bg-blue-600 hover:wcfdr-bg-blue-700 disabled:wcfdr-opacity-50 disabled:wcfdr-cursor-not-allowed"
+          >
+            {isExporting ? (
+              <Loader2 className="wcfdr-h-4 wcfdr-w-4 wcfdr-mr-2 wcfdr-animate-spin" />
+            ) : (
+              <Download className="wcfdr-h-4 wcfdr-w-4 wcfdr-mr-2" />
+            )}
+            {isExporting ? 'Exporting...' : kind === 'preview' ? 'Download preview' : 'Download all results'}
+          </button>
+
+          {message && (
+            <p className={`wcfdr-text-xs ${message.type === 'success' ? 'wcfdr-text-green-700' : 'wcfdr-text-red-700'}`}>
+              {message.text}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,268 @@
+import React from 'react';
+import { Plus, Trash2, FolderPlus } from 'lucide-react';
+import { MultiSelect } from './ui/MultiSelect';
+import {
+  MAX_FILTER_DEPTH,
+  OPERATOR_LABELS,
+  POST_STATUSES,
+  VALUE_FORMATS,
+  countConditions,
+  emptyGroup,
+  fieldInfo,
+  fieldLabel,
+  fieldsForSource,
+  isGroup,
+  newCondition
+} from '../utils/filters';
+import type { DataSource, FilterCondition, FilterField, FilterGroup, FilterNode, FilterOperator } from '../types';
+
+interface FilterBuilderProps {
+  value: FilterGroup;
+  onChange: (value: FilterGroup) => void;
+  source?: DataSource;
+}
+
+// Same limit as Query_Filter::MAX_CONDITIONS
+const MAX_CONDITIONS = 30;
+
+const inputClass = 'wcfdr-text-sm wcfdr-rounded-md wcfdr-border-gray-300 wcfdr-shadow-sm focus:wcfdr-border-blue-500 focus:wcfdr-ring-blue-500';
+const iconButton = 'wcfdr-p-1 wcfdr-rounded wcfdr-text-gray-500 hover:wcfdr-text-gray-800 hover:wcfdr-bg-gray-100';
+const addButton = 'wcfdr-inline-flex wcfdr-items-center wcfdr-px-2 wcfdr-py-1 wcfdr-text-xs wcfdr-font-medium wcfdr-rounded wcfdr-text-gray-700 wcfdr-bg-white wcfdr-border wcfdr-border-gray-300 hover:wcfdr-bg-gray-50 disabled:wcfdr-opacity-50 disabled:wcfdr-cursor-not-allowed';
+
+interface ConditionRowProps {
+  condition: FilterCondition;
+  source: DataSource;
+  onChange: (condition: FilterCondition) => void;
+  onRemove: () => void;
+}
+
+const ConditionRow: React.FC<ConditionRowProps> = ({ condition, source, onChange, onRemove }) => {
+  const info = fieldInfo(condition.field);
+  const update = (changes: Partial<FilterCondition>) => onChange({ ...condition, ...changes });
+  const rangeType = info.input === 'date' ? 'date' : 'number';
+
+  return (
+    <div className="wcfdr-flex wcfdr-flex-wrap wcfdr-items-center wcfdr-gap-2">
+      <label className="wcfdr-flex wcfdr-items-center wcfdr-text-xs wcfdr-text-gray-700" title="Match rows that do not meet this condition">
+        <input
+          type="checkbox"
+          checked={!!condition.negate}
+          onChange={(e) => update({ negate: e.target.checked })}
+          className="wcfdr-mr-1 wcfdr-rounded wcfdr-border-gray-300 wcfdr-text-blue-600 focus:wcfdr-ring-blue-500"
+        />
+        Not
+      </label>
+
+      <select
+        value={condition.field}
+        onChange={(e) => onChange(newCondition(e.target.value as FilterField))}
+        aria-label="Filter field"
+        className={inputClass}
+      >
+        {fieldsForSource(source).map(field => (
+          <option key={field.value} value={field.value}>{fieldLabel(field.value, source)}</option>
+        ))}
+      </select>
+
+      {info.operators.length > 1 && (
+        <select
+          value={condition.operator}
+          onChange={(e) => update({ operator: e.target.value as FilterOperator })}
+          aria-label="Filter operator"
+          className={inputClass}
+        >
+          {info.operators.map(operator => (
+            <option key={operator} value={operator}>{OPERATOR_LABELS[operator]}</option>
+          ))}
+        </select>
+      )}
+
+      {info.input === 'status' && (
+        <div className="wcfdr-flex-1 wcfdr-min-w-[12rem]">
+          <MultiSelect
+            options={POST_STATUSES.map(status => ({ value: status, label: status }))}
+            selected={condition.values ?? []}
+            onChange={(values) => update({ values })}
+            placeholder="Pick statuses..."
+          />
+        </div>
+      )}
+
+      {info.input === 'term' && (
+        <input
+          value={condition.taxonomy ?? ''}
+          onChange={(e) => update({ taxonomy: e.target.value })}
+          placeholder="category"
+          aria-label="Taxonomy"
+          className={`${inputClass} wcfdr-w-32 wcfdr-font-mono`}
+        />
+      )}
+
+      {(info.input === 'list' || info.input === 'term') && (
+        <input
+          value={condition.value ?? ''}
+          onChange={(e) => update({ value: e.target.value })}
+          placeholder={info.placeholder}
+          aria-label={fieldLabel(condition.field, source)}
+          className={`${inputClass} wcfdr-flex-1 wcfdr-min-w-[12rem]`}
+        />
+      )}
+
+      {(info.input === 'date' || info.input === 'number') && (
+        <>
+          <input
+            type={rangeType}
+            min={rangeType === 'number' ? 0 : undefined}
+            value={condition.value ?? ''}
+            onChange={(e) => update({ value: e.target.value })}
+            aria-label={`${fieldLabel(condition.field, source)} from`}
+            className={`${inputClass} wcfdr-w-40`}
+          />
+          {condition.operator === 'between' && (
+            <>
+              <span className="wcfdr-text-xs wcfdr-text-gray-500">and</span>
+              <input
+                type={rangeType}
+                min={rangeType === 'number' ? 0 : undefined}
+                value={condition.to ?? ''}
+                onChange={(e) => update({ to: e.target.value })}
+                aria-label={`${fieldLabel(condition.field, source)} to`}
+                className={`${inputClass} wcfdr-w-40`}
+              />
+            </>
+          )}
+          {condition.field === 'value_length' && <span className="wcfdr-text-xs wcfdr-text-gray-500">characters</span>}
+        </>
+      )}
+
+      {info.input === 'format' && (
+        <select
+          value={condition.value ?? 'json'}
+          onChange={(e) => update({ value: e.target.value })}
+          aria-label="Value format"
+          className={inputClass}
+        >
+          {VALUE_FORMATS.map(format => (
+            <option key={format.value} value={format.value}>{format.label}</option>
+          ))}
+        </select>
+      )}
+
+      <button type="button" onClick={onRemove} className={iconButton} title="Remove condition">
+        <Trash2 className="wcfdr-h-4 wcfdr-w-4" />
+      </button>
+    </div>
+  );
+};
+
+interface GroupEditorProps {
+  group: FilterGroup;
+  source: DataSource;
+  depth: number;
+  canAdd: boolean;
+  onChange: (group: FilterGroup) => void;
+  onRemove?: () => void;
+}
+
+const GroupEditor: React.FC<GroupEditorProps> = ({ group, source, depth, canAdd, onChange, onRemove }) => {
+  const updateNode = (index: number, node: FilterNode) => {
+    onChange({ ...group, conditions: group.conditions.map((other, i) => (i === index ? node : other)) });
+  };
+
+  const removeNode = (index: number) => {
+    onChange({ ...group, conditions: group.conditions.filter((_, i) => i !== index) });
+  };
+
+  const addNode = (node: FilterNode) => {
+    onChange({ ...group, conditions: [...group.conditions, node] });
+  };
+
+  const firstField = fieldsForSource(source)[0].value;
+
+  return (
+    <div className={`wcfdr-space-y-2 wcfdr-rounded-md wcfdr-p-3 wcfdr-border ${depth > 1 ? 'wcfdr-border-dashed wcfdr-border-gray-300 wcfdr-bg-gray-50' : 'wcfdr-border-gray-200'}`}>
+      <div className="wcfdr-flex wcfdr-items-center wcfdr-justify-between">
+        <div className="wcfdr-flex wcfdr-items-center wcfdr-space-x-2 wcfdr-text-xs wcfdr-text-gray-700">
+          <label className="wcfdr-flex wcfdr-items-center" title="Match rows that do not meet this group">
+            <input
+              type="checkbox"
+              checked={!!group.negate}
+              onChange={(e) => onChange({ ...group, negate: e.target.checked })}
+              className="wcfdr-mr-1 wcfdr-rounded wcfdr-border-gray-300 wcfdr-text-blue-600 focus:wcfdr-ring-blue-500"
+            />
+            Not
+          </label>
+          <span>Match</span>
+          <select
+            value={group.match}
+            onChange={(e) => onChange({ ...group, match: e.target.value as FilterGroup['match'] })}
+            aria-label="Group match"
+            className={inputClass}
+          >
+            <option value="all">all (AND)</option>
+            <option value="any">any (OR)</option>
+          </select>
+          <span>of these conditions</span>
+        </div>
+        {onRemove && (
+          <button type="button" onClick={onRemove} className={iconButton} title="Remove group">
+            <Trash2 className="wcfdr-h-4 wcfdr-w-4" />
+          </button>
+        )}
+      </div>
+
+      {group.conditions.map((node, index) =>
+        isGroup(node) ? (
+          <GroupEditor
+            key={index}
+            group={node}
+            source={source}
+            depth={depth + 1}
+            canAdd={canAdd}
+            onChange={(next) => updateNode(index, next)}
+            onRemove={() => removeNode(index)}
+          />
+        ) : (
+          <ConditionRow
+            key={index}
+            condition={node}
+            source={source}
+            onChange={(next) => updateNode(index, next)}
+            onRemove={() => removeNode(index)}
+          />
+        )
+      )}
+
+      <div className="wcfdr-flex wcfdr-space-x-2">
+        <button type="button" onClick={() => addNode(newCondition(firstField))} disabled={!canAdd} className={addButton}>
+          <Plus className="wcfdr-h-3 wcfdr-w-3 wcfdr-mr-1" />
+          Condition
+        </button>
+        {depth < MAX_FILTER_DEPTH && (
+          <button
+            type="button"
+            onClick={() => addNode({ ...emptyGroup(), match: group.match === 'all' ? 'any' : 'all', conditions: [newCondition(firstField)] })}
+            disabled={!canAdd}
+            className={addButton}
+          >
+            <FolderPlus className="wcfdr-h-3 wcfdr-w-3 wcfdr-mr-1" />
+            Group
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Nested AND/OR groups of conditions on a row's object and value, any of which can be negated
+ */
+export const FilterBuilder: React.FC<FilterBuilderProps> = ({ value, onChange, source = 'postmeta' }) => (
+  <GroupEditor
+    group={value}
+    source={source}
+    depth={1}
+    canAdd={countConditions(value) < MAX_CONDITIONS}
+    onChange={onChange}
+  />
+);
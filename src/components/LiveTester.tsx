@@ -1,24 +1,63 @@
-import React, { useState, useEffect } from 'react';
-import { TestTube, Play, RotateCcw, AlertTriangle, CheckCircle, Copy, Zap, Eye } from 'lucide-react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { TestTube, Play, RotateCcw, AlertTriangle, CheckCircle, Copy, Zap, Eye, Server, Info } from 'lucide-react';
+import { MODE_EXAMPLES } from '../utils/replaceModes';
+import { replacementNotes, translatePcrePattern } from '../utils/pcre';
+import { analyzeRegexRisk } from '../utils/regexRisk';
+import { runLiveTestWithTimeout, runLiveTestsWithTimeout } from '../utils/liveTestRunner';
+import { api } from '../services/api';
+import type { StructuredFormat } from '../utils/structuredReplace';
+import { MatchInspector } from './MatchInspector';
+import { DiffViewer } from './DiffViewer';
+import { RowSamplePicker } from './RowSamplePicker';
+import { RowTestResults } from './RowTestResults';
+import { RecipePicker } from './RecipePicker';
+import type { ModeExample } from '../utils/replaceModes';
+import type { DryRunResult, LiveTesterResult, RecipeFields, ReplaceMode, RowTestResult, SearchResult } from '../types';
 
-interface TestResult {
-  matches: number;
-  preview: string;
-  warnings: string[];
+interface LiveTesterProps {
+  // Milliseconds a test may run before it is stopped
+  regexTimeout?: number;
+}
+
+interface TestResult extends LiveTesterResult {
+  error?: string;
+}
+
+interface PatternInfo {
   error?: string;
-  executionTime: number;
+  notes: string[];
+  risks: string[];
+  byteMode: boolean;
 }
 
-export const LiveTester: React.FC = () => {
+type SampleSource = 'text' | 'rows';
+
+const NO_PATTERN_INFO: PatternInfo = { notes: [], risks: [], byteMode: false };
+
+const formatLabels: Record<StructuredFormat, string> = {
+  serialized: 'Serialized PHP',
+  json: 'JSON',
+  plain: 'Plain text'
+};
+
+export const LiveTester: React.FC<LiveTesterProps> = ({ regexTimeout = 5000 }) => {
   const [findText, setFindText] = useState('');
   const [replaceText, setReplaceText] = useState('');
-  const [mode, setMode] = useState('plain');
-  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [mode, setMode] = useState<ReplaceMode>('plain');
+  const [structured, setStructured] = useState(false);
   const [sampleText, setSampleText] = useState('');
   const [testResult, setTestResult] = useState<TestResult | null>(null);
   const [isTesting, setIsTesting] = useState(false);
+  const [example, setExample] = useState<ModeExample | null>(null);
+  const [serverResult, setServerResult] = useState<DryRunResult | null>(null);
+  const [serverError, setServerError] = useState<string | null>(null);
+  const [isServerRunning, setIsServerRunning] = useState(false);
+  const [sampleSource, setSampleSource] = useState<SampleSource>('text');
+  const [rows, setRows] = useState<SearchResult[]>([]);
+  const [rowResults, setRowResults] = useState<RowTestResult[] | null>(null);
+  const [rowError, setRowError] = useState<string | null>(null);
 
-  const modes = [
+  const modes: { value: ReplaceMode; label: string }[] = [
     { value: 'plain', label: 'Plain Text (Case-insensitive)' },
     { value: 'plain_cs', label: 'Plain Text (Case-sensitive)' },
     { value: 'regex', label: 'Regular Expression' },
@@ -28,101 +67,93 @@ export const LiveTester: React.FC = () => {
     { value: 'full_text', label: 'Full Text Overwrite' }
   ];
 
+  // Translated and checked while typing, so risky patterns are flagged even when they happen to finish in time
+  const patternInfo = useMemo((): PatternInfo => {
+    if (mode !== 'regex' || !findText) return NO_PATTERN_INFO;
+    try {
+      const { regex, notes, byteMode } = translatePcrePattern(findText);
+      return { notes, risks: analyzeRegexRisk(regex), byteMode };
+    } catch (error) {
+      return { ...NO_PATTERN_INFO, error: (error as Error).message };
+    }
+  }, [findText, mode]);
+  const regexRisks = patternInfo.risks;
+
+  const replaceNotes = mode === 'regex' ? replacementNotes(replaceText) : [];
+
+  // A server result only describes the inputs it was run with
+  useEffect(() => {
+    setServerResult(null);
+    setServerError(null);
+  }, [findText, replaceText, sampleText, mode, structured]);
+
+  const handleRowTest = async () => {
+    setIsTesting(true);
+    setRowError(null);
+    try {
+      const results = await runLiveTestsWithTimeout(
+        rows.map(row => ({ find: findText, replace: replaceText, sample: row.meta_value, mode, structured })),
+        regexTimeout,
+        regexRisks.length === 0
+      );
+      setRowResults(rows.map((row, index) => ({ row, result: results[index] })));
+    } catch (error) {
+      setRowResults(null);
+      setRowError(error instanceof Error ? error.message : 'Test failed');
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const handleLoadRows = (loaded: SearchResult[]) => {
+    setRows(loaded);
+    setRowResults(null);
+    setRowError(null);
+  };
+
   const handleTest = async () => {
+    if (sampleSource === 'rows') {
+      if (findText && rows.length > 0) await handleRowTest();
+      return;
+    }
     if (!findText || !sampleText) return;
 
     setIsTesting(true);
     try {
-      // Simulate testing - in real implementation, this would call the backend
-      await new Promise(resolve => setTimeout(resolve, 500));
-      
-      const result = performTest(findText, replaceText, sampleText, mode, caseSensitive);
-      setTestResult(result);
+      const result = await runLiveTestWithTimeout(
+        { find: findText, replace: replaceText, sample: sampleText, mode, structured },
+        regexTimeout,
+        regexRisks.length === 0
+      );
+      const byteWarnings = patternInfo.byteMode && /[^\x00-\x7f]/.test(sampleText)
+        ? ['The sample contains non-ASCII text and the pattern has no u modifier, so the server matches it byte by byte and may split characters. Add u after the closing delimiter.']
+        : [];
+      setTestResult({ ...result, warnings: [...regexRisks, ...byteWarnings, ...result.warnings] });
     } catch (error) {
       setTestResult({
-        matches: 0,
-        preview: sampleText,
-        warnings: [],
-        error: 'Test failed',
-        executionTime: 0
+        matches: [],
+        newText: sampleText,
+        matchCount: 0,
+        warnings: regexRisks,
+        error: error instanceof Error ? error.message : 'Test failed',
+        processingTime: 0
       });
     } finally {
       setIsTesting(false);
     }
   };
 
-  const performTest = (find: string, replace: string, sample: string, mode: string, caseSensitive: boolean): TestResult => {
-    const startTime = performance.now();
-    let matches = 0;
-    let preview = sample;
-    let warnings: string[] = [];
-
+  const handleServerRun = async () => {
+    setIsServerRunning(true);
+    setServerError(null);
     try {
-      switch (mode) {
-        case 'plain':
-        case 'plain_cs':
-          const flags = caseSensitive ? 'g' : 'gi';
-          const regex = new RegExp(escapeRegex(find), flags);
-          matches = (sample.match(regex) || []).length;
-          preview = sample.replace(regex, replace);
-          break;
-          
-        case 'regex':
-          try {
-            const regex = new RegExp(find, caseSensitive ? 'g' : 'gi');
-            matches = (sample.match(regex) || []).length;
-            preview = sample.replace(regex, replace);
-          } catch (error) {
-            throw new Error('Invalid regex pattern');
-          }
-          break;
-          
-        case 'url':
-          if (sample.startsWith('http')) {
-            if (find.includes('://')) {
-              // Domain replacement
-              const url = new URL(sample);
-              const newUrl = new URL(replace);
-              url.protocol = newUrl.protocol;
-              url.host = newUrl.host;
-              preview = url.toString();
-              matches = 1;
-            } else {
-              // Path replacement
-              const url = new URL(sample);
-              url.pathname = replace;
-              preview = url.toString();
-              matches = 1;
-            }
-          } else {
-            warnings.push('Sample text does not appear to be a URL');
-          }
-          break;
-          
-        case 'full_text':
-          preview = replace;
-          matches = 1;
-          break;
-          
-        default:
-          preview = sample;
-      }
+      setServerResult(await api.dryRun({ find: findText, replace: replaceText, mode, sample: sampleText, structured }));
     } catch (error) {
-      throw error;
+      setServerResult(null);
+      setServerError(error instanceof Error ? error.message : 'Server dry run failed');
+    } finally {
+      setIsServerRunning(false);
     }
-
-    const executionTime = performance.now() - startTime;
-
-    return {
-      matches,
-      preview,
-      warnings,
-      executionTime
-    };
-  };
-
-  const escapeRegex = (string: string) => {
-    return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
   };
 
   const handleClear = () => {
@@ -130,12 +161,38 @@ export const LiveTester: React.FC = () => {
     setReplaceText('');
     setSampleText('');
     setTestResult(null);
+    setExample(null);
+    setRowResults(null);
+    setRowError(null);
   };
 
-  const handleLoadSample = () => {
-    setSampleText('https://example.com/old-path/page?param=value#section');
+  const handleLoadExample = () => {
+    const modeExample = MODE_EXAMPLES[mode];
+    setFindText(modeExample.find);
+    setReplaceText(modeExample.replace);
+    setSampleText(modeExample.sample);
+    setExample(modeExample);
+    setTestResult(null);
   };
 
+  const handleApplyRecipe = (fields: RecipeFields) => {
+    setFindText(fields.find);
+    setReplaceText(fields.replace);
+    setMode(fields.mode);
+    setStructured(!!fields.structured);
+    setTestResult(null);
+    setRowResults(null);
+  };
+
+  const handleLoadSerializedSample = () => {
+    setSampleText('a:2:{s:4:"link";s:29:"https://example.com/old-path/";s:5:"label";s:9:"Read more";}');
+  };
+
+  // The example's expected output only applies while its inputs are untouched
+  const activeExample = example && example.find === findText && example.replace === replaceText && example.sample === sampleText
+    ? example
+    : null;
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
   };
@@ -157,6 +214,11 @@ export const LiveTester: React.FC = () => {
       <div className="wcfdr-grid wcfdr-grid-cols-1 wcfdr-gap-6 lg:wcfdr-grid-cols-2">
         {/* Input Section */}
         <div className="wcfdr-space-y-4">
+          <RecipePicker
+            current={{ find: findText, replace: replaceText, mode, structured, post_type: '', meta_key: '' }}
+            onApply={handleApplyRecipe}
+          />
+
           <div>
             <label className="wcfdr-block wcfdr-text-sm wcfdr-font-medium wcfdr-text-gray-700 wcfdr-mb-2">
               Find
@@ -167,6 +229,28 @@ export const LiveTester: React.FC = () => {
               placeholder="Text to find..."
               className="wcfdr-w-full wcfdr-font-mono wcfdr-rounded-md wcfdr-border-gray-300 wcfdr-shadow-sm focus:wcfdr-border-blue-500 focus:wcfdr-ring-blue-500"
             />
+            {patternInfo.error && (
+              <div className="wcfdr-mt-2 wcfdr-flex wcfdr-items-start wcfdr-text-xs wcfdr-text-red-700">
+                <AlertTriangle className="wcfdr-h-3 wcfdr-w-3 wcfdr-mr-1 wcfdr-mt-0.5 wcfdr-flex-shrink-0" />
+                <span>{patternInfo.error}</span>
+              </div>
+            )}
+            {patternInfo.notes.map((note, index) => (
+              <div key={index} className="wcfdr-mt-2 wcfdr-flex wcfdr-items-start wcfdr-text-xs wcfdr-text-blue-800">
+                <Info className="wcfdr-h-3 wcfdr-w-3 wcfdr-mr-1 wcfdr-mt-0.5 wcfdr-flex-shrink-0" />
+                <span>{note}</span>
+              </div>
+            ))}
+            {regexRisks.length > 0 && (
+              <div className="wcfdr-mt-2 wcfdr-flex wcfdr-items-start wcfdr-text-xs wcfdr-text-yellow-800">
+                <AlertTriangle className="wcfdr-h-3 wcfdr-w-3 wcfdr-mr-1 wcfdr-mt-0.5 wcfdr-flex-shrink-0" />
+                <span>
+                  {regexRisks[0]}
+                  {regexRisks.length > 1 && ` (and ${regexRisks.length - 1} more)`}
+                  {' '}The test will be stopped after {regexTimeout.toLocaleString()} ms.
+                </span>
+              </div>
+            )}
           </div>
 
           <div>
@@ -179,6 +263,12 @@ export const LiveTester: React.FC = () => {
               placeholder="Replacement text..."
               className="wcfdr-w-full wcfdr-font-mono wcfdr-rounded-md wcfdr-border-gray-300 wcfdr-shadow-sm focus:wcfdr-border-blue-500 focus:wcfdr-ring-blue-500"
             />
+            {replaceNotes.map((note, index) => (
+              <div key={index} className="wcfdr-mt-2 wcfdr-flex wcfdr-items-start wcfdr-text-xs wcfdr-text-blue-800">
+                <Info className="wcfdr-h-3 wcfdr-w-3 wcfdr-mr-1 wcfdr-mt-0.5 wcfdr-flex-shrink-0" />
+                <span>{note}</span>
+              </div>
+            ))}
           </div>
 
           <div>
@@ -187,7 +277,7 @@ export const LiveTester: React.FC = () => {
             </label>
             <select
               value={mode}
-              onChange={(e) => setMode(e.target.value)}
+              onChange={(e) => setMode(e.target.value as ReplaceMode)}
               className="wcfdr-w-full wcfdr-rounded-md wcfdr-border-gray-300 wcfdr-shadow-sm focus:wcfdr-border-blue-500 focus:wcfdr-ring-blue-500"
             >
               {modes.map((m) => (
@@ -200,46 +290,77 @@ export const LiveTester: React.FC = () => {
 
           <div className="wcfdr-flex wcfdr-items-center wcfdr-justify-between">
             <label className="wcfdr-text-sm wcfdr-font-medium wcfdr-text-gray-700">
-              Case Sensitive
+              Keep serialized and JSON values valid
             </label>
             <input
               type="checkbox"
-              checked={caseSensitive}
-              onChange={(e) => setCaseSensitive(e.target.checked)}
-              disabled={mode === 'plain'}
+              checked={structured}
+              onChange={(e) => setStructured(e.target.checked)}
+              disabled={mode === 'full_text'}
               className="wcfdr-rounded wcfdr-border-gray-300 wcfdr-text-blue-600 focus:wcfdr-ring-blue-500"
             />
           </div>
 
           <div>
-            <label className="wcfdr-block wcfdr-text-sm wcfdr-font-medium wcfdr-text-gray-700 wcfdr-mb-2">
-              Sample Text
-            </label>
-            <textarea
-              value={sampleText}
-              onChange={(e) => setSampleText(e.target.value)}
-              placeholder="Enter sample text to test..."
-              rows={6}
-              className="wcfdr-w-full wcfdr-font-mono wcfdr-rounded-md wcfdr-border-gray-300 wcfdr-shadow-sm focus:wcfdr-border-blue-500 focus:wcfdr-ring-blue-500"
-            />
-            <div className="wcfdr-mt-2 wcfdr-flex wcfdr-space-x-2">
-              <button
-                onClick={handleLoadSample}
-                className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-3 wcfdr-py-1.5 wcfdr-border wcfdr-border-gray-300 wcfdr-shadow-sm wcfdr-text-xs wcfdr-font-medium wcfdr-rounded wcfdr-text-gray-700 wcfdr-bg-white hover:wcfdr-bg-gray-50"
-              >
-                Load Sample URL
-              </button>
+            <div className="wcfdr-flex wcfdr-items-center wcfdr-justify-between wcfdr-mb-2">
+              <label className="wcfdr-block wcfdr-text-sm wcfdr-font-medium wcfdr-text-gray-700">
+                {sampleSource === 'text' ? 'Sample Text' : 'Sample Rows'}
+              </label>
+              <div className="wcfdr-inline-flex wcfdr-rounded-md wcfdr-shadow-sm">
+                {(['text', 'rows'] as SampleSource[]).map((value, index) => (
+                  <button
+                    key={value}
+                    onClick={() => setSampleSource(value)}
+                    className={`wcfdr-px-3 wcfdr-py-1 wcfdr-text-xs wcfdr-font-medium wcfdr-border wcfdr-border-gray-300 ${
+                      index === 0 ? 'wcfdr-rounded-l-md' : 'wcfdr-rounded-r-md wcfdr--ml-px'
+                    } ${
+                      sampleSource === value
+                        ? 'wcfdr-bg-blue-50 wcfdr-text-blue-700'
+                        : 'wcfdr-bg-white wcfdr-text-gray-700 hover:wcfdr-bg-gray-50'
+                    }`}
+                  >
+                    {value === 'text' ? 'Pasted Text' : 'Real Rows'}
+                  </button>
+                ))}
+              </div>
             </div>
+            {sampleSource === 'rows' ? (
+              <RowSamplePicker onLoad={handleLoadRows} loadedCount={rows.length} />
+            ) : (
+              <>
+                <textarea
+                  value={sampleText}
+                  onChange={(e) => setSampleText(e.target.value)}
+                  placeholder="Enter sample text to test..."
+                  rows={6}
+                  className="wcfdr-w-full wcfdr-font-mono wcfdr-rounded-md wcfdr-border-gray-300 wcfdr-shadow-sm focus:wcfdr-border-blue-500 focus:wcfdr-ring-blue-500"
+                />
+                <div className="wcfdr-mt-2 wcfdr-flex wcfdr-space-x-2">
+                  <button
+                    onClick={handleLoadExample}
+                    className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-3 wcfdr-py-1.5 wcfdr-border wcfdr-border-gray-300 wcfdr-shadow-sm wcfdr-text-xs wcfdr-font-medium wcfdr-rounded wcfdr-text-gray-700 wcfdr-bg-white hover:wcfdr-bg-gray-50"
+                  >
+                    Load Example for This Mode
+                  </button>
+                  <button
+                    onClick={handleLoadSerializedSample}
+                    className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-3 wcfdr-py-1.5 wcfdr-border wcfdr-border-gray-300 wcfdr-shadow-sm wcfdr-text-xs wcfdr-font-medium wcfdr-rounded wcfdr-text-gray-700 wcfdr-bg-white hover:wcfdr-bg-gray-50"
+                  >
+                    Load Serialized Sample
+                  </button>
+                </div>
+              </>
+            )}
           </div>
 
           <div className="wcfdr-flex wcfdr-space-x-3">
             <button
               onClick={handleTest}
-              disabled={!findText || !sampleText || isTesting}
+              disabled={!findText || (sampleSource === 'text' ? !sampleText : rows.length === 0) || isTesting}
               className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-4 wcfdr-py-2 wcfdr-border wcfdr-border-transparent wcfdr-text-sm wcfdr-font-medium wcfdr-rounded-md wcfdr-text-white wcfdr-bg-blue-600 hover:wcfdr-bg-blue-700 disabled:wcfdr-opacity-50 disabled:wcfdr-cursor-not-allowed"
             >
               <Play className="wcfdr-h-4 wcfdr-w-4 wcfdr-mr-2" />
-              {isTesting ? 'Testing...' : 'Test'}
+              {isTesting ? 'Testing...' : sampleSource === 'rows' ? `Test ${rows.length} Row${rows.length !== 1 ? 's' : ''}` : 'Test'}
             </button>
             
             <button
@@ -259,28 +380,70 @@ export const LiveTester: React.FC = () => {
               Test Results
             </h3>
             
-            {testResult ? (
+            {sampleSource === 'rows' ? (
+              rowError ? (
+                <div className="wcfdr-bg-red-50 wcfdr-border wcfdr-border-red-200 wcfdr-rounded-md wcfdr-p-3">
+                  <div className="wcfdr-flex">
+                    <AlertTriangle className="wcfdr-h-4 wcfdr-w-4 wcfdr-text-red-400 wcfdr-mr-2" />
+                    <div className="wcfdr-text-sm wcfdr-text-red-800">
+                      <strong>Error:</strong> {rowError}
+                    </div>
+                  </div>
+                </div>
+              ) : rowResults ? (
+                <RowTestResults results={rowResults} />
+              ) : (
+                <div className="wcfdr-text-center wcfdr-text-gray-500 wcfdr-py-8">
+                  <Zap className="wcfdr-h-12 wcfdr-w-12 wcfdr-mx-auto wcfdr-mb-4 wcfdr-text-gray-300" />
+                  <p>{rows.length > 0 ? 'Run a test to see how each row would change' : 'Load rows to test against'}</p>
+                </div>
+              )
+            ) : testResult ? (
               <div className="wcfdr-space-y-4">
                 {/* Match Count */}
                 <div className="wcfdr-flex wcfdr-items-center wcfdr-justify-between">
                   <span className="wcfdr-text-sm wcfdr-text-gray-600">Matches Found:</span>
                   <span className={`wcfdr-inline-flex wcfdr-items-center wcfdr-px-2.5 wcfdr-py-0.5 wcfdr-rounded-full wcfdr-text-xs wcfdr-font-medium ${
-                    testResult.matches > 0 
+                    testResult.matchCount > 0 
                       ? 'wcfdr-bg-green-100 wcfdr-text-green-800' 
                       : 'wcfdr-bg-gray-100 wcfdr-text-gray-800'
                   }`}>
-                    {testResult.matches} match{testResult.matches !== 1 ? 'es' : ''}
+                    {testResult.matchCount} match{testResult.matchCount !== 1 ? 'es' : ''}
                   </span>
                 </div>
 
+                {/* Detected Format */}
+                {testResult.format && (
+                  <div className="wcfdr-flex wcfdr-items-center wcfdr-justify-between">
+                    <span className="wcfdr-text-sm wcfdr-text-gray-600">Detected Format:</span>
+                    <span className="wcfdr-text-sm wcfdr-text-gray-900">
+                      {formatLabels[testResult.format]}
+                    </span>
+                  </div>
+                )}
+
                 {/* Execution Time */}
                 <div className="wcfdr-flex wcfdr-items-center wcfdr-justify-between">
                   <span className="wcfdr-text-sm wcfdr-text-gray-600">Execution Time:</span>
                   <span className="wcfdr-text-sm wcfdr-text-gray-900">
-                    {testResult.executionTime.toFixed(2)}ms
+                    {testResult.processingTime.toFixed(2)}ms
                   </span>
                 </div>
 
+                {/* Example Output Check */}
+                {activeExample && (
+                  <div className="wcfdr-flex wcfdr-items-center wcfdr-justify-between">
+                    <span className="wcfdr-text-sm wcfdr-text-gray-600">Matches Server Output:</span>
+                    <span className={`wcfdr-inline-flex wcfdr-items-center wcfdr-px-2.5 wcfdr-py-0.5 wcfdr-rounded-full wcfdr-text-xs wcfdr-font-medium ${
+                      testResult.newText === activeExample.expected
+                        ? 'wcfdr-bg-green-100 wcfdr-text-green-800'
+                        : 'wcfdr-bg-red-100 wcfdr-text-red-800'
+                    }`}>
+                      {testResult.newText === activeExample.expected ? 'Yes' : 'No'}
+                    </span>
+                  </div>
+                )}
+
                 {/* Warnings */}
                 {testResult.warnings.length > 0 && (
                   <div className="wcfdr-bg-yellow-50 wcfdr-border wcfdr-border-yellow-200 wcfdr-rounded-md wcfdr-p-3">
@@ -310,6 +473,20 @@ export const LiveTester: React.FC = () => {
                   </div>
                 )}
 
+                {/* Match Inspector */}
+                {testResult.matches.length > 0 && (
+                  <div>
+                    <label className="wcfdr-block wcfdr-text-sm wcfdr-font-medium wcfdr-text-gray-700 wcfdr-mb-2">
+                      Matches
+                    </label>
+                    <MatchInspector
+                      matches={testResult.matches}
+                      source={testResult.source}
+                      output={testResult.newText}
+                    />
+                  </div>
+                )}
+
                 {/* Preview */}
                 <div>
                   <label className="wcfdr-block wcfdr-text-sm wcfdr-font-medium wcfdr-text-gray-700 wcfdr-mb-2">
@@ -317,16 +494,77 @@ export const LiveTester: React.FC = () => {
                   </label>
                   <div className="wcfdr-bg-white wcfdr-border wcfdr-border-gray-200 wcfdr-rounded-md wcfdr-p-3 wcfdr-relative">
                     <div className="wcfdr-text-sm wcfdr-text-gray-900 wcfdr-font-mono wcfdr-break-all">
-                      {testResult.preview}
+                      {testResult.newText}
                     </div>
                     <button
-                      onClick={() => copyToClipboard(testResult.preview)}
+                      onClick={() => copyToClipboard(testResult.newText)}
                       className="wcfdr-absolute wcfdr-top-2 wcfdr-right-2 wcfdr-text-gray-400 hover:wcfdr-text-gray-600"
                     >
                       <Copy className="wcfdr-h-4 wcfdr-w-4" />
                     </button>
                   </div>
                 </div>
+
+                {/* Server Dry Run */}
+                <div className="wcfdr-border-t wcfdr-border-gray-200 wcfdr-pt-4 wcfdr-space-y-3">
+                  <div className="wcfdr-flex wcfdr-items-center wcfdr-justify-between">
+                    <span className="wcfdr-text-sm wcfdr-text-gray-600">
+                      Confirm the result with the server's own engine. Nothing is saved.
+                    </span>
+                    <button
+                      onClick={handleServerRun}
+                      disabled={isServerRunning}
+                      className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-3 wcfdr-py-1.5 wcfdr-border wcfdr-border-gray-300 wcfdr-shadow-sm wcfdr-text-xs wcfdr-font-medium wcfdr-rounded wcfdr-text-gray-700 wcfdr-bg-white hover:wcfdr-bg-gray-50 disabled:wcfdr-opacity-50"
+                    >
+                      <Server className="wcfdr-h-3 wcfdr-w-3 wcfdr-mr-1" />
+                      {isServerRunning ? 'Running...' : 'Run on Server'}
+                    </button>
+                  </div>
+
+                  {serverError && (
+                    <div className="wcfdr-bg-red-50 wcfdr-border wcfdr-border-red-200 wcfdr-rounded-md wcfdr-p-3 wcfdr-text-sm wcfdr-text-red-800">
+                      <strong>Server:</strong> {serverError}
+                    </div>
+                  )}
+
+                  {serverResult && (
+                    <div className="wcfdr-space-y-2">
+                      {serverResult.find !== findText.trim() && (
+                        <div className="wcfdr-text-xs wcfdr-text-yellow-800">
+                          The server received Find as <code className="wcfdr-bg-yellow-100 wcfdr-px-1 wcfdr-rounded">{serverResult.find}</code>: its input sanitizing removes backslashes and anything that looks like an HTML tag.
+                        </div>
+                      )}
+                      {serverResult.replace !== replaceText.trim() && (
+                        <div className="wcfdr-text-xs wcfdr-text-yellow-800">
+                          The server received Replace With as <code className="wcfdr-bg-yellow-100 wcfdr-px-1 wcfdr-rounded">{serverResult.replace}</code>.
+                        </div>
+                      )}
+                      {!testResult.error && serverResult.value === testResult.newText ? (
+                        <div className="wcfdr-flex wcfdr-items-center wcfdr-text-sm wcfdr-text-green-800">
+                          <CheckCircle className="wcfdr-h-4 wcfdr-w-4 wcfdr-mr-2" />
+                          The server produced the same output.
+                        </div>
+                      ) : (
+                        <>
+                          <div className="wcfdr-flex wcfdr-items-center wcfdr-text-sm wcfdr-text-red-800">
+                            <AlertTriangle className="wcfdr-h-4 wcfdr-w-4 wcfdr-mr-2" />
+                            {testResult.error ? 'The server ran the pattern the tester rejected:' : 'The server output differs from the tester:'}
+                          </div>
+                          <DiffViewer
+                            before={testResult.error ? sampleText : testResult.newText}
+                            after={serverResult.value}
+                            beforeLabel={testResult.error ? 'Sample' : 'Tester'}
+                            afterLabel="Server"
+                            compact
+                          />
+                        </>
+                      )}
+                      {serverResult.warnings.map((warning, index) => (
+                        <div key={index} className="wcfdr-text-xs wcfdr-text-yellow-800">{warning}</div>
+                      ))}
+                    </div>
+                  )}
+                </div>
               </div>
             ) : (
               <div className="wcfdr-text-center wcfdr-text-gray-500 wcfdr-py-8">
@@ -0,0 +1,431 @@
+import React, { useState } from 'react';
+import { FileUp, Eye, Play, ArrowRight, ArrowLeft, AlertTriangle, CheckCircle, RotateCcw } from 'lucide-react';
+import { useDataReplacerStore } from '../store/dataReplacerStore';
+import { api } from '../services/api';
+import { availableSources, sourceInfo } from '../utils/dataSources';
+import { MAPPING_FIELDS, buildImportRows, guessMapping, mappingProblem, parseMappingFile } from '../utils/mappingImport';
+import { DiffViewer } from './DiffViewer';
+import type { ColumnMapping, MappingFile } from '../utils/mappingImport';
+import type { DataSource, ImportPreview, ImportResult, MappingField } from '../types';
+
+type ImportStep = 'file' | 'columns' | 'preview';
+
+const STEP_LABELS: Record<ImportStep, string> = {
+  file: '1. File',
+  columns: '2. Columns',
+  preview: '3. Preview & Run'
+};
+
+// Records shown under the column mapping, diffs and problems shown in the preview
+const SAMPLE_RECORDS = 5;
+const PREVIEW_SAMPLE_ROWS = 10;
+
+/**
+ * Spreadsheet-driven replacement: each row of a CSV or JSON file names the values it changes,
+ * every row is checked against the stored data, and the whole file runs as one backed-up batch.
+ */
+export const MappingImport: React.FC = () => {
+  const { restoreBatch } = useDataReplacerStore();
+
+  const [step, setStep] = useState<ImportStep>('file');
+  const [source, setSource] = useState<DataSource>('postmeta');
+  const [fileName, setFileName] = useState('');
+  const [file, setFile] = useState<MappingFile | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({ post_id: '', meta_key: '', old_value: '', new_value: '' });
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const problem = file ? mappingProblem(file, mapping) : null;
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    // Cleared so picking the same file again after fixing it still loads it
+    event.target.value = '';
+    if (!selected) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        const parsed = parseMappingFile(selected.name, String(reader.result ?? ''));
+        if (parsed.records.length === 0) {
+          throw new Error('The file has no rows');
+        }
+        setFileName(selected.name);
+        setFile(parsed);
+        setMapping(guessMapping(parsed.headers));
+        setPreview(null);
+        setResult(null);
+        setError(null);
+        setStep('columns');
+      } catch (parseError) {
+        console.error('❌ Mapping file could not be read:', parseError);
+        setError(`Could not read ${selected.name}: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`);
+      }
+    };
+    reader.onerror = () => setError(`Could not read ${selected.name}.`);
+    reader.readAsText(selected);
+  };
+
+  const setColumn = (field: MappingField, column: string) => {
+    setMapping({ ...mapping, [field]: column });
+    setPreview(null);
+  };
+
+  const importParams = () => ({
+    source,
+    rows: JSON.stringify(buildImportRows(file as MappingFile, mapping))
+  });
+
+  const handlePreview = async () => {
+    if (!file || problem) return;
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      setPreview(await api.previewImport(importParams()));
+      setResult(null);
+      setStep('preview');
+    } catch (previewError) {
+      console.error('❌ Import preview failed:', previewError);
+      setError(`Preview failed: ${previewError instanceof Error ? previewError.message : 'Unknown error'}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRun = async () => {
+    if (!preview) return;
+
+    const skipped = preview.error_rows > 0 ? ` The ${preview.error_rows} row(s) with problems are skipped.` : '';
+    const confirmMessage = `Write ${preview.total_changes.toLocaleString()} value(s) from ${preview.ready_rows} row(s) of ${fileName}?${skipped} Every value is backed up in a single batch that can be restored at once.`;
+    if (!confirm(confirmMessage)) {
+      return;
+    }
+
+    // Only values the preview showed are written, and only while they still read as they did then
+    const expected = Object.fromEntries(preview.rows
+      .filter(row => row.status === 'ready')
+      .flatMap(row => row.changes.map(change => [change.meta_id, change.checksum])));
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      setResult(await api.executeImport({ ...importParams(), expected: JSON.stringify(expected) }));
+    } catch (runError) {
+      console.error('❌ Import failed:', runError);
+      setError(`Import failed: ${runError instanceof Error ? runError.message : 'Unknown error'}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleUndo = async () => {
+    if (!result) return;
+    if (!confirm(`Restore the ${result.updated} value(s) this import wrote to what they were before?`)) {
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      const restored = await restoreBatch(result.batch_id);
+      setNotice(restored.message || `Restored ${restored.restored} value(s)`);
+      setResult(null);
+      setPreview(null);
+      setStep('columns');
+    } catch (undoError) {
+      console.error('❌ Import undo failed:', undoError);
+      setError(`Undo failed: ${undoError instanceof Error ? undoError.message : 'Unknown error'}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleStartOver = () => {
+    setStep('file');
+    setFile(null);
+    setFileName('');
+    setPreview(null);
+    setResult(null);
+    setError(null);
+    setNotice(null);
+  };
+
+  const errorRows = preview ? preview.rows.filter(row => row.status === 'error') : [];
+  const changes = preview
+    ? preview.rows.filter(row => row.status === 'ready').flatMap(row => row.changes.map(change => ({ line: row.line, change })))
+    : [];
+  const failedItems = result ? result.items.filter(item => item.status !== 'updated') : [];
+
+  return (
+    <div className="wcfdr-space-y-6">
+      <div className="wcfdr-bg-white wcfdr-rounded-lg wcfdr-shadow wcfdr-p-6">
+        <div className="wcfdr-flex wcfdr-items-center wcfdr-justify-between wcfdr-mb-6">
+          <h2 className="wcfdr-text-lg wcfdr-font-medium wcfdr-text-gray-900 wcfdr-flex wcfdr-items-center">
+            <FileUp className="wcfdr-h-5 wcfdr-w-5 wcfdr-mr-2 wcfdr-text-blue-600" />
+            Mapping Import
+          </h2>
+          <div className="wcfdr-flex wcfdr-items-center wcfdr-space-x-4 wcfdr-text-sm">
+            {(Object.keys(STEP_LABELS) as ImportStep[]).map(key => (
+              <span key={key} className={key === step ? 'wcfdr-font-medium wcfdr-text-blue-700' : 'wcfdr-text-gray-400'}>
+                {STEP_LABELS[key]}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        {error && (
+          <div className="wcfdr-mb-4 wcfdr-p-3 wcfdr-rounded-lg wcfdr-border wcfdr-text-sm wcfdr-bg-red-50 wcfdr-border-red-200 wcfdr-text-red-800" aria-live="polite">
+            {error}
+          </div>
+        )}
+
+        {notice && (
+          <div className="wcfdr-mb-4 wcfdr-p-3 wcfdr-rounded-lg wcfdr-border wcfdr-text-sm wcfdr-bg-green-50 wcfdr-border-green-200 wcfdr-text-green-800" aria-live="polite">
+            {notice}
+          </div>
+        )}
+
+        {step === 'file' && (
+          <div className="wcfdr-space-y-4 wcfdr-max-w-2xl">
+            <p className="wcfdr-text-sm wcfdr-text-gray-600">
+              Upload a CSV file with a header line, or a JSON array of objects, with one row per change.
+              A row with an object ID replaces its old value inside that object's values, or overwrites the
+              key's whole value when it has no old value. A row without an object ID replaces every value
+              equal to its old value.
+            </p>
+            <div>
+              <label className="wcfdr-block wcfdr-text-sm wcfdr-font-medium wcfdr-text-gray-700 wcfdr-mb-2">
+                Data Source
+              </label>
+              <select
+                value={source}
+                onChange={(e) => setSource(e.target.value as DataSource)}
+                className="wcfdr-w-full wcfdr-rounded-md wcfdr-border-gray-300 wcfdr-shadow-sm focus:wcfdr-border-blue-500 focus:wcfdr-ring-blue-500"
+              >
+                {availableSources().map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="wcfdr-block wcfdr-text-sm wcfdr-font-medium wcfdr-text-gray-700 wcfdr-mb-2">
+                Mapping File
+              </label>
+              <input
+                type="file"
+                accept=".csv,.tsv,.txt,.json,text/csv,application/json"
+                onChange={handleFile}
+                className="wcfdr-block wcfdr-w-full wcfdr-text-sm wcfdr-text-gray-700"
+              />
+              <p className="wcfdr-mt-1 wcfdr-text-xs wcfdr-text-gray-500">
+                Columns such as post_id, meta_key, old_value and new_value (or find and replace) are matched on their own.
+              </p>
+            </div>
+          </div>
+        )}
+
+        {step === 'columns' && file && (
+          <div className="wcfdr-space-y-4">
+            <p className="wcfdr-text-sm wcfdr-text-gray-600">
+              {file.records.length.toLocaleString()} row(s) in <span className="wcfdr-font-mono">{fileName}</span>, applied
+              to {sourceInfo(source).label.toLowerCase()}. Choose the column each field is read from.
+            </p>
+            <div className="wcfdr-grid wcfdr-grid-cols-1 wcfdr-gap-4 md:wcfdr-grid-cols-2">
+              {MAPPING_FIELDS.map(field => (
+                <div key={field.value}>
+                  <label className="wcfdr-block wcfdr-text-sm wcfdr-font-medium wcfdr-text-gray-700 wcfdr-mb-2">
+                    {field.label}
+                  </label>
+                  <select
+                    value={mapping[field.value]}
+                    onChange={(e) => setColumn(field.value, e.target.value)}
+                    className="wcfdr-w-full wcfdr-rounded-md wcfdr-border-gray-300 wcfdr-shadow-sm focus:wcfdr-border-blue-500 focus:wcfdr-ring-blue-500"
+                  >
+                    <option value="">Not mapped</option>
+                    {file.headers.map(header => (
+                      <option key={header} value={header}>{header}</option>
+                    ))}
+                  </select>
+                  <p className="wcfdr-mt-1 wcfdr-text-xs wcfdr-text-gray-500">{field.description}</p>
+                </div>
+              ))}
+            </div>
+
+            <div className="wcfdr-overflow-x-auto wcfdr-border wcfdr-border-gray-200 wcfdr-rounded-md">
+              <table className="wcfdr-min-w-full wcfdr-divide-y wcfdr-divide-gray-200 wcfdr-text-sm">
+                <thead className="wcfdr-bg-gray-50">
+                  <tr>
+                    <th className="wcfdr-px-3 wcfdr-py-2 wcfdr-text-left wcfdr-font-medium wcfdr-text-gray-500">Line</th>
+                    {MAPPING_FIELDS.map(field => (
+                      <th key={field.value} className="wcfdr-px-3 wcfdr-py-2 wcfdr-text-left wcfdr-font-medium wcfdr-text-gray-500">{field.label}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="wcfdr-bg-white wcfdr-divide-y wcfdr-divide-gray-100">
+                  {file.records.slice(0, SAMPLE_RECORDS).map((record, index) => (
+                    <tr key={file.lines[index]}>
+                      <td className="wcfdr-px-3 wcfdr-py-2 wcfdr-text-gray-500">{file.lines[index]}</td>
+                      {MAPPING_FIELDS.map(field => (
+                        <td key={field.value} className="wcfdr-px-3 wcfdr-py-2 wcfdr-font-mono wcfdr-text-xs wcfdr-break-all">
+                          {mapping[field.value] ? record[mapping[field.value]] : <span className="wcfdr-text-gray-400">—</span>}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {problem && (
+              <div className="wcfdr-flex wcfdr-items-center wcfdr-text-sm wcfdr-text-yellow-800">
+                <AlertTriangle className="wcfdr-h-4 wcfdr-w-4 wcfdr-mr-2 wcfdr-text-yellow-400" />
+                {problem}
+              </div>
+            )}
+
+            <div className="wcfdr-flex wcfdr-items-center wcfdr-justify-between">
+              <button
+                onClick={handleStartOver}
+                className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-4 wcfdr-py-2 wcfdr-border wcfdr-border-gray-300 wcfdr-shadow-sm wcfdr-text-sm wcfdr-font-medium wcfdr-rounded-md wcfdr-text-gray-700 wcfdr-bg-white hover:wcfdr-bg-gray-50"
+              >
+                <ArrowLeft className="wcfdr-h-4 wcfdr-w-4 wcfdr-mr-2" />
+                Choose Another File
+              </button>
+              <button
+                onClick={handlePreview}
+                disabled={!!problem || isBusy}
+                className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-4 wcfdr-py-2 wcfdr-border wcfdr-border-transparent wcfdr-text-sm wcfdr-font-medium wcfdr-rounded-md wcfdr-text-white wcfdr-bg-blue-600 hover:wcfdr-bg-blue-700 disabled:wcfdr-opacity-50 disabled:wcfdr-cursor-not-allowed"
+              >
+                <Eye className="wcfdr-h-4 wcfdr-w-4 wcfdr-mr-2" />
+                {isBusy ? 'Checking…' : 'Preview Changes'}
+                <ArrowRight className="wcfdr-h-4 wcfdr-w-4 wcfdr-ml-2" />
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && preview && (
+          <div className="wcfdr-space-y-4">
+            <div className="wcfdr-grid wcfdr-grid-cols-2 wcfdr-gap-4 md:wcfdr-grid-cols-4">
+              <div className="wcfdr-bg-gray-50 wcfdr-border wcfdr-border-gray-200 wcfdr-rounded-lg wcfdr-p-3">
+                <div className="wcfdr-text-xs wcfdr-text-gray-500">Rows</div>
+                <div className="wcfdr-text-lg wcfdr-font-medium wcfdr-text-gray-900">{preview.total_rows.toLocaleString()}</div>
+              </div>
+              <div className="wcfdr-bg-gray-50 wcfdr-border wcfdr-border-gray-200 wcfdr-rounded-lg wcfdr-p-3">
+                <div className="wcfdr-text-xs wcfdr-text-gray-500">Ready</div>
+                <div className="wcfdr-text-lg wcfdr-font-medium wcfdr-text-gray-900">{preview.ready_rows.toLocaleString()}</div>
+              </div>
+              <div className="wcfdr-bg-gray-50 wcfdr-border wcfdr-border-gray-200 wcfdr-rounded-lg wcfdr-p-3">
+                <div className="wcfdr-text-xs wcfdr-text-gray-500">With problems</div>
+                <div className={`wcfdr-text-lg wcfdr-font-medium ${preview.error_rows > 0 ? 'wcfdr-text-red-700' : 'wcfdr-text-gray-900'}`}>
+                  {preview.error_rows.toLocaleString()}
+                </div>
+              </div>
+              <div className="wcfdr-bg-gray-50 wcfdr-border wcfdr-border-gray-200 wcfdr-rounded-lg wcfdr-p-3">
+                <div className="wcfdr-text-xs wcfdr-text-gray-500">Values that change</div>
+                <div className="wcfdr-text-lg wcfdr-font-medium wcfdr-text-gray-900">{preview.total_changes.toLocaleString()}</div>
+              </div>
+            </div>
+
+            {errorRows.length > 0 && (
+              <div className="wcfdr-bg-red-50 wcfdr-border wcfdr-border-red-200 wcfdr-rounded-md wcfdr-p-3">
+                <div className="wcfdr-flex">
+                  <AlertTriangle className="wcfdr-h-4 wcfdr-w-4 wcfdr-text-red-400 wcfdr-mr-2" />
+                  <ul className="wcfdr-text-sm wcfdr-text-red-800 wcfdr-list-disc wcfdr-list-inside">
+                    {errorRows.slice(0, PREVIEW_SAMPLE_ROWS).map(row => (
+                      <li key={row.line}>Line {row.line}: {row.message}</li>
+                    ))}
+                    {errorRows.length > PREVIEW_SAMPLE_ROWS && (
+                      <li>…and {errorRows.length - PREVIEW_SAMPLE_ROWS} more</li>
+                    )}
+                  </ul>
+                </div>
+              </div>
+            )}
+
+            {changes.length > 0 ? (
+              <div className="wcfdr-space-y-3">
+                {changes.slice(0, PREVIEW_SAMPLE_ROWS).map(({ line, change }) => (
+                  <div key={change.meta_id}>
+                    <div className="wcfdr-text-xs wcfdr-text-gray-600 wcfdr-mb-1 wcfdr-truncate">
+                      <span className="wcfdr-text-gray-500">Line {line} · </span>
+                      <span className="wcfdr-font-medium wcfdr-text-gray-900">{change.post_title || `#${change.post_id}`}</span>
+                      {' · '}<span className="wcfdr-font-mono">{change.meta_key}</span>
+                    </div>
+                    {change.warnings.length > 0 && (
+                      <div className="wcfdr-text-xs wcfdr-text-yellow-800 wcfdr-mb-1">{change.warnings.join(' ')}</div>
+                    )}
+                    <DiffViewer before={change.meta_before} after={change.meta_after} compact />
+                  </div>
+                ))}
+                {changes.length > PREVIEW_SAMPLE_ROWS && (
+                  <div className="wcfdr-text-xs wcfdr-text-gray-600">
+                    …and {changes.length - PREVIEW_SAMPLE_ROWS} more changes
+                  </div>
+                )}
+              </div>
+            ) : (
+              <div className="wcfdr-flex wcfdr-items-center wcfdr-text-sm wcfdr-text-gray-600">
+                <CheckCircle className="wcfdr-h-4 wcfdr-w-4 wcfdr-mr-2 wcfdr-text-green-500" />
+                No stored value would change
+              </div>
+            )}
+
+            {result && (
+              <div className={`wcfdr-p-3 wcfdr-rounded-lg wcfdr-border wcfdr-text-sm ${result.ok ? 'wcfdr-bg-green-50 wcfdr-border-green-200 wcfdr-text-green-800' : 'wcfdr-bg-yellow-50 wcfdr-border-yellow-200 wcfdr-text-yellow-800'}`} aria-live="polite">
+                <div className="wcfdr-flex wcfdr-items-center wcfdr-justify-between">
+                  <span>
+                    Updated {result.updated.toLocaleString()}, failed {result.failed.toLocaleString()}, skipped {result.skipped.toLocaleString()}.
+                    {' '}Backup batch <span className="wcfdr-font-mono">{result.batch_id}</span>
+                  </span>
+                  {result.updated > 0 && (
+                    <button
+                      onClick={handleUndo}
+                      disabled={isBusy}
+                      className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-3 wcfdr-py-1 wcfdr-border wcfdr-border-gray-300 wcfdr-text-xs wcfdr-font-medium wcfdr-rounded-md wcfdr-text-gray-700 wcfdr-bg-white hover:wcfdr-bg-gray-50 disabled:wcfdr-opacity-50"
+                    >
+                      <RotateCcw className="wcfdr-h-3 wcfdr-w-3 wcfdr-mr-1" />
+                      Undo Import
+                    </button>
+                  )}
+                </div>
+                {failedItems.length > 0 && (
+                  <ul className="wcfdr-mt-2 wcfdr-list-disc wcfdr-list-inside">
+                    {failedItems.slice(0, PREVIEW_SAMPLE_ROWS).map(item => (
+                      <li key={item.meta_id}>
+                        Line {item.line}, #{item.post_id} ({item.meta_key}): {item.message || item.status}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            <div className="wcfdr-flex wcfdr-items-center wcfdr-justify-between">
+              <button
+                onClick={() => { setStep('columns'); setResult(null); }}
+                className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-4 wcfdr-py-2 wcfdr-border wcfdr-border-gray-300 wcfdr-shadow-sm wcfdr-text-sm wcfdr-font-medium wcfdr-rounded-md wcfdr-text-gray-700 wcfdr-bg-white hover:wcfdr-bg-gray-50"
+              >
+                <ArrowLeft className="wcfdr-h-4 wcfdr-w-4 wcfdr-mr-2" />
+                Back to Columns
+              </button>
+              {preview.total_changes > 0 && !result && (
+                <button
+                  onClick={handleRun}
+                  disabled={isBusy}
+                  className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-4 wcfdr-py-2 wcfdr-border wcfdr-border-transparent wcfdr-text-sm wcfdr-font-medium wcfdr-rounded-md wcfdr-text-white wcfdr-bg-green-600 hover:wcfdr-bg-green-700 disabled:wcfdr-opacity-50 disabled:wcfdr-cursor-not-allowed"
+                >
+                  <Play className="wcfdr-h-4 wcfdr-w-4 wcfdr-mr-2" />
+                  {isBusy ? 'Importing…' : 'Run Import'}
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import type { MatchInfo } from '../types';
+
+interface MatchInspectorProps {
+  matches: MatchInfo[];
+  // The text the match offsets refer to; omitted when offsets are not relative to one text
+  source?: string;
+  output?: string;
+}
+
+// Beyond this many matches the table is truncated; highlighting still covers every match
+const MAX_LISTED = 200;
+
+interface Span {
+  start: number;
+  end: number;
+  index: number;
+}
+
+interface HighlightedTextProps {
+  text: string;
+  spans: Span[];
+  hovered: number | null;
+  onHover: (index: number | null) => void;
+  tone: 'match' | 'replacement';
+}
+
+const toneClasses = {
+  match: { base: 'wcfdr-bg-yellow-200', active: 'wcfdr-bg-orange-300 wcfdr-ring-1 wcfdr-ring-orange-500' },
+  replacement: { base: 'wcfdr-bg-green-200', active: 'wcfdr-bg-green-400 wcfdr-ring-1 wcfdr-ring-green-700' }
+};
+
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, spans, hovered, onHover, tone }) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+
+  spans.forEach(span => {
+    if (span.start > cursor) {
+      parts.push(text.slice(cursor, span.start));
+    }
+    const className = `wcfdr-rounded-sm wcfdr-cursor-default ${hovered === span.index ? toneClasses[tone].active : toneClasses[tone].base}`;
+    parts.push(
+      <mark
+        key={span.index}
+        className={span.start === span.end ? `${className} wcfdr-inline-block wcfdr-w-0.5 wcfdr-h-3` : className}
+        onMouseEnter={() => onHover(span.index)}
+        onMouseLeave={() => onHover(null)}
+        title={`Match ${span.index + 1}`}
+      >
+        {text.slice(span.start, span.end)}
+      </mark>
+    );
+    cursor = span.end;
+  });
+  parts.push(text.slice(cursor));
+
+  return (
+    <pre className="wcfdr-text-xs wcfdr-font-mono wcfdr-whitespace-pre-wrap wcfdr-break-all wcfdr-m-0 wcfdr-text-gray-800">
+      {parts}
+    </pre>
+  );
+};
+
+const GroupValue: React.FC<{ value: string | undefined }> = ({ value }) =>
+  value === undefined ? (
+    <span className="wcfdr-italic wcfdr-text-gray-400">unset</span>
+  ) : (
+    <code className="wcfdr-bg-gray-100 wcfdr-rounded wcfdr-px-1">{value === '' ? '""' : value}</code>
+  );
+
+/**
+ * Highlights each match in the sample and its replacement in the result, and lists
+ * matches with their capture groups. Hovering a match anywhere highlights it everywhere.
+ */
+export const MatchInspector: React.FC<MatchInspectorProps> = ({ matches, source, output }) => {
+  const [hovered, setHovered] = useState<number | null>(null);
+
+  const hasGroups = matches.some(match => (match.groups?.length ?? 0) > 0 || match.namedGroups);
+  const sourceSpans: Span[] = matches.map((match, index) => ({ start: match.start, end: match.end, index }));
+  const outputSpans: Span[] = matches
+    .map((match, index) => ({ match, index }))
+    .filter(({ match }) => match.outputStart !== undefined)
+    .map(({ match, index }) => ({ start: match.outputStart!, end: match.outputStart! + match.replacement.length, index }));
+
+  return (
+    <div className="wcfdr-space-y-3">
+      {source !== undefined ? (
+        <div className="wcfdr-grid wcfdr-grid-cols-1 wcfdr-gap-3 xl:wcfdr-grid-cols-2">
+          <div>
+            <div className="wcfdr-text-xs wcfdr-font-medium wcfdr-text-gray-600 wcfdr-mb-1">Matches in Sample</div>
+            <div className="wcfdr-bg-white wcfdr-border wcfdr-border-gray-200 wcfdr-rounded-md wcfdr-p-2 wcfdr-max-h-48 wcfdr-overflow-auto">
+              <HighlightedText text={source} spans={sourceSpans} hovered={hovered} onHover={setHovered} tone="match" />
+            </div>
+          </div>
+          {output !== undefined && outputSpans.length === matches.length && (
+            <div>
+              <div className="wcfdr-text-xs wcfdr-font-medium wcfdr-text-gray-600 wcfdr-mb-1">Replacements in Result</div>
+              <div className="wcfdr-bg-white wcfdr-border wcfdr-border-gray-200 wcfdr-rounded-md wcfdr-p-2 wcfdr-max-h-48 wcfdr-overflow-auto">
+                <HighlightedText text={output} spans={outputSpans} hovered={hovered} onHover={setHovered} tone="replacement" />
+              </div>
+            </div>
+          )}
+        </div>
+      ) : (
+        <p className="wcfdr-text-xs wcfdr-text-gray-500">
+          Matches were found inside individual string values, so they are listed without highlighting.
+        </p>
+      )}
+
+      {matches.length > 0 && (
+        <div className="wcfdr-overflow-x-auto wcfdr-border wcfdr-border-gray-200 wcfdr-rounded-md">
+          <table className="wcfdr-min-w-full wcfdr-divide-y wcfdr-divide-gray-200 wcfdr-text-xs">
+            <thead className="wcfdr-bg-gray-50">
+              <tr>
+                <th className="wcfdr-px-2 wcfdr-py-1.5 wcfdr-text-left wcfdr-font-medium wcfdr-text-gray-500">#</th>
+                <th className="wcfdr-px-2 wcfdr-py-1.5 wcfdr-text-left wcfdr-font-medium wcfdr-text-gray-500">Match</th>
+                <th className="wcfdr-px-2 wcfdr-py-1.5 wcfdr-text-left wcfdr-font-medium wcfdr-text-gray-500">Replacement</th>
+                {hasGroups && (
+                  <th className="wcfdr-px-2 wcfdr-py-1.5 wcfdr-text-left wcfdr-font-medium wcfdr-text-gray-500">Groups</th>
+                )}
+              </tr>
+            </thead>
+            <tbody className="wcfdr-bg-white wcfdr-divide-y wcfdr-divide-gray-100">
+              {matches.slice(0, MAX_LISTED).map((match, index) => (
+                <tr
+                  key={index}
+                  onMouseEnter={() => setHovered(index)}
+                  onMouseLeave={() => setHovered(null)}
+                  className={hovered === index ? 'wcfdr-bg-yellow-50' : ''}
+                >
+                  <td className="wcfdr-px-2 wcfdr-py-1.5 wcfdr-text-gray-500">{index + 1}</td>
+                  <td className="wcfdr-px-2 wcfdr-py-1.5 wcfdr-font-mono wcfdr-break-all">
+                    <GroupValue value={match.text} />
+                    {source !== undefined && (
+                      <span className="wcfdr-ml-1 wcfdr-text-gray-400">@{match.start}</span>
+                    )}
+                  </td>
+                  <td className="wcfdr-px-2 wcfdr-py-1.5 wcfdr-font-mono wcfdr-break-all">
+                    <GroupValue value={match.replacement} />
+                  </td>
+                  {hasGroups && (
+                    <td className="wcfdr-px-2 wcfdr-py-1.5 wcfdr-font-mono">
+                      <div className="wcfdr-space-y-0.5">
+                        {(match.groups ?? []).map((group, groupIndex) => (
+                          <div key={groupIndex}>
+                            <span className="wcfdr-text-gray-500 wcfdr-mr-1">${groupIndex + 1}</span>
+                            <GroupValue value={group} />
+                          </div>
+                        ))}
+                        {Object.entries(match.namedGroups ?? {}).map(([name, group]) => (
+                          <div key={name}>
+                            <span className="wcfdr-text-gray-500 wcfdr-mr-1">{name}</span>
+                            <GroupValue value={group} />
+                          </div>
+                        ))}
+                      </div>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {matches.length > MAX_LISTED && (
+            <div className="wcfdr-px-2 wcfdr-py-1.5 wcfdr-text-xs wcfdr-text-gray-500 wcfdr-bg-gray-50">
+              Showing the first {MAX_LISTED} of {matches.length} matches.
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
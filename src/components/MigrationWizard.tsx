@@ -0,0 +1,386 @@
+import React, { useState } from 'react';
+import { Globe, Search, Eye, Play, ArrowRight, ArrowLeft, AlertTriangle, CheckCircle } from 'lucide-react';
+import { useDataReplacerStore } from '../store/dataReplacerStore';
+import { api } from '../services/api';
+import { availableSources, sourceInfo } from '../utils/dataSources';
+import { buildMigrationVariants, parseSiteUrl, siteHost, variantStep } from '../utils/migration';
+import { BulkJobProgress } from './BulkJobProgress';
+import { DiffViewer } from './DiffViewer';
+import type { MigrationVariant } from '../utils/migration';
+import type { DataSource, ReplaceParams, ReplacePreview, VariantScanCount } from '../types';
+
+type WizardStep = 'addresses' | 'variants' | 'preview';
+
+interface ScannedVariant extends MigrationVariant {
+  count: VariantScanCount;
+  selected: boolean;
+}
+
+const STEP_LABELS: Record<WizardStep, string> = {
+  addresses: '1. Addresses',
+  variants: '2. Variants',
+  preview: '3. Preview & Run'
+};
+
+// Diffs shown in the preview step
+const PREVIEW_SAMPLE_ROWS = 10;
+
+/**
+ * Guided domain or URL change: every stored form of the old address is found, counted and
+ * replaced as one pipeline, so the whole migration is one backed-up batch.
+ */
+export const MigrationWizard: React.FC = () => {
+  const { previewReplace, startBulkReplace, bulkJob } = useDataReplacerStore();
+
+  const [step, setStep] = useState<WizardStep>('addresses');
+  const [oldUrl, setOldUrl] = useState('');
+  const [newUrl, setNewUrl] = useState('');
+  // One table per run; a full migration runs the wizard once for each source
+  const [source, setSource] = useState<DataSource>('postmeta');
+  const [variants, setVariants] = useState<ScannedVariant[]>([]);
+  const [preview, setPreview] = useState<{ preview: ReplacePreview; params: ReplaceParams } | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const hasActiveBulkJob = !!bulkJob && bulkJob.status !== 'completed' && bulkJob.status !== 'cancelled' && bulkJob.status !== 'rolled_back';
+  const selected = variants.filter(variant => variant.selected);
+
+  const handleScan = async () => {
+    const from = parseSiteUrl(oldUrl);
+    const to = parseSiteUrl(newUrl);
+    if (!from || !to) {
+      setError('Enter both addresses as full URLs, such as https://www.example.com or https://example.com/blog.');
+      return;
+    }
+
+    const built = buildMigrationVariants(from, to);
+    if (built.length === 0) {
+      setError('The old and new addresses are the same.');
+      return;
+    }
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      const { variants: counts } = await api.scanVariants({
+        source,
+        variants: built.map(variant => ({ needle: variant.needle, pattern: variant.pattern }))
+      });
+      setVariants(built.map((variant, index) => ({
+        ...variant,
+        count: counts[index],
+        selected: counts[index].rows > 0
+      })));
+      setPreview(null);
+      setStep('variants');
+    } catch (scanError) {
+      console.error('❌ Variant scan failed:', scanError);
+      setError(`Scan failed: ${scanError instanceof Error ? scanError.message : 'Unknown error'}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const toggleVariant = (needle: string) => {
+    setVariants(variants.map(variant =>
+      variant.needle === needle ? { ...variant, selected: !variant.selected } : variant
+    ));
+  };
+
+  const handlePreview = async () => {
+    const from = parseSiteUrl(oldUrl);
+    if (!from || selected.length === 0) return;
+
+    const steps = selected.map(variantStep);
+    const params: ReplaceParams = {
+      find: steps[0].find,
+      replace: steps[0].replace,
+      mode: steps[0].mode,
+      structured: true,
+      steps,
+      source,
+      post_type: '',
+      meta_key: '',
+      // Every variant contains the bare host, so it narrows the rows without missing any
+      value_filter: siteHost(from),
+      case_sensitive: false,
+      regex: false
+    };
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      const result = await previewReplace({ ...params, limit: 5000 });
+      setPreview({ preview: result, params });
+      setStep('preview');
+    } catch (previewError) {
+      console.error('❌ Migration preview failed:', previewError);
+      setError(`Preview failed: ${previewError instanceof Error ? previewError.message : 'Unknown error'}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRun = async () => {
+    if (!preview) return;
+
+    const confirmMessage = `Replace ${selected.length} form(s) of ${oldUrl} with ${newUrl} across ${preview.preview.total_rows.toLocaleString()} candidate rows? Every row is written once and backed up in a single batch; if any row fails, the rows already written are restored.`;
+    if (!confirm(confirmMessage)) {
+      return;
+    }
+
+    await startBulkReplace(preview.params, { rollbackOnFailure: true });
+  };
+
+  const handleStartOver = () => {
+    setStep('addresses');
+    setVariants([]);
+    setPreview(null);
+    setError(null);
+  };
+
+  const rowWarnings = preview
+    ? preview.preview.rows.filter(row => row.warnings.length > 0)
+    : [];
+
+  return (
+    <div className="wcfdr-space-y-6">
+      <BulkJobProgress />
+
+      <div className="wcfdr-bg-white wcfdr-rounded-lg wcfdr-shadow wcfdr-p-6">
+        <div className="wcfdr-flex wcfdr-items-center wcfdr-justify-between wcfdr-mb-6">
+          <h2 className="wcfdr-text-lg wcfdr-font-medium wcfdr-text-gray-900 wcfdr-flex wcfdr-items-center">
+            <Globe className="wcfdr-h-5 wcfdr-w-5 wcfdr-mr-2 wcfdr-text-blue-600" />
+            Site Migration
+          </h2>
+          <div className="wcfdr-flex wcfdr-items-center wcfdr-space-x-4 wcfdr-text-sm">
+            {(Object.keys(STEP_LABELS) as WizardStep[]).map(key => (
+              <span key={key} className={key === step ? 'wcfdr-font-medium wcfdr-text-blue-700' : 'wcfdr-text-gray-400'}>
+                {STEP_LABELS[key]}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        {error && (
+          <div className="wcfdr-mb-4 wcfdr-p-3 wcfdr-rounded-lg wcfdr-border wcfdr-text-sm wcfdr-bg-red-50 wcfdr-border-red-200 wcfdr-text-red-800" aria-live="polite">
+            {error}
+          </div>
+        )}
+
+        {step === 'addresses' && (
+          <div className="wcfdr-space-y-4 wcfdr-max-w-2xl">
+            <p className="wcfdr-text-sm wcfdr-text-gray-600">
+              Enter the site's old and new addresses. Every form the old address can be stored in is
+              scanned: http and https, with and without www, JSON-escaped, URL-encoded and
+              protocol-relative. Trailing slashes are ignored, and everything below the old address moves with it.
+            </p>
+            <div>
+              <label className="wcfdr-block wcfdr-text-sm wcfdr-font-medium wcfdr-text-gray-700 wcfdr-mb-2">
+                Old Site URL
+              </label>
+              <input
+                value={oldUrl}
+                onChange={(e) => setOldUrl(e.target.value)}
+                placeholder="http://old.example.com"
+                className="wcfdr-w-full wcfdr-font-mono wcfdr-rounded-md wcfdr-border-gray-300 wcfdr-shadow-sm focus:wcfdr-border-blue-500 focus:wcfdr-ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="wcfdr-block wcfdr-text-sm wcfdr-font-medium wcfdr-text-gray-700 wcfdr-mb-2">
+                New Site URL
+              </label>
+              <input
+                value={newUrl}
+                onChange={(e) => setNewUrl(e.target.value)}
+                placeholder="https://www.example.com"
+                className="wcfdr-w-full wcfdr-font-mono wcfdr-rounded-md wcfdr-border-gray-300 wcfdr-shadow-sm focus:wcfdr-border-blue-500 focus:wcfdr-ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="wcfdr-block wcfdr-text-sm wcfdr-font-medium wcfdr-text-gray-700 wcfdr-mb-2">
+                Data Source
+              </label>
+              <select
+                value={source}
+                onChange={(e) => setSource(e.target.value as DataSource)}
+                className="wcfdr-w-full wcfdr-rounded-md wcfdr-border-gray-300 wcfdr-shadow-sm focus:wcfdr-border-blue-500 focus:wcfdr-ring-blue-500"
+              >
+                {availableSources().map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <p className="wcfdr-mt-1 wcfdr-text-xs wcfdr-text-gray-500">
+                Addresses usually live in post content, post meta and options; run the wizard once for each.
+              </p>
+            </div>
+            <button
+              onClick={handleScan}
+              disabled={!oldUrl || !newUrl || isBusy}
+              className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-4 wcfdr-py-2 wcfdr-border wcfdr-border-transparent wcfdr-text-sm wcfdr-font-medium wcfdr-rounded-md wcfdr-text-white wcfdr-bg-blue-600 hover:wcfdr-bg-blue-700 disabled:wcfdr-opacity-50 disabled:wcfdr-cursor-not-allowed"
+            >
+              <Search className="wcfdr-h-4 wcfdr-w-4 wcfdr-mr-2" />
+              {isBusy ? 'Scanning…' : 'Scan All Meta'}
+            </button>
+          </div>
+        )}
+
+        {step === 'variants' && (
+          <div className="wcfdr-space-y-4">
+            <p className="wcfdr-text-sm wcfdr-text-gray-600">
+              Rows of {sourceInfo(source).label.toLowerCase()} containing each form of <span className="wcfdr-font-mono">{oldUrl}</span>. Selected forms
+              run in this order as one pipeline; forms with no matches are left out.
+            </p>
+            <div className="wcfdr-overflow-x-auto wcfdr-border wcfdr-border-gray-200 wcfdr-rounded-md">
+              <table className="wcfdr-min-w-full wcfdr-divide-y wcfdr-divide-gray-200 wcfdr-text-sm">
+                <thead className="wcfdr-bg-gray-50">
+                  <tr>
+                    <th className="wcfdr-px-3 wcfdr-py-2"></th>
+                    <th className="wcfdr-px-3 wcfdr-py-2 wcfdr-text-left wcfdr-font-medium wcfdr-text-gray-500">Variant</th>
+                    <th className="wcfdr-px-3 wcfdr-py-2 wcfdr-text-left wcfdr-font-medium wcfdr-text-gray-500">Find → Replace</th>
+                    <th className="wcfdr-px-3 wcfdr-py-2 wcfdr-text-right wcfdr-font-medium wcfdr-text-gray-500">Rows</th>
+                    <th className="wcfdr-px-3 wcfdr-py-2 wcfdr-text-right wcfdr-font-medium wcfdr-text-gray-500">Occurrences</th>
+                  </tr>
+                </thead>
+                <tbody className="wcfdr-bg-white wcfdr-divide-y wcfdr-divide-gray-100">
+                  {variants.map(variant => (
+                    <tr key={variant.needle} className={variant.count.rows === 0 ? 'wcfdr-text-gray-400' : ''}>
+                      <td className="wcfdr-px-3 wcfdr-py-2">
+                        <input
+                          type="checkbox"
+                          checked={variant.selected}
+                          onChange={() => toggleVariant(variant.needle)}
+                          aria-label={`Include ${variant.label}`}
+                          className="wcfdr-rounded wcfdr-border-gray-300 wcfdr-text-blue-600 focus:wcfdr-ring-blue-500"
+                        />
+                      </td>
+                      <td className="wcfdr-px-3 wcfdr-py-2 wcfdr-whitespace-nowrap">{variant.label}</td>
+                      <td className="wcfdr-px-3 wcfdr-py-2 wcfdr-font-mono wcfdr-text-xs wcfdr-break-all">
+                        {variant.needle} → {variant.replacement}
+                      </td>
+                      <td className="wcfdr-px-3 wcfdr-py-2 wcfdr-text-right">
+                        {variant.count.rows.toLocaleString()}{!variant.count.complete && '+'}
+                      </td>
+                      <td className="wcfdr-px-3 wcfdr-py-2 wcfdr-text-right">
+                        {variant.count.matches.toLocaleString()}{!variant.count.complete && '+'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {variants.some(variant => !variant.count.complete) && (
+              <p className="wcfdr-text-xs wcfdr-text-gray-500">
+                Counts marked + stopped at the scan limit; the run itself covers every row.
+              </p>
+            )}
+            <div className="wcfdr-flex wcfdr-items-center wcfdr-justify-between">
+              <button
+                onClick={handleStartOver}
+                className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-4 wcfdr-py-2 wcfdr-border wcfdr-border-gray-300 wcfdr-shadow-sm wcfdr-text-sm wcfdr-font-medium wcfdr-rounded-md wcfdr-text-gray-700 wcfdr-bg-white hover:wcfdr-bg-gray-50"
+              >
+                <ArrowLeft className="wcfdr-h-4 wcfdr-w-4 wcfdr-mr-2" />
+                Change Addresses
+              </button>
+              <div className="wcfdr-flex wcfdr-items-center wcfdr-space-x-3">
+                <span className="wcfdr-text-sm wcfdr-text-gray-600">
+                  {selected.length} of {variants.length} variants selected
+                </span>
+                <button
+                  onClick={handlePreview}
+                  disabled={selected.length === 0 || isBusy}
+                  className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-4 wcfdr-py-2 wcfdr-border wcfdr-border-transparent wcfdr-text-sm wcfdr-font-medium wcfdr-rounded-md wcfdr-text-white wcfdr-bg-blue-600 hover:wcfdr-bg-blue-700 disabled:wcfdr-opacity-50 disabled:wcfdr-cursor-not-allowed"
+                >
+                  <Eye className="wcfdr-h-4 wcfdr-w-4 wcfdr-mr-2" />
+                  {isBusy ? 'Previewing…' : 'Preview Changes'}
+                  <ArrowRight className="wcfdr-h-4 wcfdr-w-4 wcfdr-ml-2" />
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && preview && (
+          <div className="wcfdr-space-y-4">
+            <div className="wcfdr-grid wcfdr-grid-cols-1 wcfdr-gap-4 md:wcfdr-grid-cols-3">
+              <div className="wcfdr-bg-gray-50 wcfdr-border wcfdr-border-gray-200 wcfdr-rounded-lg wcfdr-p-3">
+                <div className="wcfdr-text-xs wcfdr-text-gray-500">Candidate rows</div>
+                <div className="wcfdr-text-lg wcfdr-font-medium wcfdr-text-gray-900">{preview.preview.total_rows.toLocaleString()}</div>
+              </div>
+              <div className="wcfdr-bg-gray-50 wcfdr-border wcfdr-border-gray-200 wcfdr-rounded-lg wcfdr-p-3">
+                <div className="wcfdr-text-xs wcfdr-text-gray-500">
+                  Rows that change{preview.preview.scanned_rows < preview.preview.total_rows && ` (of ${preview.preview.scanned_rows.toLocaleString()} previewed)`}
+                </div>
+                <div className="wcfdr-text-lg wcfdr-font-medium wcfdr-text-gray-900">{preview.preview.total.toLocaleString()}</div>
+              </div>
+              <div className="wcfdr-bg-gray-50 wcfdr-border wcfdr-border-gray-200 wcfdr-rounded-lg wcfdr-p-3">
+                <div className="wcfdr-text-xs wcfdr-text-gray-500">Pipeline steps</div>
+                <div className="wcfdr-text-lg wcfdr-font-medium wcfdr-text-gray-900">{selected.length}</div>
+              </div>
+            </div>
+
+            {rowWarnings.length > 0 && (
+              <div className="wcfdr-bg-yellow-50 wcfdr-border wcfdr-border-yellow-200 wcfdr-rounded-md wcfdr-p-3">
+                <div className="wcfdr-flex">
+                  <AlertTriangle className="wcfdr-h-4 wcfdr-w-4 wcfdr-text-yellow-400 wcfdr-mr-2" />
+                  <ul className="wcfdr-text-sm wcfdr-text-yellow-800 wcfdr-list-disc wcfdr-list-inside">
+                    {rowWarnings.slice(0, PREVIEW_SAMPLE_ROWS).map(row => row.warnings.map((warning, index) => (
+                      <li key={`${row.post_id}-${row.meta_key}-${index}`}>
+                        {row.post_title || `#${row.post_id}`} ({row.meta_key}): {warning}
+                      </li>
+                    )))}
+                  </ul>
+                </div>
+              </div>
+            )}
+
+            {preview.preview.rows.length > 0 ? (
+              <div className="wcfdr-space-y-3">
+                {preview.preview.rows.slice(0, PREVIEW_SAMPLE_ROWS).map(row => (
+                  <div key={`${row.post_id}-${row.meta_key}`}>
+                    <div className="wcfdr-text-xs wcfdr-text-gray-600 wcfdr-mb-1 wcfdr-truncate">
+                      <span className="wcfdr-font-medium wcfdr-text-gray-900">{row.post_title || `#${row.post_id}`}</span>
+                      {' · '}<span className="wcfdr-font-mono">{row.meta_key}</span>
+                    </div>
+                    <DiffViewer before={row.meta_before} after={row.meta_after} matchCount={row.match_count} compact />
+                  </div>
+                ))}
+                {preview.preview.rows.length > PREVIEW_SAMPLE_ROWS && (
+                  <div className="wcfdr-text-xs wcfdr-text-gray-600">
+                    …and {preview.preview.rows.length - PREVIEW_SAMPLE_ROWS} more in this preview
+                  </div>
+                )}
+              </div>
+            ) : (
+              <div className="wcfdr-flex wcfdr-items-center wcfdr-text-sm wcfdr-text-gray-600">
+                <CheckCircle className="wcfdr-h-4 wcfdr-w-4 wcfdr-mr-2 wcfdr-text-green-500" />
+                No previewed row would change
+              </div>
+            )}
+
+            <div className="wcfdr-flex wcfdr-items-center wcfdr-justify-between">
+              <button
+                onClick={() => setStep('variants')}
+                className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-4 wcfdr-py-2 wcfdr-border wcfdr-border-gray-300 wcfdr-shadow-sm wcfdr-text-sm wcfdr-font-medium wcfdr-rounded-md wcfdr-text-gray-700 wcfdr-bg-white hover:wcfdr-bg-gray-50"
+              >
+                <ArrowLeft className="wcfdr-h-4 wcfdr-w-4 wcfdr-mr-2" />
+                Back to Variants
+              </button>
+              {(preview.preview.has_changes || preview.preview.scanned_rows < preview.preview.total_rows) && (
+                <button
+                  onClick={handleRun}
+                  disabled={isBusy || hasActiveBulkJob}
+                  title={hasActiveBulkJob ? 'Finish or cancel the current bulk replace first' : undefined}
+                  className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-4 wcfdr-py-2 wcfdr-border wcfdr-border-transparent wcfdr-text-sm wcfdr-font-medium wcfdr-rounded-md wcfdr-text-white wcfdr-bg-green-600 hover:wcfdr-bg-green-700 disabled:wcfdr-opacity-50 disabled:wcfdr-cursor-not-allowed"
+                >
+                  <Play className="wcfdr-h-4 wcfdr-w-4 wcfdr-mr-2" />
+                  Run Migration
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,110 @@
+import React from 'react';
+import { ArrowUp, ArrowDown, Plus, Trash2 } from 'lucide-react';
+import type { ReplaceMode, ReplaceStep } from '../types';
+
+interface PipelineEditorProps {
+  steps: ReplaceStep[];
+  onChange: (steps: ReplaceStep[]) => void;
+  modes: { value: ReplaceMode; label: string }[];
+}
+
+// Same limit as Replace_Engine::MAX_PIPELINE_STEPS
+export const MAX_PIPELINE_STEPS = 20;
+
+export const emptyStep = (): ReplaceStep => ({ find: '', replace: '', mode: 'plain', structured: false });
+
+/**
+ * Ordered list of find/replace steps; each step runs on the output of the one before it
+ */
+export const PipelineEditor: React.FC<PipelineEditorProps> = ({ steps, onChange, modes }) => {
+  const updateStep = (index: number, changes: Partial<ReplaceStep>) => {
+    onChange(steps.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    const next = steps.slice();
+    const [step] = next.splice(index, 1);
+    next.splice(index + offset, 0, step);
+    onChange(next);
+  };
+
+  const removeStep = (index: number) => {
+    onChange(steps.filter((_, i) => i !== index));
+  };
+
+  const iconButton = 'wcfdr-p-1 wcfdr-rounded wcfdr-text-gray-500 hover:wcfdr-text-gray-800 hover:wcfdr-bg-gray-100 disabled:wcfdr-opacity-30 disabled:wcfdr-cursor-not-allowed';
+
+  return (
+    <div className="wcfdr-space-y-3">
+      {steps.map((step, index) => (
+        <div key={index} className="wcfdr-border wcfdr-border-gray-200 wcfdr-rounded-md wcfdr-p-3 wcfdr-space-y-2">
+          <div className="wcfdr-flex wcfdr-items-center wcfdr-justify-between">
+            <span className="wcfdr-text-xs wcfdr-font-medium wcfdr-text-gray-600">Step {index + 1}</span>
+            <div className="wcfdr-flex wcfdr-items-center wcfdr-space-x-1">
+              <button onClick={() => moveStep(index, -1)} disabled={index === 0} className={iconButton} title="Move up">
+                <ArrowUp className="wcfdr-h-4 wcfdr-w-4" />
+              </button>
+              <button onClick={() => moveStep(index, 1)} disabled={index === steps.length - 1} className={iconButton} title="Move down">
+                <ArrowDown className="wcfdr-h-4 wcfdr-w-4" />
+              </button>
+              <button onClick={() => removeStep(index)} disabled={steps.length === 1} className={iconButton} title="Remove step">
+                <Trash2 className="wcfdr-h-4 wcfdr-w-4" />
+              </button>
+            </div>
+          </div>
+
+          <div className="wcfdr-grid wcfdr-grid-cols-2 wcfdr-gap-2">
+            <input
+              value={step.find}
+              onChange={(e) => updateStep(index, { find: e.target.value })}
+              placeholder="Find..."
+              aria-label={`Step ${index + 1} find`}
+              className="wcfdr-w-full wcfdr-font-mono wcfdr-text-sm wcfdr-rounded-md wcfdr-border-gray-300 wcfdr-shadow-sm focus:wcfdr-border-blue-500 focus:wcfdr-ring-blue-500"
+            />
+            <input
+              value={step.replace}
+              onChange={(e) => updateStep(index, { replace: e.target.value })}
+              placeholder="Replace with..."
+              aria-label={`Step ${index + 1} replacement`}
+              className="wcfdr-w-full wcfdr-font-mono wcfdr-text-sm wcfdr-rounded-md wcfdr-border-gray-300 wcfdr-shadow-sm focus:wcfdr-border-blue-500 focus:wcfdr-ring-blue-500"
+            />
+          </div>
+
+          <div className="wcfdr-flex wcfdr-items-center wcfdr-space-x-3">
+            <select
+              value={step.mode}
+              onChange={(e) => updateStep(index, { mode: e.target.value as ReplaceMode })}
+              aria-label={`Step ${index + 1} mode`}
+              className="wcfdr-flex-1 wcfdr-text-sm wcfdr-rounded-md wcfdr-border-gray-300 wcfdr-shadow-sm focus:wcfdr-border-blue-500 focus:wcfdr-ring-blue-500"
+            >
+              {modes.map((m) => (
+                <option key={m.value} value={m.value}>
+                  {m.label}
+                </option>
+              ))}
+            </select>
+            <label className="wcfdr-flex wcfdr-items-center wcfdr-text-xs wcfdr-text-gray-700">
+              <input
+                type="checkbox"
+                checked={!!step.structured}
+                onChange={(e) => updateStep(index, { structured: e.target.checked })}
+                disabled={step.mode === 'full_text'}
+                className="wcfdr-mr-1 wcfdr-rounded wcfdr-border-gray-300 wcfdr-text-blue-600 focus:wcfdr-ring-blue-500"
+              />
+              Keep structure valid
+            </label>
+          </div>
+        </div>
+      ))}
+
+      <button
+        onClick={() => onChange([...steps, emptyStep()])}
+        disabled={steps.length >= MAX_PIPELINE_STEPS}
+        className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-3 wcfdr-py-1.5 wcfdr-border wcfdr-border-gray-300 wcfdr-text-sm wcfdr-font-medium wcfdr-rounded-md wcfdr-text-gray-700 wcfdr-bg-white hover:wcfdr-bg-gray-50 disabled:wcfdr-opacity-50 disabled:wcfdr-cursor-not-allowed"
+      >
+        <Plus className="wcfdr-h-4 wcfdr-w-4 wcfdr-mr-1" />
+        Add Step
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,269 @@
+import React, { useState } from 'react';
+import { BookMarked, Trash2, Save, ArrowLeft, X } from 'lucide-react';
+import { useDataReplacerStore } from '../store/dataReplacerStore';
+import { fillRecipe, findPlaceholders, placeholderLabel } from '../utils/recipes';
+import type { RecipeFields, ReplaceMode, ReplaceRecipe } from '../types';
+
+interface RecipePickerProps {
+  // The settings currently entered, offered for saving as a new recipe
+  current: RecipeFields;
+  onApply: (fields: RecipeFields, recipe: ReplaceRecipe) => void;
+}
+
+const modeLabels: Record<ReplaceMode, string> = {
+  plain: 'Plain text',
+  plain_cs: 'Plain text (case-sensitive)',
+  regex: 'Regex',
+  url: 'URL',
+  url_segment: 'URL segment',
+  prefix_swap: 'Prefix swap',
+  full_text: 'Full text'
+};
+
+const errorText = (error: unknown, fallback: string): string =>
+  error instanceof Error && error.message ? error.message : fallback;
+
+/**
+ * Saved replace recipes shared by every admin: pick one to fill in the form, supplying values
+ * for its {{placeholders}}, or save the current settings as a new one
+ */
+export const RecipePicker: React.FC<RecipePickerProps> = ({ current, onApply }) => {
+  const { recipes, loadRecipes, saveRecipe, deleteRecipe } = useDataReplacerStore();
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<ReplaceRecipe | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [showSaveForm, setShowSaveForm] = useState(false);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [defaults, setDefaults] = useState<Record<string, string>>({});
+
+  const currentPlaceholders = findPlaceholders(current);
+
+  const handleOpen = async () => {
+    if (isOpen) {
+      setIsOpen(false);
+      return;
+    }
+    setIsOpen(true);
+    setError(null);
+    setIsLoading(true);
+    try {
+      await loadRecipes();
+    } catch (error) {
+      setError(errorText(error, 'Failed to load recipes'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const apply = (recipe: ReplaceRecipe, placeholderValues: Record<string, string>) => {
+    onApply(fillRecipe(recipe, placeholderValues), recipe);
+    setSelected(null);
+    setIsOpen(false);
+  };
+
+  const handleUse = (recipe: ReplaceRecipe) => {
+    if (recipe.placeholders.length === 0) {
+      apply(recipe, {});
+      return;
+    }
+    setSelected(recipe);
+    setValues(recipe.placeholders.reduce<Record<string, string>>(
+      (filled, placeholder) => ({ ...filled, [placeholder.name]: placeholder.default }),
+      {}
+    ));
+  };
+
+  const handleDelete = async (recipe: ReplaceRecipe) => {
+    if (!confirm(`Delete the recipe "${recipe.name}" for every user?`)) return;
+    setError(null);
+    try {
+      await deleteRecipe(recipe.id);
+    } catch (error) {
+      setError(errorText(error, 'Failed to delete recipe'));
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await saveRecipe({ ...current, name: name.trim(), description: description.trim(), defaults });
+      setShowSaveForm(false);
+      setName('');
+      setDescription('');
+      setDefaults({});
+    } catch (error) {
+      setError(errorText(error, 'Failed to save recipe'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const missing = selected ? selected.placeholders.filter(placeholder => !values[placeholder.name]) : [];
+
+  return (
+    <div>
+      <button
+        onClick={handleOpen}
+        className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-3 wcfdr-py-1.5 wcfdr-border wcfdr-border-gray-300 wcfdr-shadow-sm wcfdr-text-xs wcfdr-font-medium wcfdr-rounded wcfdr-text-gray-700 wcfdr-bg-white hover:wcfdr-bg-gray-50"
+      >
+        <BookMarked className="wcfdr-h-3 wcfdr-w-3 wcfdr-mr-1" />
+        Recipes
+      </button>
+
+      {isOpen && (
+        <div className="wcfdr-mt-2 wcfdr-border wcfdr-border-gray-200 wcfdr-rounded-md wcfdr-bg-white wcfdr-p-3 wcfdr-space-y-3">
+          <div className="wcfdr-flex wcfdr-items-center wcfdr-justify-between">
+            <h4 className="wcfdr-text-sm wcfdr-font-medium wcfdr-text-gray-900">
+              {selected ? selected.name : 'Saved Recipes'}
+            </h4>
+            <button onClick={() => setIsOpen(false)} className="wcfdr-text-gray-400 hover:wcfdr-text-gray-600">
+              <X className="wcfdr-h-4 wcfdr-w-4" />
+            </button>
+          </div>
+
+          {error && <p className="wcfdr-text-xs wcfdr-text-red-700">{error}</p>}
+
+          {selected ? (
+            <div className="wcfdr-space-y-2">
+              {selected.placeholders.map(placeholder => (
+                <div key={placeholder.name}>
+                  <label className="wcfdr-block wcfdr-text-xs wcfdr-font-medium wcfdr-text-gray-700 wcfdr-mb-1">
+                    {placeholderLabel(placeholder.name)}
+                    <code className="wcfdr-ml-1 wcfdr-text-gray-400">{`{{${placeholder.name}}}`}</code>
+                  </label>
+                  <input
+                    value={values[placeholder.name] ?? ''}
+                    onChange={(e) => setValues(prev => ({ ...prev, [placeholder.name]: e.target.value }))}
+                    className="wcfdr-w-full wcfdr-text-sm wcfdr-font-mono wcfdr-rounded-md wcfdr-border-gray-300 wcfdr-shadow-sm focus:wcfdr-border-blue-500 focus:wcfdr-ring-blue-500"
+                  />
+                </div>
+              ))}
+              <div className="wcfdr-flex wcfdr-space-x-2">
+                <button
+                  onClick={() => apply(selected, values)}
+                  disabled={missing.length > 0}
+                  className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-3 wcfdr-py-1.5 wcfdr-border wcfdr-border-transparent wcfdr-text-xs wcfdr-font-medium wcfdr-rounded wcfdr-text-white wcfdr-bg-blue-600 hover:wcfdr-bg-blue-700 disabled:wcfdr-opacity-50 disabled:wcfdr-cursor-not-allowed"
+                >
+                  Use Recipe
+                </button>
+                <button
+                  onClick={() => setSelected(null)}
+                  className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-3 wcfdr-py-1.5 wcfdr-border wcfdr-border-gray-300 wcfdr-text-xs wcfdr-font-medium wcfdr-rounded wcfdr-text-gray-700 wcfdr-bg-white hover:wcfdr-bg-gray-50"
+                >
+                  <ArrowLeft className="wcfdr-h-3 wcfdr-w-3 wcfdr-mr-1" />
+                  Back
+                </button>
+              </div>
+            </div>
+          ) : (
+            <>
+              {isLoading ? (
+                <p className="wcfdr-text-xs wcfdr-text-gray-500">Loading recipes...</p>
+              ) : recipes.length === 0 ? (
+                <p className="wcfdr-text-xs wcfdr-text-gray-500">
+                  No recipes yet. Save the current settings to reuse them; write {'{{name}}'} in any field for a value to fill in each time.
+                </p>
+              ) : (
+                <ul className="wcfdr-divide-y wcfdr-divide-gray-100 wcfdr-max-h-64 wcfdr-overflow-auto">
+                  {recipes.map(recipe => (
+                    <li key={recipe.id} className="wcfdr-py-2 wcfdr-flex wcfdr-items-start wcfdr-justify-between">
+                      <div className="wcfdr-min-w-0 wcfdr-mr-2">
+                        <div className="wcfdr-text-sm wcfdr-font-medium wcfdr-text-gray-900">{recipe.name}</div>
+                        {recipe.description && (
+                          <div className="wcfdr-text-xs wcfdr-text-gray-500">{recipe.description}</div>
+                        )}
+                        <div className="wcfdr-text-xs wcfdr-text-gray-500 wcfdr-font-mono wcfdr-truncate">
+                          {modeLabels[recipe.mode]}: {recipe.find} → {recipe.replace}
+                        </div>
+                        {(recipe.post_type || recipe.meta_key) && (
+                          <div className="wcfdr-text-xs wcfdr-text-gray-400">
+                            {recipe.post_type || 'any post type'} · <span className="wcfdr-font-mono">{recipe.meta_key || 'any meta key'}</span>
+                          </div>
+                        )}
+                      </div>
+                      <div className="wcfdr-flex wcfdr-items-center wcfdr-space-x-2 wcfdr-flex-shrink-0">
+                        <button
+                          onClick={() => handleUse(recipe)}
+                          className="wcfdr-px-2 wcfdr-py-1 wcfdr-text-xs wcfdr-font-medium wcfdr-rounded wcfdr-text-blue-700 wcfdr-bg-blue-100 hover:wcfdr-bg-blue-200"
+                        >
+                          Use
+                        </button>
+                        <button
+                          onClick={() => handleDelete(recipe)}
+                          title="Delete recipe"
+                          className="wcfdr-text-gray-400 hover:wcfdr-text-red-600"
+                        >
+                          <Trash2 className="wcfdr-h-4 wcfdr-w-4" />
+                        </button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <div className="wcfdr-border-t wcfdr-border-gray-200 wcfdr-pt-3">
+                {showSaveForm ? (
+                  <div className="wcfdr-space-y-2">
+                    <input
+                      value={name}
+                      onChange={(e) => setName(e.target.value)}
+                      placeholder="Recipe name..."
+                      className="wcfdr-w-full wcfdr-text-sm wcfdr-rounded-md wcfdr-border-gray-300 wcfdr-shadow-sm focus:wcfdr-border-blue-500 focus:wcfdr-ring-blue-500"
+                    />
+                    <input
+                      value={description}
+                      onChange={(e) => setDescription(e.target.value)}
+                      placeholder="Description (optional)..."
+                      className="wcfdr-w-full wcfdr-text-sm wcfdr-rounded-md wcfdr-border-gray-300 wcfdr-shadow-sm focus:wcfdr-border-blue-500 focus:wcfdr-ring-blue-500"
+                    />
+                    {currentPlaceholders.map(placeholder => (
+                      <input
+                        key={placeholder}
+                        value={defaults[placeholder] ?? ''}
+                        onChange={(e) => setDefaults(prev => ({ ...prev, [placeholder]: e.target.value }))}
+                        placeholder={`Default for {{${placeholder}}} (optional)...`}
+                        className="wcfdr-w-full wcfdr-text-sm wcfdr-font-mono wcfdr-rounded-md wcfdr-border-gray-300 wcfdr-shadow-sm focus:wcfdr-border-blue-500 focus:wcfdr-ring-blue-500"
+                      />
+                    ))}
+                    <div className="wcfdr-flex wcfdr-space-x-2">
+                      <button
+                        onClick={handleSave}
+                        disabled={!name.trim() || isSaving}
+                        className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-3 wcfdr-py-1.5 wcfdr-border wcfdr-border-transparent wcfdr-text-xs wcfdr-font-medium wcfdr-rounded wcfdr-text-white wcfdr-bg-blue-600 hover:wcfdr-bg-blue-700 disabled:wcfdr-opacity-50 disabled:wcfdr-cursor-not-allowed"
+                      >
+                        <Save className="wcfdr-h-3 wcfdr-w-3 wcfdr-mr-1" />
+                        {isSaving ? 'Saving...' : 'Save Recipe'}
+                      </button>
+                      <button
+                        onClick={() => setShowSaveForm(false)}
+                        className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-3 wcfdr-py-1.5 wcfdr-border wcfdr-border-gray-300 wcfdr-text-xs wcfdr-font-medium wcfdr-rounded wcfdr-text-gray-700 wcfdr-bg-white hover:wcfdr-bg-gray-50"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <button
+                    onClick={() => setShowSaveForm(true)}
+                    disabled={!current.find}
+                    title={current.find ? undefined : 'Enter something to find first'}
+                    className="wcfdr-inline-flex wcfdr-items-center wcfdr-text-xs wcfdr-font-medium wcfdr-text-blue-700 hover:wcfdr-text-blue-900 disabled:wcfdr-opacity-50 disabled:wcfdr-cursor-not-allowed"
+                  >
+                    <Save className="wcfdr-h-3 wcfdr-w-3 wcfdr-mr-1" />
+                    Save current settings as a recipe
+                  </button>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,50 +1,154 @@
-import React, { useState } from 'react';
-import { Edit, RotateCcw, Eye, AlertTriangle, CheckCircle, ChevronLeft, ChevronRight, CheckSquare, Square, Zap, Play, X } from 'lucide-react';
-
-interface SearchResult {
-  total: number;
-  total_pages: number;
-  page: number;
-  per_page: number;
-  rows: Array<{
-    post_id: number;
-    post_title: string;
-    meta_key: string;
-    meta_value: string;
-    has_backup: boolean;
-    is_modified?: boolean;
-  }>;
-}
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Edit, RotateCcw, Eye, AlertTriangle, CheckCircle, ChevronLeft, ChevronRight, ChevronDown, CheckSquare, Square, Zap, Play, X, ExternalLink, ArrowUp, ArrowDown, ChevronsUpDown, Columns, Loader2 } from 'lucide-react';
+import { useDataReplacerStore } from '../store/dataReplacerStore';
+import { DiffViewer } from './DiffViewer';
+import { ValueTreeEditor } from './ValueTreeEditor';
+import { RecipePicker } from './RecipePicker';
+import { ExportMenu } from './ExportMenu';
+import { VirtualTableBody } from './ui/VirtualTableBody';
+import { sourceInfo } from '../utils/dataSources';
+import { detectTreeFormat, parseValueTree, serializeValueTree, validateValueTree } from '../utils/valueTree';
+import type { TreeFormat, ValueTree } from '../utils/valueTree';
+import type { DataSource, PaginationMode, SearchParams, SearchResponse, SearchResult, ReplaceMode, ReplaceParams, ReplacePreview, ReplaceTarget, SortField, SortOrder, TableColumn, TableColumnPrefs, UpdateRowParams } from '../types';
 
 interface ResultsTableProps {
-  results: SearchResult | null;
-  onUpdateRow: (data: any) => void;
-  onRestoreRow: (data: any) => void;
+  results: SearchResponse | null;
+  // Rejects when the write fails, so the editor can stay open
+  onUpdateRow: (data: UpdateRowParams) => Promise<void>;
+  onRestoreRow: (data: { source?: DataSource; post_id: number; meta_key: string }) => void | Promise<void>;
   onPageChange?: (page: number) => void;
+  onSortChange?: (orderby: SortField, order: SortOrder) => void;
+  // Fetches the next cursor batch; the table calls it as the end of the loaded rows scrolls into view
+  onLoadMore?: () => void | Promise<void>;
+  onPaginationChange?: (pagination: PaginationMode) => void;
+  // The search that produced the results, which an export runs again in full
+  searchFilters?: SearchParams | null;
 }
 
+// Columns a user starts without; they can be shown from the column picker
+const DEFAULT_HIDDEN_COLUMNS = ['status', 'value_length', 'modified'];
+
+// The value is what every row is about, so its column cannot be hidden
+const ALWAYS_SHOWN_COLUMNS = ['value'];
+
+// Same bounds as ajax_save_table_columns()
+const MIN_COLUMN_WIDTH = 60;
+const MAX_COLUMN_WIDTH = 1200;
+
+const headerClass = 'wcfdr-px-6 wcfdr-py-3 wcfdr-text-left wcfdr-text-xs wcfdr-font-medium wcfdr-text-gray-500 wcfdr-uppercase wcfdr-tracking-wider';
+
+// Values longer than this are cut short until their row is expanded
+const VALUE_PREVIEW_LENGTH = 200;
+
+// Compact rows are a single line, so their height is known without measuring them
+const COMPACT_ROW_HEIGHT = 44;
+
+// Rows the arrow keys skip with Page Up and Page Down
+const KEYBOARD_PAGE_SIZE = 10;
+
+// How close to the end of the loaded rows, in pixels, the next batch starts loading
+const LOAD_MORE_THRESHOLD = 400;
+
+// What the table body lists: a heading for each run of one key, then that key's rows unless it is folded away
+type ResultItem = { type: 'group'; row: SearchResult } | { type: 'row'; row: SearchResult };
+
+// Selection keys name the exact row of the searched source, so a selection can span pages, keys and post types
+const targetKey = (row: ReplaceTarget): string => `${row.post_id}:${row.meta_id}`;
+
+const parseTargetKey = (key: string): ReplaceTarget => {
+  const [postId, metaId] = key.split(':').map(Number);
+  return { post_id: postId, meta_id: metaId };
+};
+
+const resultItemKey = (item: ResultItem): string =>
+  item.type === 'group' ? `group:${item.row.meta_key}` : targetKey(item.row);
+
 export const ResultsTable: React.FC<ResultsTableProps> = ({ 
   results, 
   onUpdateRow, 
   onRestoreRow,
-  onPageChange
+  onPageChange,
+  onSortChange,
+  onLoadMore,
+  onPaginationChange,
+  searchFilters = null
 }) => {
-  const [editingRow, setEditingRow] = useState<number | null>(null);
+  // Keyed by targetKey, since one post has many meta rows and every option has post_id 0
+  const [editingRow, setEditingRow] = useState<string | null>(null);
   const [editValue, setEditValue] = useState('');
+  // Structured values are edited as a tree; the raw textarea stays available for everything else
+  const [editFormat, setEditFormat] = useState<TreeFormat | null>(null);
+  const [editTree, setEditTree] = useState<ValueTree | null>(null);
+  const [editView, setEditView] = useState<'tree' | 'raw'>('raw');
+  const [treeError, setTreeError] = useState<string | null>(null);
   const [isUpdating, setIsUpdating] = useState(false);
   const [updateMessage, setUpdateMessage] = useState<{type: 'success' | 'error', text: string} | null>(null);
   
   // Bulk actions state
   const [selectedRows, setSelectedRows] = useState<Set<string>>(new Set());
   const [showBulkActions, setShowBulkActions] = useState(false);
-  const [bulkMode, setBulkMode] = useState('plain');
+  const [bulkMode, setBulkMode] = useState<ReplaceMode>('plain');
   const [findText, setFindText] = useState('');
   const [replaceText, setReplaceText] = useState('');
   const [caseSensitive, setCaseSensitive] = useState(false);
+  const [structured, setStructured] = useState(false);
   const [isBulkProcessing, setIsBulkProcessing] = useState(false);
   const [bulkProgress, setBulkProgress] = useState(0);
-  const [bulkPreview, setBulkPreview] = useState<any>(null);
+  const [bulkPreview, setBulkPreview] = useState<{ preview: ReplacePreview; params: ReplaceParams } | null>(null);
   const [bulkStatus, setBulkStatus] = useState<string>('');
+  // Meta key groups folded away when the results span several keys
+  const [collapsedKeys, setCollapsedKeys] = useState<Set<string>>(new Set());
+  const [showColumnPicker, setShowColumnPicker] = useState(false);
+  // Width of the column being dragged; saved only once the drag ends
+  const [dragWidth, setDragWidth] = useState<{ id: string; width: number } | null>(null);
+  // Rows showing their whole value, and in compact mode their whole content
+  const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set());
+  // The row the keyboard acts on, as an index into the listed items
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const savedColumns = useDataReplacerStore((state) => state.tableColumns);
+  const saveTableColumns = useDataReplacerStore((state) => state.saveTableColumns);
+  const columnPrefs: TableColumnPrefs = savedColumns ?? { hidden: DEFAULT_HIDDEN_COLUMNS, widths: {} };
+  const isLoadingMore = useDataReplacerStore((state) => state.isLoadingMore);
+  const bulkJob = useDataReplacerStore((state) => state.bulkJob);
+  const startBulkReplace = useDataReplacerStore((state) => state.startBulkReplace);
+  const hasActiveBulkJob = !!bulkJob && bulkJob.status !== 'completed' && bulkJob.status !== 'cancelled' && bulkJob.status !== 'rolled_back';
+  const source = sourceInfo(results?.source);
+  const isCursor = results?.pagination === 'cursor';
+  const canLoadMore = isCursor && !!results?.next_cursor && !!onLoadMore;
+
+  // Row IDs of one source mean nothing in another, so a new source starts a new selection
+  useEffect(() => {
+    setSelectedRows(new Set());
+    setBulkPreview(null);
+  }, [results?.source]);
+
+  // Other rows start at the top with nothing expanded; refreshing the same rows after an edit keeps the place
+  const firstRowKey = results && results.rows.length > 0 ? targetKey(results.rows[0]) : '';
+  useEffect(() => {
+    setActiveIndex(null);
+    setExpandedRows(new Set());
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = 0;
+    }
+  }, [results?.source, results?.page, results?.orderby, results?.order, firstRowKey]);
+
+  // The next batch loads once the end of the loaded rows comes near, or straight away when they do not fill the table
+  useEffect(() => {
+    const scroller = scrollRef.current;
+    if (!scroller || !canLoadMore || isLoadingMore) return;
+
+    const check = () => {
+      if (scroller.scrollHeight - scroller.scrollTop - scroller.clientHeight < LOAD_MORE_THRESHOLD) {
+        scroller.removeEventListener('scroll', check);
+        onLoadMore!();
+      }
+    };
+
+    check();
+    scroller.addEventListener('scroll', check, { passive: true });
+    return () => scroller.removeEventListener('scroll', check);
+  }, [canLoadMore, isLoadingMore, results?.rows.length]);
 
   const bulkModes = [
     { value: 'plain', label: 'Plain Text (Case-insensitive)' },
@@ -56,21 +160,82 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({
     { value: 'full_text', label: 'Full Text Overwrite' }
   ];
 
-  const handleEdit = (row: any) => {
-    setEditingRow(row.post_id);
+  const editedValue = useMemo(
+    () => (editView === 'tree' && editTree ? serializeValueTree(editTree) : editValue),
+    [editView, editTree, editValue]
+  );
+
+  // Nothing structured is written back unless it parses and every node is valid
+  const editIssues = useMemo(() => {
+    if (editView === 'tree') {
+      return editTree ? validateValueTree(editTree) : [];
+    }
+    if (editFormat && detectTreeFormat(editValue) !== editFormat) {
+      return [{ path: [], message: `The edited text is no longer valid ${editFormat === 'json' ? 'JSON' : 'serialized PHP'}` }];
+    }
+    return [];
+  }, [editView, editTree, editValue, editFormat]);
+
+  const handleEdit = (row: SearchResult) => {
+    setEditingRow(targetKey(row));
     setEditValue(row.meta_value);
     setUpdateMessage(null);
+    setTreeError(null);
+
+    const format = detectTreeFormat(row.meta_value);
+    setEditFormat(format);
+    setEditTree(null);
+    setEditView('raw');
+    if (format) {
+      try {
+        setEditTree(parseValueTree(row.meta_value, format));
+        setEditView('tree');
+      } catch (error) {
+        setTreeError(`This value looks like ${format === 'json' ? 'JSON' : 'serialized PHP'} but could not be parsed: ${(error as Error).message}`);
+      }
+    }
+  };
+
+  const handleShowRaw = () => {
+    if (editTree) {
+      setEditValue(serializeValueTree(editTree));
+    }
+    setEditView('raw');
   };
 
-  const handleSave = async (row: any) => {
+  const handleShowTree = () => {
+    if (!editFormat || editView === 'tree') return;
+    try {
+      setEditTree(parseValueTree(editValue, editFormat));
+      setEditView('tree');
+      setTreeError(null);
+    } catch (error) {
+      setTreeError(`Fix the text before switching back to the tree: ${(error as Error).message}`);
+    }
+  };
+
+  const resetEditor = () => {
+    setEditingRow(null);
+    setEditValue('');
+    setEditFormat(null);
+    setEditTree(null);
+    setEditView('raw');
+    setTreeError(null);
+  };
+
+  const handleSave = async (row: SearchResult) => {
+    if (editIssues.length > 0) return;
+
     setIsUpdating(true);
     setUpdateMessage(null);
     
     try {
       await onUpdateRow({
+        source: row.source,
         post_id: row.post_id,
+        meta_id: row.meta_id,
         meta_key: row.meta_key,
-        new_value: editValue
+        new_value: editedValue
       });
       
       setUpdateMessage({
@@ -78,16 +243,16 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({
         text: 'Row updated successfully!'
       });
       
-      setEditingRow(null);
-      setEditValue('');
+      resetEditor();
       
       // Clear message after 3 seconds
       setTimeout(() => setUpdateMessage(null), 3000);
       
     } catch (error) {
+      // The editor stays open, so the edits can be fixed and saved again
       setUpdateMessage({
         type: 'error',
-        text: 'Failed to update row. Please try again.'
+        text: `Failed to update row: ${error instanceof Error ? error.message : 'Unknown error'}`
       });
     } finally {
       setIsUpdating(false);
@@ -95,14 +260,14 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({
   };
 
   const handleCancel = () => {
-    setEditingRow(null);
-    setEditValue('');
+    resetEditor();
     setUpdateMessage(null);
   };
 
-  const handleRestore = async (row: any) => {
+  const handleRestore = async (row: SearchResult) => {
     try {
       await onRestoreRow({
+        source: row.source,
         post_id: row.post_id,
         meta_key: row.meta_key
       });
@@ -117,16 +282,65 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({
     }
   };
 
-  // Bulk actions handlers
-  const handleSelectAll = () => {
-    if (results?.rows) {
-      if (selectedRows.size === results.rows.length) {
-        setSelectedRows(new Set());
-      } else {
-        const allKeys = results.rows.map(row => `${row.post_id}-${row.meta_key}`);
-        setSelectedRows(new Set(allKeys));
+  // Rows arrive sorted by meta key when the search spans several keys
+  const isGrouped = !!results?.groups && results.groups.length > 0;
+  const groupTotals = useMemo(() => {
+    const totals: Record<string, number> = {};
+    (results?.groups ?? []).forEach(group => {
+      totals[group.meta_key] = group.total;
+    });
+    return totals;
+  }, [results]);
+
+  const pageKeyCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    (results?.rows ?? []).forEach(row => {
+      counts[row.meta_key] = (counts[row.meta_key] ?? 0) + 1;
+    });
+    return counts;
+  }, [results]);
+
+  const items = useMemo(() => {
+    const list: ResultItem[] = [];
+    (results?.rows ?? []).forEach((row, index, rows) => {
+      if (isGrouped && (index === 0 || rows[index - 1].meta_key !== row.meta_key)) {
+        list.push({ type: 'group', row });
       }
+      if (!isGrouped || !collapsedKeys.has(row.meta_key)) {
+        list.push({ type: 'row', row });
+      }
+    });
+    return list;
+  }, [results, isGrouped, collapsedKeys]);
+
+  const toggleGroup = (metaKey: string) => {
+    const next = new Set(collapsedKeys);
+    if (next.has(metaKey)) {
+      next.delete(metaKey);
+    } else {
+      next.add(metaKey);
     }
+    setCollapsedKeys(next);
+  };
+
+  const handleSelectGroup = (metaKey: string) => {
+    const groupKeys = results ? results.rows.filter(row => row.meta_key === metaKey).map(targetKey) : [];
+    const isGroupSelected = groupKeys.every(key => selectedRows.has(key));
+    const newSelected = new Set(selectedRows);
+    groupKeys.forEach(key => (isGroupSelected ? newSelected.delete(key) : newSelected.add(key)));
+    setSelectedRows(newSelected);
+    setBulkPreview(null);
+  };
+
+  // Bulk actions handlers
+  const pageKeys = results ? results.rows.map(targetKey) : [];
+  const isPageSelected = pageKeys.length > 0 && pageKeys.every(key => selectedRows.has(key));
+
+  const handleSelectAll = () => {
+    const newSelected = new Set(selectedRows);
+    pageKeys.forEach(key => (isPageSelected ? newSelected.delete(key) : newSelected.add(key)));
+    setSelectedRows(newSelected);
+    setBulkPreview(null);
   };
 
   const handleSelectRow = (rowKey: string) => {
@@ -137,6 +351,7 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({
       newSelected.add(rowKey);
     }
     setSelectedRows(newSelected);
+    setBulkPreview(null);
   };
 
   const handleBulkPreview = async () => {
@@ -144,41 +359,28 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({
     
     setIsBulkProcessing(true);
     setBulkProgress(0);
+    setBulkStatus('');
+    
+    // Only the selected rows are touched, whatever key or post type they have
+    const params: ReplaceParams = {
+      find: findText,
+      replace: replaceText,
+      mode: bulkMode,
+      source: results?.source,
+      post_type: '',
+      meta_key: '',
+      case_sensitive: caseSensitive,
+      structured,
+      targets: Array.from(selectedRows).map(parseTargetKey)
+    };
     
     try {
-      // Get the first selected row to determine post_type and meta_key
-      const firstSelectedRow = results.rows.find(row => 
-        selectedRows.has(`${row.post_id}-${row.meta_key}`)
-      );
-      
-      if (!firstSelectedRow) {
-        throw new Error('No rows selected');
-      }
-      
-      // Call the real preview API
-      const { useDataReplacerStore } = await import('../store/dataReplacerStore');
-      const store = useDataReplacerStore.getState();
-      
-      const previewParams = {
-        find: findText,
-        replace: replaceText,
-        mode: bulkMode,
-        post_type: firstSelectedRow.post_type,
-        meta_key: firstSelectedRow.meta_key,
-        case_sensitive: caseSensitive,
-        limit: 5000 // Use high limit for bulk operations
-      };
-      
-      const previewResults = await store.previewReplace(previewParams);
-      
-      setBulkPreview({
-        totalRows: previewResults.total || 0,
-        affectedRows: previewResults.rows || [],
-        preview: previewResults,
-        warnings: [],
-        estimatedTime: 'Processing...'
+      const preview = await useDataReplacerStore.getState().previewReplace({
+        ...params,
+        limit: selectedRows.size
       });
       
+      setBulkPreview({ preview, params });
       setBulkProgress(100);
       
     } catch (error) {
@@ -190,82 +392,26 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({
   };
 
   const handleBulkExecute = async () => {
-    if (!bulkPreview || !bulkPreview.affectedRows) return;
+    if (!bulkPreview) return;
     
-    setIsBulkProcessing(true);
-    setBulkProgress(0);
-    setBulkStatus('Preparing bulk operation...');
+    const { preview, params } = bulkPreview;
     
-    try {
-      const affectedRows = bulkPreview.affectedRows;
-      
-      if (affectedRows.length === 0) {
-        alert('No changes to execute!');
-        setIsBulkProcessing(false);
-        return;
-      }
-      
-      // Confirm execution
-      const confirmMessage = `Are you sure you want to replace "${findText}" with "${replaceText}" in ${affectedRows.length} rows? This action cannot be undone.`;
-      if (!confirm(confirmMessage)) {
-        setIsBulkProcessing(false);
-        setBulkStatus('');
-        return;
-      }
-      
-      // Get the first row to determine parameters
-      const firstRow = results.rows.find(row => 
-        selectedRows.has(`${row.post_id}-${row.meta_key}`)
-      );
-      
-      if (!firstRow) {
-        throw new Error('No rows selected');
-      }
-      
-      // Call the real bulk replace API
-      const { useDataReplacerStore } = await import('../store/dataReplacerStore');
-      const store = useDataReplacerStore.getState();
-      
-      const replaceParams = {
-        find: findText,
-        replace: replaceText,
-        mode: bulkMode,
-        post_type: firstRow.post_type,
-        meta_key: firstRow.meta_key,
-        case_sensitive: caseSensitive,
-        limit: 5000,
-        confirm: true
-      };
-      
-      setBulkStatus('Executing bulk replace...');
-      setBulkProgress(50);
-      
-      const replaceResults = await store.executeReplace(replaceParams);
-      
-      setBulkProgress(100);
-      setBulkStatus(`Bulk replace completed! Updated: ${replaceResults.updated}, Failed: ${replaceResults.failed}`);
-      
-      // Clear preview and reset
-      setBulkPreview(null);
-      setSelectedRows(new Set());
-      
-      // Refresh the search results
-      if (onPageChange) {
-        onPageChange(1);
-      }
-      
-    } catch (error) {
-      console.error('Bulk execute failed:', error);
-      setBulkStatus('Bulk execute failed: ' + (error as Error).message);
-      setTimeout(() => {
-        alert(`Bulk execution failed: ${error}`);
-        setIsBulkProcessing(false);
-        setBulkStatus('');
-      }, 2000);
-    } finally {
-      setIsBulkProcessing(false);
-      setBulkProgress(0);
+    if (preview.total === 0) {
+      alert('No changes to execute!');
+      return;
+    }
+    
+    // Confirm execution
+    const confirmMessage = `Are you sure you want to replace "${params.find}" with "${params.replace}" in ${preview.total} of ${params.targets?.length ?? 0} selected rows? Every changed value is backed up and can be restored from the Backups tab.`;
+    if (!confirm(confirmMessage)) {
+      return;
     }
+    
+    // The run continues in chunks in the store; BulkJobProgress reports on it
+    setBulkPreview(null);
+    setSelectedRows(new Set());
+    setBulkStatus('');
+    await startBulkReplace(params);
   };
 
   const handleBulkCancel = () => {
@@ -276,6 +422,281 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({
     setReplaceText('');
   };
 
+  // A new column sorts ascending first; clicking the sorted column again reverses it
+  const handleSort = (field: SortField) => {
+    if (!onSortChange || isCursor) return;
+    onSortChange(field, results?.orderby === field && results.order === 'asc' ? 'desc' : 'asc');
+  };
+
+  const saveColumns = (next: TableColumnPrefs) => {
+    saveTableColumns(next).catch(error => console.warn('Failed to save table columns:', error));
+  };
+
+  const columnWidth = (columnId: string): number | undefined =>
+    dragWidth?.id === columnId ? dragWidth.width : columnPrefs.widths[columnId];
+
+  const setColumnWidth = (columnId: string, width: number) => {
+    const clamped = Math.min(MAX_COLUMN_WIDTH, Math.max(MIN_COLUMN_WIDTH, Math.round(width)));
+    saveColumns({ ...columnPrefs, widths: { ...columnPrefs.widths, [columnId]: clamped } });
+  };
+
+  const toggleColumn = (columnId: string) => {
+    const hidden = columnPrefs.hidden.indexOf(columnId) !== -1
+      ? columnPrefs.hidden.filter(id => id !== columnId)
+      : [...columnPrefs.hidden, columnId];
+    saveColumns({ ...columnPrefs, hidden });
+  };
+
+  // Dragging a header's right edge resizes its column; arrow keys do the same from the keyboard
+  const startResize = (event: React.MouseEvent<HTMLElement>, columnId: string) => {
+    const header = event.currentTarget.parentElement;
+    if (!header) return;
+    event.preventDefault();
+
+    const startX = event.clientX;
+    const startWidth = header.getBoundingClientRect().width;
+    let width = startWidth;
+
+    const handleMove = (move: MouseEvent) => {
+      width = Math.min(MAX_COLUMN_WIDTH, Math.max(MIN_COLUMN_WIDTH, startWidth + move.clientX - startX));
+      setDragWidth({ id: columnId, width });
+    };
+    const handleUp = () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+      setDragWidth(null);
+      if (width !== startWidth) {
+        setColumnWidth(columnId, width);
+      }
+    };
+
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  };
+
+  const handleResizeKey = (event: React.KeyboardEvent<HTMLElement>, columnId: string) => {
+    if (event.key !== 'ArrowLeft' && event.key !== 'ArrowRight') return;
+    const header = event.currentTarget.parentElement;
+    if (!header) return;
+    event.preventDefault();
+    setColumnWidth(columnId, header.getBoundingClientRect().width + (event.key === 'ArrowLeft' ? -20 : 20));
+  };
+
+  const isCompactRow = (row: SearchResult): boolean =>
+    !!columnPrefs.compact && !expandedRows.has(targetKey(row)) && editingRow !== targetKey(row);
+
+  const toggleExpanded = (rowKey: string) => {
+    const next = new Set(expandedRows);
+    if (next.has(rowKey)) {
+      next.delete(rowKey);
+    } else {
+      next.add(rowKey);
+    }
+    setExpandedRows(next);
+  };
+
+  const renderValuePreview = (row: SearchResult) => {
+    const rowKey = targetKey(row);
+    const isLong = row.meta_value.length > VALUE_PREVIEW_LENGTH;
+    const isExpanded = expandedRows.has(rowKey);
+    const widthClass = columnWidth('value') ? '' : 'wcfdr-max-w-xs';
+
+    if (isCompactRow(row)) {
+      return (
+        <div className={`wcfdr-text-sm wcfdr-text-gray-900 wcfdr-font-mono wcfdr-truncate ${widthClass}`}>
+          {isLong ? row.meta_value.slice(0, VALUE_PREVIEW_LENGTH) : row.meta_value}
+        </div>
+      );
+    }
+
+    return (
+      <>
+        <div className={`wcfdr-text-sm wcfdr-text-gray-900 wcfdr-font-mono wcfdr-break-words ${widthClass}`}>
+          {isLong && !isExpanded ? `${row.meta_value.slice(0, VALUE_PREVIEW_LENGTH)}…` : row.meta_value}
+        </div>
+        {isLong && (
+          <button
+            type="button"
+            onClick={() => toggleExpanded(rowKey)}
+            className="wcfdr-mt-1 wcfdr-text-xs wcfdr-font-medium wcfdr-text-blue-600 hover:wcfdr-text-blue-800"
+          >
+            {isExpanded ? 'Show less' : `Show all ${row.meta_value.length.toLocaleString()} characters`}
+          </button>
+        )}
+      </>
+    );
+  };
+
+  // Every column between the selection checkbox and the actions, in display order
+  const allColumns: TableColumn<SearchResult>[] = [
+    {
+      id: 'title',
+      key: 'post_title',
+      label: source.objectLabel,
+      sortable: true,
+      render: (_, row) => (isCompactRow(row) ? (
+        <div className="wcfdr-text-sm wcfdr-font-medium wcfdr-text-gray-900 wcfdr-truncate wcfdr-max-w-xs">
+          {row.post_title}
+        </div>
+      ) : (
+        <>
+          <div className="wcfdr-text-sm wcfdr-font-medium wcfdr-text-gray-900">
+            {row.post_title}
+          </div>
+          {(row.edit_url || row.view_url) && (
+            <div className="wcfdr-flex wcfdr-space-x-2 wcfdr-mt-1 wcfdr-text-xs">
+              {row.edit_url && (
+                <a href={row.edit_url} target="_blank" rel="noopener noreferrer" className="wcfdr-inline-flex wcfdr-items-center wcfdr-text-blue-600 hover:wcfdr-text-blue-800">
+                  Edit {source.objectLabel.toLowerCase()}
+                  <ExternalLink className="wcfdr-h-3 wcfdr-w-3 wcfdr-ml-0.5" />
+                </a>
+              )}
+              {row.view_url && (
+                <a href={row.view_url} target="_blank" rel="noopener noreferrer" className="wcfdr-inline-flex wcfdr-items-center wcfdr-text-blue-600 hover:wcfdr-text-blue-800">
+                  View
+                  <ExternalLink className="wcfdr-h-3 wcfdr-w-3 wcfdr-ml-0.5" />
+                </a>
+              )}
+            </div>
+          )}
+        </>
+      ))
+    },
+    {
+      id: 'post_id',
+      key: 'post_id',
+      label: source.value === 'options' ? 'Option ID' : 'ID',
+      sortable: true,
+      // Options have no object, so their own row ID is shown instead
+      render: (postId, row) => (source.value === 'options' ? row.meta_id : postId)
+    },
+    { id: 'post_type', key: 'post_type', label: source.typeLabel, sortable: true },
+    { id: 'status', key: 'post_status', label: source.statusLabel ?? 'Status', sortable: true },
+    {
+      id: 'meta_key',
+      key: 'meta_key',
+      label: source.keyLabel,
+      sortable: true,
+      render: (metaKey) => <span className="wcfdr-font-mono">{metaKey}</span>
+    },
+    {
+      id: 'value',
+      key: 'meta_value',
+      label: 'Value',
+      render: (_, row) => (
+        editingRow === targetKey(row) ? (
+          <div className="wcfdr-space-y-2">
+            {editFormat && (
+              <div className="wcfdr-flex wcfdr-space-x-1">
+                <button
+                  type="button"
+                  onClick={handleShowTree}
+                  className={`wcfdr-px-2 wcfdr-py-0.5 wcfdr-text-xs wcfdr-rounded ${editView === 'tree' ? 'wcfdr-bg-blue-100 wcfdr-text-blue-800' : 'wcfdr-text-gray-600 hover:wcfdr-bg-gray-100'}`}
+                >
+                  Tree
+                </button>
+                <button
+                  type="button"
+                  onClick={handleShowRaw}
+                  className={`wcfdr-px-2 wcfdr-py-0.5 wcfdr-text-xs wcfdr-rounded ${editView === 'raw' ? 'wcfdr-bg-blue-100 wcfdr-text-blue-800' : 'wcfdr-text-gray-600 hover:wcfdr-bg-gray-100'}`}
+                >
+                  Raw
+                </button>
+              </div>
+            )}
+            {treeError && (
+              <div className="wcfdr-text-xs wcfdr-text-yellow-800 wcfdr-bg-yellow-50 wcfdr-border wcfdr-border-yellow-200 wcfdr-rounded wcfdr-p-2">
+                {treeError}
+              </div>
+            )}
+            {editView === 'tree' && editTree ? (
+              <ValueTreeEditor
+                tree={editTree}
+                issues={editIssues}
+                onChange={(root) => setEditTree({ ...editTree, root })}
+              />
+            ) : (
+              <textarea
+                value={editValue}
+                onChange={(e) => setEditValue(e.target.value)}
+                rows={3}
+                className="wcfdr-w-full wcfdr-text-sm wcfdr-font-mono wcfdr-rounded-md wcfdr-border-gray-300 wcfdr-shadow-sm focus:wcfdr-border-blue-500 focus:wcfdr-ring-blue-500"
+              />
+            )}
+            {editIssues.length > 0 && (
+              <div className="wcfdr-text-xs wcfdr-text-red-700">
+                {editView === 'tree'
+                  ? `Fix ${editIssues.length} ${editIssues.length === 1 ? 'problem' : 'problems'} before saving.`
+                  : editIssues[0].message}
+              </div>
+            )}
+            {editedValue !== row.meta_value && (
+              <DiffViewer before={row.meta_value} after={editedValue} beforeLabel="Current" afterLabel="Edited" compact />
+            )}
+            <div className="wcfdr-flex wcfdr-space-x-2">
+              <button
+                onClick={() => handleSave(row)}
+                disabled={isUpdating || editIssues.length > 0}
+                className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-2 wcfdr-py-1 wcfdr-text-xs wcfdr-font-medium wcfdr-rounded wcfdr-text-white wcfdr-bg-green-600 hover:wcfdr-bg-green-700 disabled:wcfdr-opacity-50 disabled:wcfdr-cursor-not-allowed"
+              >
+                {isUpdating ? 'Saving...' : 'Save'}
+              </button>
+              <button
+                onClick={handleCancel}
+                disabled={isUpdating}
+                className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-2 wcfdr-py-1 wcfdr-text-xs wcfdr-font-medium wcfdr-rounded wcfdr-text-gray-700 wcfdr-bg-gray-100 hover:wcfdr-bg-gray-200 disabled:wcfdr-opacity-50 disabled:wcfdr-cursor-not-allowed"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        ) : (
+          renderValuePreview(row)
+        )
+      )
+    },
+    {
+      id: 'value_length',
+      key: 'meta_value',
+      label: 'Length',
+      sortable: true,
+      render: (metaValue: string) => metaValue.length.toLocaleString()
+    },
+    { id: 'modified', key: 'post_modified', label: 'Modified', sortable: true },
+    {
+      id: 'changes',
+      key: 'has_backup',
+      label: 'Status',
+      render: (_, row) => (
+        <div className="wcfdr-flex wcfdr-items-center wcfdr-space-x-2">
+          {row.is_modified && (
+            <span className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-2.5 wcfdr-py-0.5 wcfdr-rounded-full wcfdr-text-xs wcfdr-font-medium wcfdr-bg-yellow-100 wcfdr-text-yellow-800">
+              <AlertTriangle className="wcfdr-h-3 wcfdr-w-3 wcfdr-mr-1" />
+              Modified
+            </span>
+          )}
+          {row.has_backup && (
+            <span className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-2.5 wcfdr-py-0.5 wcfdr-rounded-full wcfdr-text-xs wcfdr-font-medium wcfdr-bg-green-100 wcfdr-text-green-800">
+              <CheckCircle className="wcfdr-h-3 wcfdr-w-3 wcfdr-mr-1" />
+              Backup
+            </span>
+          )}
+        </div>
+      )
+    }
+  ];
+
+  // Options all share one type, and only some sources have a status or a modified date
+  const unavailableColumns = [
+    source.value === 'options' ? 'post_type' : '',
+    source.statusLabel ? '' : 'status',
+    source.modified ? '' : 'modified'
+  ];
+  const columns = allColumns.filter(column => unavailableColumns.indexOf(column.id) === -1);
+  const visibleColumns = columns.filter(column =>
+    ALWAYS_SHOWN_COLUMNS.indexOf(column.id) !== -1 || columnPrefs.hidden.indexOf(column.id) === -1
+  );
+
   if (!results) {
     return (
       <div className="wcfdr-bg-white wcfdr-rounded-lg wcfdr-shadow wcfdr-p-12 wcfdr-text-center">
@@ -286,12 +707,190 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({
           No Results Yet
         </h3>
         <p className="wcfdr-text-gray-500">
-          Use the search filters above to find post meta values.
+          Use the search filters above to find values in post meta, post content, terms, users, comments or options.
         </p>
       </div>
     );
   }
 
+  // Arrow keys, Page Up/Down, Home and End move between rows; Space selects, Enter expands and E edits.
+  // Keys typed into the editor and the row's own buttons are left alone.
+  const handleTableKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    const target = event.target as HTMLElement;
+    if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable) return;
+    if (items.length === 0 || event.ctrlKey || event.metaKey || event.altKey) return;
+
+    const last = items.length - 1;
+    const current = activeIndex === null ? -1 : Math.min(activeIndex, last);
+    const item = current >= 0 ? items[current] : null;
+    const onTable = target === event.currentTarget;
+
+    switch (event.key) {
+      case 'ArrowDown':
+        setActiveIndex(Math.min(last, current + 1));
+        break;
+      case 'ArrowUp':
+        setActiveIndex(Math.max(0, current - 1));
+        break;
+      case 'PageDown':
+        setActiveIndex(Math.min(last, current + KEYBOARD_PAGE_SIZE));
+        break;
+      case 'PageUp':
+        setActiveIndex(Math.max(0, current - KEYBOARD_PAGE_SIZE));
+        break;
+      case 'Home':
+        setActiveIndex(0);
+        break;
+      case 'End':
+        setActiveIndex(last);
+        break;
+      case ' ':
+        if (!onTable || !item) return;
+        if (item.type === 'group') {
+          handleSelectGroup(item.row.meta_key);
+        } else {
+          handleSelectRow(targetKey(item.row));
+        }
+        break;
+      case 'Enter':
+        if (!onTable || !item) return;
+        if (item.type === 'group') {
+          toggleGroup(item.row.meta_key);
+        } else {
+          toggleExpanded(targetKey(item.row));
+        }
+        break;
+      case 'e':
+        if (!onTable || !item || item.type !== 'row' || isUpdating) return;
+        handleEdit(item.row);
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  };
+
+  const renderItem = (item: ResultItem, index: number) => {
+    const row = item.row;
+    const activeClass = index === activeIndex ? 'wcfdr-ring-2 wcfdr-ring-inset wcfdr-ring-blue-400' : '';
+
+    if (item.type === 'group') {
+      const isCollapsed = collapsedKeys.has(row.meta_key);
+      const isGroupSelected = results.rows.filter(other => other.meta_key === row.meta_key).every(other => selectedRows.has(targetKey(other)));
+      return (
+        <tr className={`wcfdr-bg-gray-100 ${activeClass}`} onClick={() => setActiveIndex(index)}>
+          <td className="wcfdr-px-6 wcfdr-py-2 wcfdr-whitespace-nowrap">
+            <button
+              onClick={() => handleSelectGroup(row.meta_key)}
+              className="wcfdr-text-gray-400 hover:wcfdr-text-gray-600"
+              title="Select this key's rows on this page"
+            >
+              {isGroupSelected ? (
+                <CheckSquare className="wcfdr-h-4 wcfdr-w-4 wcfdr-text-blue-600" />
+              ) : (
+                <Square className="wcfdr-h-4 wcfdr-w-4" />
+              )}
+            </button>
+          </td>
+          <td colSpan={visibleColumns.length + 1} className="wcfdr-px-6 wcfdr-py-2">
+            <button
+              onClick={() => toggleGroup(row.meta_key)}
+              className="wcfdr-inline-flex wcfdr-items-center wcfdr-text-sm wcfdr-font-medium wcfdr-text-gray-700"
+              aria-expanded={!isCollapsed}
+            >
+              {isCollapsed ? (
+                <ChevronRight className="wcfdr-h-4 wcfdr-w-4 wcfdr-mr-1" />
+              ) : (
+                <ChevronDown className="wcfdr-h-4 wcfdr-w-4 wcfdr-mr-1" />
+              )}
+              <span className="wcfdr-font-mono">{row.meta_key}</span>
+              <span className="wcfdr-ml-2 wcfdr-text-xs wcfdr-font-normal wcfdr-text-gray-500">
+                {pageKeyCounts[row.meta_key]} on this page
+                {groupTotals[row.meta_key] !== undefined && ` · ${groupTotals[row.meta_key].toLocaleString()} in total`}
+              </span>
+            </button>
+          </td>
+        </tr>
+      );
+    }
+
+    const rowKey = targetKey(row);
+    const isSelected = selectedRows.has(rowKey);
+    const compact = isCompactRow(row);
+    const cellPadding = compact ? 'wcfdr-py-2' : 'wcfdr-py-4';
+    return (
+      <tr
+        className={`hover:wcfdr-bg-gray-50 ${isSelected ? 'wcfdr-bg-blue-50' : ''} ${activeClass}`}
+        style={compact ? { height: COMPACT_ROW_HEIGHT } : undefined}
+        onClick={() => setActiveIndex(index)}
+      >
+        {/* Row Selection Checkbox */}
+        <td className={`wcfdr-px-6 ${cellPadding} wcfdr-whitespace-nowrap`}>
+          <button
+            onClick={() => handleSelectRow(rowKey)}
+            className="wcfdr-text-gray-400 hover:wcfdr-text-gray-600"
+          >
+            {isSelected ? (
+              <CheckSquare className="wcfdr-h-4 wcfdr-w-4 wcfdr-text-blue-600" />
+            ) : (
+              <Square className="wcfdr-h-4 wcfdr-w-4" />
+            )}
+          </button>
+        </td>
+
+        {visibleColumns.map(column => {
+          const width = columnWidth(column.id);
+          return (
+            <td
+              key={column.id}
+              style={width ? { width, minWidth: width } : undefined}
+              className={`wcfdr-px-6 ${cellPadding} ${column.id === 'value' ? '' : 'wcfdr-whitespace-nowrap wcfdr-text-sm wcfdr-text-gray-900'}`}
+            >
+              {column.render ? column.render(row[column.key], row) : row[column.key]}
+            </td>
+          );
+        })}
+
+        {/* Actions */}
+        <td className={`wcfdr-px-6 ${cellPadding} wcfdr-whitespace-nowrap wcfdr-text-sm wcfdr-font-medium`}>
+          <div className="wcfdr-flex wcfdr-items-center wcfdr-space-x-2">
+            {columnPrefs.compact && editingRow !== rowKey && (
+              <button
+                onClick={() => toggleExpanded(rowKey)}
+                className="wcfdr-p-1 wcfdr-rounded wcfdr-text-gray-500 hover:wcfdr-text-gray-800 hover:wcfdr-bg-gray-100"
+                title={expandedRows.has(rowKey) ? 'Collapse row' : 'Expand row'}
+                aria-expanded={expandedRows.has(rowKey)}
+              >
+                {expandedRows.has(rowKey) ? <ChevronDown className="wcfdr-h-4 wcfdr-w-4" /> : <ChevronRight className="wcfdr-h-4 wcfdr-w-4" />}
+              </button>
+            )}
+            {editingRow !== rowKey ? (
+              <button
+                onClick={() => handleEdit(row)}
+                disabled={isUpdating}
+                className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-2 wcfdr-py-1 wcfdr-text-xs wcfdr-font-medium wcfdr-rounded wcfdr-text-blue-700 wcfdr-bg-blue-100 hover:wcfdr-bg-blue-200 disabled:wcfdr-opacity-50 disabled:wcfdr-cursor-not-allowed"
+              >
+                <Edit className="wcfdr-h-3 wcfdr-w-3 wcfdr-mr-1" />
+                Edit
+              </button>
+            ) : null}
+
+            {row.has_backup && (
+              <button
+                onClick={() => handleRestore(row)}
+                disabled={isUpdating}
+                className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-2 wcfdr-py-1 wcfdr-text-xs wcfdr-font-medium wcfdr-rounded wcfdr-text-orange-700 wcfdr-bg-orange-100 hover:wcfdr-bg-orange-200 disabled:wcfdr-opacity-50 disabled:wcfdr-cursor-not-allowed"
+              >
+                <RotateCcw className="wcfdr-h-3 wcfdr-w-3 wcfdr-mr-1" />
+                Restore
+              </button>
+            )}
+          </div>
+        </td>
+      </tr>
+    );
+  };
+
   return (
     <div className="wcfdr-bg-white wcfdr-rounded-lg wcfdr-shadow">
       {/* Table Header with Bulk Actions */}
@@ -317,15 +916,81 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({
                 )}
               </button>
             )}
+
+            {/* Column Picker */}
+            <div className="wcfdr-relative">
+              <button
+                onClick={() => setShowColumnPicker(!showColumnPicker)}
+                aria-expanded={showColumnPicker}
+                className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-3 wcfdr-py-1.5 wcfdr-text-sm wcfdr-font-medium wcfdr-rounded-md wcfdr-text-gray-700 wcfdr-bg-gray-100 hover:wcfdr-bg-gray-200"
+              >
+                <Columns className="wcfdr-h-4 wcfdr-w-4 wcfdr-mr-2" />
+                Columns
+              </button>
+              {showColumnPicker && (
+                <div className="wcfdr-absolute wcfdr-z-10 wcfdr-mt-1 wcfdr-w-56 wcfdr-p-3 wcfdr-space-y-2 wcfdr-bg-white wcfdr-border wcfdr-border-gray-300 wcfdr-rounded-md wcfdr-shadow-lg">
+                  {columns.map(column => (
+                    <label key={column.id} className="wcfdr-flex wcfdr-items-center wcfdr-text-sm wcfdr-text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={visibleColumns.indexOf(column) !== -1}
+                        disabled={ALWAYS_SHOWN_COLUMNS.indexOf(column.id) !== -1}
+                        onChange={() => toggleColumn(column.id)}
+                        className="wcfdr-mr-2 wcfdr-rounded wcfdr-border-gray-300 wcfdr-text-blue-600 focus:wcfdr-ring-blue-500 disabled:wcfdr-opacity-50"
+                      />
+                      {column.label}
+                    </label>
+                  ))}
+                  <label className="wcfdr-flex wcfdr-items-center wcfdr-pt-2 wcfdr-border-t wcfdr-border-gray-200 wcfdr-text-sm wcfdr-text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={!!columnPrefs.compact}
+                      onChange={(e) => saveColumns({ ...columnPrefs, compact: e.target.checked })}
+                      className="wcfdr-mr-2 wcfdr-rounded wcfdr-border-gray-300 wcfdr-text-blue-600 focus:wcfdr-ring-blue-500"
+                    />
+                    Compact rows
+                  </label>
+                  <button
+                    onClick={() => saveColumns({ hidden: DEFAULT_HIDDEN_COLUMNS, widths: {} })}
+                    className="wcfdr-pt-1 wcfdr-text-xs wcfdr-font-medium wcfdr-text-blue-600 hover:wcfdr-text-blue-800"
+                  >
+                    Reset columns
+                  </button>
+                </div>
+              )}
+            </div>
+
+            <ExportMenu kind="search" params={searchFilters} />
           </div>
           
           <div className="wcfdr-flex wcfdr-items-center wcfdr-space-x-4">
             <span className="wcfdr-text-sm wcfdr-text-gray-500">
               {results.total} total results
+              {isGrouped && ` in ${results.groups!.length} ${source.keyLabel.toLowerCase()}${results.groups!.length !== 1 ? 's' : ''}`}
             </span>
-            <span className="wcfdr-text-sm wcfdr-text-gray-500">
-              Page {results.page} of {results.total_pages}
-            </span>
+            {isCursor ? (
+              <span className="wcfdr-text-sm wcfdr-text-gray-500">
+                {results.rows.length} loaded
+              </span>
+            ) : (
+              <span className="wcfdr-text-sm wcfdr-text-gray-500">
+                Page {results.page} of {results.total_pages}
+              </span>
+            )}
+            {onPaginationChange && (
+              <label
+                className="wcfdr-flex wcfdr-items-center wcfdr-text-sm wcfdr-text-gray-700"
+                title="Load rows in batches as you scroll, newest first. Rows added or removed meanwhile do not shift the next batch. Sorting by column is not available."
+              >
+                <input
+                  type="checkbox"
+                  checked={isCursor}
+                  onChange={(e) => onPaginationChange(e.target.checked ? 'cursor' : 'offset')}
+                  className="wcfdr-mr-2 wcfdr-rounded wcfdr-border-gray-300 wcfdr-text-blue-600 focus:wcfdr-ring-blue-500"
+                />
+                Load as you scroll
+              </label>
+            )}
           </div>
         </div>
       </div>
@@ -336,6 +1001,17 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({
           <div className="wcfdr-grid wcfdr-grid-cols-1 wcfdr-gap-4 lg:wcfdr-grid-cols-2">
             {/* Configuration */}
             <div className="wcfdr-space-y-3">
+              <RecipePicker
+                current={{ find: findText, replace: replaceText, mode: bulkMode, structured, post_type: '', meta_key: '' }}
+                onApply={(fields) => {
+                  // Only the selected rows are touched, so the recipe's post type and meta key do not apply
+                  setFindText(fields.find);
+                  setReplaceText(fields.replace);
+                  setBulkMode(fields.mode);
+                  setStructured(!!fields.structured);
+                  setBulkPreview(null);
+                }}
+              />
               <div className="wcfdr-grid wcfdr-grid-cols-2 wcfdr-gap-3">
                 <div>
                   <label className="wcfdr-block wcfdr-text-xs wcfdr-font-medium wcfdr-text-gray-700 wcfdr-mb-1">
@@ -368,7 +1044,7 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({
                   </label>
                   <select
                     value={bulkMode}
-                    onChange={(e) => setBulkMode(e.target.value)}
+                    onChange={(e) => setBulkMode(e.target.value as ReplaceMode)}
                     className="wcfdr-w-full wcfdr-text-sm wcfdr-rounded-md wcfdr-border-gray-300 wcfdr-shadow-sm focus:wcfdr-border-blue-500 focus:wcfdr-ring-blue-500"
                   >
                     {bulkModes.map((m) => (
@@ -378,7 +1054,7 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({
                     ))}
                   </select>
                 </div>
-                <div className="wcfdr-flex wcfdr-items-end">
+                <div className="wcfdr-flex wcfdr-flex-col wcfdr-justify-end wcfdr-space-y-1">
                   <label className="wcfdr-flex wcfdr-items-center wcfdr-text-xs wcfdr-text-gray-700">
                     <input
                       type="checkbox"
@@ -389,6 +1065,19 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({
                     />
                     Case Sensitive
                   </label>
+                  <label
+                    className="wcfdr-flex wcfdr-items-center wcfdr-text-xs wcfdr-text-gray-700"
+                    title="Replace only inside string values of serialized PHP and JSON data, recalculating lengths"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={structured}
+                      onChange={(e) => setStructured(e.target.checked)}
+                      disabled={bulkMode === 'full_text'}
+                      className="wcfdr-mr-2 wcfdr-rounded wcfdr-border-gray-300 wcfdr-text-blue-600 focus:wcfdr-ring-blue-500"
+                    />
+                    Keep serialized/JSON valid
+                  </label>
                 </div>
               </div>
             </div>
@@ -420,7 +1109,7 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({
               <div className="wcfdr-flex wcfdr-items-center wcfdr-mb-2">
                 <div className="wcfdr-animate-spin wcfdr-rounded-full wcfdr-h-4 wcfdr-w-4 wcfdr-border-b-2 wcfdr-border-blue-600 wcfdr-mr-2"></div>
                 <span className="wcfdr-text-sm wcfdr-font-medium wcfdr-text-blue-800">
-                  {bulkPreview ? 'Executing changes...' : 'Previewing changes...'}
+                  Previewing changes...
                 </span>
               </div>
               <div className="wcfdr-w-full wcfdr-bg-blue-200 wcfdr-rounded-full wcfdr-h-2">
@@ -440,6 +1129,13 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({
             </div>
           )}
 
+          {/* Preview Failure */}
+          {bulkStatus && !isBulkProcessing && (
+            <div className="wcfdr-mt-3 wcfdr-bg-red-50 wcfdr-border wcfdr-border-red-200 wcfdr-rounded-lg wcfdr-p-3 wcfdr-text-sm wcfdr-text-red-800">
+              {bulkStatus}
+            </div>
+          )}
+
           {/* Preview Results */}
           {bulkPreview && !isBulkProcessing && (
             <div className="wcfdr-mt-3 wcfdr-bg-green-50 wcfdr-border wcfdr-border-green-200 wcfdr-rounded-lg wcfdr-p-4">
@@ -448,35 +1144,43 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({
                 <div className="wcfdr-flex wcfdr-items-center wcfdr-justify-between">
                   <div className="wcfdr-space-y-1">
                     <div className="wcfdr-text-sm wcfdr-font-medium wcfdr-text-green-800">
-                      Preview: {bulkPreview.affectedRows} of {bulkPreview.totalRows} rows will be affected
+                      Preview: {bulkPreview.preview.total} of {bulkPreview.params.targets?.length ?? 0} selected rows will be affected
                     </div>
                     <div className="wcfdr-text-xs wcfdr-text-green-600">
-                      Mode: {bulkModes.find(m => m.value === bulkPreview.mode)?.label} | 
-                      Estimated time: {bulkPreview.estimatedTime}
+                      Mode: {bulkModes.find(m => m.value === bulkPreview.preview.mode)?.label}
+                      {bulkPreview.preview.structured && ' (structure-aware)'}
+                      {' | '}{source.keyLabel}s: {new Set(bulkPreview.preview.rows.map(row => row.meta_key)).size}
                     </div>
                     <div className="wcfdr-text-xs wcfdr-text-green-600">
-                      Find: "{bulkPreview.findText}" → Replace: "{bulkPreview.replaceText}"
+                      Find: "{bulkPreview.preview.find}" → Replace: "{bulkPreview.preview.replace}"
                     </div>
                   </div>
-                  <button
-                    onClick={handleBulkExecute}
-                    className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-3 wcfdr-py-1.5 wcfdr-text-sm wcfdr-font-medium wcfdr-rounded-md wcfdr-text-white wcfdr-bg-green-600 hover:wcfdr-bg-green-700"
-                  >
-                    <Play className="wcfdr-h-4 wcfdr-w-4 wcfdr-mr-1" />
-                    Execute
-                  </button>
+                  <div className="wcfdr-flex wcfdr-items-center wcfdr-space-x-2">
+                    <ExportMenu kind="preview" params={bulkPreview.params} label="Export preview" align="right" />
+                    <button
+                      onClick={handleBulkExecute}
+                      disabled={hasActiveBulkJob || bulkPreview.preview.total === 0}
+                      title={hasActiveBulkJob ? 'Finish or cancel the current bulk replace first' : undefined}
+                      className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-3 wcfdr-py-1.5 wcfdr-text-sm wcfdr-font-medium wcfdr-rounded-md wcfdr-text-white wcfdr-bg-green-600 hover:wcfdr-bg-green-700 disabled:wcfdr-opacity-50 disabled:wcfdr-cursor-not-allowed"
+                    >
+                      <Play className="wcfdr-h-4 wcfdr-w-4 wcfdr-mr-1" />
+                      Execute
+                    </button>
+                  </div>
                 </div>
 
                 {/* Warnings */}
-                {bulkPreview.warnings.length > 0 && (
+                {bulkPreview.preview.rows.some(row => row.warnings.length > 0) && (
                   <div className="wcfdr-bg-yellow-50 wcfdr-border wcfdr-border-yellow-200 wcfdr-rounded-md wcfdr-p-3">
                     <div className="wcfdr-flex">
                       <AlertTriangle className="wcfdr-h-4 wcfdr-w-4 wcfdr-text-yellow-400 wcfdr-mr-2 wcfdr-mt-0.5" />
                       <div className="wcfdr-text-sm wcfdr-text-yellow-800">
                         <strong>Warnings:</strong>
                         <ul className="wcfdr-mt-1 wcfdr-list-disc wcfdr-list-inside">
-                          {bulkPreview.warnings.map((warning: string, index: number) => (
-                            <li key={index}>{warning}</li>
+                          {bulkPreview.preview.rows.filter(row => row.warnings.length > 0).map((row) => (
+                            <li key={`${row.post_id}-${row.meta_key}`}>
+                              {row.post_title || `#${row.post_id}`} ({row.meta_key}): {row.warnings.join('; ')}
+                            </li>
                           ))}
                         </ul>
                       </div>
@@ -485,33 +1189,30 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({
                 )}
 
                 {/* Detailed Preview Table */}
-                {bulkPreview.previewData && bulkPreview.previewData.length > 0 && (
+                {bulkPreview.preview.rows.length > 0 && (
                   <div className="wcfdr-bg-white wcfdr-border wcfdr-border-green-200 wcfdr-rounded-md wcfdr-overflow-hidden">
                     <div className="wcfdr-px-3 wcfdr-py-2 wcfdr-bg-green-100 wcfdr-border-b wcfdr-border-green-200">
                       <h4 className="wcfdr-text-sm wcfdr-font-medium wcfdr-text-green-800">
                         Affected Rows Preview
                       </h4>
                     </div>
-                    <div className="wcfdr-max-h-60 wcfdr-overflow-y-auto">
+                    <div className="wcfdr-max-h-96 wcfdr-overflow-y-auto">
                       <table className="wcfdr-min-w-full wcfdr-divide-y wcfdr-divide-green-200">
                         <thead className="wcfdr-bg-green-50">
                           <tr>
                             <th className="wcfdr-px-3 wcfdr-py-2 wcfdr-text-left wcfdr-text-xs wcfdr-font-medium wcfdr-text-green-700">
-                              Post
+                              {source.objectLabel}
                             </th>
                             <th className="wcfdr-px-3 wcfdr-py-2 wcfdr-text-left wcfdr-text-xs wcfdr-font-medium wcfdr-text-green-700">
-                              Meta Key
+                              {source.keyLabel}
                             </th>
                             <th className="wcfdr-px-3 wcfdr-py-2 wcfdr-text-left wcfdr-text-xs wcfdr-font-medium wcfdr-text-green-700">
-                              Before
-                            </th>
-                            <th className="wcfdr-px-3 wcfdr-py-2 wcfdr-text-left wcfdr-text-xs wcfdr-font-medium wcfdr-text-green-700">
-                              After
+                              Changes
                             </th>
                           </tr>
                         </thead>
                         <tbody className="wcfdr-bg-white wcfdr-divide-y wcfdr-divide-green-200">
-                          {bulkPreview.previewData.slice(0, 10).map((row, index) => (
+                          {bulkPreview.preview.rows.slice(0, 10).map((row, index) => (
                             <tr key={index} className="hover:wcfdr-bg-green-50">
                               <td className="wcfdr-px-3 wcfdr-py-2 wcfdr-text-xs wcfdr-text-green-900">
                                 <div className="wcfdr-font-medium">{row.post_title}</div>
@@ -520,15 +1221,8 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({
                               <td className="wcfdr-px-3 wcfdr-py-2 wcfdr-text-xs wcfdr-text-green-900 wcfdr-font-mono">
                                 {row.meta_key}
                               </td>
-                              <td className="wcfdr-px-3 wcfdr-py-2 wcfdr-text-xs wcfdr-text-green-900 wcfdr-font-mono wcfdr-max-w-xs wcfdr-break-words">
-                                <div className="wcfdr-bg-red-50 wcfdr-p-1 wcfdr-rounded wcfdr-border wcfdr-border-red-200">
-                                  {row.old_value}
-                                </div>
-                              </td>
-                              <td className="wcfdr-px-3 wcfdr-py-2 wcfdr-text-xs wcfdr-text-green-900 wcfdr-font-mono wcfdr-max-w-xs wcfdr-break-words">
-                                <div className="wcfdr-bg-green-50 wcfdr-p-1 wcfdr-rounded wcfdr-border wcfdr-border-green-200">
-                                  {row.new_value}
-                                </div>
+                              <td className="wcfdr-px-3 wcfdr-py-2 wcfdr-w-2/3">
+                                <DiffViewer before={row.meta_before} after={row.meta_after} matchCount={row.match_count} compact />
                               </td>
                             </tr>
                           ))}
@@ -536,10 +1230,10 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({
                       </table>
                       
                       {/* Show more indicator */}
-                      {bulkPreview.previewData.length > 10 && (
+                      {bulkPreview.preview.rows.length > 10 && (
                         <div className="wcfdr-px-3 wcfdr-py-2 wcfdr-bg-green-50 wcfdr-border-t wcfdr-border-green-200 wcfdr-text-center">
                           <span className="wcfdr-text-xs wcfdr-text-green-600">
-                            Showing first 10 of {bulkPreview.previewData.length} affected rows
+                            Showing first 10 of {bulkPreview.preview.rows.length} affected rows
                           </span>
                         </div>
                       )}
@@ -548,7 +1242,7 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({
                 )}
 
                 {/* No Changes Message */}
-                {bulkPreview.affectedRows === 0 && (
+                {bulkPreview.preview.total === 0 && (
                   <div className="wcfdr-bg-blue-50 wcfdr-border wcfdr-border-blue-200 wcfdr-rounded-md wcfdr-p-3 wcfdr-text-center">
                     <div className="wcfdr-text-sm wcfdr-text-blue-800">
                       <strong>No changes detected!</strong> The search criteria didn't match any of the selected rows.
@@ -576,9 +1270,16 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({
       )}
 
       {/* Results Table */}
-      <div className="wcfdr-overflow-x-auto">
+      {/* Only the rows in view are rendered, so pages of thousands of rows stay responsive */}
+      <div
+        ref={scrollRef}
+        tabIndex={0}
+        onKeyDown={handleTableKeyDown}
+        aria-label="Search results. Use the arrow keys to move between rows, Space to select a row, Enter to expand it and E to edit it."
+        className="wcfdr-overflow-auto wcfdr-max-h-[70vh] focus:wcfdr-outline-none focus-visible:wcfdr-ring-2 focus-visible:wcfdr-ring-inset focus-visible:wcfdr-ring-blue-500"
+      >
         <table className="wcfdr-min-w-full wcfdr-divide-y wcfdr-divide-gray-200">
-          <thead className="wcfdr-bg-gray-50">
+          <thead className="wcfdr-sticky wcfdr-top-0 wcfdr-z-[1] wcfdr-bg-gray-50">
             <tr>
               {/* Select All Checkbox */}
               <th className="wcfdr-px-6 wcfdr-py-3 wcfdr-text-left">
@@ -586,7 +1287,7 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({
                   onClick={handleSelectAll}
                   className="wcfdr-text-gray-400 hover:wcfdr-text-gray-600"
                 >
-                  {results.rows.length > 0 && selectedRows.size === results.rows.length ? (
+                  {isPageSelected ? (
                     <CheckSquare className="wcfdr-h-4 wcfdr-w-4 wcfdr-text-blue-600" />
                   ) : (
                     <Square className="wcfdr-h-4 wcfdr-w-4" />
@@ -594,148 +1295,96 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({
                 </button>
               </th>
               
-              <th className="wcfdr-px-6 wcfdr-py-3 wcfdr-text-left wcfdr-text-xs wcfdr-font-medium wcfdr-text-gray-500 wcfdr-uppercase wcfdr-tracking-wider">
-                Post Title
-              </th>
-              <th className="wcfdr-px-6 wcfdr-py-3 wcfdr-text-left wcfdr-text-xs wcfdr-font-medium wcfdr-text-gray-500 wcfdr-uppercase wcfdr-tracking-wider">
-                Meta Key
-              </th>
-              <th className="wcfdr-px-6 wcfdr-py-3 wcfdr-text-left wcfdr-text-xs wcfdr-font-medium wcfdr-text-gray-500 wcfdr-uppercase wcfdr-tracking-wider">
-                Meta Value
-              </th>
-              <th className="wcfdr-px-6 wcfdr-py-3 wcfdr-text-left wcfdr-text-xs wcfdr-font-medium wcfdr-text-gray-500 wcfdr-uppercase wcfdr-tracking-wider">
-                Status
-              </th>
-              <th className="wcfdr-px-6 wcfdr-py-3 wcfdr-text-left wcfdr-text-xs wcfdr-font-medium wcfdr-text-gray-500 wcfdr-uppercase wcfdr-tracking-wider">
+              {visibleColumns.map(column => {
+                const width = columnWidth(column.id);
+                const isSorted = results.orderby === column.id;
+                return (
+                  <th
+                    key={column.id}
+                    style={width ? { width, minWidth: width } : undefined}
+                    aria-sort={isSorted ? (results.order === 'desc' ? 'descending' : 'ascending') : undefined}
+                    className={`wcfdr-relative ${headerClass}`}
+                  >
+                    {column.sortable && onSortChange && !isCursor ? (
+                      <button
+                        type="button"
+                        onClick={() => handleSort(column.id as SortField)}
+                        className="wcfdr-inline-flex wcfdr-items-center wcfdr-uppercase wcfdr-tracking-wider hover:wcfdr-text-gray-800"
+                        title={`Sort by ${column.label.toLowerCase()}`}
+                      >
+                        {column.label}
+                        {isSorted ? (
+                          results.order === 'desc'
+                            ? <ArrowDown className="wcfdr-h-3 wcfdr-w-3 wcfdr-ml-1 wcfdr-text-gray-800" />
+                            : <ArrowUp className="wcfdr-h-3 wcfdr-w-3 wcfdr-ml-1 wcfdr-text-gray-800" />
+                        ) : (
+                          <ChevronsUpDown className="wcfdr-h-3 wcfdr-w-3 wcfdr-ml-1 wcfdr-opacity-40" />
+                        )}
+                      </button>
+                    ) : (
+                      column.label
+                    )}
+                    <span
+                      role="separator"
+                      aria-orientation="vertical"
+                      aria-label={`Resize the ${column.label} column`}
+                      tabIndex={0}
+                      onMouseDown={(e) => startResize(e, column.id)}
+                      onKeyDown={(e) => handleResizeKey(e, column.id)}
+                      className="wcfdr-absolute wcfdr-top-0 wcfdr-right-0 wcfdr-h-full wcfdr-w-1.5 wcfdr-cursor-col-resize hover:wcfdr-bg-blue-300 focus:wcfdr-bg-blue-300 focus:wcfdr-outline-none"
+                    />
+                  </th>
+                );
+              })}
+              <th className={headerClass}>
                 Actions
               </th>
             </tr>
           </thead>
-          <tbody className="wcfdr-bg-white wcfdr-divide-y wcfdr-divide-gray-200">
-            {results.rows.map((row) => {
-              const rowKey = `${row.post_id}-${row.meta_key}`;
-              const isSelected = selectedRows.has(rowKey);
-              
-              return (
-                <tr key={rowKey} className={`hover:wcfdr-bg-gray-50 ${isSelected ? 'wcfdr-bg-blue-50' : ''}`}>
-                  {/* Row Selection Checkbox */}
-                  <td className="wcfdr-px-6 wcfdr-py-4 wcfdr-whitespace-nowrap">
-                    <button
-                      onClick={() => handleSelectRow(rowKey)}
-                      className="wcfdr-text-gray-400 hover:wcfdr-text-gray-600"
-                    >
-                      {isSelected ? (
-                        <CheckSquare className="wcfdr-h-4 wcfdr-w-4 wcfdr-text-blue-600" />
-                      ) : (
-                        <Square className="wcfdr-h-4 wcfdr-w-4" />
-                      )}
-                    </button>
-                  </td>
-
-                  {/* Post Title */}
-                  <td className="wcfdr-px-6 wcfdr-py-4 wcfdr-whitespace-nowrap">
-                    <div className="wcfdr-text-sm wcfdr-font-medium wcfdr-text-gray-900">
-                      {row.post_title}
-                    </div>
-                    <div className="wcfdr-text-sm wcfdr-text-gray-500">
-                      ID: {row.post_id}
-                    </div>
-                  </td>
-
-                  {/* Meta Key */}
-                  <td className="wcfdr-px-6 wcfdr-py-4 wcfdr-whitespace-nowrap">
-                    <div className="wcfdr-text-sm wcfdr-text-gray-900 wcfdr-font-mono">
-                      {row.meta_key}
-                    </div>
-                  </td>
-
-                  {/* Meta Value */}
-                  <td className="wcfdr-px-6 wcfdr-py-4">
-                    {editingRow === row.post_id ? (
-                      <div className="wcfdr-space-y-2">
-                        <textarea
-                          value={editValue}
-                          onChange={(e) => setEditValue(e.target.value)}
-                          rows={3}
-                          className="wcfdr-w-full wcfdr-text-sm wcfdr-font-mono wcfdr-rounded-md wcfdr-border-gray-300 wcfdr-shadow-sm focus:wcfdr-border-blue-500 focus:wcfdr-ring-blue-500"
-                        />
-                        <div className="wcfdr-flex wcfdr-space-x-2">
-                          <button
-                            onClick={() => handleSave(row)}
-                            disabled={isUpdating}
-                            className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-2 wcfdr-py-1 wcfdr-text-xs wcfdr-font-medium wcfdr-rounded wcfdr-text-white wcfdr-bg-green-600 hover:wcfdr-bg-green-700 disabled:wcfdr-opacity-50 disabled:wcfdr-cursor-not-allowed"
-                          >
-                            {isUpdating ? 'Saving...' : 'Save'}
-                          </button>
-                          <button
-                            onClick={handleCancel}
-                            disabled={isUpdating}
-                            className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-2 wcfdr-py-1 wcfdr-text-xs wcfdr-font-medium wcfdr-rounded wcfdr-text-gray-700 wcfdr-bg-gray-100 hover:wcfdr-bg-gray-200 disabled:wcfdr-opacity-50 disabled:wcfdr-cursor-not-allowed"
-                          >
-                            Cancel
-                          </button>
-                        </div>
-                      </div>
-                    ) : (
-                      <div className="wcfdr-text-sm wcfdr-text-gray-900 wcfdr-font-mono wcfdr-max-w-xs wcfdr-break-words">
-                        {row.meta_value}
-                      </div>
-                    )}
-                  </td>
-
-                  {/* Status */}
-                  <td className="wcfdr-px-6 wcfdr-py-4 wcfdr-whitespace-nowrap">
-                    <div className="wcfdr-flex wcfdr-items-center wcfdr-space-x-2">
-                      {row.is_modified && (
-                        <span className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-2.5 wcfdr-py-0.5 wcfdr-rounded-full wcfdr-text-xs wcfdr-font-medium wcfdr-bg-yellow-100 wcfdr-text-yellow-800">
-                          <AlertTriangle className="wcfdr-h-3 wcfdr-w-3 wcfdr-mr-1" />
-                          Modified
-                        </span>
-                      )}
-                      {row.has_backup && (
-                        <span className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-2.5 wcfdr-py-0.5 wcfdr-rounded-full wcfdr-text-xs wcfdr-font-medium wcfdr-bg-green-100 wcfdr-text-green-800">
-                          <CheckCircle className="wcfdr-h-3 wcfdr-w-3 wcfdr-mr-1" />
-                          Backup
-                        </span>
-                      )}
-                    </div>
-                  </td>
-
-                  {/* Actions */}
-                  <td className="wcfdr-px-6 wcfdr-py-4 wcfdr-whitespace-nowrap wcfdr-text-sm wcfdr-font-medium">
-                    <div className="wcfdr-flex wcfdr-items-center wcfdr-space-x-2">
-                      {editingRow !== row.post_id ? (
-                        <button
-                          onClick={() => handleEdit(row)}
-                          disabled={isUpdating}
-                          className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-2 wcfdr-py-1 wcfdr-text-xs wcfdr-font-medium wcfdr-rounded wcfdr-text-blue-700 wcfdr-bg-blue-100 hover:wcfdr-bg-blue-200 disabled:wcfdr-opacity-50 disabled:wcfdr-cursor-not-allowed"
-                        >
-                          <Edit className="wcfdr-h-3 wcfdr-w-3 wcfdr-mr-1" />
-                          Edit
-                        </button>
-                      ) : null}
-                      
-                      {row.has_backup && (
-                        <button
-                          onClick={() => handleRestore(row)}
-                          disabled={isUpdating}
-                          className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-2 wcfdr-py-1 wcfdr-text-xs wcfdr-font-medium wcfdr-rounded wcfdr-text-orange-700 wcfdr-bg-orange-100 hover:wcfdr-bg-orange-200 disabled:wcfdr-opacity-50 disabled:wcfdr-cursor-not-allowed"
-                        >
-                          <RotateCcw className="wcfdr-h-3 wcfdr-w-3 wcfdr-mr-1" />
-                          Restore
-                        </button>
-                      )}
-                    </div>
-                  </td>
-                </tr>
-              );
-            })}
-          </tbody>
+          <VirtualTableBody
+            items={items}
+            itemKey={resultItemKey}
+            renderItem={renderItem}
+            scrollRef={scrollRef}
+            columnCount={visibleColumns.length + 2}
+            fixedHeight={(item) => (item.type === 'row' && isCompactRow(item.row) ? COMPACT_ROW_HEIGHT : undefined)}
+            estimatedHeight={columnPrefs.compact ? COMPACT_ROW_HEIGHT : 72}
+            activeIndex={activeIndex}
+            className="wcfdr-bg-white wcfdr-divide-y wcfdr-divide-gray-200"
+          />
         </table>
       </div>
 
+      {/* Rows loaded as you scroll */}
+      {isCursor && results.rows.length > 0 && (
+        <div className="wcfdr-px-6 wcfdr-py-4 wcfdr-border-t wcfdr-border-gray-200">
+          <div className="wcfdr-flex wcfdr-items-center wcfdr-justify-between">
+            <div className="wcfdr-text-sm wcfdr-text-gray-700">
+              Showing {results.rows.length} of {results.total} total results
+            </div>
+            {isLoadingMore ? (
+              <span className="wcfdr-inline-flex wcfdr-items-center wcfdr-text-sm wcfdr-text-gray-500">
+                <Loader2 className="wcfdr-h-4 wcfdr-w-4 wcfdr-mr-2 wcfdr-animate-spin" />
+                Loading more...
+              </span>
+            ) : canLoadMore ? (
+              <button
+                onClick={() => onLoadMore!()}
+                className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-3 wcfdr-py-2 wcfdr-border wcfdr-border-gray-300 wcfdr-shadow-sm wcfdr-text-sm wcfdr-font-medium wcfdr-rounded-md wcfdr-text-gray-700 wcfdr-bg-white hover:wcfdr-bg-gray-50"
+              >
+                Load more
+              </button>
+            ) : (
+              <span className="wcfdr-text-sm wcfdr-text-gray-500">
+                All results loaded
+              </span>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Pagination */}
-      {results.total_pages > 1 && (
+      {!isCursor && results.total_pages > 1 && (
         <div className="wcfdr-px-6 wcfdr-py-4 wcfdr-border-t wcfdr-border-gray-200">
           <div className="wcfdr-flex wcfdr-items-center wcfdr-justify-between">
             <div className="wcfdr-text-sm wcfdr-text-gray-700">
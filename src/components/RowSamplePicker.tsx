@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from 'react';
+import { Database, Loader2 } from 'lucide-react';
+import { useDataReplacerStore } from '../store/dataReplacerStore';
+import { api } from '../services/api';
+import type { SearchResult } from '../types';
+
+interface RowSamplePickerProps {
+  onLoad: (rows: SearchResult[]) => void;
+  loadedCount: number;
+}
+
+type RowSource = 'search' | 'query';
+
+const ROW_LIMITS = [10, 25, 50, 100];
+
+/**
+ * Picks real meta rows for the Live Tester, either from the current search results or by
+ * fetching the first rows of a post type and meta key. Nothing is written.
+ */
+export const RowSamplePicker: React.FC<RowSamplePickerProps> = ({ onLoad, loadedCount }) => {
+  const { searchResults, postTypes, getPostTypes } = useDataReplacerStore();
+  const searchRows = searchResults?.rows ?? [];
+
+  const [source, setSource] = useState<RowSource>(searchRows.length > 0 ? 'search' : 'query');
+  const [limit, setLimit] = useState(25);
+  const [postType, setPostType] = useState('');
+  const [metaKey, setMetaKey] = useState('');
+  // Kept local: the store's meta key list belongs to the search filters
+  const [metaKeys, setMetaKeys] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (postTypes.length === 0) {
+      getPostTypes();
+    }
+  }, [postTypes.length, getPostTypes]);
+
+  useEffect(() => {
+    let cancelled = false;
+    api.getMetaKeys(postType || undefined)
+      .then(keys => {
+        if (!cancelled) setMetaKeys(keys);
+      })
+      .catch(error => console.warn('Failed to load meta keys for the Live Tester:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [postType]);
+
+  const handleLoad = async () => {
+    setError(null);
+
+    if (source === 'search') {
+      onLoad(searchRows.slice(0, limit));
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const results = await api.search({ post_type: postType, meta_key: metaKey.trim(), per_page: limit, page: 1 });
+      if (results.rows.length === 0) {
+        setError('No rows found for this post type and meta key.');
+      }
+      onLoad(results.rows);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load rows');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="wcfdr-space-y-3 wcfdr-border wcfdr-border-gray-200 wcfdr-rounded-md wcfdr-p-3">
+      <div className="wcfdr-flex wcfdr-space-x-4 wcfdr-text-sm">
+        <label className="wcfdr-inline-flex wcfdr-items-center">
+          <input
+            type="radio"
+            checked={source === 'search'}
+            onChange={() => setSource('search')}
+            disabled={searchRows.length === 0}
+            className="wcfdr-mr-2"
+          />
+          Current search results ({searchRows.length})
+        </label>
+        <label className="wcfdr-inline-flex wcfdr-items-center">
+          <input
+            type="radio"
+            checked={source === 'query'}
+            onChange={() => setSource('query')}
+            className="wcfdr-mr-2"
+          />
+          Post type and meta key
+        </label>
+      </div>
+
+      {source === 'query' && (
+        <div className="wcfdr-grid wcfdr-grid-cols-2 wcfdr-gap-3">
+          <select
+            value={postType}
+            onChange={(e) => setPostType(e.target.value)}
+            className="wcfdr-w-full wcfdr-text-sm wcfdr-rounded-md wcfdr-border-gray-300 wcfdr-shadow-sm focus:wcfdr-border-blue-500 focus:wcfdr-ring-blue-500"
+          >
+            <option value="">All post types</option>
+            {postTypes.map(type => (
+              <option key={type.value} value={type.value}>{type.label}</option>
+            ))}
+          </select>
+          <input
+            value={metaKey}
+            onChange={(e) => setMetaKey(e.target.value)}
+            list="wcfdr-live-tester-meta-keys"
+            placeholder="Meta key..."
+            className="wcfdr-w-full wcfdr-text-sm wcfdr-font-mono wcfdr-rounded-md wcfdr-border-gray-300 wcfdr-shadow-sm focus:wcfdr-border-blue-500 focus:wcfdr-ring-blue-500"
+          />
+          <datalist id="wcfdr-live-tester-meta-keys">
+            {metaKeys.map(key => (
+              <option key={key} value={key} />
+            ))}
+          </datalist>
+        </div>
+      )}
+
+      <div className="wcfdr-flex wcfdr-items-center wcfdr-justify-between">
+        <label className="wcfdr-inline-flex wcfdr-items-center wcfdr-text-sm wcfdr-text-gray-700">
+          Test up to
+          <select
+            value={limit}
+            onChange={(e) => setLimit(Number(e.target.value))}
+            className="wcfdr-mx-2 wcfdr-text-sm wcfdr-rounded-md wcfdr-border-gray-300 wcfdr-shadow-sm focus:wcfdr-border-blue-500 focus:wcfdr-ring-blue-500"
+          >
+            {ROW_LIMITS.map(value => (
+              <option key={value} value={value}>{value}</option>
+            ))}
+          </select>
+          rows
+        </label>
+        <button
+          onClick={handleLoad}
+          disabled={isLoading || (source === 'query' && !metaKey.trim())}
+          className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-3 wcfdr-py-1.5 wcfdr-border wcfdr-border-gray-300 wcfdr-shadow-sm wcfdr-text-xs wcfdr-font-medium wcfdr-rounded wcfdr-text-gray-700 wcfdr-bg-white hover:wcfdr-bg-gray-50 disabled:wcfdr-opacity-50"
+        >
+          {isLoading ? (
+            <Loader2 className="wcfdr-h-3 wcfdr-w-3 wcfdr-mr-1 wcfdr-animate-spin" />
+          ) : (
+            <Database className="wcfdr-h-3 wcfdr-w-3 wcfdr-mr-1" />
+          )}
+          Load Rows
+        </button>
+      </div>
+
+      {error && <p className="wcfdr-text-xs wcfdr-text-red-700">{error}</p>}
+      {loadedCount > 0 && (
+        <p className="wcfdr-text-xs wcfdr-text-gray-500">
+          {loadedCount} row{loadedCount !== 1 ? 's' : ''} loaded. Tests run in the browser only.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, AlertTriangle } from 'lucide-react';
+import { DiffViewer } from './DiffViewer';
+import type { RowTestResult } from '../types';
+
+interface RowTestResultsProps {
+  results: RowTestResult[];
+}
+
+/**
+ * Per-row outcome of a Live Tester run against real meta rows: match counts for every
+ * row, and the before/after of any row that is expanded
+ */
+export const RowTestResults: React.FC<RowTestResultsProps> = ({ results }) => {
+  const [onlyMatching, setOnlyMatching] = useState(true);
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+
+  const matchingRows = results.filter(({ row, result }) => result.newText !== row.meta_value);
+  const totalMatches = results.reduce((sum, { result }) => sum + result.matchCount, 0);
+  const totalTime = results.reduce((sum, { result }) => sum + result.processingTime, 0);
+  const warningRows = results.filter(({ result }) => result.warnings.length > 0).length;
+  const visible = onlyMatching ? matchingRows : results;
+
+  const toggle = (metaId: number) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(metaId)) {
+        next.delete(metaId);
+      } else {
+        next.add(metaId);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="wcfdr-space-y-3">
+      <div className="wcfdr-grid wcfdr-grid-cols-3 wcfdr-gap-3 wcfdr-text-center">
+        <div className="wcfdr-bg-white wcfdr-border wcfdr-border-gray-200 wcfdr-rounded-md wcfdr-p-2">
+          <div className="wcfdr-text-lg wcfdr-font-semibold wcfdr-text-gray-900">{matchingRows.length} / {results.length}</div>
+          <div className="wcfdr-text-xs wcfdr-text-gray-500">Rows changed</div>
+        </div>
+        <div className="wcfdr-bg-white wcfdr-border wcfdr-border-gray-200 wcfdr-rounded-md wcfdr-p-2">
+          <div className="wcfdr-text-lg wcfdr-font-semibold wcfdr-text-gray-900">{totalMatches}</div>
+          <div className="wcfdr-text-xs wcfdr-text-gray-500">Matches</div>
+        </div>
+        <div className="wcfdr-bg-white wcfdr-border wcfdr-border-gray-200 wcfdr-rounded-md wcfdr-p-2">
+          <div className="wcfdr-text-lg wcfdr-font-semibold wcfdr-text-gray-900">{totalTime.toFixed(1)}ms</div>
+          <div className="wcfdr-text-xs wcfdr-text-gray-500">Execution time</div>
+        </div>
+      </div>
+
+      {warningRows > 0 && (
+        <div className="wcfdr-flex wcfdr-items-center wcfdr-text-xs wcfdr-text-yellow-800">
+          <AlertTriangle className="wcfdr-h-3 wcfdr-w-3 wcfdr-mr-1" />
+          {warningRows} row{warningRows !== 1 ? 's have' : ' has'} warnings; expand them for details.
+        </div>
+      )}
+
+      <label className="wcfdr-inline-flex wcfdr-items-center wcfdr-text-sm wcfdr-text-gray-700">
+        <input
+          type="checkbox"
+          checked={onlyMatching}
+          onChange={(e) => setOnlyMatching(e.target.checked)}
+          className="wcfdr-mr-2 wcfdr-rounded wcfdr-border-gray-300 wcfdr-text-blue-600 focus:wcfdr-ring-blue-500"
+        />
+        Only show rows that would change
+      </label>
+
+      <div className="wcfdr-border wcfdr-border-gray-200 wcfdr-rounded-md wcfdr-divide-y wcfdr-divide-gray-100 wcfdr-bg-white wcfdr-max-h-96 wcfdr-overflow-auto">
+        {visible.length === 0 && (
+          <p className="wcfdr-p-3 wcfdr-text-sm wcfdr-text-gray-500">No loaded row would change.</p>
+        )}
+        {visible.map(({ row, result }) => {
+          const isOpen = expanded.has(row.meta_id);
+          const changed = result.newText !== row.meta_value;
+          return (
+            <div key={row.meta_id}>
+              <button
+                onClick={() => toggle(row.meta_id)}
+                className="wcfdr-w-full wcfdr-flex wcfdr-items-center wcfdr-justify-between wcfdr-px-3 wcfdr-py-2 wcfdr-text-left hover:wcfdr-bg-gray-50"
+              >
+                <span className="wcfdr-flex wcfdr-items-center wcfdr-min-w-0">
+                  {isOpen ? (
+                    <ChevronDown className="wcfdr-h-4 wcfdr-w-4 wcfdr-mr-1 wcfdr-flex-shrink-0 wcfdr-text-gray-400" />
+                  ) : (
+                    <ChevronRight className="wcfdr-h-4 wcfdr-w-4 wcfdr-mr-1 wcfdr-flex-shrink-0 wcfdr-text-gray-400" />
+                  )}
+                  <span className="wcfdr-truncate wcfdr-text-sm wcfdr-text-gray-900">
+                    {row.post_title || `#${row.post_id}`}
+                  </span>
+                  <code className="wcfdr-ml-2 wcfdr-text-xs wcfdr-text-gray-500 wcfdr-truncate">{row.meta_key}</code>
+                </span>
+                <span className="wcfdr-flex wcfdr-items-center wcfdr-space-x-2 wcfdr-flex-shrink-0 wcfdr-ml-2">
+                  {result.warnings.length > 0 && (
+                    <AlertTriangle className="wcfdr-h-3 wcfdr-w-3 wcfdr-text-yellow-500" />
+                  )}
+                  <span className={`wcfdr-inline-flex wcfdr-items-center wcfdr-px-2 wcfdr-py-0.5 wcfdr-rounded-full wcfdr-text-xs wcfdr-font-medium ${
+                    result.matchCount > 0
+                      ? 'wcfdr-bg-green-100 wcfdr-text-green-800'
+                      : 'wcfdr-bg-gray-100 wcfdr-text-gray-800'
+                  }`}>
+                    {result.matchCount} match{result.matchCount !== 1 ? 'es' : ''}
+                  </span>
+                </span>
+              </button>
+              {isOpen && (
+                <div className="wcfdr-px-3 wcfdr-pb-3 wcfdr-space-y-2">
+                  {result.warnings.length > 0 && (
+                    <ul className="wcfdr-list-disc wcfdr-list-inside wcfdr-text-xs wcfdr-text-yellow-800">
+                      {result.warnings.map((warning, index) => (
+                        <li key={index}>{warning}</li>
+                      ))}
+                    </ul>
+                  )}
+                  {changed ? (
+                    <DiffViewer before={row.meta_value} after={result.newText} matchCount={result.matchCount} compact />
+                  ) : (
+                    <p className="wcfdr-text-xs wcfdr-text-gray-500">This value would not change.</p>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
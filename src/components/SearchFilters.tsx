@@ -1,9 +1,18 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Search, Filter, X, ChevronDown, Loader2, Check, ChevronsUpDown } from 'lucide-react';
+import { Search, Filter, X, ChevronDown } from 'lucide-react';
 import { useDataReplacerStore } from '../store/dataReplacerStore';
+import { MultiSelect } from './ui/MultiSelect';
+import { keyPatternToRegExp } from '../utils/scope';
+import { availableSources, sourceInfo } from '../utils/dataSources';
+import { countConditions, emptyGroup, fromSearchFilters, keepApplicable, toSearchFilters } from '../utils/filters';
+import { FilterBuilder } from './FilterBuilder';
+import type { MultiSelectOption } from './ui/MultiSelect';
+import type { DataSource, FilterGroup, SearchParams } from '../types';
 
 interface SearchFiltersProps {
-  onSearch: (filters: any) => void;
+  // The search shown in the form, such as one restored from the address
+  filters?: SearchParams | null;
+  onSearch: (filters: SearchParams) => void;
   onClear: () => void;
   isLoading: boolean;
   settings?: {
@@ -11,44 +20,47 @@ interface SearchFiltersProps {
   };
 }
 
+type KeyMode = 'keys' | 'pattern' | 'all';
+
+const keyModes: { value: KeyMode; label: string }[] = [
+  { value: 'keys', label: 'Pick' },
+  { value: 'pattern', label: 'Pattern' },
+  { value: 'all', label: 'All' }
+];
+
+// Compares searches without the page, sort and pagination mode, which change as results are browsed
+const searchKey = (filters: SearchParams): string =>
+  JSON.stringify({ ...filters, page: undefined, orderby: undefined, order: undefined, pagination: undefined, cursor: undefined });
+
 export const SearchFilters: React.FC<SearchFiltersProps> = ({ 
+  filters,
   onSearch, 
   onClear, 
   isLoading,
   settings
 }) => {
-  const [postType, setPostType] = useState('');
-  const [metaKey, setMetaKey] = useState('');
+  const [source, setSource] = useState<DataSource>('postmeta');
+  const [selectedPostTypes, setSelectedPostTypes] = useState<string[]>([]);
+  const [keyMode, setKeyMode] = useState<KeyMode>('keys');
+  const [selectedMetaKeys, setSelectedMetaKeys] = useState<string[]>([]);
+  const [keyPattern, setKeyPattern] = useState('');
   const [value, setValue] = useState('');
   const [caseSensitive, setCaseSensitive] = useState(false);
   const [useRegex, setUseRegex] = useState(false);
   const [perPage, setPerPage] = useState(settings?.maxResultsPerPage || 20);
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const [filterGroup, setFilterGroup] = useState<FilterGroup>(emptyGroup());
+  // The last search this form sent, so it is not reloaded into the form while being edited
+  const lastSearch = useRef<string | null>(null);
   const [isLoadingMetaKeys, setIsLoadingMetaKeys] = useState(false);
-  
-  // Searchable dropdown states for Post Type
-  const [postTypeSearch, setPostTypeSearch] = useState('');
-  const [showPostTypeDropdown, setShowPostTypeDropdown] = useState(false);
-  const [selectedPostTypeIndex, setSelectedPostTypeIndex] = useState(-1);
-  
-  // Searchable dropdown states for Meta Key
-  const [metaKeySearch, setMetaKeySearch] = useState('');
-  const [showMetaKeyDropdown, setShowMetaKeyDropdown] = useState(false);
-  const [selectedMetaKeyIndex, setSelectedMetaKeyIndex] = useState(-1);
-
-  // Refs for click outside handling
-  const postTypeRef = useRef<HTMLDivElement>(null);
-  const metaKeyRef = useRef<HTMLDivElement>(null);
 
   // Get post types and meta keys from the store
   const { postTypes, metaKeys, getPostTypes, getMetaKeys } = useDataReplacerStore();
 
-  // Load post types and meta keys when component mounts
+  // Load post types when component mounts
   useEffect(() => {
     getPostTypes();
-    // Also load meta keys for all post types initially
-    getMetaKeys();
-  }, [getPostTypes, getMetaKeys]);
+  }, [getPostTypes]);
 
   // Update perPage when settings change
   useEffect(() => {
@@ -57,152 +69,123 @@ export const SearchFilters: React.FC<SearchFiltersProps> = ({
     }
   }, [settings?.maxResultsPerPage]);
 
-  // Load meta keys when post type changes
+  // Fill the form from a search it did not send: the one in the address, or one back/forward returned to
   useEffect(() => {
-    if (postType) {
-      console.log('📝 Post type changed to:', postType);
-      setIsLoadingMetaKeys(true);
-      getMetaKeys(postType).finally(() => {
-        setIsLoadingMetaKeys(false);
-      });
-      // Clear meta key when post type changes
-      setMetaKey('');
-      setMetaKeySearch('');
-      setSelectedMetaKeyIndex(-1);
-    } else {
-      // Clear meta keys when no post type is selected
-      setMetaKey('');
-      setMetaKeySearch('');
-      setSelectedMetaKeyIndex(-1);
+    if (!filters) {
+      lastSearch.current = null;
+      resetFields();
+      return;
     }
-  }, [postType, getMetaKeys]);
-
-  // Click outside handlers
-  useEffect(() => {
-    const handleClickOutside = (event: MouseEvent) => {
-      if (postTypeRef.current && !postTypeRef.current.contains(event.target as Node)) {
-        setShowPostTypeDropdown(false);
-        setSelectedPostTypeIndex(-1);
-      }
-      if (metaKeyRef.current && !metaKeyRef.current.contains(event.target as Node)) {
-        setShowMetaKeyDropdown(false);
-        setSelectedMetaKeyIndex(-1);
-      }
-    };
+    if (lastSearch.current === searchKey(filters)) {
+      return;
+    }
+    lastSearch.current = searchKey(filters);
 
-    document.addEventListener('mousedown', handleClickOutside);
-    return () => {
-      document.removeEventListener('mousedown', handleClickOutside);
-    };
-  }, []);
+    const metaKeyList = filters.meta_keys?.length ? filters.meta_keys : filters.meta_key ? [filters.meta_key] : [];
+    setSource(filters.source ?? 'postmeta');
+    setSelectedPostTypes(filters.post_types?.length ? filters.post_types : filters.post_type ? [filters.post_type] : []);
+    setKeyMode(filters.all_meta_keys ? 'all' : filters.meta_key_pattern ? 'pattern' : 'keys');
+    setSelectedMetaKeys(metaKeyList);
+    setKeyPattern(filters.meta_key_pattern ?? '');
+    setValue(filters.value ?? '');
+    setCaseSensitive(!!filters.case_sensitive);
+    setUseRegex(!!filters.regex);
+    if (filters.per_page) {
+      setPerPage(filters.per_page);
+    }
+    setFilterGroup(fromSearchFilters(filters.filters));
+    if (filters.filters || filters.case_sensitive || filters.regex) {
+      setShowAdvanced(true);
+    }
+  }, [filters]);
 
-  // Filter post types based on search input
-  const filteredPostTypes = postTypes.filter(type => 
-    type.label.toLowerCase().includes(postTypeSearch.toLowerCase()) ||
-    type.value.toLowerCase().includes(postTypeSearch.toLowerCase())
-  );
+  const sources = availableSources();
+  const info = sourceInfo(source);
 
-  // Filter meta keys based on search input
-  const filteredMetaKeys = metaKeys.filter(key => 
-    key.toLowerCase().includes(metaKeySearch.toLowerCase())
-  );
+  // Suggest the keys of a single chosen post type, otherwise keys across all post types
+  const keySource = info.postTypes && selectedPostTypes.length === 1 ? selectedPostTypes[0] : '';
+  useEffect(() => {
+    if (!info.keyed) {
+      return;
+    }
+    setIsLoadingMetaKeys(true);
+    getMetaKeys(keySource || undefined, source).finally(() => {
+      setIsLoadingMetaKeys(false);
+    });
+  }, [source, info.keyed, keySource, getMetaKeys]);
 
-  const handlePostTypeSelect = (selectedType: any) => {
-    setPostType(selectedType.value);
-    setPostTypeSearch(selectedType.label);
-    setShowPostTypeDropdown(false);
-    setSelectedPostTypeIndex(-1);
+  // Keys and post types chosen for one source mean nothing in another
+  const handleSourceChange = (next: DataSource) => {
+    setSource(next);
+    setSelectedMetaKeys([]);
+    setKeyPattern('');
+    setKeyMode('keys');
+    if (!sourceInfo(next).postTypes) {
+      setSelectedPostTypes([]);
+    }
+    setFilterGroup(keepApplicable(filterGroup, next));
   };
 
-  const handleMetaKeySelect = (selectedKey: string) => {
-    setMetaKey(selectedKey);
-    setMetaKeySearch(selectedKey);
-    setShowMetaKeyDropdown(false);
-    setSelectedMetaKeyIndex(-1);
-  };
+  const postTypeOptions: MultiSelectOption[] = postTypes.map(type => ({
+    value: type.value,
+    label: type.label,
+    hint: `${type.value} (${type.count})`
+  }));
 
-  const handlePostTypeKeyDown = (e: React.KeyboardEvent) => {
-    if (!showPostTypeDropdown) return;
-
-    switch (e.key) {
-      case 'ArrowDown':
-        e.preventDefault();
-        setSelectedPostTypeIndex(prev => 
-          prev < filteredPostTypes.length - 1 ? prev + 1 : prev
-        );
-        break;
-      case 'ArrowUp':
-        e.preventDefault();
-        setSelectedPostTypeIndex(prev => prev > 0 ? prev - 1 : -1);
-        break;
-      case 'Enter':
-        e.preventDefault();
-        if (selectedPostTypeIndex >= 0 && filteredPostTypes[selectedPostTypeIndex]) {
-          handlePostTypeSelect(filteredPostTypes[selectedPostTypeIndex]);
-        }
-        break;
-      case 'Escape':
-        setShowPostTypeDropdown(false);
-        setSelectedPostTypeIndex(-1);
-        break;
-    }
-  };
+  const metaKeyOptions: MultiSelectOption[] = metaKeys.map(key => ({ value: key, label: key }));
 
-  const handleMetaKeyKeyDown = (e: React.KeyboardEvent) => {
-    if (!showMetaKeyDropdown) return;
-
-    switch (e.key) {
-      case 'ArrowDown':
-        e.preventDefault();
-        setSelectedMetaKeyIndex(prev => 
-          prev < filteredMetaKeys.length - 1 ? prev + 1 : prev
-        );
-        break;
-      case 'ArrowUp':
-        e.preventDefault();
-        setSelectedMetaKeyIndex(prev => prev > 0 ? prev - 1 : -1);
-        break;
-      case 'Enter':
-        e.preventDefault();
-        if (selectedMetaKeyIndex >= 0 && filteredMetaKeys[selectedMetaKeyIndex]) {
-          handleMetaKeySelect(filteredMetaKeys[selectedMetaKeyIndex]);
-        }
-        break;
-      case 'Escape':
-        setShowMetaKeyDropdown(false);
-        setSelectedMetaKeyIndex(-1);
-        break;
-    }
-  };
+  const keyPatternMatches = keyMode === 'pattern' && keyPattern
+    ? metaKeys.filter(key => keyPatternToRegExp(keyPattern).test(key)).length
+    : 0;
+
+  const activeFilters = toSearchFilters(filterGroup, source);
+  const activeFilterCount = activeFilters ? countConditions(activeFilters) : 0;
+
+  const hasKeyScope = !info.keyed
+    || keyMode === 'all'
+    || (keyMode === 'keys' && selectedMetaKeys.length > 0)
+    || (keyMode === 'pattern' && keyPattern.trim() !== '');
 
   const handleSearch = () => {
-    const filters = {
-      post_type: postType,
-      meta_key: metaKey,
+    // A single post type or key still goes in post_type and meta_key, which older screens read
+    const search: SearchParams = {
+      source: source !== 'postmeta' ? source : undefined,
+      post_type: selectedPostTypes.length === 1 ? selectedPostTypes[0] : '',
+      post_types: selectedPostTypes.length > 1 ? selectedPostTypes : undefined,
+      meta_key: keyMode === 'keys' && selectedMetaKeys.length === 1 ? selectedMetaKeys[0] : '',
+      meta_keys: keyMode === 'keys' && selectedMetaKeys.length > 1 ? selectedMetaKeys : undefined,
+      meta_key_pattern: keyMode === 'pattern' ? keyPattern.trim() : undefined,
+      all_meta_keys: keyMode === 'all' || undefined,
+      filters: activeFilters,
       value: value,
       case_sensitive: caseSensitive,
       regex: useRegex,
       per_page: perPage
     };
-    console.log('🔍 Searching with filters:', filters);
-    onSearch(filters);
+    console.log('🔍 Searching with filters:', search);
+    lastSearch.current = searchKey(search);
+    onSearch(search);
   };
 
-  const handleClear = () => {
-    setPostType('');
-    setPostTypeSearch('');
-    setMetaKey('');
-    setMetaKeySearch('');
+  const resetFields = () => {
+    setSource('postmeta');
+    setSelectedPostTypes([]);
+    setKeyMode('keys');
+    setSelectedMetaKeys([]);
+    setKeyPattern('');
     setValue('');
     setCaseSensitive(false);
     setUseRegex(false);
+    setFilterGroup(emptyGroup());
     setPerPage(settings?.maxResultsPerPage || 20);
-    setSelectedPostTypeIndex(-1);
-    setSelectedMetaKeyIndex(-1);
+  };
+
+  const handleClear = () => {
+    resetFields();
     onClear();
   };
 
-  const hasFilters = postType || metaKey || value || caseSensitive || useRegex;
+  const hasFilters = source !== 'postmeta' || selectedPostTypes.length > 0 || selectedMetaKeys.length > 0 || keyPattern || keyMode === 'all' || value || caseSensitive || useRegex || activeFilterCount > 0;
 
   return (
     <div className="wcfdr-bg-white wcfdr-rounded-lg wcfdr-shadow wcfdr-p-6">
@@ -218,6 +201,11 @@ export const SearchFilters: React.FC<SearchFiltersProps> = ({
           className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-3 wcfdr-py-1.5 wcfdr-text-sm wcfdr-font-medium wcfdr-text-gray-600 wcfdr-bg-gray-100 wcfdr-rounded-md hover:wcfdr-bg-gray-200"
         >
           Advanced
+          {activeFilterCount > 0 && (
+            <span className="wcfdr-ml-1.5 wcfdr-inline-flex wcfdr-items-center wcfdr-px-1.5 wcfdr-rounded-full wcfdr-text-xs wcfdr-bg-blue-100 wcfdr-text-blue-800">
+              {activeFilterCount}
+            </span>
+          )}
           <ChevronDown className={`wcfdr-h-4 wcfdr-w-4 wcfdr-ml-1 wcfdr-transition-transform ${
             showAdvanced ? 'wcfdr-rotate-180' : ''
           }`} />
@@ -225,139 +213,105 @@ export const SearchFilters: React.FC<SearchFiltersProps> = ({
       </div>
 
       <div className="wcfdr-grid wcfdr-grid-cols-1 wcfdr-gap-4 md:wcfdr-grid-cols-2 lg:wcfdr-grid-cols-3">
-        {/* Post Type - Searchable Dropdown */}
-        <div ref={postTypeRef}>
+        {/* Data Source */}
+        <div>
           <label className="wcfdr-block wcfdr-text-sm wcfdr-font-medium wcfdr-text-gray-700 wcfdr-mb-2">
-            Post Type
+            Data Source
           </label>
-          <div className="wcfdr-relative">
-            <div className="wcfdr-relative">
-              <input
-                type="text"
-                value={postTypeSearch}
-                onChange={(e) => {
-                  setPostTypeSearch(e.target.value);
-                  setShowPostTypeDropdown(true);
-                  setSelectedPostTypeIndex(-1);
-                }}
-                onFocus={() => setShowPostTypeDropdown(true)}
-                onKeyDown={handlePostTypeKeyDown}
-                placeholder="Search post types..."
-                className="wcfdr-w-full wcfdr-rounded-md wcfdr-border-gray-300 wcfdr-shadow-sm focus:wcfdr-border-blue-500 focus:wcfdr-ring-blue-500 wcfdr-pr-10"
-              />
-              <button
-                type="button"
-                onClick={() => setShowPostTypeDropdown(!showPostTypeDropdown)}
-                className="wcfdr-absolute wcfdr-inset-y-0 wcfdr-right-0 wcfdr-flex wcfdr-items-center wcfdr-pr-3"
-              >
-                <ChevronsUpDown className="wcfdr-h-4 wcfdr-w-4 wcfdr-text-gray-400" />
-              </button>
-            </div>
-
-            {/* Post Type Dropdown */}
-            {showPostTypeDropdown && (
-              <div className="wcfdr-absolute wcfdr-z-10 wcfdr-w-full wcfdr-mt-1 wcfdr-bg-white wcfdr-border wcfdr-border-gray-300 wcfdr-rounded-md wcfdr-shadow-lg wcfdr-max-h-60 wcfdr-overflow-auto">
-                {filteredPostTypes.length > 0 ? (
-                  filteredPostTypes.map((type, index) => (
-                    <button
-                      key={type.value}
-                      type="button"
-                      onClick={() => handlePostTypeSelect(type)}
-                      className={`wcfdr-w-full wcfdr-text-left wcfdr-px-3 wcfdr-py-2 wcfdr-text-sm wcfdr-text-gray-700 hover:wcfdr-bg-gray-100 wcfdr-flex wcfdr-items-center wcfdr-justify-between ${
-                        index === selectedPostTypeIndex ? 'wcfdr-bg-blue-50 wcfdr-text-blue-900' : ''
-                      }`}
-                    >
-                      <div>
-                        <div className="wcfdr-font-medium">{type.label}</div>
-                        <div className="wcfdr-text-xs wcfdr-text-gray-500">{type.value} ({type.count})</div>
-                      </div>
-                      {postType === type.value && <Check className="wcfdr-h-4 wcfdr-w-4 wcfdr-text-blue-600" />}
-                    </button>
-                  ))
-                ) : (
-                  <div className="wcfdr-px-3 wcfdr-py-2 wcfdr-text-sm wcfdr-text-gray-500">
-                    No post types found
-                  </div>
-                )}
-              </div>
-            )}
-          </div>
-          
+          <select
+            value={source}
+            onChange={(e) => handleSourceChange(e.target.value as DataSource)}
+            className="wcfdr-w-full wcfdr-rounded-md wcfdr-border-gray-300 wcfdr-shadow-sm focus:wcfdr-border-blue-500 focus:wcfdr-ring-blue-500"
+          >
+            {sources.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
           <p className="wcfdr-mt-1 wcfdr-text-xs wcfdr-text-gray-500">
-            {postTypes.length} post type{postTypes.length !== 1 ? 's' : ''} available
+            {info.keyed ? `Searches ${info.label.toLowerCase()} by key and value` : `Searches the ${info.label.toLowerCase()} of every post`}
           </p>
         </div>
 
-        {/* Meta Key - Searchable Dropdown */}
-        <div ref={metaKeyRef}>
-          <label className="wcfdr-block wcfdr-text-sm wcfdr-font-medium wcfdr-text-gray-700 wcfdr-mb-2">
-            Meta Key
-          </label>
-          <div className="wcfdr-relative">
-            <div className="wcfdr-relative">
+        {/* Post Types */}
+        {info.postTypes && (
+          <div>
+            <label className="wcfdr-block wcfdr-text-sm wcfdr-font-medium wcfdr-text-gray-700 wcfdr-mb-2">
+              Post Types
+            </label>
+            <MultiSelect
+              options={postTypeOptions}
+              selected={selectedPostTypes}
+              onChange={setSelectedPostTypes}
+              placeholder="All post types"
+              emptyMessage="No post types found"
+            />
+            <p className="wcfdr-mt-1 wcfdr-text-xs wcfdr-text-gray-500">
+              {selectedPostTypes.length === 0
+                ? `All ${postTypes.length} post type${postTypes.length !== 1 ? 's' : ''}`
+                : `${selectedPostTypes.length} of ${postTypes.length} selected`}
+            </p>
+          </div>
+        )}
+
+        {/* Meta Keys */}
+        {info.keyed && (
+          <div>
+            <div className="wcfdr-flex wcfdr-items-center wcfdr-justify-between wcfdr-mb-2">
+              <label className="wcfdr-block wcfdr-text-sm wcfdr-font-medium wcfdr-text-gray-700">
+                {info.keyLabel}s
+              </label>
+              <div className="wcfdr-flex wcfdr-space-x-1" role="radiogroup" aria-label="Meta key mode">
+                {keyModes.map(mode => (
+                  <button
+                    key={mode.value}
+                    type="button"
+                    role="radio"
+                    aria-checked={keyMode === mode.value}
+                    onClick={() => setKeyMode(mode.value)}
+                    className={`wcfdr-px-2 wcfdr-py-0.5 wcfdr-text-xs wcfdr-rounded ${keyMode === mode.value ? 'wcfdr-bg-blue-100 wcfdr-text-blue-800' : 'wcfdr-text-gray-600 hover:wcfdr-bg-gray-100'}`}
+                  >
+                    {mode.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {keyMode === 'keys' && (
+              <MultiSelect
+                options={metaKeyOptions}
+                selected={selectedMetaKeys}
+                onChange={setSelectedMetaKeys}
+                placeholder={isLoadingMetaKeys ? 'Loading...' : `Search ${info.keyLabel.toLowerCase()}s...`}
+                isLoading={isLoadingMetaKeys}
+                emptyMessage={`No ${info.keyLabel.toLowerCase()}s found`}
+              />
+            )}
+            {keyMode === 'pattern' && (
               <input
                 type="text"
-                value={metaKeySearch}
-                onChange={(e) => {
-                  setMetaKeySearch(e.target.value);
-                  setShowMetaKeyDropdown(true);
-                  setSelectedMetaKeyIndex(-1);
-                }}
-                onFocus={() => setShowMetaKeyDropdown(true)}
-                onKeyDown={handleMetaKeyKeyDown}
-                placeholder={!postType ? 'Select Post Type First' : isLoadingMetaKeys ? 'Loading...' : 'Search meta keys...'}
-                disabled={!postType || isLoadingMetaKeys}
-                className="wcfdr-w-full wcfdr-rounded-md wcfdr-border-gray-300 wcfdr-shadow-sm focus:wcfdr-border-blue-500 focus:wcfdr-ring-blue-500 disabled:wcfdr-opacity-50 disabled:wcfdr-cursor-not-allowed wcfdr-pr-10"
+                value={keyPattern}
+                onChange={(e) => setKeyPattern(e.target.value)}
+                placeholder="_elementor_*"
+                className="wcfdr-w-full wcfdr-font-mono wcfdr-rounded-md wcfdr-border-gray-300 wcfdr-shadow-sm focus:wcfdr-border-blue-500 focus:wcfdr-ring-blue-500"
               />
-              <button
-                type="button"
-                onClick={() => setShowMetaKeyDropdown(!showMetaKeyDropdown)}
-                disabled={!postType || isLoadingMetaKeys}
-                className="wcfdr-absolute wcfdr-inset-y-0 wcfdr-right-0 wcfdr-flex wcfdr-items-center wcfdr-pr-3"
-              >
-                {isLoadingMetaKeys ? (
-                  <Loader2 className="wcfdr-h-4 wcfdr-w-4 wcfdr-animate-spin wcfdr-text-gray-400" />
-                ) : (
-                  <ChevronsUpDown className="wcfdr-h-4 wcfdr-w-4 wcfdr-text-gray-400" />
-                )}
-              </button>
-            </div>
-
-            {/* Meta Key Dropdown */}
-            {showMetaKeyDropdown && postType && !isLoadingMetaKeys && (
-              <div className="wcfdr-absolute wcfdr-z-10 wcfdr-w-full wcfdr-mt-1 wcfdr-bg-white wcfdr-border wcfdr-border-gray-300 wcfdr-rounded-md wcfdr-shadow-lg wcfdr-max-h-60 wcfdr-overflow-auto">
-                {filteredMetaKeys.length > 0 ? (
-                  filteredMetaKeys.map((key, index) => (
-                    <button
-                      key={key}
-                      type="button"
-                      onClick={() => handleMetaKeySelect(key)}
-                      className={`wcfdr-w-full wcfdr-text-left wcfdr-px-3 wcfdr-py-2 wcfdr-text-sm wcfdr-text-gray-700 hover:wcfdr-bg-gray-100 wcfdr-flex wcfdr-items-center wcfdr-justify-between ${
-                        index === selectedMetaKeyIndex ? 'wcfdr-bg-blue-50 wcfdr-text-blue-900' : ''
-                      }`}
-                    >
-                      <span className="wcfdr-truncate">{key}</span>
-                      {metaKey === key && <Check className="wcfdr-h-4 wcfdr-w-4 wcfdr-text-blue-600" />}
-                    </button>
-                  ))
-                ) : (
-                  <div className="wcfdr-px-3 wcfdr-py-2 wcfdr-text-sm wcfdr-text-gray-500">
-                    No meta keys found
-                  </div>
-                )}
+            )}
+            {keyMode === 'all' && (
+              <div className="wcfdr-text-sm wcfdr-text-gray-700 wcfdr-bg-gray-50 wcfdr-border wcfdr-border-gray-200 wcfdr-rounded-md wcfdr-px-3 wcfdr-py-2">
+                Every {info.keyLabel.toLowerCase()} is searched; results are grouped by key.
               </div>
             )}
+
+            <p className="wcfdr-mt-1 wcfdr-text-xs wcfdr-text-gray-500">
+              {keyMode === 'keys' && (isLoadingMetaKeys
+                ? `Loading ${info.keyLabel.toLowerCase()}s...`
+                : `${metaKeys.length} ${info.keyLabel.toLowerCase()}${metaKeys.length !== 1 ? 's' : ''} found${keySource ? ` for ${keySource}` : ''}`)}
+              {keyMode === 'pattern' && (keyPattern
+                ? `* matches any characters, ? one character; ${keyPatternMatches} known key${keyPatternMatches !== 1 ? 's' : ''} match`
+                : '* matches any characters, ? one character')}
+              {keyMode === 'all' && 'Add a value filter to keep large sites fast'}
+            </p>
           </div>
-          
-          <p className="wcfdr-mt-1 wcfdr-text-xs wcfdr-text-gray-500">
-            {!postType 
-              ? 'Select a post type to see available meta keys'
-              : isLoadingMetaKeys 
-                ? 'Loading meta keys...' 
-                : `${metaKeys.length} meta key${metaKeys.length !== 1 ? 's' : ''} found for ${postType}`
-            }
-          </p>
-        </div>
+        )}
 
         {/* Value Contains */}
         <div>
@@ -368,7 +322,7 @@ export const SearchFilters: React.FC<SearchFiltersProps> = ({
             type="text"
             value={value}
             onChange={(e) => setValue(e.target.value)}
-            placeholder="Search within meta values..."
+            placeholder={info.keyed ? `Search within ${info.label.toLowerCase()} values...` : `Search within ${info.label.toLowerCase()}...`}
             className="wcfdr-w-full wcfdr-rounded-md wcfdr-border-gray-300 wcfdr-shadow-sm focus:wcfdr-border-blue-500 focus:wcfdr-ring-blue-500"
           />
         </div>
@@ -425,6 +379,21 @@ export const SearchFilters: React.FC<SearchFiltersProps> = ({
               </select>
             </div>
           </div>
+
+          {/* Filter Builder */}
+          <div className="wcfdr-mt-6">
+            <div className="wcfdr-flex wcfdr-items-center wcfdr-justify-between wcfdr-mb-2">
+              <label className="wcfdr-block wcfdr-text-sm wcfdr-font-medium wcfdr-text-gray-700">
+                Filters
+              </label>
+              <span className="wcfdr-text-xs wcfdr-text-gray-500">
+                {activeFilterCount > 0
+                  ? `${activeFilterCount} condition${activeFilterCount !== 1 ? 's' : ''} active`
+                  : 'Narrow rows by status, author, dates, IDs, terms or the shape of the value'}
+              </span>
+            </div>
+            <FilterBuilder value={filterGroup} onChange={setFilterGroup} source={source} />
+          </div>
         </div>
       )}
 
@@ -433,7 +402,7 @@ export const SearchFilters: React.FC<SearchFiltersProps> = ({
         <div className="wcfdr-flex wcfdr-space-x-3">
           <button
             onClick={handleSearch}
-            disabled={isLoading || (!metaKey && !value)}
+            disabled={isLoading || (!hasKeyScope && !value && !activeFilters)}
             className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-4 wcfdr-py-2 wcfdr-border wcfdr-border-transparent wcfdr-text-sm wcfdr-font-medium wcfdr-rounded-md wcfdr-text-white wcfdr-bg-blue-600 hover:wcfdr-bg-blue-700 disabled:wcfdr-opacity-50 disabled:wcfdr-cursor-not-allowed"
           >
             <Search className="wcfdr-h-4 wcfdr-w-4 wcfdr-mr-2" />
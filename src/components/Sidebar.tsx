@@ -1,9 +1,10 @@
 import React from 'react';
-import { Search, TestTube, Database, Settings, HelpCircle, Activity } from 'lucide-react';
+import { Search, TestTube, Globe, FileUp, Database, Settings, HelpCircle, Activity } from 'lucide-react';
+import type { AdminTab } from '../types';
 
 interface SidebarProps {
-  activeTab: 'search' | 'live-tester' | 'backups' | 'settings' | 'help';
-  onTabChange: (tab: 'search' | 'live-tester' | 'backups' | 'settings' | 'help') => void;
+  activeTab: AdminTab;
+  onTabChange: (tab: AdminTab) => void;
   onSettingsClick: () => void;
 }
 
@@ -21,6 +22,18 @@ export const Sidebar: React.FC<SidebarProps> = ({ activeTab, onTabChange, onSett
       icon: TestTube,
       description: 'Test replacements in real-time'
     },
+    {
+      id: 'migration' as const,
+      label: 'Site Migration',
+      icon: Globe,
+      description: 'Move every URL to a new domain'
+    },
+    {
+      id: 'import' as const,
+      label: 'Mapping Import',
+      icon: FileUp,
+      description: 'Apply a spreadsheet of new values'
+    },
     {
       id: 'backups' as const,
       label: 'Backups',
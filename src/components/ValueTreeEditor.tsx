@@ -0,0 +1,280 @@
+import React, { useState } from 'react';
+import { ChevronRight, ChevronDown, Plus, Trash2, AlertTriangle } from 'lucide-react';
+import {
+  EDITABLE_TYPES,
+  addEntry,
+  convertNode,
+  hasKeys,
+  isContainer,
+  removeEntry,
+  renameEntry,
+  updateNode
+} from '../utils/valueTree';
+import type { NodeType, TreeIssue, TreeNode, ValueTree } from '../utils/valueTree';
+
+interface ValueTreeEditorProps {
+  tree: ValueTree;
+  issues: TreeIssue[];
+  onChange: (root: TreeNode) => void;
+}
+
+const typeLabels: Record<NodeType, string> = {
+  string: 'string',
+  int: 'int',
+  float: 'float',
+  bool: 'bool',
+  null: 'null',
+  array: 'array',
+  object: 'object',
+  raw: 'raw'
+};
+
+// Containers deeper than this start collapsed
+const EXPANDED_DEPTH = 2;
+
+const pathKey = (path: number[]): string => path.join('.');
+
+// Private and protected property names carry NUL bytes; show them instead of dropping them
+const displayKey = (key: string): string => key.replace(/\0/g, '␀');
+
+const inputClass = 'wcfdr-text-xs wcfdr-font-mono wcfdr-rounded wcfdr-border-gray-300 wcfdr-py-0.5 wcfdr-px-1.5 focus:wcfdr-border-blue-500 focus:wcfdr-ring-blue-500';
+
+interface TreeNodeRowProps {
+  tree: ValueTree;
+  node: TreeNode;
+  path: number[];
+  label: React.ReactNode;
+  onRemove?: () => void;
+  issuesByPath: Map<string, string[]>;
+  collapsed: Set<string>;
+  onToggle: (path: number[]) => void;
+  onChange: (root: TreeNode) => void;
+}
+
+const TreeNodeRow: React.FC<TreeNodeRowProps> = ({
+  tree,
+  node,
+  path,
+  label,
+  onRemove,
+  issuesByPath,
+  collapsed,
+  onToggle,
+  onChange
+}) => {
+  const key = pathKey(path);
+  const isCollapsed = collapsed.has(key) !== path.length >= EXPANDED_DEPTH;
+  const issues = issuesByPath.get(key) ?? [];
+  const entries = node.entries ?? [];
+
+  const update = (next: (current: TreeNode) => TreeNode) => onChange(updateNode(tree.root, path, next));
+
+  const renderValue = () => {
+    switch (node.type) {
+      case 'string':
+        return (
+          <textarea
+            value={node.value}
+            onChange={(e) => update(current => ({ ...current, value: e.target.value }))}
+            rows={node.value.includes('\n') || node.value.length > 80 ? 3 : 1}
+            className={`wcfdr-flex-1 wcfdr-min-w-0 ${inputClass}`}
+          />
+        );
+      case 'int':
+      case 'float':
+        return (
+          <input
+            value={node.value}
+            onChange={(e) => update(current => ({ ...current, value: e.target.value.trim() }))}
+            className={`wcfdr-w-32 ${inputClass} ${issues.length ? 'wcfdr-border-red-400' : ''}`}
+          />
+        );
+      case 'bool':
+        return (
+          <select
+            value={node.value}
+            onChange={(e) => update(current => ({ ...current, value: e.target.value }))}
+            className={inputClass}
+          >
+            <option value="true">true</option>
+            <option value="false">false</option>
+          </select>
+        );
+      case 'null':
+        return <span className="wcfdr-text-xs wcfdr-italic wcfdr-text-gray-400">null</span>;
+      case 'raw':
+        return (
+          <code className="wcfdr-flex-1 wcfdr-min-w-0 wcfdr-text-xs wcfdr-text-gray-500 wcfdr-break-all" title="Custom-serialized objects, enums and references are kept as-is">
+            {node.value}
+          </code>
+        );
+      default:
+        return (
+          <span className="wcfdr-text-xs wcfdr-text-gray-500">
+            {node.type === 'object' && tree.format === 'serialized' && (
+              <input
+                value={node.className ?? ''}
+                onChange={(e) => update(current => ({ ...current, className: e.target.value }))}
+                className={`wcfdr-w-32 wcfdr-mr-2 ${inputClass} ${issues.length ? 'wcfdr-border-red-400' : ''}`}
+                title="Class name"
+              />
+            )}
+            {entries.length} {entries.length === 1 ? 'item' : 'items'}
+          </span>
+        );
+    }
+  };
+
+  return (
+    <li>
+      <div className="wcfdr-flex wcfdr-items-start wcfdr-space-x-2 wcfdr-py-0.5">
+        {isContainer(node) ? (
+          <button
+            type="button"
+            onClick={() => onToggle(path)}
+            className="wcfdr-mt-0.5 wcfdr-text-gray-500 hover:wcfdr-text-gray-700"
+            aria-label={isCollapsed ? 'Expand' : 'Collapse'}
+          >
+            {isCollapsed ? <ChevronRight className="wcfdr-h-3 wcfdr-w-3" /> : <ChevronDown className="wcfdr-h-3 wcfdr-w-3" />}
+          </button>
+        ) : (
+          <span className="wcfdr-w-3 wcfdr-flex-shrink-0" />
+        )}
+
+        {label}
+
+        {node.type === 'raw' ? (
+          <span className="wcfdr-text-xs wcfdr-px-1.5 wcfdr-py-0.5 wcfdr-rounded wcfdr-bg-gray-100 wcfdr-text-gray-500">raw</span>
+        ) : (
+          <select
+            value={node.type}
+            onChange={(e) => update(current => convertNode(current, e.target.value as NodeType, tree.format))}
+            className={`${inputClass} wcfdr-text-gray-600`}
+            title="Type"
+          >
+            {EDITABLE_TYPES.map(type => (
+              <option key={type} value={type}>{typeLabels[type]}</option>
+            ))}
+          </select>
+        )}
+
+        {renderValue()}
+
+        {onRemove && (
+          <button
+            type="button"
+            onClick={onRemove}
+            className="wcfdr-mt-0.5 wcfdr-text-gray-400 hover:wcfdr-text-red-600"
+            title="Remove"
+          >
+            <Trash2 className="wcfdr-h-3 wcfdr-w-3" />
+          </button>
+        )}
+      </div>
+
+      {issues.map((issue, index) => (
+        <div key={index} className="wcfdr-ml-5 wcfdr-flex wcfdr-items-center wcfdr-text-xs wcfdr-text-red-700">
+          <AlertTriangle className="wcfdr-h-3 wcfdr-w-3 wcfdr-mr-1" />
+          {issue}
+        </div>
+      ))}
+
+      {isContainer(node) && !isCollapsed && (
+        <ul className="wcfdr-ml-5 wcfdr-pl-2 wcfdr-border-l wcfdr-border-gray-200">
+          {entries.map((entry, index) => {
+            const keyed = hasKeys(tree.format, node);
+            // Keys with NUL bytes name private or protected properties; renaming them would detach the value
+            const editableKey = keyed && !entry.key.includes('\0');
+
+            const entryLabel = editableKey ? (
+              <input
+                value={entry.key}
+                onChange={(e) => onChange(renameEntry(tree.root, path, index, e.target.value, tree.format))}
+                className={`wcfdr-w-32 ${inputClass} ${issuesByPath.has(pathKey([...path, index])) ? 'wcfdr-border-red-400' : ''}`}
+                title="Key"
+              />
+            ) : (
+              <span className="wcfdr-w-32 wcfdr-text-xs wcfdr-font-mono wcfdr-text-gray-500 wcfdr-truncate wcfdr-py-0.5">
+                {keyed ? displayKey(entry.key) : index}
+              </span>
+            );
+
+            return (
+              <TreeNodeRow
+                key={index}
+                tree={tree}
+                node={entry.node}
+                path={[...path, index]}
+                label={entryLabel}
+                onRemove={() => onChange(removeEntry(tree.root, path, index, tree.format))}
+                issuesByPath={issuesByPath}
+                collapsed={collapsed}
+                onToggle={onToggle}
+                onChange={onChange}
+              />
+            );
+          })}
+          <li>
+            <button
+              type="button"
+              onClick={() => onChange(addEntry(tree.root, path, tree.format))}
+              className="wcfdr-inline-flex wcfdr-items-center wcfdr-mt-0.5 wcfdr-text-xs wcfdr-text-blue-700 hover:wcfdr-text-blue-900"
+            >
+              <Plus className="wcfdr-h-3 wcfdr-w-3 wcfdr-mr-1" />
+              Add {hasKeys(tree.format, node) ? 'key' : 'item'}
+            </button>
+          </li>
+        </ul>
+      )}
+    </li>
+  );
+};
+
+/**
+ * Collapsible tree over a parsed JSON or serialized value. Edits go straight to the
+ * parent as a new root; validation issues are shown next to the nodes they concern.
+ */
+export const ValueTreeEditor: React.FC<ValueTreeEditorProps> = ({ tree, issues, onChange }) => {
+  // Holds paths whose state differs from the depth-based default
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const issuesByPath = new Map<string, string[]>();
+  issues.forEach(issue => {
+    const key = pathKey(issue.path);
+    issuesByPath.set(key, [...(issuesByPath.get(key) ?? []), issue.message]);
+  });
+
+  const toggle = (path: number[]) => {
+    const key = pathKey(path);
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="wcfdr-border wcfdr-border-gray-200 wcfdr-rounded-md wcfdr-bg-white wcfdr-p-2 wcfdr-max-h-96 wcfdr-overflow-auto">
+      <ul>
+        <TreeNodeRow
+          tree={tree}
+          node={tree.root}
+          path={[]}
+          label={
+            <span className="wcfdr-text-xs wcfdr-font-medium wcfdr-text-gray-700 wcfdr-py-0.5">
+              {tree.format === 'json' ? 'JSON' : 'Serialized PHP'}
+            </span>
+          }
+          issuesByPath={issuesByPath}
+          collapsed={collapsed}
+          onToggle={toggle}
+          onChange={onChange}
+        />
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,170 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Check, ChevronsUpDown, Loader2, X } from 'lucide-react';
+
+export interface MultiSelectOption {
+  value: string;
+  label: string;
+  hint?: string;
+}
+
+interface MultiSelectProps {
+  options: MultiSelectOption[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+  placeholder?: string;
+  disabled?: boolean;
+  isLoading?: boolean;
+  emptyMessage?: string;
+}
+
+/**
+ * Searchable dropdown that picks any number of options, shown as removable chips
+ */
+export const MultiSelect: React.FC<MultiSelectProps> = ({
+  options,
+  selected,
+  onChange,
+  placeholder = 'Search...',
+  disabled = false,
+  isLoading = false,
+  emptyMessage = 'No options found'
+}) => {
+  const [search, setSearch] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+        setActiveIndex(-1);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const query = search.toLowerCase();
+  const filtered = options.filter(option =>
+    option.label.toLowerCase().includes(query) || option.value.toLowerCase().includes(query)
+  );
+  const labelFor = (value: string) => options.find(option => option.value === value)?.label ?? value;
+
+  const toggle = (value: string) => {
+    onChange(selected.includes(value) ? selected.filter(item => item !== value) : [...selected, value]);
+    setSearch('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setIsOpen(true);
+        setActiveIndex(prev => (prev < filtered.length - 1 ? prev + 1 : prev));
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setActiveIndex(prev => (prev > 0 ? prev - 1 : -1));
+        break;
+      case 'Enter':
+        e.preventDefault();
+        if (activeIndex >= 0 && filtered[activeIndex]) {
+          toggle(filtered[activeIndex].value);
+        }
+        break;
+      case 'Backspace':
+        // An empty search box removes the last chip, like a tag input
+        if (!search && selected.length > 0) {
+          onChange(selected.slice(0, -1));
+        }
+        break;
+      case 'Escape':
+        setIsOpen(false);
+        setActiveIndex(-1);
+        break;
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="wcfdr-relative">
+      <div
+        className={`wcfdr-flex wcfdr-flex-wrap wcfdr-items-center wcfdr-gap-1 wcfdr-min-h-[2.5rem] wcfdr-w-full wcfdr-rounded-md wcfdr-border wcfdr-border-gray-300 wcfdr-bg-white wcfdr-shadow-sm wcfdr-pl-2 wcfdr-pr-10 wcfdr-py-1 ${
+          disabled ? 'wcfdr-opacity-50 wcfdr-cursor-not-allowed' : ''
+        }`}
+      >
+        {selected.map(value => (
+          <span
+            key={value}
+            className="wcfdr-inline-flex wcfdr-items-center wcfdr-px-2 wcfdr-py-0.5 wcfdr-rounded wcfdr-text-xs wcfdr-font-medium wcfdr-bg-blue-100 wcfdr-text-blue-800"
+          >
+            {labelFor(value)}
+            <button
+              type="button"
+              onClick={() => toggle(value)}
+              disabled={disabled}
+              className="wcfdr-ml-1 wcfdr-text-blue-600 hover:wcfdr-text-blue-900"
+              aria-label={`Remove ${labelFor(value)}`}
+            >
+              <X className="wcfdr-h-3 wcfdr-w-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => {
+            setSearch(e.target.value);
+            setIsOpen(true);
+            setActiveIndex(-1);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onKeyDown={handleKeyDown}
+          placeholder={selected.length === 0 ? placeholder : ''}
+          disabled={disabled}
+          className="wcfdr-flex-1 wcfdr-min-w-[6rem] wcfdr-border-0 wcfdr-p-1 wcfdr-text-sm focus:wcfdr-ring-0 disabled:wcfdr-cursor-not-allowed"
+        />
+        <button
+          type="button"
+          onClick={() => setIsOpen(!isOpen)}
+          disabled={disabled}
+          className="wcfdr-absolute wcfdr-inset-y-0 wcfdr-right-0 wcfdr-flex wcfdr-items-center wcfdr-pr-3"
+        >
+          {isLoading ? (
+            <Loader2 className="wcfdr-h-4 wcfdr-w-4 wcfdr-animate-spin wcfdr-text-gray-400" />
+          ) : (
+            <ChevronsUpDown className="wcfdr-h-4 wcfdr-w-4 wcfdr-text-gray-400" />
+          )}
+        </button>
+      </div>
+
+      {isOpen && !disabled && !isLoading && (
+        <div className="wcfdr-absolute wcfdr-z-10 wcfdr-w-full wcfdr-mt-1 wcfdr-bg-white wcfdr-border wcfdr-border-gray-300 wcfdr-rounded-md wcfdr-shadow-lg wcfdr-max-h-60 wcfdr-overflow-auto">
+          {filtered.length > 0 ? (
+            filtered.map((option, index) => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => toggle(option.value)}
+                className={`wcfdr-w-full wcfdr-text-left wcfdr-px-3 wcfdr-py-2 wcfdr-text-sm wcfdr-text-gray-700 hover:wcfdr-bg-gray-100 wcfdr-flex wcfdr-items-center wcfdr-justify-between ${
+                  index === activeIndex ? 'wcfdr-bg-blue-50 wcfdr-text-blue-900' : ''
+                }`}
+              >
+                <div className="wcfdr-min-w-0">
+                  <div className="wcfdr-font-medium wcfdr-truncate">{option.label}</div>
+                  {option.hint && <div className="wcfdr-text-xs wcfdr-text-gray-500">{option.hint}</div>}
+                </div>
+                {selected.includes(option.value) && <Check className="wcfdr-h-4 wcfdr-w-4 wcfdr-text-blue-600 wcfdr-flex-shrink-0" />}
+              </button>
+            ))
+          ) : (
+            <div className="wcfdr-px-3 wcfdr-py-2 wcfdr-text-sm wcfdr-text-gray-500">
+              {emptyMessage}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
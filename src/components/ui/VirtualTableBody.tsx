@@ -0,0 +1,146 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { itemOffsets, scrollToShow, virtualWindow } from '../../utils/virtualList';
+
+interface VirtualTableBodyProps<T> {
+  items: T[];
+  itemKey: (item: T) => string;
+  // Must return a single <tr>, which is how rendered items are measured
+  renderItem: (item: T, index: number) => React.ReactElement;
+  // The element that scrolls the table; its header should be sticky, so rows start below it
+  scrollRef: React.RefObject<HTMLElement>;
+  columnCount: number;
+  // Heights known up front; items it gives no height for are measured once rendered
+  fixedHeight?: (item: T) => number | undefined;
+  // Stands in for items that have not been measured yet
+  estimatedHeight?: number;
+  // Scrolled into view whenever it changes
+  activeIndex?: number | null;
+  overscan?: number;
+  className?: string;
+}
+
+interface Viewport {
+  scrollTop: number;
+  height: number;
+  // Distance from the top of the scrolled content to the first row, i.e. the header's height
+  bodyTop: number;
+}
+
+/**
+ * Table body that only renders the rows in and near view, with spacer rows standing in for the rest
+ */
+export const VirtualTableBody = <T,>({
+  items,
+  itemKey,
+  renderItem,
+  scrollRef,
+  columnCount,
+  fixedHeight,
+  estimatedHeight = 48,
+  activeIndex = null,
+  overscan = 8,
+  className = ''
+}: VirtualTableBodyProps<T>) => {
+  const bodyRef = useRef<HTMLTableSectionElement>(null);
+  // Measured heights by item key, so they survive re-sorting and stay put when rows scroll out
+  const measured = useRef(new Map<string, number>());
+  const [, setMeasureCount] = useState(0);
+  const [viewport, setViewport] = useState<Viewport>({ scrollTop: 0, height: 600, bodyTop: 0 });
+
+  const heights = items.map(item => fixedHeight?.(item) ?? measured.current.get(itemKey(item)) ?? estimatedHeight);
+  const offsets = itemOffsets(heights);
+  const rowsHeight = Math.max(0, viewport.height - viewport.bodyTop);
+  const range = virtualWindow(offsets, viewport.scrollTop, rowsHeight, overscan);
+
+  const measure = () => {
+    const body = bodyRef.current;
+    if (!body) return;
+
+    let changed = false;
+    Array.from(body.children).forEach(child => {
+      const key = (child as HTMLElement).dataset.virtualKey;
+      const height = child.getBoundingClientRect().height;
+      if (key && height > 0 && Math.abs((measured.current.get(key) ?? -1) - height) > 0.5) {
+        measured.current.set(key, height);
+        changed = true;
+      }
+    });
+
+    if (changed) {
+      setMeasureCount(count => count + 1);
+    }
+  };
+  const measureRef = useRef(measure);
+  measureRef.current = measure;
+
+  // Rows are measured before paint, so a re-render with the real heights never flickers
+  useLayoutEffect(() => {
+    measure();
+  });
+
+  // Rows also change height without a render here, such as a value tree being expanded inside one
+  useEffect(() => {
+    const body = bodyRef.current;
+    if (!body || typeof ResizeObserver === 'undefined') return;
+
+    const observer = new ResizeObserver(() => measureRef.current());
+    observer.observe(body);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const scroller = scrollRef.current;
+    if (!scroller) return;
+
+    let frame = 0;
+    const update = () => {
+      frame = 0;
+      const body = bodyRef.current;
+      const bodyTop = body ? body.getBoundingClientRect().top - scroller.getBoundingClientRect().top + scroller.scrollTop : 0;
+      setViewport({ scrollTop: scroller.scrollTop, height: scroller.clientHeight, bodyTop });
+    };
+    const schedule = () => {
+      if (!frame) {
+        frame = window.requestAnimationFrame(update);
+      }
+    };
+
+    update();
+    scroller.addEventListener('scroll', schedule, { passive: true });
+    window.addEventListener('resize', schedule);
+    return () => {
+      scroller.removeEventListener('scroll', schedule);
+      window.removeEventListener('resize', schedule);
+      if (frame) {
+        window.cancelAnimationFrame(frame);
+      }
+    };
+  }, [scrollRef]);
+
+  useEffect(() => {
+    const scroller = scrollRef.current;
+    if (activeIndex === null || !scroller || activeIndex >= items.length) return;
+
+    const target = scrollToShow(offsets, activeIndex, scroller.scrollTop, rowsHeight);
+    if (target !== null) {
+      scroller.scrollTop = target;
+    }
+  }, [activeIndex]);
+
+  const spacer = (height: number) => (
+    <tr aria-hidden="true">
+      <td colSpan={columnCount} style={{ height, padding: 0, border: 0 }} />
+    </tr>
+  );
+
+  return (
+    <tbody ref={bodyRef} className={className}>
+      {range.before > 0 && spacer(range.before)}
+      {items.slice(range.start, range.end).map((item, offset) => {
+        const key = itemKey(item);
+        return React.cloneElement(renderItem(item, range.start + offset), { key, 'data-virtual-key': key });
+      })}
+      {range.after > 0 && spacer(range.after)}
+    </tbody>
+  );
+};
@@ -0,0 +1,325 @@
+import type {
+  AdminSettings,
+  ApiError,
+  ApiErrorCode,
+  BackupListParams,
+  BackupListResponse,
+  BackupStats,
+  BatchRestoreResult,
+  ConnectionTestResult,
+  DataSource,
+  DryRunParams,
+  DryRunResult,
+  ExportParams,
+  ImportExecuteParams,
+  ImportParams,
+  ImportPreview,
+  ImportResult,
+  PostTypeOption,
+  ReplaceParams,
+  ReplacePreview,
+  ReplaceRecipe,
+  ReplaceResult,
+  RestoreParams,
+  RestoreResult,
+  SaveRecipeParams,
+  SearchParams,
+  SearchResponse,
+  TableColumnPrefs,
+  UpdateRowParams,
+  UpdateRowResult,
+  VariantScanCount,
+  VariantScanParams
+} from '../types';
+
+// WordPress AJAX object localized by the plugin (see enqueue_admin_assets)
+declare global {
+  interface Window {
+    wcfdr_ajax: {
+      ajax_url: string;
+      nonce: string;
+      rest_url?: string;
+      rest_nonce?: string;
+      // Data sources the current user may search, from Data_Source::available()
+      sources?: DataSource[];
+      // The current user's saved results table columns, if any
+      table_columns?: TableColumnPrefs | null;
+    };
+  }
+}
+
+/**
+ * Request and response shapes for every admin-ajax action the plugin registers.
+ * Keep this in sync with add_ajax_handlers() in mangocube-data-replacer.php.
+ */
+export interface ApiEndpoints {
+  wcfdr_search: { request: SearchParams; response: SearchResponse };
+  wcfdr_get_post_types: { request: void; response: PostTypeOption[] };
+  wcfdr_get_meta_keys: { request: { post_type?: string; source?: DataSource }; response: string[] };
+  wcfdr_update_row: { request: UpdateRowParams; response: UpdateRowResult };
+  wcfdr_preview: { request: ReplaceParams; response: ReplacePreview };
+  wcfdr_replace: { request: ReplaceParams; response: ReplaceResult };
+  wcfdr_dry_run: { request: DryRunParams; response: DryRunResult };
+  wcfdr_scan_variants: { request: VariantScanParams; response: { variants: VariantScanCount[] } };
+  wcfdr_get_recipes: { request: void; response: { recipes: ReplaceRecipe[] } };
+  wcfdr_save_recipe: { request: SaveRecipeParams; response: { recipe: ReplaceRecipe } };
+  wcfdr_delete_recipe: { request: { id: string }; response: { deleted: string } };
+  wcfdr_backups: { request: BackupListParams; response: BackupListResponse };
+  wcfdr_backup_stats: { request: void; response: BackupStats };
+  wcfdr_restore: { request: RestoreParams; response: RestoreResult };
+  wcfdr_restore_all: { request: { batch_id: string }; response: BatchRestoreResult };
+  wcfdr_get_settings: { request: void; response: AdminSettings };
+  wcfdr_save_settings: { request: { settings: string }; response: { message: string; settings: AdminSettings } };
+  wcfdr_test_connection: { request: void; response: ConnectionTestResult };
+  wcfdr_save_table_columns: { request: { columns: string }; response: TableColumnPrefs };
+  // Answers with a file rather than the JSON envelope; see downloadExport()
+  wcfdr_export: { request: ExportParams; response: Blob };
+  wcfdr_import_preview: { request: ImportParams; response: ImportPreview };
+  wcfdr_import_execute: { request: ImportExecuteParams; response: ImportResult };
+}
+
+export type ApiAction = keyof ApiEndpoints;
+export type ApiRequest<A extends ApiAction> = ApiEndpoints[A]['request'];
+export type ApiResult<A extends ApiAction> = ApiEndpoints[A]['response'];
+
+/**
+ * Error thrown by the API client; carries a machine-readable code
+ */
+export class ApiRequestError extends Error {
+  readonly code: ApiErrorCode;
+  readonly details?: unknown;
+  readonly status?: number;
+
+  constructor(message: string, code: ApiErrorCode, details?: unknown, status?: number) {
+    super(message);
+    this.name = 'ApiRequestError';
+    this.code = code;
+    this.details = details;
+    this.status = status;
+  }
+
+  toJSON(): ApiError {
+    return {
+      success: false,
+      message: this.message,
+      code: this.code,
+      details: this.details
+    };
+  }
+}
+
+export const isApiRequestError = (error: unknown): error is ApiRequestError =>
+  error instanceof ApiRequestError;
+
+export const isNonceExpired = (error: unknown): boolean =>
+  isApiRequestError(error) && error.code === 'nonce_expired';
+
+type ApiErrorListener = (error: ApiRequestError) => void;
+
+const errorListeners = new Set<ApiErrorListener>();
+
+/**
+ * Subscribe to session-level failures (expired nonce, logged out).
+ * Returns an unsubscribe function.
+ */
+export const onSessionError = (listener: ApiErrorListener): (() => void) => {
+  errorListeners.add(listener);
+  return () => {
+    errorListeners.delete(listener);
+  };
+};
+
+/**
+ * Append a value to the form body using PHP's bracket notation for nesting.
+ * Booleans are sent as 1/0 because PHP casts the string "false" to true.
+ */
+const appendParam = (body: URLSearchParams, key: string, value: unknown): void => {
+  if (value === undefined || value === null) {
+    return;
+  }
+
+  if (typeof value === 'boolean') {
+    body.append(key, value ? '1' : '0');
+  } else if (Array.isArray(value)) {
+    value.forEach((item, index) => appendParam(body, `${key}[${index}]`, item));
+  } else if (typeof value === 'object') {
+    Object.entries(value as Record<string, unknown>).forEach(([subKey, subValue]) =>
+      appendParam(body, `${key}[${subKey}]`, subValue)
+    );
+  } else {
+    body.append(key, String(value));
+  }
+};
+
+/**
+ * Turn whatever wp_send_json_error() sent into a readable message
+ */
+const extractErrorMessage = (data: unknown, fallback: string): string => {
+  if (typeof data === 'string' && data) {
+    return data;
+  }
+  if (data && typeof data === 'object') {
+    const { message, error } = data as { message?: string; error?: string };
+    return message || error || fallback;
+  }
+  return fallback;
+};
+
+const classifyFailure = (message: string): ApiErrorCode => {
+  if (/invalid nonce/i.test(message)) {
+    return 'nonce_expired';
+  }
+  if (/permission|insufficient/i.test(message)) {
+    return 'permission_denied';
+  }
+  return 'request_failed';
+};
+
+const fail = (error: ApiRequestError): never => {
+  if (error.code === 'nonce_expired' || error.code === 'not_logged_in') {
+    errorListeners.forEach(listener => listener(error));
+  }
+  throw error;
+};
+
+/**
+ * POST an admin-ajax action with the nonce and its parameters
+ */
+const post = async (action: ApiAction, params?: unknown): Promise<Response> => {
+  const body = new URLSearchParams({
+    action,
+    nonce: window.wcfdr_ajax.nonce
+  });
+
+  if (params) {
+    Object.entries(params as Record<string, unknown>).forEach(([key, value]) =>
+      appendParam(body, key, value)
+    );
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(window.wcfdr_ajax.ajax_url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body,
+      credentials: 'same-origin'
+    });
+  } catch (error) {
+    return fail(new ApiRequestError('Network error occurred', 'network_error', { action, cause: String(error) }));
+  }
+
+  return response;
+};
+
+/**
+ * Read an admin-ajax answer and unwrap the { success, data } envelope
+ */
+const unwrap = async <A extends ApiAction>(action: A, response: Response): Promise<ApiResult<A>> => {
+  const text = await response.text();
+
+  // check_ajax_referer() dies with "-1"; admin-ajax answers "0" for logged-out users
+  if (text.trim() === '-1') {
+    return fail(new ApiRequestError('Your session has expired. Reload the page to continue.', 'nonce_expired', { action }, response.status));
+  }
+  if (text.trim() === '0') {
+    return fail(new ApiRequestError('You are no longer logged in.', 'not_logged_in', { action }, response.status));
+  }
+
+  let payload: { success?: boolean; data?: unknown };
+  try {
+    payload = JSON.parse(text);
+  } catch (error) {
+    const code: ApiErrorCode = response.ok ? 'invalid_response' : 'http_error';
+    return fail(new ApiRequestError(
+      response.ok ? 'The server returned an invalid response' : `HTTP error! status: ${response.status}`,
+      code,
+      { action, body: text.slice(0, 500) },
+      response.status
+    ));
+  }
+
+  if (!payload.success) {
+    const message = extractErrorMessage(payload.data, `${action} failed`);
+    return fail(new ApiRequestError(message, classifyFailure(message), { action, data: payload.data }, response.status));
+  }
+
+  // Engine methods report their own failures inside a successful envelope
+  const data = payload.data;
+  if (data && typeof data === 'object' && !Array.isArray(data) && (data as { success?: unknown }).success === false) {
+    const message = extractErrorMessage(data, `${action} failed`);
+    return fail(new ApiRequestError(message, 'request_failed', { action, data }, response.status));
+  }
+
+  // The endpoint map is the contract for what each action answers with
+  return data as ApiResult<A>;
+};
+
+/**
+ * Call an admin-ajax action and unwrap the { success, data } envelope
+ */
+export async function request<A extends ApiAction>(
+  action: A,
+  ...[params]: ApiRequest<A> extends void ? [] : [ApiRequest<A>]
+): Promise<ApiResult<A>> {
+  return unwrap(action, await post(action, params));
+}
+
+/**
+ * Save an export under the file name the server gives it, resolving with that name
+ *
+ * Errors the server finds before the file starts come back in the usual envelope and are thrown as for request().
+ */
+export async function downloadExport(params: ExportParams): Promise<string> {
+  const response = await post('wcfdr_export', params);
+  const disposition = response.headers.get('Content-Disposition') ?? '';
+
+  if (!/attachment/i.test(disposition)) {
+    await unwrap('wcfdr_export', response);
+    return fail(new ApiRequestError('The server returned no file', 'invalid_response', { action: 'wcfdr_export' }, response.status));
+  }
+
+  const filename = /filename="([^"]+)"/.exec(disposition)?.[1] ?? `wcfdr-export.${params.export.format}`;
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Some browsers only start reading the blob after click() returns
+  window.setTimeout(() => URL.revokeObjectURL(url), 10000);
+
+  return filename;
+}
+
+/**
+ * Typed wrappers for each endpoint
+ */
+export const api = {
+  search: (params: SearchParams) => request('wcfdr_search', params),
+  getPostTypes: () => request('wcfdr_get_post_types'),
+  getMetaKeys: (postType?: string, source?: DataSource) =>
+    request('wcfdr_get_meta_keys', { ...(postType ? { post_type: postType } : {}), ...(source ? { source } : {}) }),
+  updateRow: (params: UpdateRowParams) => request('wcfdr_update_row', params),
+  previewReplace: (params: ReplaceParams) => request('wcfdr_preview', params),
+  executeReplace: (params: ReplaceParams) => request('wcfdr_replace', { ...params, confirm: true }),
+  dryRun: (params: DryRunParams) => request('wcfdr_dry_run', params),
+  scanVariants: (params: VariantScanParams) => request('wcfdr_scan_variants', params),
+  getRecipes: () => request('wcfdr_get_recipes'),
+  saveRecipe: (params: SaveRecipeParams) => request('wcfdr_save_recipe', params),
+  deleteRecipe: (id: string) => request('wcfdr_delete_recipe', { id }),
+  getBackups: (params: BackupListParams) => request('wcfdr_backups', params),
+  getBackupStats: () => request('wcfdr_backup_stats'),
+  restore: (params: RestoreParams) => request('wcfdr_restore', params),
+  restoreBatch: (batchId: string) => request('wcfdr_restore_all', { batch_id: batchId }),
+  getSettings: () => request('wcfdr_get_settings'),
+  saveSettings: (settings: AdminSettings) => request('wcfdr_save_settings', { settings: JSON.stringify(settings) }),
+  testConnection: () => request('wcfdr_test_connection'),
+  saveTableColumns: (columns: TableColumnPrefs) => request('wcfdr_save_table_columns', { columns: JSON.stringify(columns) }),
+  exportResults: (params: ExportParams) => downloadExport(params),
+  previewImport: (params: ImportParams) => request('wcfdr_import_preview', params),
+  executeImport: (params: ImportExecuteParams) => request('wcfdr_import_execute', params)
+};
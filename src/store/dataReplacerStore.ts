@@ -1,116 +1,170 @@
 import { create } from 'zustand';
-
-interface SearchResult {
-  total: number;
-  total_pages: number;
-  page: number;
-  per_page: number;
-  rows: Array<{
-    post_id: number;
-    post_title: string;
-    post_type: string;
-    meta_key: string;
-    meta_value: string;
-    has_backup: boolean;
-    is_modified?: boolean;
-  }>;
-}
-
-interface PostType {
-  value: string;
-  label: string;
-  count: number;
-}
+import { api } from '../services/api';
+import type {
+  SearchParams,
+  SearchResponse,
+  PostTypeOption,
+  UpdateRowParams,
+  ReplaceParams,
+  ReplacePreview,
+  ReplaceResult,
+  BackupListParams,
+  BackupListResponse,
+  BackupStats,
+  RestoreParams,
+  RestoreResult,
+  BatchRestoreResult,
+  BulkReplaceJob,
+  ReplaceRecipe,
+  SaveRecipeParams,
+  DataSource,
+  TableColumnPrefs
+} from '../types';
 
 interface DataReplacerState {
-  searchResults: SearchResult | null;
+  searchResults: SearchResponse | null;
   isLoading: boolean;
+  isLoadingMore: boolean;
   error: string | null;
-  postTypes: PostType[];
+  postTypes: PostTypeOption[];
   metaKeys: string[];
-  
+  bulkJob: BulkReplaceJob | null;
+  recipes: ReplaceRecipe[];
+  // The user's results table columns; null until they first change them
+  tableColumns: TableColumnPrefs | null;
+
   // Actions
-  searchMeta: (filters: any) => Promise<SearchResult>;
+  searchMeta: (filters: SearchParams) => Promise<SearchResponse>;
+  loadMoreResults: (filters: SearchParams) => Promise<void>;
+  clearSearch: () => void;
   getPostTypes: () => Promise<void>;
-  getMetaKeys: (postType?: string) => Promise<void>;
-  updateRow: (data: any) => Promise<void>;
-  restoreRow: (postId: number, metaKey: string) => Promise<void>;
-  previewReplace: (params: any) => Promise<any>;
-  executeReplace: (params: any) => Promise<any>;
+  getMetaKeys: (postType?: string, source?: DataSource) => Promise<void>;
+  updateRow: (data: UpdateRowParams) => Promise<void>;
+  restoreRow: (postId: number, metaKey: string, source?: DataSource) => Promise<void>;
+  previewReplace: (params: ReplaceParams) => Promise<ReplacePreview>;
+  executeReplace: (params: ReplaceParams) => Promise<ReplaceResult>;
+  startBulkReplace: (params: ReplaceParams, options?: { rollbackOnFailure?: boolean }) => Promise<void>;
+  pauseBulkReplace: () => void;
+  resumeBulkReplace: () => Promise<void>;
+  cancelBulkReplace: () => void;
+  rollbackBulkReplace: (reason?: string) => Promise<void>;
+  dismissBulkReplace: () => void;
+  getBackups: (params: BackupListParams) => Promise<BackupListResponse>;
+  getBackupStats: () => Promise<BackupStats>;
+  restoreRevision: (params: RestoreParams) => Promise<RestoreResult>;
+  restoreBatch: (batchId: string) => Promise<BatchRestoreResult>;
+  loadRecipes: () => Promise<void>;
+  saveRecipe: (params: SaveRecipeParams) => Promise<ReplaceRecipe>;
+  deleteRecipe: (id: string) => Promise<void>;
+  saveTableColumns: (columns: TableColumnPrefs) => Promise<void>;
   initializeStore: () => Promise<void>;
 }
 
+const errorMessage = (error: unknown, fallback: string): string =>
+  error instanceof Error && error.message ? error.message : fallback;
+
+// Rows written per wcfdr_replace request during a bulk run
+const BULK_CHUNK_SIZE = 200;
+const BULK_JOB_STORAGE_KEY = 'wcfdr_bulk_job';
+
+// Only one chunk loop may run at a time, or two requests could share a cursor
+let bulkLoopActive = false;
+
+const isFinished = (job: BulkReplaceJob): boolean =>
+  job.status === 'completed' || job.status === 'cancelled' || job.status === 'rolled_back';
+
+const saveBulkJob = (job: BulkReplaceJob | null) => {
+  try {
+    // Finished runs have nothing left to recover
+    if (job && !isFinished(job)) {
+      localStorage.setItem(BULK_JOB_STORAGE_KEY, JSON.stringify(job));
+    } else {
+      localStorage.removeItem(BULK_JOB_STORAGE_KEY);
+    }
+  } catch (error) {
+    console.warn('Failed to persist bulk replace progress:', error);
+  }
+};
+
+const loadBulkJob = (): BulkReplaceJob | null => {
+  try {
+    const saved = localStorage.getItem(BULK_JOB_STORAGE_KEY);
+    if (!saved) {
+      return null;
+    }
+    const job: BulkReplaceJob = JSON.parse(saved);
+    // A job saved as running was cut off by a reload or a closed tab
+    return job.status === 'running' ? { ...job, status: 'interrupted' } : job;
+  } catch (error) {
+    console.warn('Failed to read saved bulk replace progress:', error);
+    return null;
+  }
+};
+
 export const useDataReplacerStore = create<DataReplacerState>((set, get) => ({
   searchResults: null,
   isLoading: false,
+  isLoadingMore: false,
   error: null,
   postTypes: [],
   metaKeys: [],
+  bulkJob: null,
+  recipes: [],
+  tableColumns: window.wcfdr_ajax?.table_columns ?? null,
 
-  searchMeta: async (filters: any) => {
+  searchMeta: async (filters: SearchParams) => {
     set({ isLoading: true, error: null });
-    
-    try {
-      // Real AJAX call to WordPress
-      const response = await fetch(wcfdr_ajax.ajax_url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
-        },
-        body: new URLSearchParams({
-          action: 'wcfdr_search',
-          nonce: wcfdr_ajax.nonce,
-          ...filters
-        })
-      });
-
-      if (!response.ok) {
-        throw new Error('Search request failed');
-      }
 
-      const data = await response.json();
-      
-      if (data.success) {
-        set({ searchResults: data.data, isLoading: false });
-        return data.data;
-      } else {
-        throw new Error(data.data || 'Search failed');
-      }
+    try {
+      const results = await api.search(filters);
+      set({ searchResults: results, isLoading: false });
+      return results;
     } catch (error) {
-      set({ error: 'Search failed', isLoading: false });
+      set({ error: errorMessage(error, 'Search failed'), isLoading: false });
       throw error;
     }
   },
 
-  getPostTypes: async () => {
+  // Appends the next batch of a cursor search; the count from the first batch stays
+  loadMoreResults: async (filters: SearchParams) => {
+    const current = get().searchResults;
+    if (!current?.next_cursor || get().isLoadingMore) return;
+
+    set({ isLoadingMore: true, error: null });
+
     try {
-      // Real AJAX call to get post types
-      const response = await fetch(wcfdr_ajax.ajax_url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
+      const batch = await api.search({ ...filters, pagination: 'cursor', cursor: current.next_cursor });
+      // A new search may have replaced the results while this batch loaded
+      if (get().searchResults !== current) {
+        set({ isLoadingMore: false });
+        return;
+      }
+      set({
+        searchResults: {
+          ...current,
+          rows: [...current.rows, ...batch.rows],
+          next_cursor: batch.next_cursor,
+          has_next_page: batch.has_next_page
         },
-        body: new URLSearchParams({
-          action: 'wcfdr_get_post_types',
-          nonce: wcfdr_ajax.nonce
-        })
+        isLoadingMore: false
       });
+    } catch (error) {
+      set({ error: errorMessage(error, 'Loading more results failed'), isLoadingMore: false });
+      throw error;
+    }
+  },
 
-      if (!response.ok) {
-        throw new Error('Failed to fetch post types');
-      }
+  clearSearch: () => {
+    set({ searchResults: null, error: null });
+  },
 
-      const data = await response.json();
-      
-      if (data.success) {
-        set({ postTypes: data.data });
-      } else {
-        throw new Error(data.data || 'Failed to load post types');
-      }
+  getPostTypes: async () => {
+    try {
+      set({ postTypes: await api.getPostTypes() });
     } catch (error) {
       console.error('Failed to load post types:', error);
       // Fallback to default post types if AJAX fails
-      const defaultPostTypes: PostType[] = [
+      const defaultPostTypes: PostTypeOption[] = [
         { value: 'post', label: 'Posts', count: 0 },
         { value: 'page', label: 'Pages', count: 0 },
         { value: 'st-templates', label: 'ST Templates', count: 0 }
@@ -119,34 +173,16 @@ export const useDataReplacerStore = create<DataReplacerState>((set, get) => ({
     }
   },
 
-  getMetaKeys: async (postType?: string) => {
+  getMetaKeys: async (postType?: string, source?: DataSource) => {
     try {
-      // Real AJAX call to get meta keys (postType is now optional)
-      const response = await fetch(wcfdr_ajax.ajax_url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
-        },
-        body: new URLSearchParams({
-          action: 'wcfdr_get_meta_keys',
-          nonce: wcfdr_ajax.nonce,
-          ...(postType && { post_type: postType })
-        })
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to fetch meta keys');
-      }
-
-      const data = await response.json();
-      
-      if (data.success) {
-        set({ metaKeys: data.data });
-      } else {
-        throw new Error(data.data || 'Failed to load meta keys');
-      }
+      // postType is optional; without it every meta key of the source is returned
+      set({ metaKeys: await api.getMetaKeys(postType, source) });
     } catch (error) {
       console.error('Failed to load meta keys:', error);
+      if (source && source !== 'postmeta') {
+        set({ metaKeys: [] });
+        return;
+      }
       // Fallback to common meta keys if AJAX fails
       const defaultMetaKeys = [
         '_thumbnail_id',
@@ -161,144 +197,265 @@ export const useDataReplacerStore = create<DataReplacerState>((set, get) => ({
     }
   },
 
-  updateRow: async (data: any) => {
+  updateRow: async (data: UpdateRowParams) => {
     set({ isLoading: true });
     try {
-      // Real AJAX call to update row
-      const response = await fetch(wcfdr_ajax.ajax_url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
-        },
-        body: new URLSearchParams({
-          action: 'wcfdr_update_row',
-          nonce: wcfdr_ajax.nonce,
-          ...data
-        })
-      });
+      await api.updateRow(data);
+      set({ isLoading: false });
+    } catch (error) {
+      set({ error: errorMessage(error, 'Update failed'), isLoading: false });
+      throw error;
+    }
+  },
 
-      if (!response.ok) {
-        throw new Error('Update request failed');
-      }
+  restoreRow: async (postId: number, metaKey: string, source?: DataSource) => {
+    await get().restoreRevision({ source, post_id: postId, meta_key: metaKey, latest: true });
+  },
 
-      const result = await response.json();
-      
-      if (!result.success) {
-        throw new Error(result.data || 'Update failed');
-      }
+  previewReplace: async (params: ReplaceParams) => {
+    set({ isLoading: true, error: null });
 
+    try {
+      const preview = await api.previewReplace(params);
       set({ isLoading: false });
+      return preview;
     } catch (error) {
-      set({ error: 'Update failed', isLoading: false });
+      set({ error: errorMessage(error, 'Preview failed'), isLoading: false });
       throw error;
     }
   },
 
-  restoreRow: async (postId: number, metaKey: string) => {
-    set({ isLoading: true });
-    try {
-      // Real AJAX call to restore row
-      const response = await fetch(wcfdr_ajax.ajax_url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
-        },
-        body: new URLSearchParams({
-          action: 'wcfdr_restore',
-          nonce: wcfdr_ajax.nonce,
-          post_id: postId.toString(),
-          meta_key: metaKey
-        })
-      });
-
-      if (!response.ok) {
-        throw new Error('Restore request failed');
-      }
-
-      const result = await response.json();
-      
-      if (!result.success) {
-        throw new Error(result.data || 'Restore failed');
-      }
+  executeReplace: async (params: ReplaceParams) => {
+    set({ isLoading: true, error: null });
 
+    try {
+      const result = await api.executeReplace(params);
       set({ isLoading: false });
+      return result;
     } catch (error) {
-      set({ error: 'Restore failed', isLoading: false });
+      set({ error: errorMessage(error, 'Replace failed'), isLoading: false });
       throw error;
     }
   },
 
-  previewReplace: async (params: any) => {
-    set({ isLoading: true, error: null });
-    
+  startBulkReplace: async (params: ReplaceParams, options = {}) => {
+    const now = new Date().toISOString();
+    const job: BulkReplaceJob = {
+      params: { ...params, limit: undefined, confirm: undefined, batch_id: undefined, cursor: undefined },
+      batch_id: '',
+      cursor: 0,
+      chunk_size: BULK_CHUNK_SIZE,
+      total: 0,
+      processed: 0,
+      updated: 0,
+      failed: 0,
+      skipped: 0,
+      status: 'paused',
+      rollback_on_failure: options.rollbackOnFailure,
+      started_at: now,
+      updated_at: now
+    };
+    saveBulkJob(job);
+    set({ bulkJob: job });
+    await get().resumeBulkReplace();
+  },
+
+  pauseBulkReplace: () => {
+    const job = get().bulkJob;
+    if (job && job.status === 'running') {
+      const paused: BulkReplaceJob = { ...job, status: 'paused', updated_at: new Date().toISOString() };
+      saveBulkJob(paused);
+      set({ bulkJob: paused });
+    }
+  },
+
+  resumeBulkReplace: async () => {
+    const job = get().bulkJob;
+    if (!job || isFinished(job)) {
+      return;
+    }
+
+    const running: BulkReplaceJob = { ...job, status: 'running', error: undefined, updated_at: new Date().toISOString() };
+    saveBulkJob(running);
+    set({ bulkJob: running });
+
+    // A chunk from before the pause is still in flight; that loop picks the job back up
+    if (bulkLoopActive) {
+      return;
+    }
+
+    bulkLoopActive = true;
     try {
-      // Real AJAX call to preview replace
-      const response = await fetch(wcfdr_ajax.ajax_url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
-        },
-        body: new URLSearchParams({
-          action: 'wcfdr_preview',
-          nonce: wcfdr_ajax.nonce,
-          ...params
-        })
-      });
+      for (;;) {
+        const current = get().bulkJob;
+        if (!current || current.status !== 'running') {
+          return;
+        }
 
-      if (!response.ok) {
-        throw new Error('Preview request failed');
-      }
+        let result: ReplaceResult;
+        try {
+          result = await api.executeReplace({
+            ...current.params,
+            batch_id: current.batch_id || undefined,
+            cursor: current.cursor,
+            limit: current.chunk_size
+          });
+        } catch (error) {
+          const latest = get().bulkJob;
+          if (latest && latest.started_at === current.started_at) {
+            const failed: BulkReplaceJob = {
+              ...latest,
+              status: 'failed',
+              error: errorMessage(error, 'Replace failed'),
+              updated_at: new Date().toISOString()
+            };
+            saveBulkJob(failed);
+            set({ bulkJob: failed });
+            if (failed.rollback_on_failure) {
+              await get().rollbackBulkReplace(`${failed.error} The whole run was rolled back.`);
+            }
+          }
+          return;
+        }
 
-      const data = await response.json();
-      
-      if (data.success) {
-        set({ isLoading: false });
-        return data.data;
-      } else {
-        throw new Error(data.data || 'Preview failed');
+        // The chunk is written even if the run was paused or cancelled meanwhile,
+        // but a job that was dismissed or replaced must not absorb its counts
+        const latest = get().bulkJob;
+        if (!latest || latest.started_at !== current.started_at) {
+          continue;
+        }
+
+        const processed = latest.processed + result.total_processed;
+        const finished = !result.has_more || result.total_processed === 0;
+        const next: BulkReplaceJob = {
+          ...latest,
+          batch_id: result.batch_id,
+          cursor: result.next_cursor,
+          total: processed + result.total_remaining,
+          processed,
+          updated: latest.updated + result.updated,
+          failed: latest.failed + result.failed,
+          skipped: latest.skipped + result.skipped,
+          status: finished && latest.status !== 'cancelled' ? 'completed' : latest.status,
+          updated_at: new Date().toISOString()
+        };
+        saveBulkJob(next);
+        set({ bulkJob: next });
+
+        if (next.rollback_on_failure && result.failed > 0) {
+          await get().rollbackBulkReplace(`${result.failed} row(s) failed, so the whole run was rolled back.`);
+          return;
+        }
       }
-    } catch (error) {
-      set({ error: 'Preview failed', isLoading: false });
-      throw error;
+    } finally {
+      bulkLoopActive = false;
     }
   },
 
-  executeReplace: async (params: any) => {
-    set({ isLoading: true, error: null });
-    
+  cancelBulkReplace: () => {
+    const job = get().bulkJob;
+    if (job && !isFinished(job)) {
+      const cancelled: BulkReplaceJob = { ...job, status: 'cancelled', updated_at: new Date().toISOString() };
+      saveBulkJob(cancelled);
+      set({ bulkJob: cancelled });
+    }
+  },
+
+  rollbackBulkReplace: async (reason = 'The run was rolled back.') => {
+    const job = get().bulkJob;
+    if (!job) {
+      return;
+    }
+
+    let next: BulkReplaceJob;
     try {
-      // Real AJAX call to execute replace
-      const response = await fetch(wcfdr_ajax.ajax_url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
-        },
-        body: new URLSearchParams({
-          action: 'wcfdr_replace',
-          nonce: wcfdr_ajax.nonce,
-          ...params
-        })
-      });
+      // Every row of the run was backed up under one batch id; restoring it undoes every step
+      const result = job.updated > 0 ? await api.restoreBatch(job.batch_id) : null;
+      const restored = result
+        ? ` ${result.restored} written row(s) were restored${result.failed > 0 ? `, ${result.failed} could not be; restore batch ${job.batch_id} from the Backups tab` : ''}.`
+        : ' No rows had been written.';
+      next = { ...job, status: 'rolled_back', error: reason + restored, updated_at: new Date().toISOString() };
+    } catch (error) {
+      // Not resumable: the rows written so far are now in an unknown state
+      next = {
+        ...job,
+        status: 'cancelled',
+        error: `${reason} Restoring batch ${job.batch_id} failed (${errorMessage(error, 'unknown error')}); restore it from the Backups tab.`,
+        updated_at: new Date().toISOString()
+      };
+    }
+    saveBulkJob(next);
+    set({ bulkJob: next });
+  },
 
-      if (!response.ok) {
-        throw new Error('Replace request failed');
-      }
+  dismissBulkReplace: () => {
+    saveBulkJob(null);
+    set({ bulkJob: null });
+  },
 
-      const data = await response.json();
-      
-      if (data.success) {
-        set({ isLoading: false });
-        return data.data;
-      } else {
-        throw new Error(data.data || 'Replace failed');
-      }
+  getBackups: (params: BackupListParams) => api.getBackups(params),
+
+  getBackupStats: () => api.getBackupStats(),
+
+  restoreRevision: async (params: RestoreParams) => {
+    set({ isLoading: true });
+    try {
+      // "latest" restores by source, object and key, so never send a revision along with it
+      const request = params.latest
+        ? { source: params.source, post_id: params.post_id, meta_key: params.meta_key }
+        : params;
+      const result = await api.restore(request);
+      set({ isLoading: false });
+      return result;
     } catch (error) {
-      set({ error: 'Replace failed', isLoading: false });
+      set({ error: errorMessage(error, 'Restore failed'), isLoading: false });
       throw error;
     }
   },
 
+  restoreBatch: async (batchId: string) => {
+    set({ isLoading: true });
+    try {
+      const result = await api.restoreBatch(batchId);
+      set({ isLoading: false });
+      return result;
+    } catch (error) {
+      set({ error: errorMessage(error, 'Batch restore failed'), isLoading: false });
+      throw error;
+    }
+  },
+
+  loadRecipes: async () => {
+    const { recipes } = await api.getRecipes();
+    set({ recipes });
+  },
+
+  // Errors are left to the recipe form to report; they say nothing about the search
+  saveRecipe: async (params: SaveRecipeParams) => {
+    const { recipe } = await api.saveRecipe(params);
+    set(state => ({
+      recipes: state.recipes
+        .filter(existing => existing.id !== recipe.id)
+        .concat(recipe)
+        .sort((a, b) => a.name.localeCompare(b.name))
+    }));
+    return recipe;
+  },
+
+  deleteRecipe: async (id: string) => {
+    await api.deleteRecipe(id);
+    set(state => ({ recipes: state.recipes.filter(recipe => recipe.id !== id) }));
+  },
+
+  // Applied before the save returns, so resizing and toggling columns never waits on the server
+  saveTableColumns: async (columns: TableColumnPrefs) => {
+    set({ tableColumns: columns });
+    await api.saveTableColumns(columns);
+  },
+
   initializeStore: async () => {
+    set({ bulkJob: loadBulkJob() });
+
     try {
       await get().getPostTypes();
     } catch (error) {
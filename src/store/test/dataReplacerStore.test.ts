@@ -0,0 +1,78 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { api } from '../../services/api';
+import { useDataReplacerStore } from '../dataReplacerStore';
+import type { BatchRestoreResult, DataSource, ReplaceParams, ReplaceResult, RestoreResult } from '../../types';
+
+jest.mock('../../services/api');
+
+const restore = jest.mocked(api.restore);
+const executeReplace = jest.mocked(api.executeReplace);
+const restoreBatch = jest.mocked(api.restoreBatch);
+
+describe('restoreRevision', () => {
+  beforeEach(() => {
+    restore.mockReset();
+    restore.mockResolvedValue({ success: true } as RestoreResult);
+  });
+
+  it.each<DataSource>(['post_content', 'termmeta', 'usermeta', 'commentmeta', 'options'])(
+    'restores the latest %s backup from that source',
+    async source => {
+      await useDataReplacerStore.getState().restoreRevision({
+        latest: true,
+        source,
+        post_id: source === 'options' ? 0 : 12,
+        meta_key: 'color',
+        revision_id: 'rev_ignored'
+      });
+
+      expect(restore).toHaveBeenCalledWith({ source, post_id: source === 'options' ? 0 : 12, meta_key: 'color' });
+    }
+  );
+
+  it('restores a chosen revision by its id', async () => {
+    await useDataReplacerStore.getState().restoreRevision({ revision_id: 'rev_1' });
+
+    expect(restore).toHaveBeenCalledWith({ revision_id: 'rev_1' });
+  });
+});
+
+describe('bulk replace', () => {
+  const params: ReplaceParams = { find: 'old', replace: 'new', mode: 'plain', meta_key: '', post_type: '' };
+  const chunk: ReplaceResult = {
+    ok: true,
+    updated: 2,
+    failed: 0,
+    skipped: 0,
+    items: [],
+    batch_id: 'batch_1',
+    total_processed: 2,
+    total_remaining: 4,
+    next_cursor: 2,
+    has_more: true
+  };
+
+  beforeEach(() => {
+    useDataReplacerStore.getState().dismissBulkReplace();
+    executeReplace.mockReset();
+    executeReplace.mockResolvedValueOnce(chunk).mockRejectedValueOnce(new Error('Request timed out'));
+    restoreBatch.mockReset();
+    restoreBatch.mockResolvedValue({ success: true, restored: 2, failed: 0, errors: [], message: '' } as BatchRestoreResult);
+  });
+
+  it('rolls the run back when a chunk request fails', async () => {
+    await useDataReplacerStore.getState().startBulkReplace(params, { rollbackOnFailure: true });
+
+    expect(restoreBatch).toHaveBeenCalledWith('batch_1');
+    const job = useDataReplacerStore.getState().bulkJob;
+    expect(job?.status).toBe('rolled_back');
+    expect(job?.error).toContain('Request timed out');
+  });
+
+  it('stops at the failed chunk without rollback on failure', async () => {
+    await useDataReplacerStore.getState().startBulkReplace(params);
+
+    expect(restoreBatch).not.toHaveBeenCalled();
+    expect(useDataReplacerStore.getState().bulkJob).toMatchObject({ status: 'failed', updated: 2, cursor: 2 });
+  });
+});
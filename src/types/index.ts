@@ -27,7 +27,74 @@ export interface UserInfo {
 }
 
 // Search Types
-export interface SearchParams {
+
+// The table a search or replace reads; post fields and options are read as key/value rows like meta
+export type DataSource =
+  | 'postmeta'
+  | 'post_content'
+  | 'post_excerpt'
+  | 'termmeta'
+  | 'usermeta'
+  | 'commentmeta'
+  | 'options'
+
+// Fields a filter condition can test; see Query_Filter::FIELDS for the operators each accepts
+export type FilterField =
+  | 'post_status'
+  | 'author'
+  | 'date'
+  | 'modified'
+  | 'object_id'
+  | 'term'
+  | 'value_length'
+  | 'value_empty'
+  | 'value_format'
+
+export type FilterOperator = 'in' | 'before' | 'after' | 'between' | 'gt' | 'lt' | 'is'
+
+export type ValueFormat = 'serialized' | 'json' | 'url'
+
+// One test on a row: "in" uses values, ranges use value and to (dates as YYYY-MM-DD), terms also name a taxonomy
+export interface FilterCondition {
+  field: FilterField
+  operator: FilterOperator
+  value?: string
+  to?: string
+  values?: string[]
+  taxonomy?: string
+  negate?: boolean
+}
+
+// Conditions and nested groups joined with AND ("all") or OR ("any")
+export interface FilterGroup {
+  match: 'all' | 'any'
+  negate?: boolean
+  conditions: FilterNode[]
+}
+
+export type FilterNode = FilterCondition | FilterGroup
+
+// Which data source, post types, keys and filters a search or replace covers, on top of the single post_type and meta_key
+export interface MetaScope {
+  // Defaults to postmeta
+  source?: DataSource
+  post_types?: string[]
+  meta_keys?: string[]
+  // * matches any run of characters and ? one character, e.g. "_elementor_*"
+  meta_key_pattern?: string
+  all_meta_keys?: boolean
+  filters?: FilterGroup
+}
+
+// Fields results can be sorted by; keep in sync with Search_Engine::SORT_FIELDS
+export type SortField = 'post_id' | 'title' | 'post_type' | 'status' | 'meta_key' | 'value_length' | 'modified'
+
+export type SortOrder = 'asc' | 'desc'
+
+// Offset pages are numbered; cursor batches continue by row ID from the last row seen
+export type PaginationMode = 'offset' | 'cursor'
+
+export interface SearchParams extends MetaScope {
   post_type: string
   meta_key: string
   value?: string
@@ -36,9 +103,19 @@ export interface SearchParams {
   case_sensitive?: boolean
   regex?: boolean
   dry_run?: boolean
+  // Newest rows first when left out
+  orderby?: SortField
+  order?: SortOrder
+  // Cursor pagination cannot be sorted by a field; it walks rows by ID, newest first unless order is asc
+  pagination?: PaginationMode
+  // The next_cursor of the previous batch; the first batch has none
+  cursor?: number
 }
 
+// Rows of every source use the post meta names: post_id is the term, user or comment ID (0 for options),
+// meta_id the row ID, meta_key the key, field or option name, and post_title and post_type describe the object
 export interface SearchResult {
+  source?: DataSource
   post_id: number
   post_title: string
   post_type: string
@@ -50,9 +127,13 @@ export interface SearchResult {
   backup_count: number
   edit_url: string
   view_url: string
+  is_modified?: boolean
+  // Last-modified date of posts; null for other sources
+  post_modified?: string | null
 }
 
 export interface SearchResponse {
+  source?: DataSource
   rows: SearchResult[]
   total: number
   total_pages: number
@@ -60,6 +141,19 @@ export interface SearchResponse {
   per_page: number
   has_next_page: boolean
   has_prev_page: boolean
+  // Rows per meta key across all pages; set when the search spans more than one key
+  groups?: MetaKeyGroup[]
+  // The sort applied; an empty orderby is the default newest-first order
+  orderby?: SortField | ''
+  order?: SortOrder
+  pagination?: PaginationMode
+  // Where the next cursor batch starts; null on the last batch and in offset mode
+  next_cursor?: number | null
+}
+
+export interface MetaKeyGroup {
+  meta_key: string
+  total: number
 }
 
 export interface MetaKeySuggestion {
@@ -68,6 +162,8 @@ export interface MetaKeySuggestion {
   label: string
 }
 
+export type PostTypeOption = Pick<PostTypeInfo, 'value' | 'label' | 'count'>
+
 export interface PostTypeInfo {
   value: string
   label: string
@@ -86,7 +182,7 @@ export type ReplaceMode =
   | 'prefix_swap'
   | 'full_text'
 
-export interface ReplaceParams {
+export interface ReplaceParams extends MetaScope {
   find: string
   replace: string
   mode: ReplaceMode
@@ -97,29 +193,196 @@ export interface ReplaceParams {
   limit?: number
   page?: number
   per_page?: number
+  regex?: boolean
+  structured?: boolean
+  targets?: ReplaceTarget[]
+  // Pipeline steps, run in order on each row as a single write; find, replace and mode are then unused
+  steps?: ReplaceStep[]
   confirm?: boolean
   batch_id?: string
+  cursor?: number
+}
+
+// One find/replace step of a pipeline
+export type ReplaceStep = Pick<ReplaceParams, 'find' | 'replace' | 'mode' | 'structured'>
+
+export interface ReplaceTarget {
+  post_id: number
+  meta_id: number
+}
+
+// Runs one replacement on the server against sample text; nothing is written
+export interface DryRunParams {
+  find: string
+  replace: string
+  mode: ReplaceMode
+  sample: string
+  structured?: boolean
+}
+
+export interface DryRunResult {
+  value: string
+  format: 'serialized' | 'json' | 'plain'
+  warnings: string[]
+  // Find and replace as the server received them after sanitizing
+  find: string
+  replace: string
+}
+
+// Counts rows containing each variant across a whole data source; the needle narrows rows in SQL, the pattern is counted
+export interface VariantScanParams {
+  source?: DataSource
+  variants: { needle: string; pattern: string }[]
+}
+
+export interface VariantScanCount {
+  needle: string
+  rows: number
+  matches: number
+  // False when the scan stopped at its row limit, so the counts are a lower bound
+  complete: boolean
+}
+
+// The part of ReplaceParams a recipe saves; any of these may contain {{placeholders}}
+export type RecipeFields = Pick<ReplaceParams, 'find' | 'replace' | 'mode' | 'structured' | 'post_type' | 'meta_key'>
+
+export interface RecipePlaceholder {
+  name: string
+  default: string
+}
+
+export interface ReplaceRecipe extends RecipeFields {
+  id: string
+  name: string
+  description: string
+  structured: boolean
+  placeholders: RecipePlaceholder[]
+  created_by: string
+  created_at: string
+  updated_by: string
+  updated_at: string
+}
+
+export interface SaveRecipeParams extends RecipeFields {
+  // Omitted to create a new recipe
+  id?: string
+  name: string
+  description: string
+  defaults: Record<string, string>
 }
 
 export interface ReplacePreview {
+  source?: DataSource
   rows: ReplacePreviewRow[]
   total: number
   total_matches: number
+  total_rows: number
+  scanned_rows: number
   mode: ReplaceMode
+  structured: boolean
   find: string
   replace: string
+  steps?: ReplaceStep[]
   has_changes: boolean
 }
 
 export interface ReplacePreviewRow {
+  source?: DataSource
   post_id: number
   post_title: string
+  meta_id?: number
   meta_key: string
   meta_before: string
   meta_after: string
   match_count: number
-  changes: ReplaceChanges
+  changes: ReplaceChanges[]
+  warnings: string[]
+}
+
+export type ExportFormat = 'csv' | 'json' | 'ndjson'
+
+// A search export lists the matching rows; a preview export lists each row the replacement changes, before and after
+export type ExportKind = 'search' | 'preview'
+
+export interface ExportOptions {
+  kind: ExportKind
+  format: ExportFormat
+  // Every column of the kind when empty
+  columns: string[]
+}
+
+// The search or replacement being exported, run again in full whatever page the table shows
+export type ExportParams = (SearchParams | ReplaceParams) & { export: ExportOptions }
+
+// What a column of a mapping file holds
+export type MappingField = 'post_id' | 'meta_key' | 'old_value' | 'new_value'
+
+// One row of a mapping file. With an object ID the old value is replaced inside that object's values,
+// or the key's whole value is overwritten; without one, whole values equal to the old value are replaced
+export interface ImportRow {
+  // Line of the uploaded file, so problems can be found there
+  line: number
+  post_id?: number
+  meta_key?: string
+  old_value?: string
+  new_value?: string
+}
+
+export interface ImportParams {
+  source?: DataSource
+  // ImportRow[] as JSON
+  rows: string
+}
+
+export interface ImportExecuteParams extends ImportParams {
+  // Checksum of each value the preview worked from, by row ID, as JSON; values changed since are skipped
+  expected: string
+}
+
+export interface ImportChange {
+  meta_id: number
+  post_id: number
+  post_title: string
+  meta_key: string
+  meta_before: string
+  meta_after: string
   warnings: string[]
+  checksum: string
+}
+
+export interface ImportPreviewRow {
+  line: number
+  status: 'ready' | 'unchanged' | 'error'
+  message: string
+  changes: ImportChange[]
+}
+
+export interface ImportPreview {
+  source: DataSource
+  rows: ImportPreviewRow[]
+  total_rows: number
+  ready_rows: number
+  error_rows: number
+  total_changes: number
+}
+
+export interface ImportResultItem {
+  line: number
+  post_id: number
+  meta_id: number
+  meta_key: string
+  status: 'updated' | 'failed' | 'skipped'
+  message?: string
+}
+
+export interface ImportResult {
+  ok: boolean
+  // Every write is backed up under this batch, which restores the whole import
+  batch_id: string
+  updated: number
+  failed: number
+  skipped: number
+  items: ImportResultItem[]
 }
 
 export interface ReplaceChanges {
@@ -131,9 +394,33 @@ export interface ReplaceResult {
   ok: boolean
   updated: number
   failed: number
+  skipped: number
   items: ReplaceResultItem[]
   batch_id: string
   total_processed: number
+  total_remaining: number
+  next_cursor: number
+  has_more: boolean
+}
+
+export type BulkJobStatus = 'running' | 'paused' | 'interrupted' | 'cancelled' | 'completed' | 'failed' | 'rolled_back'
+
+export interface BulkReplaceJob {
+  params: ReplaceParams
+  batch_id: string
+  cursor: number
+  chunk_size: number
+  total: number
+  processed: number
+  updated: number
+  failed: number
+  skipped: number
+  status: BulkJobStatus
+  error?: string
+  // Pipelines: a failed row restores the whole batch instead of leaving it half applied
+  rollback_on_failure?: boolean
+  started_at: string
+  updated_at: string
 }
 
 export interface ReplaceResultItem {
@@ -145,14 +432,33 @@ export interface ReplaceResultItem {
   message?: string
 }
 
+export interface UpdateRowParams {
+  source?: DataSource
+  post_id: number
+  // The exact row to write; without it the object's first row under the key is written
+  meta_id?: number
+  meta_key: string
+  new_value: string
+}
+
+export interface UpdateRowResult {
+  source: DataSource
+  post_id: number
+  meta_key: string
+  message: string
+}
+
 // Backup Types
 export interface BackupInfo {
   revision_id: string
+  // The table the value was backed up from
+  source: DataSource
   post_id: number
+  post_title?: string
   meta_key: string
   old_value: string
   new_value: string
-  operation: 'update' | 'restore' | 'manual'
+  operation: 'update' | 'restore' | 'manual' | 'import'
   batch_id?: string
   actor_id: number
   actor_name: string
@@ -169,16 +475,51 @@ export interface BackupParams {
   old_value: string
   new_value?: string
   batch_id?: string
-  operation?: 'update' | 'restore' | 'manual'
+  operation?: 'update' | 'restore' | 'manual' | 'import'
 }
 
 export interface RestoreParams {
   revision_id?: string
+  source?: DataSource
   post_id?: number
   meta_key?: string
   latest?: boolean
 }
 
+export interface BackupListParams {
+  source?: DataSource
+  post_id?: number
+  meta_key?: string
+  batch_id?: string
+  actor?: string
+  date_from?: string
+  date_to?: string
+  page?: number
+  per_page?: number
+}
+
+export interface BackupListResponse {
+  rows: BackupInfo[]
+  total: number
+  total_pages: number
+  page: number
+  per_page: number
+}
+
+export interface RestoreResult {
+  success: boolean
+  restored_revision_id: string
+  message: string
+}
+
+export interface BatchRestoreResult {
+  success: boolean
+  restored: number
+  failed: number
+  errors: Array<{ source: DataSource; post_id: number; meta_key: string; error: string }>
+  message: string
+}
+
 export interface BackupStats {
   total_backups: number
   total_size: number
@@ -196,14 +537,40 @@ export interface ApiResponse<T = any> {
   code?: string
 }
 
+export type ApiErrorCode =
+  | 'nonce_expired'
+  | 'not_logged_in'
+  | 'permission_denied'
+  | 'http_error'
+  | 'network_error'
+  | 'invalid_response'
+  | 'request_failed'
+
 export interface ApiError {
   success: false
   message: string
-  code: string
-  details?: any
+  code: ApiErrorCode
+  details?: unknown
+}
+
+// Admin Settings Types
+export interface AdminSettings {
+  maxResultsPerPage: number
+  maxBulkOperations: number
+  backupRetention: number
+  autoCleanup: number
+  regexTimeout: number
+}
+
+export interface ConnectionTestResult {
+  message: string
+  services: Record<string, string>
+  timestamp: string
 }
 
 // UI Component Types
+export type AdminTab = 'search' | 'live-tester' | 'migration' | 'import' | 'backups' | 'settings' | 'help'
+
 export interface ToastProps {
   title: string
   description?: string
@@ -227,6 +594,8 @@ export interface ModalProps extends DialogProps {
 }
 
 export interface TableColumn<T> {
+  // Stable ID, used in saved column choices; a sortable column sorts by the SortField of the same name
+  id: string
   key: keyof T
   label: string
   sortable?: boolean
@@ -234,6 +603,14 @@ export interface TableColumn<T> {
   render?: (value: any, row: T) => React.ReactNode
 }
 
+// A user's results table columns, as saved by wcfdr_save_table_columns
+export interface TableColumnPrefs {
+  hidden: string[]
+  widths: Record<string, number>
+  // One line per row until a row is expanded
+  compact?: boolean
+}
+
 export interface PaginationProps {
   currentPage: number
   totalPages: number
@@ -341,6 +718,24 @@ export interface LiveTesterResult {
   matchCount: number
   warnings: string[]
   processingTime: number
+  // Set for structure-aware runs
+  format?: 'serialized' | 'json' | 'plain'
+  // The text match offsets refer to; unset when matches were found inside separate string values
+  source?: string
+}
+
+export interface LiveTesterInput {
+  find: string
+  replace: string
+  sample: string
+  mode: ReplaceMode
+  structured: boolean
+}
+
+// A Live Tester run against one real meta row
+export interface RowTestResult {
+  row: SearchResult
+  result: LiveTesterResult
 }
 
 export interface MatchInfo {
@@ -348,6 +743,11 @@ export interface MatchInfo {
   end: number
   text: string
   replacement: string
+  // Capture groups $1..$n in order; undefined when a group did not take part in the match
+  groups?: (string | undefined)[]
+  namedGroups?: Record<string, string | undefined>
+  // Where the replacement starts in the new text, when it can be located
+  outputStart?: number
 }
 
 // Keyboard Shortcuts
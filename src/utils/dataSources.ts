@@ -0,0 +1,44 @@
+import type { DataSource } from '../types';
+
+export interface DataSourceInfo {
+  value: DataSource;
+  label: string;
+  // What a row's post_id points at
+  objectLabel: string;
+  // What a row's meta_key holds
+  keyLabel: string;
+  // What a row's post_type holds
+  typeLabel: string;
+  // Whether rows can be narrowed by key
+  keyed: boolean;
+  // Whether rows can be narrowed by post type
+  postTypes: boolean;
+  // What a row's post_status holds; null when it is always empty
+  statusLabel: string | null;
+  // Whether rows have a last-modified date to show and sort by
+  modified: boolean;
+}
+
+/**
+ * Labels for each data source; keep in sync with Data_Source::get()
+ */
+export const DATA_SOURCES: DataSourceInfo[] = [
+  { value: 'postmeta', label: 'Post meta', objectLabel: 'Post', keyLabel: 'Meta Key', typeLabel: 'Post type', keyed: true, postTypes: true, statusLabel: 'Post status', modified: true },
+  { value: 'post_content', label: 'Post content', objectLabel: 'Post', keyLabel: 'Field', typeLabel: 'Post type', keyed: false, postTypes: true, statusLabel: 'Post status', modified: true },
+  { value: 'post_excerpt', label: 'Post excerpt', objectLabel: 'Post', keyLabel: 'Field', typeLabel: 'Post type', keyed: false, postTypes: true, statusLabel: 'Post status', modified: true },
+  { value: 'termmeta', label: 'Term meta', objectLabel: 'Term', keyLabel: 'Meta Key', typeLabel: 'Taxonomy', keyed: true, postTypes: false, statusLabel: null, modified: false },
+  { value: 'usermeta', label: 'User meta', objectLabel: 'User', keyLabel: 'Meta Key', typeLabel: 'Login', keyed: true, postTypes: false, statusLabel: null, modified: false },
+  { value: 'commentmeta', label: 'Comment meta', objectLabel: 'Comment', keyLabel: 'Meta Key', typeLabel: 'Comment type', keyed: true, postTypes: false, statusLabel: 'Approved', modified: false },
+  { value: 'options', label: 'Options', objectLabel: 'Option', keyLabel: 'Option Name', typeLabel: 'Type', keyed: true, postTypes: false, statusLabel: 'Autoload', modified: false }
+];
+
+export const sourceInfo = (source?: DataSource): DataSourceInfo =>
+  DATA_SOURCES.find(info => info.value === source) ?? DATA_SOURCES[0];
+
+/**
+ * The sources the current user may search, as localized by the plugin
+ */
+export const availableSources = (): DataSourceInfo[] => {
+  const allowed = window.wcfdr_ajax?.sources;
+  return allowed?.length ? DATA_SOURCES.filter(info => allowed.indexOf(info.value) !== -1) : DATA_SOURCES;
+};
@@ -0,0 +1,205 @@
+export type DiffOp = 'equal' | 'insert' | 'delete';
+
+export interface DiffSegment {
+  op: DiffOp;
+  text: string;
+}
+
+export interface DiffStats {
+  inserted: number;
+  deleted: number;
+  changes: number;
+}
+
+// Past this many edits the Myers search costs more than it helps; the middle is shown as one replacement
+const MAX_EDIT_DISTANCE = 1000;
+
+const push = (segments: DiffSegment[], op: DiffOp, text: string) => {
+  if (!text) return;
+  const last = segments[segments.length - 1];
+  if (last && last.op === op) {
+    last.text += text;
+  } else {
+    segments.push({ op, text });
+  }
+};
+
+/**
+ * Myers O(ND) diff over characters. Returns null when the edit distance exceeds the budget.
+ */
+const myers = (a: string[], b: string[]): DiffSegment[] | null => {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(a, b, trace, d, offset);
+      }
+    }
+  }
+
+  return null;
+};
+
+const backtrack = (a: string[], b: string[], trace: Int32Array[], depth: number, offset: number): DiffSegment[] => {
+  const reversed: DiffSegment[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = depth; d > 0; d--) {
+    const v = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = v[offset + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      reversed.push({ op: 'equal', text: a[x - 1] });
+      x--;
+      y--;
+    }
+    if (x === prevX) {
+      reversed.push({ op: 'insert', text: b[y - 1] });
+    } else {
+      reversed.push({ op: 'delete', text: a[x - 1] });
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  while (x > 0 && y > 0) {
+    reversed.push({ op: 'equal', text: a[x - 1] });
+    x--;
+    y--;
+  }
+
+  const segments: DiffSegment[] = [];
+  for (let i = reversed.length - 1; i >= 0; i--) {
+    push(segments, reversed[i].op, reversed[i].text);
+  }
+  return segments;
+};
+
+/**
+ * Character-level diff of two strings, as runs of equal, deleted and inserted text
+ *
+ * Characters are code points, so an emoji or other astral character is never split into its surrogate halves.
+ */
+export const diffChars = (beforeText: string, afterText: string): DiffSegment[] => {
+  if (beforeText === afterText) {
+    return beforeText ? [{ op: 'equal', text: beforeText }] : [];
+  }
+
+  const before = Array.from(beforeText);
+  const after = Array.from(afterText);
+
+  // Strip the common prefix and suffix so the expensive part only sees what changed
+  let start = 0;
+  const minLength = Math.min(before.length, after.length);
+  while (start < minLength && before[start] === after[start]) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < minLength - start &&
+    before[before.length - 1 - end] === after[after.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  const oldMiddle = before.slice(start, before.length - end);
+  const newMiddle = after.slice(start, after.length - end);
+
+  const segments: DiffSegment[] = [];
+  push(segments, 'equal', before.slice(0, start).join(''));
+
+  const middle = myers(oldMiddle, newMiddle);
+  if (middle) {
+    middle.forEach(segment => push(segments, segment.op, segment.text));
+  } else {
+    push(segments, 'delete', oldMiddle.join(''));
+    push(segments, 'insert', newMiddle.join(''));
+  }
+
+  push(segments, 'equal', before.slice(before.length - end).join(''));
+  return cleanupSegments(segments);
+};
+
+/**
+ * Fold equalities of one or two characters that sit between edits into the edits,
+ * so "abc" -> "xbz" reads as one replacement rather than three fragments
+ */
+const cleanupSegments = (segments: DiffSegment[]): DiffSegment[] => {
+  const result: DiffSegment[] = [];
+  let pendingDelete = '';
+  let pendingInsert = '';
+
+  const flush = () => {
+    push(result, 'delete', pendingDelete);
+    push(result, 'insert', pendingInsert);
+    pendingDelete = '';
+    pendingInsert = '';
+  };
+
+  segments.forEach((segment, index) => {
+    if (segment.op === 'delete') {
+      pendingDelete += segment.text;
+    } else if (segment.op === 'insert') {
+      pendingInsert += segment.text;
+    } else {
+      const between = index > 0 && index < segments.length - 1 && (pendingDelete || pendingInsert);
+      if (between && Array.from(segment.text).length <= 2) {
+        pendingDelete += segment.text;
+        pendingInsert += segment.text;
+      } else {
+        flush();
+        push(result, 'equal', segment.text);
+      }
+    }
+  });
+  flush();
+
+  return result;
+};
+
+export const diffStats = (segments: DiffSegment[]): DiffStats => {
+  let inserted = 0;
+  let deleted = 0;
+  let changes = 0;
+  let inChange = false;
+
+  segments.forEach(segment => {
+    if (segment.op === 'equal') {
+      inChange = false;
+      return;
+    }
+    if (!inChange) {
+      changes++;
+      inChange = true;
+    }
+    const length = Array.from(segment.text).length;
+    if (segment.op === 'insert') {
+      inserted += length;
+    } else {
+      deleted += length;
+    }
+  });
+
+  return { inserted, deleted, changes };
+};
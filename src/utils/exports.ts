@@ -0,0 +1,37 @@
+import type { ExportFormat, ExportKind } from '../types';
+
+export interface ExportColumnInfo {
+  value: string;
+  label: string;
+}
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; description: string }[] = [
+  { value: 'csv', label: 'CSV', description: 'Opens in spreadsheet programs' },
+  { value: 'json', label: 'JSON', description: 'One array of rows' },
+  { value: 'ndjson', label: 'NDJSON', description: 'One row per line, for streaming tools' }
+];
+
+// Same columns in the same order as Export_Manager::COLUMNS
+export const EXPORT_COLUMNS: Record<ExportKind, ExportColumnInfo[]> = {
+  search: [
+    { value: 'post_id', label: 'Object ID' },
+    { value: 'post_title', label: 'Title' },
+    { value: 'post_type', label: 'Type' },
+    { value: 'post_status', label: 'Status' },
+    { value: 'meta_id', label: 'Row ID' },
+    { value: 'meta_key', label: 'Key' },
+    { value: 'meta_value', label: 'Value' },
+    { value: 'value_length', label: 'Value length' },
+    { value: 'post_modified', label: 'Modified' }
+  ],
+  preview: [
+    { value: 'post_id', label: 'Object ID' },
+    { value: 'post_title', label: 'Title' },
+    { value: 'meta_id', label: 'Row ID' },
+    { value: 'meta_key', label: 'Key' },
+    { value: 'meta_before', label: 'Value before' },
+    { value: 'meta_after', label: 'Value after' },
+    { value: 'match_count', label: 'Matches' },
+    { value: 'warnings', label: 'Warnings' }
+  ]
+};
@@ -0,0 +1,191 @@
+import type { DataSource, FilterCondition, FilterField, FilterGroup, FilterNode, FilterOperator, ValueFormat } from '../types';
+
+export interface FilterFieldInfo {
+  value: FilterField;
+  label: string;
+  operators: FilterOperator[];
+  input: 'status' | 'list' | 'term' | 'date' | 'number' | 'format' | 'none';
+  // Sources the field applies to; every source when left out. Keep in sync with Query_Filter
+  sources?: DataSource[];
+  placeholder?: string;
+}
+
+const POST_SOURCES: DataSource[] = ['postmeta', 'post_content', 'post_excerpt'];
+
+// Same as Query_Filter::MAX_DEPTH
+export const MAX_FILTER_DEPTH = 3;
+
+export const FILTER_FIELDS: FilterFieldInfo[] = [
+  { value: 'post_status', label: 'Post status', operators: ['in'], input: 'status', sources: POST_SOURCES },
+  { value: 'author', label: 'Author', operators: ['in'], input: 'list', sources: POST_SOURCES, placeholder: 'User IDs, e.g. 1, 12' },
+  { value: 'date', label: 'Date', operators: ['after', 'before', 'between'], input: 'date', sources: [...POST_SOURCES, 'usermeta', 'commentmeta'] },
+  { value: 'modified', label: 'Modified', operators: ['after', 'before', 'between'], input: 'date', sources: POST_SOURCES },
+  { value: 'object_id', label: 'Object ID', operators: ['gt', 'lt', 'between'], input: 'number', sources: ['postmeta', 'post_content', 'post_excerpt', 'termmeta', 'usermeta', 'commentmeta'] },
+  { value: 'term', label: 'Taxonomy term', operators: ['in'], input: 'term', sources: POST_SOURCES, placeholder: 'Term slugs, e.g. news, events' },
+  { value: 'value_length', label: 'Value length', operators: ['gt', 'lt', 'between'], input: 'number' },
+  { value: 'value_empty', label: 'Value is empty', operators: ['is'], input: 'none' },
+  { value: 'value_format', label: 'Value format', operators: ['is'], input: 'format' }
+];
+
+export const OPERATOR_LABELS: Record<FilterOperator, string> = {
+  in: 'is any of',
+  before: 'before',
+  after: 'after',
+  between: 'between',
+  gt: 'more than',
+  lt: 'less than',
+  is: 'is'
+};
+
+export const VALUE_FORMATS: { value: ValueFormat; label: string }[] = [
+  { value: 'serialized', label: 'Serialized PHP' },
+  { value: 'json', label: 'JSON' },
+  { value: 'url', label: 'A URL' }
+];
+
+// Core statuses; custom statuses can still be matched by searching without a status filter
+export const POST_STATUSES = ['publish', 'draft', 'pending', 'private', 'future', 'trash', 'inherit', 'auto-draft'];
+
+// The date field means something different for each object
+const DATE_LABELS: Partial<Record<DataSource, string>> = {
+  usermeta: 'Registered',
+  commentmeta: 'Comment date'
+};
+
+export const fieldInfo = (field: FilterField): FilterFieldInfo =>
+  FILTER_FIELDS.find(info => info.value === field) ?? FILTER_FIELDS[0];
+
+export const fieldLabel = (field: FilterField, source: DataSource = 'postmeta'): string =>
+  field === 'date' ? DATE_LABELS[source] ?? 'Published' : fieldInfo(field).label;
+
+const appliesTo = (field: FilterField, source: DataSource): boolean => {
+  const sources = fieldInfo(field).sources;
+  return !sources || sources.indexOf(source) !== -1;
+};
+
+export const fieldsForSource = (source: DataSource = 'postmeta'): FilterFieldInfo[] =>
+  FILTER_FIELDS.filter(info => appliesTo(info.value, source));
+
+export const isGroup = (node: FilterNode): node is FilterGroup => 'conditions' in node;
+
+export const emptyGroup = (): FilterGroup => ({ match: 'all', conditions: [] });
+
+export const newCondition = (field: FilterField): FilterCondition => {
+  const info = fieldInfo(field);
+  return {
+    field,
+    operator: info.operators[0],
+    ...(info.input === 'format' ? { value: 'json' } : {})
+  };
+};
+
+/**
+ * Builder state without the conditions another source has no field for
+ */
+export const keepApplicable = (group: FilterGroup, source: DataSource): FilterGroup => ({
+  ...group,
+  conditions: group.conditions
+    .filter(node => isGroup(node) || appliesTo(node.field, source))
+    .map(node => (isGroup(node) ? keepApplicable(node, source) : node))
+});
+
+export const countConditions = (group: FilterGroup): number =>
+  group.conditions.reduce((total, node) => total + (isGroup(node) ? countConditions(node) : 1), 0);
+
+// Author IDs and term slugs are typed as one comma-separated value and sent as a list
+const splitList = (text?: string): string[] =>
+  (text ?? '').split(',').map(item => item.trim()).filter(Boolean);
+
+const normalizeCondition = (condition: FilterCondition, source: DataSource): FilterCondition | null => {
+  const info = fieldInfo(condition.field);
+  if (!appliesTo(condition.field, source)) {
+    return null;
+  }
+
+  const base = { field: condition.field, operator: condition.operator, negate: condition.negate || undefined };
+  switch (info.input) {
+    case 'status':
+      return condition.values?.length ? { ...base, values: condition.values } : null;
+    case 'list':
+      return splitList(condition.value).length ? { ...base, values: splitList(condition.value) } : null;
+    case 'term':
+      return condition.taxonomy && splitList(condition.value).length
+        ? { ...base, taxonomy: condition.taxonomy.trim(), values: splitList(condition.value) }
+        : null;
+    case 'date':
+    case 'number':
+      if (!condition.value || (condition.operator === 'between' && !condition.to)) {
+        return null;
+      }
+      return { ...base, value: condition.value, ...(condition.operator === 'between' ? { to: condition.to } : {}) };
+    case 'format':
+      return condition.value ? { ...base, value: condition.value } : null;
+    default:
+      return base;
+  }
+};
+
+/**
+ * Builder state as sent in SearchParams.filters: unfinished conditions, conditions that do not
+ * apply to the source and empty groups are left out, and nothing at all gives undefined
+ */
+export const toSearchFilters = (group: FilterGroup, source: DataSource = 'postmeta'): FilterGroup | undefined => {
+  const conditions = group.conditions
+    .map(node => (isGroup(node) ? toSearchFilters(node, source) : normalizeCondition(node, source)))
+    .filter((node): node is FilterNode => !!node);
+
+  return conditions.length ? { match: group.match, negate: group.negate || undefined, conditions } : undefined;
+};
+
+/**
+ * SearchParams.filters back as builder state, with lists joined into the text the builder edits
+ */
+export const fromSearchFilters = (group?: FilterGroup): FilterGroup => {
+  if (!group) {
+    return emptyGroup();
+  }
+
+  return {
+    match: group.match === 'any' ? 'any' : 'all',
+    negate: group.negate,
+    conditions: (group.conditions ?? []).map(node => {
+      if (isGroup(node)) {
+        return fromSearchFilters(node);
+      }
+      const input = fieldInfo(node.field).input;
+      return input === 'list' || input === 'term' ? { ...node, value: (node.values ?? []).join(', '), values: undefined } : node;
+    })
+  };
+};
+
+const describeCondition = (condition: FilterCondition, source: DataSource): string => {
+  const label = fieldLabel(condition.field, source).toLowerCase();
+  let text: string;
+  switch (condition.operator) {
+    case 'in':
+      text = `${label}${condition.taxonomy ? ` (${condition.taxonomy})` : ''} is any of ${(condition.values ?? []).join(', ')}`;
+      break;
+    case 'between':
+      text = `${label} between ${condition.value} and ${condition.to}`;
+      break;
+    case 'is':
+      text = condition.field === 'value_empty'
+        ? 'value is empty'
+        : `value is ${VALUE_FORMATS.find(format => format.value === condition.value)?.label ?? condition.value}`;
+      break;
+    default:
+      text = `${label} ${OPERATOR_LABELS[condition.operator]} ${condition.value}`;
+  }
+  return condition.negate ? `not (${text})` : text;
+};
+
+/**
+ * One-line reading of a filter tree, such as "post status is any of draft and not (value is empty)"
+ */
+export const describeFilters = (group: FilterGroup, source: DataSource = 'postmeta'): string => {
+  const parts = group.conditions.map(node =>
+    isGroup(node) ? `(${describeFilters(node, source)})` : describeCondition(node, source)
+  );
+  const text = parts.join(group.match === 'any' ? ' or ' : ' and ');
+  return group.negate ? `not (${text})` : text;
+};
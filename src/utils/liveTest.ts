@@ -0,0 +1,56 @@
+import { replaceStructured, isSerialized } from './structuredReplace';
+import { applyReplaceMode, countUrls } from './replaceModes';
+import type { EntityDecoder, ModeResult } from './replaceModes';
+import type { LiveTesterInput, LiveTesterResult, MatchInfo } from '../types';
+
+/**
+ * Run one Live Tester replacement. Has no DOM dependency when given an entity
+ * decoder, so it runs the same on the main thread and in the tester's worker.
+ */
+export const runLiveTest = (
+  { find, replace, sample, mode, structured }: LiveTesterInput,
+  decodeEntities?: EntityDecoder
+): LiveTesterResult => {
+  const startTime = performance.now();
+  const runs: ModeResult[] = [];
+  let warnings: string[] = [];
+  let format: LiveTesterResult['format'];
+
+  // Same semantics as Replace_Engine::perform_replacement; structure-aware runs call it once per string value
+  const replaceIn = (text: string): string => {
+    const result = applyReplaceMode(text, find, replace, mode, decodeEntities);
+    runs.push(result);
+    return result.value;
+  };
+
+  if ((mode === 'url' || mode === 'url_segment') && countUrls(sample) === 0) {
+    warnings.push('The sample contains no http(s) URLs, so this mode has nothing to change');
+  }
+
+  let newText: string;
+  if (structured && mode !== 'full_text') {
+    const result = replaceStructured(sample, replaceIn);
+    newText = result.value;
+    format = result.format;
+    warnings = [...warnings, ...result.warnings];
+  } else {
+    newText = replaceIn(sample);
+    if (isSerialized(sample) && newText !== sample && !isSerialized(newText)) {
+      warnings.push('The result is no longer valid serialized PHP. Turn on "Keep serialized and JSON values valid" to replace inside it safely.');
+    } else if (isSerialized(sample) && new Blob([newText]).size !== new Blob([sample]).size) {
+      warnings.push('Serialized string lengths were not updated, so WordPress will fail to unserialize this value. Turn on "Keep serialized and JSON values valid" to replace inside it safely.');
+    }
+  }
+
+  const matches = runs.reduce<MatchInfo[]>((all, run) => all.concat(run.matches), []);
+
+  return {
+    matches,
+    newText,
+    matchCount: matches.length,
+    warnings: Array.from(new Set(warnings)),
+    processingTime: performance.now() - startTime,
+    format,
+    source: runs.length === 1 && format !== 'serialized' && format !== 'json' ? runs[0].source : undefined
+  };
+};
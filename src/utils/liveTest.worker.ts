@@ -0,0 +1,28 @@
+import { runLiveTest } from './liveTest';
+import { entityDecoderFrom } from './replaceModes';
+import type { LiveTesterInput, LiveTesterResult } from '../types';
+
+export interface LiveTestRequest {
+  inputs: LiveTesterInput[];
+  // Decoded entity references from the samples; workers have no DOM to decode them
+  entities: Record<string, string>;
+}
+
+export type LiveTestResponse = { results: LiveTesterResult[] } | { error: string };
+
+// The DOM lib types self as a window; inside a worker it is the worker's global scope
+const scope = self as unknown as Worker;
+
+scope.onmessage = (event: MessageEvent<LiveTestRequest>) => {
+  const { inputs, entities } = event.data;
+  const decodeEntities = entityDecoderFrom(entities);
+  let response: LiveTestResponse;
+
+  try {
+    response = { results: inputs.map(input => runLiveTest(input, decodeEntities)) };
+  } catch (error) {
+    response = { error: error instanceof Error ? error.message : String(error) };
+  }
+
+  scope.postMessage(response);
+};
@@ -0,0 +1,87 @@
+import { runLiveTest } from './liveTest';
+import { collectEntities } from './replaceModes';
+import type { LiveTestRequest, LiveTestResponse } from './liveTest.worker';
+import type { LiveTesterInput, LiveTesterResult } from '../types';
+
+export class RegexTimeoutError extends Error {}
+
+const createWorker = (): Worker | null => {
+  if (typeof Worker === 'undefined') return null;
+  try {
+    return new Worker(new URL('./liveTest.worker.ts', import.meta.url));
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Run Live Tester replacements in a worker that is terminated after timeoutMs, so a
+ * catastrophically backtracking pattern cannot freeze the admin tab. The timeout covers
+ * the whole batch. Where workers are unavailable the tests run on the main thread, but
+ * only if allowMainThread is set.
+ */
+export const runLiveTestsWithTimeout = (
+  inputs: LiveTesterInput[],
+  timeoutMs: number,
+  allowMainThread: boolean
+): Promise<LiveTesterResult[]> =>
+  new Promise((resolve, reject) => {
+    const runOnMainThread = () => {
+      if (!allowMainThread) {
+        reject(new Error('This pattern was flagged as risky and cannot be tested safely because background workers are unavailable in this browser.'));
+        return;
+      }
+      try {
+        resolve(inputs.map(input => runLiveTest(input)));
+      } catch (error) {
+        reject(error);
+      }
+    };
+
+    const worker = createWorker();
+    if (!worker) {
+      runOnMainThread();
+      return;
+    }
+
+    const finish = () => {
+      clearTimeout(timer);
+      worker.terminate();
+    };
+
+    const timer = setTimeout(() => {
+      finish();
+      reject(new RegexTimeoutError(
+        `The test was stopped after ${timeoutMs.toLocaleString()} ms. The pattern is probably backtracking catastrophically; simplify it before running it on the database.`
+      ));
+    }, timeoutMs);
+
+    worker.onmessage = (event: MessageEvent<LiveTestResponse>) => {
+      finish();
+      if ('error' in event.data) {
+        reject(new Error(event.data.error));
+      } else {
+        resolve(event.data.results);
+      }
+    };
+
+    // Only fires when the worker script itself fails to load; test errors come back as messages
+    worker.onerror = (event) => {
+      event.preventDefault();
+      finish();
+      runOnMainThread();
+    };
+
+    const request: LiveTestRequest = {
+      inputs,
+      entities: inputs.reduce<Record<string, string>>((table, input) => ({ ...table, ...collectEntities(input.sample) }), {})
+    };
+    worker.postMessage(request);
+  });
+
+export const runLiveTestWithTimeout = (
+  input: LiveTesterInput,
+  timeoutMs: number,
+  allowMainThread: boolean
+): Promise<LiveTesterResult> =>
+  runLiveTestsWithTimeout([input], timeoutMs, allowMainThread).then(results => results[0]);
@@ -0,0 +1,216 @@
+import type { ImportRow, MappingField } from '../types';
+
+export interface MappingFile {
+  headers: string[];
+  records: Record<string, string>[];
+  // Line of the file each record starts on
+  lines: number[];
+}
+
+// The file column read for each field; an empty string leaves the field out
+export type ColumnMapping = Record<MappingField, string>;
+
+export interface MappingFieldInfo {
+  value: MappingField;
+  label: string;
+  description: string;
+  // Header names, lowercased and without spaces or dashes, that are picked for the field on their own
+  aliases: string[];
+}
+
+// Same limit as Mapping_Import::MAX_ROWS
+export const MAX_IMPORT_ROWS = 5000;
+
+export const MAPPING_FIELDS: MappingFieldInfo[] = [
+  {
+    value: 'post_id',
+    label: 'Object ID',
+    description: 'Post, term, user or comment ID. Leave unmapped to match rows by their whole value instead',
+    aliases: ['postid', 'id', 'objectid', 'post', 'termid', 'userid', 'commentid']
+  },
+  {
+    value: 'meta_key',
+    label: 'Key',
+    description: 'Meta key or option name',
+    aliases: ['metakey', 'key', 'optionname', 'option', 'field']
+  },
+  {
+    value: 'old_value',
+    label: 'Old value (find)',
+    description: 'Text to replace inside the value of the object, or the whole value to match without an object ID',
+    aliases: ['oldvalue', 'old', 'find', 'from', 'search', 'before']
+  },
+  {
+    value: 'new_value',
+    label: 'New value (replace)',
+    description: 'What the old value, or the whole value when there is no old value, becomes',
+    aliases: ['newvalue', 'new', 'replace', 'to', 'replacement', 'after']
+  }
+];
+
+const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[\s_-]+/g, '');
+
+/**
+ * Rows of a CSV file, read as RFC 4180: quoted fields may hold delimiters, doubled quotes and line breaks
+ *
+ * The delimiter is the comma, semicolon or tab found most often in the first line, since spreadsheet
+ * programs in many locales save with semicolons.
+ */
+export const parseCsv = (text: string): { rows: string[][]; lines: number[] } => {
+  const input = text.replace(/^﻿/, '');
+  const firstLine = input.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best, ',');
+
+  const rows: string[][] = [];
+  const lines: number[] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      lines.push(rowLine);
+      row = [];
+      field = '';
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+    lines.push(rowLine);
+  }
+
+  return { rows, lines };
+};
+
+/**
+ * A mapping file's columns and records, from CSV with a header line or from a JSON array of objects
+ */
+export const parseMappingFile = (name: string, text: string): MappingFile => {
+  const trimmed = text.trim();
+
+  if (/\.json$/i.test(name) || trimmed.startsWith('[')) {
+    const parsed = JSON.parse(trimmed);
+    if (!Array.isArray(parsed) || parsed.some(item => !item || typeof item !== 'object' || Array.isArray(item))) {
+      throw new Error('A JSON mapping must be an array of objects, one per row');
+    }
+
+    const headers: string[] = [];
+    parsed.forEach(item => Object.keys(item).forEach(key => {
+      if (!headers.includes(key)) headers.push(key);
+    }));
+
+    return {
+      headers,
+      records: parsed.map(item => Object.fromEntries(
+        Object.entries(item).map(([key, value]) => [key, value === null || value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value)])
+      )),
+      // Objects have no lines of their own, so they are counted from 1
+      lines: parsed.map((_item, index) => index + 1)
+    };
+  }
+
+  const { rows, lines } = parseCsv(text);
+  if (rows.length < 2) {
+    throw new Error('A CSV mapping needs a header line and at least one row');
+  }
+
+  const headers = rows[0].map((header, index) => header.trim() || `Column ${index + 1}`);
+  const records: Record<string, string>[] = [];
+  const recordLines: number[] = [];
+  rows.slice(1).forEach((row, index) => {
+    // Blank lines, often left at the end of a spreadsheet export, are not rows
+    if (row.every(cell => cell.trim() === '')) return;
+    records.push(Object.fromEntries(headers.map((header, column) => [header, row[column] ?? ''])));
+    recordLines.push(lines[index + 1]);
+  });
+
+  return { headers, records, lines: recordLines };
+};
+
+/**
+ * The column each field is most likely read from, going by the header names
+ */
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = { post_id: '', meta_key: '', old_value: '', new_value: '' };
+  const taken = new Set<string>();
+
+  MAPPING_FIELDS.forEach(field => {
+    const header = headers.find(candidate => !taken.has(candidate) && field.aliases.includes(normalizeHeader(candidate)));
+    if (header) {
+      mapping[field.value] = header;
+      taken.add(header);
+    }
+  });
+
+  return mapping;
+};
+
+/**
+ * The records of a file as import rows, read through the column mapping; an empty object ID is sent as 0
+ */
+export const buildImportRows = (file: MappingFile, mapping: ColumnMapping): ImportRow[] =>
+  file.records.map((record, index) => {
+    const row: ImportRow = { line: file.lines[index] };
+    if (mapping.post_id) {
+      const id = record[mapping.post_id].trim();
+      row.post_id = id === '' ? 0 : Number(id);
+    }
+    if (mapping.meta_key) row.meta_key = record[mapping.meta_key].trim();
+    if (mapping.old_value) row.old_value = record[mapping.old_value];
+    if (mapping.new_value) row.new_value = record[mapping.new_value];
+    return row;
+  });
+
+/**
+ * Why a mapping cannot be previewed yet, or null when it can
+ */
+export const mappingProblem = (file: MappingFile, mapping: ColumnMapping): string | null => {
+  if (!mapping.new_value) {
+    return 'Choose the column holding the new values.';
+  }
+  if (!mapping.post_id && !mapping.old_value && !mapping.meta_key) {
+    return 'Choose an object ID, key or old value column, so each row says which values it changes.';
+  }
+  if (file.records.length > MAX_IMPORT_ROWS) {
+    return `The file has ${file.records.length.toLocaleString()} rows; an import can have at most ${MAX_IMPORT_ROWS.toLocaleString()}.`;
+  }
+  const badLine = mapping.post_id
+    ? file.records.findIndex(record => record[mapping.post_id].trim() !== '' && !/^\d+$/.test(record[mapping.post_id].trim()))
+    : -1;
+  if (badLine !== -1) {
+    return `Line ${file.lines[badLine]}: "${file.records[badLine][mapping.post_id]}" is not an object ID.`;
+  }
+  return null;
+};
@@ -0,0 +1,115 @@
+import { escapePcreReplacement, pregQuote } from './pcre';
+import type { ReplaceStep } from '../types';
+
+export interface SiteUrl {
+  scheme: 'http' | 'https';
+  host: string;
+  // Without a trailing slash; empty for a site at the domain root
+  path: string;
+}
+
+export interface MigrationVariant {
+  label: string;
+  // The literal text this variant replaces, as it appears in stored values
+  needle: string;
+  replacement: string;
+  // PCRE pattern for the needle that stops at a URL boundary, so old.com never matches old.com.au
+  pattern: string;
+  // Protocol-relative: the pattern also matches the character before "//", which the replacement puts back
+  relative: boolean;
+}
+
+interface Encoding {
+  label: string;
+  encode: (url: string) => string;
+}
+
+const ENCODINGS: Encoding[] = [
+  { label: 'plain', encode: url => url },
+  { label: 'JSON-escaped', encode: url => url.replace(/\//g, '\\/') },
+  { label: 'URL-encoded', encode: url => encodeURIComponent(url) }
+];
+
+// A URL continues if the next character could still be part of the host or path segment. A dot
+// only continues it when more of a name follows, so "old.com.au" is skipped but "old.com." ending a sentence is not
+const BOUNDARY = '(?![\\w-]|\\.[\\w-])';
+
+/**
+ * Parse a site address such as "https://www.example.com/blog/". Returns null when it is not an
+ * absolute http(s) URL without a query or fragment.
+ */
+export const parseSiteUrl = (input: string): SiteUrl | null => {
+  const match = /^(https?):\/\/([a-z0-9.-]+(?::\d+)?)(\/[^?#\s]*)?$/i.exec(input.trim());
+  if (!match) return null;
+
+  return {
+    scheme: match[1].toLowerCase() as SiteUrl['scheme'],
+    host: match[2].toLowerCase(),
+    path: (match[3] ?? '').replace(/\/+$/, '')
+  };
+};
+
+/**
+ * The host without "www." or a port, which every variant of the address contains
+ */
+export const siteHost = (site: SiteUrl): string => site.host.replace(/^www\./, '').replace(/:\d+$/, '');
+
+const wwwVariants = (host: string): string[] =>
+  host.startsWith('www.') ? [host, host.slice(4)] : [host, `www.${host}`];
+
+/**
+ * Every form the old address may be stored in, each paired with the new address in the same form.
+ *
+ * Both schemes and the host with and without "www." all become the new address. Trailing slashes
+ * are dropped from both addresses, so everything below the old address moves with it. Full URLs
+ * come first, so the protocol-relative variants only see "//host" that no scheme precedes.
+ */
+export const buildMigrationVariants = (from: SiteUrl, to: SiteUrl): MigrationVariant[] => {
+  const variants: MigrationVariant[] = [];
+  const schemes: SiteUrl['scheme'][] = from.scheme === 'https' ? ['https', 'http'] : ['http', 'https'];
+  const hosts = wwwVariants(from.host);
+  const target = `${to.scheme}://${to.host}${to.path}`;
+
+  const add = (label: string, needle: string, replacement: string, relative = false) => {
+    if (needle === replacement || variants.some(variant => variant.needle === needle)) return;
+    const quoted = pregQuote(needle, '~') + BOUNDARY;
+    variants.push({
+      label,
+      needle,
+      replacement,
+      // Patterns avoid "<" because the server strips anything that looks like an HTML tag
+      pattern: relative ? `~(^|[^:])${quoted}~i` : `~${quoted}~i`,
+      relative
+    });
+  };
+
+  ENCODINGS.forEach(encoding => {
+    schemes.forEach(scheme => {
+      hosts.forEach(host => {
+        const parts = [scheme, host.startsWith('www.') ? 'www' : 'no www', encoding.label];
+        add(parts.join(' · '), encoding.encode(`${scheme}://${host}${from.path}`), encoding.encode(target));
+      });
+    });
+  });
+
+  // Protocol-relative addresses ("//old.com/...") only appear plain or JSON-escaped
+  ENCODINGS.slice(0, 2).forEach(encoding => {
+    hosts.forEach(host => {
+      const parts = ['protocol-relative', host.startsWith('www.') ? 'www' : 'no www', encoding.label];
+      add(parts.join(' · '), encoding.encode(`//${host}${from.path}`), encoding.encode(`//${to.host}${to.path}`), true);
+    });
+  });
+
+  return variants;
+};
+
+/**
+ * The regex replace step that applies one variant
+ */
+export const variantStep = (variant: MigrationVariant): ReplaceStep => ({
+  find: variant.pattern,
+  replace: (variant.relative ? '${1}' : '') + escapePcreReplacement(variant.replacement),
+  mode: 'regex',
+  // Values that change length inside serialized PHP data need their length prefixes recomputed
+  structured: true
+});
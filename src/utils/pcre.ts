@@ -0,0 +1,657 @@
+/**
+ * Translation of PHP PCRE patterns and preg_replace() replacement strings to JavaScript,
+ * so the Live Tester runs what the server runs. Constructs JavaScript cannot express
+ * are rejected with an explanation instead of being approximated.
+ */
+
+export class PatternError extends Error {}
+
+export interface PcreTranslation {
+  regex: RegExp;
+  // Differences the browser run cannot reproduce
+  notes: string[];
+  // Without the u modifier PCRE matches bytes rather than characters
+  byteMode: boolean;
+}
+
+interface Modifiers {
+  i: boolean;
+  m: boolean;
+  s: boolean;
+  x: boolean;
+  u: boolean;
+  D: boolean;
+  U: boolean;
+  A: boolean;
+  n: boolean;
+}
+
+const BRACKET_DELIMITERS: Record<string, string> = { '(': ')', '[': ']', '{': '}', '<': '>' };
+
+// Modifiers that change nothing the tester can observe
+const INERT_MODIFIERS = 'SXJ';
+
+const POSIX_CLASSES: Record<string, string> = {
+  alpha: 'a-zA-Z',
+  digit: '0-9',
+  alnum: 'a-zA-Z0-9',
+  upper: 'A-Z',
+  lower: 'a-z',
+  xdigit: '0-9A-Fa-f',
+  space: '\\t\\n\\v\\f\\r ',
+  blank: ' \\t',
+  punct: '!-\\/:-@\\[-`{-~',
+  cntrl: '\\x00-\\x1f\\x7f',
+  print: '\\x20-\\x7e',
+  graph: '\\x21-\\x7e',
+  word: '\\w',
+  ascii: '\\x00-\\x7f'
+};
+
+const HORIZONTAL_SPACE = '\\t \\xa0\\u1680\\u180e\\u2000-\\u200a\\u202f\\u205f\\u3000';
+const VERTICAL_SPACE = '\\n\\x0b\\f\\r\\x85\\u2028\\u2029';
+
+// PHP sets PCRE2_UCP along with the u modifier, so these escapes and classes follow Unicode properties
+const UNICODE_DIGIT = '\\p{Nd}';
+const UNICODE_WORD = '\\p{L}\\p{N}\\p{Mn}\\p{Pc}';
+const UNICODE_SPACE = `\\p{Z}${HORIZONTAL_SPACE}${VERTICAL_SPACE}`;
+
+const UNICODE_POSIX_CLASSES: Record<string, string> = {
+  alpha: '\\p{L}',
+  digit: UNICODE_DIGIT,
+  alnum: '\\p{L}\\p{N}',
+  upper: '\\p{Lu}',
+  lower: '\\p{Ll}',
+  space: UNICODE_SPACE,
+  blank: HORIZONTAL_SPACE,
+  cntrl: '\\p{Cc}',
+  word: UNICODE_WORD
+};
+
+const escapeRegex = (text: string): string => text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+const escapeClassChar = (char: string): string => (/[\]\\^[-]/.test(char) ? `\\${char}` : char);
+
+class PcreTranslator {
+  private pos = 0;
+  // Kinds of the groups currently open, innermost last
+  private readonly groups: ('lookbehind' | 'other')[] = [];
+  // Capturing groups opened so far, for relative backreferences
+  private captures = 0;
+  needsUnicode = false;
+  readonly notes: string[] = [];
+
+  // Whether \d, \w, \s, \b and POSIX classes follow Unicode properties; only the u modifier turns this on, not (*UTF8)
+  constructor(private readonly body: string, private readonly mods: Modifiers, private readonly ucp: boolean) {}
+
+  translate(): string {
+    this.leadingOptions();
+
+    let out = '';
+    while (this.pos < this.body.length) {
+      const char = this.body[this.pos];
+
+      if (this.mods.x && /\s/.test(char)) {
+        this.pos++;
+        continue;
+      }
+      if (this.mods.x && char === '#') {
+        const end = this.body.indexOf('\n', this.pos);
+        this.pos = end === -1 ? this.body.length : end + 1;
+        continue;
+      }
+
+      switch (char) {
+        case '\\':
+          out += this.escape(false);
+          break;
+        case '[':
+          out += this.charClass();
+          break;
+        case '(':
+          out += this.groupOpen();
+          break;
+        case ')':
+          this.groups.pop();
+          this.pos++;
+          out += ')';
+          break;
+        case '*':
+        case '+':
+        case '?':
+          out += this.quantifier(char);
+          break;
+        case '{': {
+          const bounds = /^\{\d+(,\d*)?\}/.exec(this.body.slice(this.pos));
+          if (bounds) {
+            out += this.quantifier(bounds[0]);
+          } else {
+            // A brace that does not start a quantifier is a literal in PCRE
+            if (/^\{,\d+\}/.test(this.body.slice(this.pos))) {
+              this.notes.push('PCRE2 10.43 and later, bundled from PHP 8.4, read {,n} as {0,n}; older servers and the browser match it as literal text.');
+            }
+            out += '\\{';
+            this.pos++;
+          }
+          break;
+        }
+        case '}':
+        case ']':
+          out += `\\${char}`;
+          this.pos++;
+          break;
+        case '.':
+          // PCRE's dot only excludes \n; JavaScript's also excludes \r and the Unicode line separators
+          out += this.mods.s ? '[\\s\\S]' : '[^\\n]';
+          this.pos++;
+          break;
+        case '$':
+          // Without m or D, PCRE's $ also matches before a final newline
+          out += this.mods.m ? '$' : this.mods.D ? '(?![\\s\\S])' : '(?=\\n?(?![\\s\\S]))';
+          this.pos++;
+          break;
+        case '/':
+          out += '\\/';
+          this.pos++;
+          break;
+        default:
+          out += char;
+          this.pos++;
+      }
+    }
+
+    return out;
+  }
+
+  /**
+   * Start-of-pattern option settings such as (*UTF8) and (?i)
+   */
+  private leadingOptions() {
+    for (;;) {
+      const rest = this.body.slice(this.pos);
+      const verb = /^\(\*([A-Z_]+\d*)(=\d+)?\)/.exec(rest);
+      const inline = /^\(\?([imsxnUJ]+)\)/.exec(rest);
+
+      if (verb) {
+        const name = verb[1];
+        if (name === 'UTF' || name === 'UTF8') {
+          this.mods.u = true;
+        } else if (name === 'UCP') {
+          if (!this.ucp) this.notes.push('(*UCP) makes \\w, \\d and \\b match Unicode characters on the server; the browser keeps them ASCII-only.');
+        } else if (!/^(LF|NO_\w+|LIMIT_\w+)$/.test(name)) {
+          throw new PatternError(`(*${name}) changes how the server treats newlines and cannot be reproduced in the browser.`);
+        }
+        this.pos += verb[0].length;
+      } else if (inline) {
+        Array.from(inline[1]).forEach(flag => {
+          if (flag in this.mods) this.mods[flag as keyof Modifiers] = true;
+        });
+        this.pos += inline[0].length;
+      } else {
+        return;
+      }
+    }
+  }
+
+  private escape(inClass: boolean): string {
+    const char = this.body[this.pos + 1];
+    if (char === undefined) {
+      throw new PatternError('The pattern ends with a backslash.');
+    }
+    this.pos += 2;
+
+    const outsideClassOnly = (translated: string): string => {
+      if (inClass) {
+        throw new PatternError(`\\${char} cannot be used inside a character class.`);
+      }
+      return translated;
+    };
+
+    switch (char) {
+      case 'Q': {
+        const end = this.body.indexOf('\\E', this.pos);
+        const literal = this.body.slice(this.pos, end === -1 ? undefined : end);
+        this.pos = end === -1 ? this.body.length : end + 2;
+        return inClass ? Array.from(literal).map(escapeClassChar).join('') : escapeRegex(literal);
+      }
+      case 'E':
+        return '';
+      case 'A':
+        return outsideClassOnly('(?<![\\s\\S])');
+      case 'z':
+        return outsideClassOnly('(?![\\s\\S])');
+      case 'Z':
+        return outsideClassOnly('(?=\\n?(?![\\s\\S]))');
+      case 'h':
+        return inClass ? HORIZONTAL_SPACE : `[${HORIZONTAL_SPACE}]`;
+      case 'H':
+        return outsideClassOnly(`[^${HORIZONTAL_SPACE}]`);
+      case 'v':
+        return inClass ? VERTICAL_SPACE : `[${VERTICAL_SPACE}]`;
+      case 'V':
+        return outsideClassOnly(`[^${VERTICAL_SPACE}]`);
+      case 'R':
+        if (this.groups.includes('lookbehind')) {
+          throw new PatternError('\\R can match one or two characters, so PCRE does not allow it inside a lookbehind.');
+        }
+        return outsideClassOnly(`(?:\\r\\n|[${VERTICAL_SPACE}])`);
+      case 'N':
+        return outsideClassOnly('[^\\n]');
+      case 'e':
+        return '\\x1b';
+      case 'a':
+        return '\\x07';
+      case 'x': {
+        const braced = /^\{([0-9a-fA-F]+)\}/.exec(this.body.slice(this.pos));
+        if (braced) {
+          this.pos += braced[0].length;
+          return this.codePoint(parseInt(braced[1], 16), `\\x{${braced[1]}}`);
+        }
+        const digits = /^[0-9a-fA-F]{0,2}/.exec(this.body.slice(this.pos))![0];
+        this.pos += digits.length;
+        return this.codePoint(digits ? parseInt(digits, 16) : 0, `\\x${digits}`);
+      }
+      case 'o': {
+        const braced = /^\{([0-7]+)\}/.exec(this.body.slice(this.pos));
+        if (!braced) {
+          throw new PatternError('\\o must be followed by octal digits in braces, as in \\o{101}.');
+        }
+        this.pos += braced[0].length;
+        return this.codePoint(parseInt(braced[1], 8), `\\o{${braced[1]}}`);
+      }
+      case 'c': {
+        const control = this.body[this.pos++];
+        if (control === undefined) {
+          throw new PatternError('\\c must be followed by a character.');
+        }
+        return this.codePoint(control.toUpperCase().charCodeAt(0) ^ 0x40, `\\c${control}`);
+      }
+      case 'g': {
+        const rest = this.body.slice(this.pos);
+        if (/^[<']/.test(rest)) {
+          throw new PatternError('\\g<...> calls a subpattern; recursion and subroutine calls have no JavaScript equivalent.');
+        }
+        const reference = /^\{(-?\d+|[A-Za-z_]\w*)\}|^(-?\d+)/.exec(rest);
+        if (!reference) {
+          throw new PatternError('\\g must be followed by a group number or name.');
+        }
+        this.pos += reference[0].length;
+        return outsideClassOnly(this.backreference(reference[1] ?? reference[2]));
+      }
+      case 'k': {
+        const reference = /^(?:<([A-Za-z_]\w*)>|'([A-Za-z_]\w*)'|\{([A-Za-z_]\w*)\})/.exec(this.body.slice(this.pos));
+        if (!reference) {
+          throw new PatternError('\\k must be followed by a group name, as in \\k<name>.');
+        }
+        this.pos += reference[0].length;
+        return outsideClassOnly(`\\k<${reference[1] ?? reference[2] ?? reference[3]}>`);
+      }
+      case 'p':
+      case 'P': {
+        let name: string;
+        if (this.body[this.pos] === '{') {
+          const end = this.body.indexOf('}', this.pos);
+          if (end === -1) {
+            throw new PatternError(`\\${char}{ is missing its closing brace.`);
+          }
+          name = this.body.slice(this.pos + 1, end);
+          this.pos = end + 1;
+        } else {
+          name = this.body[this.pos++] ?? '';
+        }
+        let negated = char === 'P';
+        if (name.startsWith('^')) {
+          negated = !negated;
+          name = name.slice(1);
+        }
+        this.needsUnicode = true;
+        return `\\${negated ? 'P' : 'p'}{${name}}`;
+      }
+      case 'G':
+        throw new PatternError('\\G anchors to where the previous match ended, which JavaScript cannot express outside sticky mode. Use the A modifier for fully anchored matching.');
+      case 'K':
+        throw new PatternError('\\K (reset match start) has no JavaScript equivalent. Use a lookbehind such as (?<=prefix) instead.');
+      case 'X':
+        throw new PatternError('\\X (extended grapheme cluster) has no JavaScript equivalent.');
+      case 'C':
+        throw new PatternError('\\C (single code unit) has no JavaScript equivalent.');
+      case 'u':
+        throw new PatternError('PCRE has no \\u escape; write code points as \\x{263A}.');
+      default:
+        break;
+    }
+
+    if (/[1-9]/.test(char)) {
+      let digits = char;
+      while (/\d/.test(this.body[this.pos] ?? '')) digits += this.body[this.pos++];
+      // Inside a class there are no backreferences, only octal escapes
+      return inClass ? this.codePoint(parseInt(digits, 8), `\\${digits}`) : this.backreference(digits);
+    }
+    if (char === '0') {
+      const digits = /^[0-7]{0,2}/.exec(this.body.slice(this.pos))![0];
+      this.pos += digits.length;
+      return this.codePoint(parseInt(`0${digits}`, 8), `\\0${digits}`);
+    }
+    if (this.ucp && /[dDwWsSB]/.test(char)) {
+      return this.unicodeEscape(char, inClass);
+    }
+    if (this.ucp && char === 'b' && !inClass) {
+      return `(?:(?<=[${UNICODE_WORD}])(?![${UNICODE_WORD}])|(?<![${UNICODE_WORD}])(?=[${UNICODE_WORD}]))`;
+    }
+    if (/[dDwWsSbBnrtf]/.test(char)) {
+      return `\\${char}`;
+    }
+    if (/[a-zA-Z]/.test(char)) {
+      throw new PatternError(`\\${char} is not a recognised escape in PCRE.`);
+    }
+
+    // Escaped punctuation is always a literal
+    return inClass ? escapeClassChar(char) : escapeRegex(char);
+  }
+
+  /**
+   * \d, \w, \s and their negations, and \B, as PCRE matches them in UCP mode
+   */
+  private unicodeEscape(char: string, inClass: boolean): string {
+    switch (char) {
+      case 'd':
+        return UNICODE_DIGIT;
+      case 'D':
+        return '\\P{Nd}';
+      case 'w':
+        return inClass ? UNICODE_WORD : `[${UNICODE_WORD}]`;
+      case 's':
+        return inClass ? UNICODE_SPACE : `[${UNICODE_SPACE}]`;
+      case 'B':
+        if (inClass) {
+          throw new PatternError('\\B cannot be used inside a character class.');
+        }
+        return `(?:(?<=[${UNICODE_WORD}])(?=[${UNICODE_WORD}])|(?<![${UNICODE_WORD}])(?![${UNICODE_WORD}]))`;
+      default:
+        // \W and \S are only expressible as negated classes of their own
+        if (inClass) {
+          throw new PatternError(`With the u modifier, \\${char} inside a character class has no JavaScript equivalent; use a negated class such as [^\\${char.toLowerCase()}] instead.`);
+        }
+        return char === 'W' ? `[^${UNICODE_WORD}]` : `[^${UNICODE_SPACE}]`;
+    }
+  }
+
+  private backreference(reference: string): string {
+    if (!/^-?\d+$/.test(reference)) {
+      return `\\k<${reference}>`;
+    }
+    let number = Number(reference);
+    if (number < 0) {
+      number = this.captures + number + 1;
+      if (number < 1) {
+        throw new PatternError(`Relative backreference ${reference} points before the first group.`);
+      }
+    }
+    // Wrapped so a following digit is not read as part of the number
+    return `(?:\\${number})`;
+  }
+
+  private codePoint(code: number, written: string): string {
+    if (code > 0xff && !this.mods.u) {
+      throw new PatternError(`${written} is above \\xFF, which PCRE only accepts with the u modifier.`);
+    }
+    if (code > 0xffff) {
+      this.needsUnicode = true;
+      return `\\u{${code.toString(16)}}`;
+    }
+    return `\\u${('000' + code.toString(16)).slice(-4)}`;
+  }
+
+  private charClass(): string {
+    let out = '[';
+    this.pos++;
+
+    if (this.body[this.pos] === '^') {
+      out += '^';
+      this.pos++;
+    }
+    // A "]" straight after the opening bracket is a literal in PCRE; in JavaScript it closes an empty class
+    if (this.body[this.pos] === ']') {
+      out += '\\]';
+      this.pos++;
+    }
+
+    while (this.pos < this.body.length && this.body[this.pos] !== ']') {
+      if (this.body[this.pos] === '\\') {
+        out += this.escape(true);
+        continue;
+      }
+
+      const posix = /^\[:(\^?)([a-z]+):\]/.exec(this.body.slice(this.pos));
+      if (posix) {
+        if (posix[1]) {
+          throw new PatternError(`Negated POSIX class [:^${posix[2]}:] is not supported; use a negated class such as [^[:${posix[2]}:]].`);
+        }
+        if (!POSIX_CLASSES[posix[2]]) {
+          throw new PatternError(`Unknown POSIX class [:${posix[2]}:].`);
+        }
+        out += (this.ucp && UNICODE_POSIX_CLASSES[posix[2]]) || POSIX_CLASSES[posix[2]];
+        this.pos += posix[0].length;
+        continue;
+      }
+
+      const char = this.body[this.pos++];
+      out += char === '[' ? '\\[' : char;
+    }
+
+    if (this.pos >= this.body.length) {
+      throw new PatternError('Missing terminating ] for character class.');
+    }
+    this.pos++;
+    return out + ']';
+  }
+
+  private groupOpen(): string {
+    const rest = this.body.slice(this.pos);
+    let match: RegExpExecArray | null;
+
+    if ((match = /^\(\*([A-Z_]+)(:[^)]*)?\)/.exec(rest))) {
+      this.pos += match[0].length;
+      if (match[1] === 'FAIL' || match[1] === 'F') {
+        return '(?!)';
+      }
+      throw new PatternError(`Backtracking control verb (*${match[1]}) has no JavaScript equivalent.`);
+    }
+    if (rest.startsWith('(?#')) {
+      const end = this.body.indexOf(')', this.pos);
+      if (end === -1) {
+        throw new PatternError('Comment (?# is missing its closing parenthesis.');
+      }
+      this.pos = end + 1;
+      return '';
+    }
+    if ((match = /^\(\?P?<([A-Za-z_]\w*)>/.exec(rest) || /^\(\?'([A-Za-z_]\w*)'/.exec(rest))) {
+      this.groups.push('other');
+      this.captures++;
+      this.pos += match[0].length;
+      return `(?<${match[1]}>`;
+    }
+    if ((match = /^\(\?P=([A-Za-z_]\w*)\)/.exec(rest))) {
+      this.pos += match[0].length;
+      return `\\k<${match[1]}>`;
+    }
+    if (/^\(\?<[=!]/.test(rest)) {
+      this.groups.push('lookbehind');
+      this.pos += 4;
+      return rest.slice(0, 4);
+    }
+    if (/^\(\?[=!:]/.test(rest)) {
+      this.groups.push('other');
+      this.pos += 3;
+      return rest.slice(0, 3);
+    }
+    if (rest.startsWith('(?>')) {
+      throw new PatternError('Atomic groups (?>...) have no JavaScript equivalent.');
+    }
+    if (rest.startsWith('(?|')) {
+      throw new PatternError('Branch reset groups (?|...) have no JavaScript equivalent.');
+    }
+    if (rest.startsWith('(?(')) {
+      throw new PatternError('Conditional groups (?(...)...) have no JavaScript equivalent.');
+    }
+    if (/^\(\?(R|[+-]?\d|&|P>)/.test(rest)) {
+      throw new PatternError('Recursion and subroutine calls such as (?R) and (?1) have no JavaScript equivalent.');
+    }
+    if (/^\(\?[a-zA-Z^-]*[:)]/.test(rest)) {
+      throw new PatternError('Inline modifiers such as (?i) are only supported at the very start of the pattern; use pattern modifiers after the closing delimiter instead.');
+    }
+    if (rest.startsWith('(?')) {
+      throw new PatternError(`Unrecognised group syntax "${rest.slice(0, 4)}".`);
+    }
+
+    this.groups.push('other');
+    this.pos++;
+    if (this.mods.n) return '(?:';
+    this.captures++;
+    return '(';
+  }
+
+  private quantifier(written: string): string {
+    this.pos += written.length;
+
+    const fixed = /^\{(\d+)(,(\d+))?\}$/.exec(written);
+    if (this.groups.includes('lookbehind') && !(fixed && (fixed[3] === undefined || fixed[3] === fixed[1]))) {
+      throw new PatternError(
+        `"${written}" inside a lookbehind makes it variable-length. JavaScript allows that, but PCRE requires lookbehinds to be fixed-length, so the server would reject the pattern.`
+      );
+    }
+    if (this.body[this.pos] === '+') {
+      throw new PatternError(
+        `Possessive quantifier "${written}+" has no JavaScript equivalent. Drop the trailing + to test, but note the server will not backtrack into it.`
+      );
+    }
+
+    let lazy = false;
+    if (this.body[this.pos] === '?') {
+      lazy = true;
+      this.pos++;
+    }
+    // The U modifier swaps greedy and lazy
+    if (this.mods.U) lazy = !lazy;
+
+    return written + (lazy ? '?' : '');
+  }
+}
+
+/**
+ * Translate a delimited PCRE pattern such as "/old-(\d+)/i" into a global RegExp, failing
+ * the same way preg_match() does on a missing or invalid delimiter and explaining any
+ * construct that cannot be translated
+ */
+export const translatePcrePattern = (pattern: string): PcreTranslation => {
+  const trimmed = pattern.trimStart();
+  const delimiter = trimmed[0];
+
+  if (!delimiter) {
+    throw new PatternError('Empty regular expression');
+  }
+  if (/[a-zA-Z0-9\\\s]/.test(delimiter)) {
+    throw new PatternError('Delimiter must not be alphanumeric, backslash, or NUL');
+  }
+
+  const closing = BRACKET_DELIMITERS[delimiter] ?? delimiter;
+  const end = trimmed.lastIndexOf(closing);
+  if (end <= 0) {
+    throw new PatternError(`No ending delimiter '${closing}' found`);
+  }
+
+  const mods: Modifiers = { i: false, m: false, s: false, x: false, u: false, D: false, U: false, A: false, n: false };
+  for (const modifier of trimmed.slice(end + 1)) {
+    if (modifier === '\n' || modifier === ' ') continue;
+    if (modifier === 'e') {
+      throw new PatternError('The e modifier was removed in PHP 7, so the server rejects this pattern.');
+    }
+    if (modifier in mods) {
+      mods[modifier as keyof Modifiers] = true;
+    } else if (!INERT_MODIFIERS.includes(modifier)) {
+      throw new PatternError(`Unknown modifier '${modifier}'`);
+    }
+  }
+
+  const body = trimmed.slice(1, end);
+  const translator = new PcreTranslator(body, mods, mods.u);
+  const source = translator.translate();
+  const notes = translator.notes;
+
+  if (translator.needsUnicode && !mods.u) {
+    notes.push('Without the u modifier, Unicode properties such as \\p{L} only match single-byte characters on the server.');
+  }
+  if (!mods.u && /[^\x00-\x7f]/.test(body)) {
+    notes.push('Without the u modifier the server treats non-ASCII characters in the pattern as separate bytes, so quantifiers and classes around them can behave differently.');
+  }
+
+  const flags = 'g' + (mods.i ? 'i' : '') + (mods.m ? 'm' : '') + (mods.u || translator.needsUnicode ? 'u' : '') + (mods.A ? 'y' : '');
+
+  try {
+    return { regex: new RegExp(source, flags), notes, byteMode: !mods.u };
+  } catch (error) {
+    throw new PatternError((error as Error).message);
+  }
+};
+
+export const parsePcrePattern = (pattern: string): RegExp => translatePcrePattern(pattern).regex;
+
+/**
+ * Port of preg_replace()'s replacement expansion: \0-\99, $0-$99 and ${0}-${99} insert
+ * groups (missing ones insert nothing), and a backslash before \ or $ makes it literal
+ */
+export const expandPcreReplacement = (template: string, groups: (string | undefined)[]): string => {
+  const reference = /\\(\d\d?)|\$(\d\d?)|\$\{(\d\d?)\}/y;
+  let out = '';
+  let last = '';
+  let i = 0;
+
+  while (i < template.length) {
+    const char = template[i];
+
+    if (char === '\\' || char === '$') {
+      if (last === '\\') {
+        out = out.slice(0, -1) + char;
+        last = '';
+        i++;
+        continue;
+      }
+      reference.lastIndex = i;
+      const match = reference.exec(template);
+      if (match) {
+        out += groups[Number(match[1] ?? match[2] ?? match[3])] ?? '';
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    out += char;
+    last = char;
+    i++;
+  }
+
+  return out;
+};
+
+/**
+ * Explain replacement syntax that means something in JavaScript but is literal in preg_replace()
+ */
+export const replacementNotes = (template: string): string[] =>
+  /\$[&`'<]|\$\{[A-Za-z_]/.test(template)
+    ? ['PHP replacements only understand $1, \\1 and ${1}. JavaScript forms such as $& or $<name> are inserted literally; use $0 for the whole match.']
+    : [];
+
+const BRACKET_PAIRS: Record<string, string> = { '(': ')', '[': ']', '{': '}', '<': '>' };
+
+/**
+ * Port of preg_quote(), so text matches literally inside a pattern with the given delimiter
+ */
+export const pregQuote = (text: string, delimiter: string): string => {
+  const special = '.\\+*?[^]$(){}=!<>|:-#/' + delimiter + (BRACKET_PAIRS[delimiter] ?? '');
+  return Array.from(text).map(char => (special.includes(char) ? `\\${char}` : char)).join('');
+};
+
+/**
+ * Escape text for a preg_replace() replacement, so it is inserted literally
+ */
+export const escapePcreReplacement = (text: string): string => text.replace(/[\\$]/g, '\\$&');
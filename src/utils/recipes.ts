@@ -0,0 +1,49 @@
+import { escapePcreReplacement, pregQuote } from './pcre';
+import type { RecipeFields, ReplaceRecipe } from '../types';
+
+// Same as Recipe_Manager::PLACEHOLDER_PATTERN
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-z][a-z0-9_]*)\s*\}\}/gi;
+
+// Fields searched for placeholders, in the order Recipe_Manager::TEMPLATE_FIELDS lists them
+const TEMPLATE_FIELDS = ['find', 'replace', 'post_type', 'meta_key'] as const;
+
+/**
+ * Placeholder names in the order they first appear in the recipe fields
+ */
+export const findPlaceholders = (fields: RecipeFields): string[] => {
+  const names: string[] = [];
+  TEMPLATE_FIELDS.forEach(field => {
+    (fields[field] ?? '').replace(PLACEHOLDER_PATTERN, (placeholder: string, name: string) => {
+      if (!names.includes(name)) names.push(name);
+      return placeholder;
+    });
+  });
+  return names;
+};
+
+/**
+ * Turn a placeholder name such as old_domain into a label
+ */
+export const placeholderLabel = (name: string): string =>
+  name.replace(/_/g, ' ').replace(/^./, char => char.toUpperCase());
+
+/**
+ * Fill in a recipe's placeholders. Values are inserted literally: in regex recipes they are
+ * quoted in the pattern and escaped in the replacement, so "old.example.com" only matches itself.
+ */
+export const fillRecipe = (recipe: ReplaceRecipe, values: Record<string, string>): RecipeFields => {
+  const fill = (template: string, escape: (value: string) => string = value => value): string =>
+    template.replace(PLACEHOLDER_PATTERN, (_placeholder: string, name: string) => escape(values[name] ?? ''));
+
+  const isRegex = recipe.mode === 'regex';
+  const delimiter = recipe.find.trim()[0] ?? '/';
+
+  return {
+    find: fill(recipe.find, isRegex ? value => pregQuote(value, delimiter) : undefined),
+    replace: fill(recipe.replace, isRegex ? escapePcreReplacement : undefined),
+    mode: recipe.mode,
+    structured: recipe.structured,
+    post_type: fill(recipe.post_type),
+    meta_key: fill(recipe.meta_key)
+  };
+};
@@ -0,0 +1,258 @@
+/**
+ * Static check for regular expression shapes that backtrack catastrophically
+ * (ReDoS). It is a heuristic: it looks at the pattern only, so a flagged pattern
+ * may still be fast on real data, and it cannot prove any pattern safe.
+ */
+
+interface Term {
+  atom: Atom;
+  min: number;
+  max: number;
+  source: string;
+}
+
+type Atom =
+  | { kind: 'char'; source: string }
+  | { kind: 'group'; alternatives: Term[][]; source: string }
+  | { kind: 'assertion'; source: string }
+  | { kind: 'backref'; source: string };
+
+class RegexParser {
+  private pos = 0;
+
+  constructor(private readonly src: string) {}
+
+  // Only ever given the source of a RegExp that compiled, so the syntax is known to be valid
+  parse(): Term[][] {
+    return this.alternatives();
+  }
+
+  private alternatives(): Term[][] {
+    const alternatives = [this.sequence()];
+    while (this.src[this.pos] === '|') {
+      this.pos++;
+      alternatives.push(this.sequence());
+    }
+    return alternatives;
+  }
+
+  private sequence(): Term[] {
+    const terms: Term[] = [];
+    while (this.pos < this.src.length && this.src[this.pos] !== '|' && this.src[this.pos] !== ')') {
+      const start = this.pos;
+      const atom = this.atom();
+      const [min, max] = this.quantifier();
+      terms.push({ atom, min, max, source: this.src.slice(start, this.pos) });
+    }
+    return terms;
+  }
+
+  private atom(): Atom {
+    const start = this.pos;
+    const char = this.src[this.pos];
+
+    if (char === '(') {
+      this.pos++;
+      let assertion = false;
+      if (this.src.startsWith('?:', this.pos)) {
+        this.pos += 2;
+      } else if (/^\?<?[=!]/.test(this.src.slice(this.pos, this.pos + 3))) {
+        assertion = true;
+        this.pos += this.src[this.pos + 1] === '<' ? 3 : 2;
+      } else if (this.src.startsWith('?<', this.pos)) {
+        this.pos = this.src.indexOf('>', this.pos) + 1;
+      }
+      const alternatives = this.alternatives();
+      this.pos++;
+      const source = this.src.slice(start, this.pos);
+      return assertion ? { kind: 'assertion', source } : { kind: 'group', alternatives, source };
+    }
+
+    if (char === '[') {
+      this.pos++;
+      if (this.src[this.pos] === '^') this.pos++;
+      if (this.src[this.pos] === ']') this.pos++;
+      while (this.pos < this.src.length && this.src[this.pos] !== ']') {
+        this.pos += this.src[this.pos] === '\\' ? 2 : 1;
+      }
+      this.pos++;
+      return { kind: 'char', source: this.src.slice(start, this.pos) };
+    }
+
+    if (char === '\\') {
+      const escaped = this.src[this.pos + 1];
+      this.pos += 2;
+      if (escaped === 'b' || escaped === 'B') {
+        return { kind: 'assertion', source: this.src.slice(start, this.pos) };
+      }
+      if (/[1-9]/.test(escaped)) {
+        while (/\d/.test(this.src[this.pos] ?? '')) this.pos++;
+        return { kind: 'backref', source: this.src.slice(start, this.pos) };
+      }
+      if (escaped === 'k' && this.src[this.pos] === '<') {
+        this.pos = this.src.indexOf('>', this.pos) + 1;
+        return { kind: 'backref', source: this.src.slice(start, this.pos) };
+      }
+      if ((escaped === 'u' || escaped === 'p' || escaped === 'P') && this.src[this.pos] === '{') {
+        this.pos = this.src.indexOf('}', this.pos) + 1;
+      } else if (escaped === 'u') {
+        this.pos += 4;
+      } else if (escaped === 'x') {
+        this.pos += 2;
+      } else if (escaped === 'c') {
+        this.pos += 1;
+      }
+      return { kind: 'char', source: this.src.slice(start, this.pos) };
+    }
+
+    this.pos++;
+    if (char === '^' || char === '$') {
+      return { kind: 'assertion', source: char };
+    }
+    return { kind: 'char', source: char };
+  }
+
+  private quantifier(): [number, number] {
+    let bounds: [number, number] = [1, 1];
+    const char = this.src[this.pos];
+
+    if (char === '*' || char === '+' || char === '?') {
+      bounds = char === '*' ? [0, Infinity] : char === '+' ? [1, Infinity] : [0, 1];
+      this.pos++;
+    } else if (char === '{') {
+      const match = /^\{(\d+)(,(\d*))?\}/.exec(this.src.slice(this.pos));
+      if (!match) return bounds;
+      const min = Number(match[1]);
+      bounds = [min, match[2] === undefined ? min : match[3] === '' ? Infinity : Number(match[3])];
+      this.pos += match[0].length;
+    } else {
+      return bounds;
+    }
+
+    // Lazy quantifiers backtrack just as much, only in the other order
+    if (this.src[this.pos] === '?') this.pos++;
+    return bounds;
+  }
+}
+
+// Characters every single-character atom is tested against to decide whether two atoms overlap
+const PROBES = Array.from({ length: 128 }, (_, code) => String.fromCharCode(code)).concat(['é', 'ß', '中', '\u00a0', '\u2028']);
+
+const isNullable = (atom: Atom): boolean => {
+  if (atom.kind === 'assertion') return true;
+  if (atom.kind !== 'group') return false;
+  return atom.alternatives.some(sequence => sequence.every(term => term.min === 0 || isNullable(term.atom)));
+};
+
+const hasUnboundedTerm = (alternatives: Term[][]): boolean =>
+  alternatives.some(sequence =>
+    sequence.some(term =>
+      term.max === Infinity || (term.atom.kind === 'group' && hasUnboundedTerm(term.atom.alternatives))
+    )
+  );
+
+class RegexRiskAnalyzer {
+  private readonly warnings: string[] = [];
+  private readonly probeCache = new Map<string, Set<number>>();
+
+  constructor(private readonly flags: string) {}
+
+  analyze(alternatives: Term[][]): string[] {
+    this.walk(alternatives);
+    return Array.from(new Set(this.warnings));
+  }
+
+  private walk(alternatives: Term[][]) {
+    alternatives.forEach(sequence => {
+      sequence.forEach((term, index) => {
+        if (term.atom.kind === 'group') {
+          this.checkGroup(term, term.atom.alternatives);
+          this.walk(term.atom.alternatives);
+        }
+
+        const next = sequence[index + 1];
+        if (next && term.max === Infinity && next.max === Infinity && this.overlaps(this.firstSet([[term]]), this.firstSet([[next]]))) {
+          this.warnings.push(
+            `Adjacent quantifiers in "${term.source}${next.source}" can match the same characters, so a failing match is retried in polynomial time on long values.`
+          );
+        }
+      });
+    });
+  }
+
+  private checkGroup(term: Term, alternatives: Term[][]) {
+    if (term.max <= 1) return;
+
+    if (hasUnboundedTerm(alternatives)) {
+      this.warnings.push(
+        `Nested quantifier in "${term.source}": a repeated group that itself contains + or * can backtrack exponentially when a value almost matches.`
+      );
+      return;
+    }
+
+    for (let i = 0; i < alternatives.length; i++) {
+      for (let j = i + 1; j < alternatives.length; j++) {
+        if (this.overlaps(this.firstSet([alternatives[i]]), this.firstSet([alternatives[j]]))) {
+          this.warnings.push(
+            `Overlapping alternatives in repeated group "${term.source}": more than one branch can match the same text, so failures backtrack exponentially.`
+          );
+          return;
+        }
+      }
+    }
+  }
+
+  /**
+   * Probe indices for every character that can start a match of the alternatives
+   */
+  private firstSet(alternatives: Term[][]): Set<number> {
+    const set = new Set<number>();
+
+    alternatives.forEach(sequence => {
+      for (const term of sequence) {
+        const { atom } = term;
+        if (atom.kind === 'char') {
+          this.probe(atom.source).forEach(index => set.add(index));
+        } else if (atom.kind === 'group') {
+          this.firstSet(atom.alternatives).forEach(index => set.add(index));
+        } else if (atom.kind === 'backref') {
+          // A backreference can repeat anything its group matched
+          PROBES.forEach((_, index) => set.add(index));
+        }
+
+        if (term.min > 0 && !isNullable(atom)) break;
+      }
+    });
+
+    return set;
+  }
+
+  private probe(source: string): Set<number> {
+    const cached = this.probeCache.get(source);
+    if (cached) return cached;
+
+    const matched = new Set<number>();
+    try {
+      const regex = new RegExp(`^(?:${source})$`, this.flags.replace(/[gym]/g, ''));
+      PROBES.forEach((char, index) => {
+        if (regex.test(char)) matched.add(index);
+      });
+    } catch {
+      // Atoms that only make sense in context are assumed to match anything
+      PROBES.forEach((_, index) => matched.add(index));
+    }
+
+    this.probeCache.set(source, matched);
+    return matched;
+  }
+
+  private overlaps(a: Set<number>, b: Set<number>): boolean {
+    return Array.from(a).some(index => b.has(index));
+  }
+}
+
+/**
+ * Describe the catastrophic-backtracking shapes found in a compiled pattern; empty when none are found
+ */
+export const analyzeRegexRisk = (regex: RegExp): string[] =>
+  new RegexRiskAnalyzer(regex.flags).analyze(new RegexParser(regex.source).parse());
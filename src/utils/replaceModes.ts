@@ -0,0 +1,299 @@
+import { expandPcreReplacement, parsePcrePattern } from './pcre';
+import modeExamples from './replaceModeExamples.json';
+import type { MatchInfo, ReplaceMode } from '../types';
+
+/**
+ * Client-side port of Replace_Engine::perform_replacement and URL_Helper, so the Live Tester
+ * produces the same output the server writes. Keep the two in step when either changes.
+ */
+
+export interface ModeResult {
+  value: string;
+  // The text the match offsets refer to: the input after entity decoding
+  source: string;
+  matches: MatchInfo[];
+}
+
+export type EntityDecoder = (text: string) => string;
+
+// Same as URL_Helper::URL_PATTERN
+const URL_PATTERN = /https?:\/\/[^\s"'<>()[\]{}]+/gi;
+
+const escapeRegex = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Port of Replace_Engine::contains_url_patterns()
+ */
+const containsUrlPatterns = (content: string): boolean =>
+  [
+    /https?:\/\//i,
+    /[a-zA-Z0-9-]+\.[a-zA-Z]{2,}/,
+    /\?[a-zA-Z0-9&=]+/,
+    /&[a-zA-Z]+;/,
+    /#[a-zA-Z0-9_-]+/
+  ].some(pattern => pattern.test(content));
+
+// Named, decimal and hex references; html_entity_decode() leaves them alone without the closing semicolon
+const ENTITY_PATTERN = /&(#\d+|#x[0-9a-f]+|[a-z][a-z0-9]*);/gi;
+
+/**
+ * Same as PHP's unicode_cp_is_allowed() for HTML5, plus the carriage return html_entity_decode() also refuses
+ */
+const isAllowedCodePoint = (code: number): boolean =>
+  code === 0x09 || code === 0x0a || code === 0x0c ||
+  (code >= 0x20 && code <= 0x7e) ||
+  (code >= 0xa0 && code <= 0xd7ff) ||
+  (code >= 0xe000 && code <= 0x10ffff && (code & 0xffff) < 0xfffe && (code < 0xfdd0 || code > 0xfdef));
+
+/**
+ * Decode one reference as html_entity_decode() does; the browser's entity table stands in for PHP's
+ */
+const decodeEntity = (entity: string): string => {
+  const numeric = /^&#(x?)([0-9a-f]+);$/i.exec(entity);
+  if (numeric) {
+    // Unlike the browser, PHP keeps references to control characters, surrogates and noncharacters as written
+    const code = parseInt(numeric[2], numeric[1] ? 16 : 10);
+    return isAllowedCodePoint(code) ? String.fromCodePoint(code) : entity;
+  }
+
+  const textarea = document.createElement('textarea');
+  textarea.innerHTML = entity;
+  return textarea.value;
+};
+
+/**
+ * The second pass of decode_html_entities(), which also decodes text that was encoded twice
+ */
+const decodeSecondPass = (text: string): string =>
+  [['&amp;', '&'], ['&lt;', '<'], ['&gt;', '>'], ['&quot;', '"'], ['&#039;', "'"]].reduce(
+    (decoded, [entity, char]) => decoded.split(entity).join(char),
+    text
+  );
+
+/**
+ * Port of Replace_Engine::decode_html_entities()
+ */
+const decodeHtmlEntities: EntityDecoder = text => decodeSecondPass(text.replace(ENTITY_PATTERN, decodeEntity));
+
+/**
+ * Decode every entity reference in the text up front, so code without a DOM (the
+ * tester's worker) can decode the same text with entityDecoderFrom()
+ */
+export const collectEntities = (text: string): Record<string, string> => {
+  const table: Record<string, string> = {};
+  (text.match(ENTITY_PATTERN) || []).forEach(entity => {
+    table[entity] = decodeEntity(entity);
+  });
+  return table;
+};
+
+export const entityDecoderFrom = (table: Record<string, string>): EntityDecoder =>
+  text => decodeSecondPass(text.replace(ENTITY_PATTERN, entity => table[entity] ?? entity));
+
+/**
+ * str_ireplace() folds ASCII letters only, unlike the RegExp i flag
+ */
+const asciiCaseInsensitive = (text: string): RegExp =>
+  new RegExp(
+    Array.from(text).map(char =>
+      /[a-zA-Z]/.test(char) ? `[${char.toLowerCase()}${char.toUpperCase()}]` : escapeRegex(char)
+    ).join(''),
+    'g'
+  );
+
+const replaceAll = (text: string, pattern: RegExp, replace: string): ModeResult => {
+  const matches: MatchInfo[] = [];
+  const value = text.replace(pattern, (match: string, offset: number) => {
+    matches.push({ start: offset, end: offset + match.length, text: match, replacement: replace });
+    return replace;
+  });
+  return { value, source: text, matches };
+};
+
+const replaceRegex = (text: string, pattern: string, replace: string): ModeResult => {
+  const regex = parsePcrePattern(pattern);
+  const matches: MatchInfo[] = [];
+  const value = text.replace(regex, (...args) => {
+    // Arguments are the match, the groups, then offset and input (and named groups when present)
+    const hasNamedGroups = typeof args[args.length - 1] === 'object';
+    const tail = hasNamedGroups ? 3 : 2;
+    const groups = args.slice(0, args.length - tail) as (string | undefined)[];
+    const offset = args[args.length - tail] as number;
+    const replacement = expandPcreReplacement(replace, groups);
+
+    matches.push({
+      start: offset,
+      end: offset + groups[0]!.length,
+      text: groups[0]!,
+      replacement,
+      groups: groups.slice(1),
+      namedGroups: hasNamedGroups ? { ...args[args.length - 1] } : undefined
+    });
+    return replacement;
+  });
+  return { value, source: text, matches };
+};
+
+const trimSlashes = (text: string): string => text.replace(/^\/+|\/+$/g, '');
+
+const rtrimSlashes = (text: string): string => text.replace(/\/+$/, '');
+
+/**
+ * Port of URL_Helper::replace_url()
+ */
+const replaceUrl = (text: string, find: string, replace: string): ModeResult => {
+  const base = rtrimSlashes(find.trim());
+  const target = rtrimSlashes(replace.trim());
+  if (!base) return { value: text, source: text, matches: [] };
+
+  const matches: MatchInfo[] = [];
+  const value = text.replace(URL_PATTERN, (url: string, offset: number) => {
+    if (base.includes('://')) {
+      const prefix = url.slice(0, base.length);
+      const rest = url.slice(base.length);
+      if (prefix.toLowerCase() !== base.toLowerCase() || !(rest === '' || '/?#:'.includes(rest[0]))) {
+        return url;
+      }
+      matches.push({ start: offset, end: offset + prefix.length, text: prefix, replacement: target });
+      return target + rest;
+    }
+
+    const parts = /^(https?:\/\/)([^/?#:]+)([\s\S]*)$/i.exec(url);
+    if (!parts || parts[2].toLowerCase() !== base.toLowerCase()) {
+      return url;
+    }
+
+    // A replacement with its own scheme replaces the scheme too
+    if (target.includes('://')) {
+      const replaced = parts[1] + parts[2];
+      matches.push({ start: offset, end: offset + replaced.length, text: replaced, replacement: target });
+      return target + parts[3];
+    }
+    const hostStart = offset + parts[1].length;
+    matches.push({ start: hostStart, end: hostStart + parts[2].length, text: parts[2], replacement: target });
+    return parts[1] + target + parts[3];
+  });
+
+  return { value, source: text, matches };
+};
+
+/**
+ * Port of URL_Helper::replace_url_segment()
+ */
+const replaceUrlSegment = (text: string, find: string, replace: string): ModeResult => {
+  const segment = trimSlashes(find);
+  const target = trimSlashes(replace);
+  if (!segment) return { value: text, source: text, matches: [] };
+
+  const segmentPattern = new RegExp(`(?<=/)${escapeRegex(segment)}(?=/|$)`, 'g');
+  const matches: MatchInfo[] = [];
+
+  const value = text.replace(URL_PATTERN, (url: string, offset: number) => {
+    const parts = /^(https?:\/\/[^/?#]+)([^?#]*)([\s\S]*)$/i.exec(url);
+    if (!parts) return url;
+
+    const pathStart = offset + parts[1].length;
+    let path = parts[2].replace(segmentPattern, (match: string, index: number) => {
+      // An emptied segment takes its trailing slash with it once "//" is collapsed below
+      const removed = target === '' && parts[2][index + match.length] === '/' ? match + '/' : match;
+      matches.push({ start: pathStart + index, end: pathStart + index + removed.length, text: removed, replacement: target });
+      return target;
+    });
+    // Replacing a segment with nothing removes it rather than leaving "//"
+    if (target === '') {
+      path = path.replace(/\/{2,}/g, '/');
+    }
+    return parts[1] + path + parts[3];
+  });
+
+  return { value, source: text, matches };
+};
+
+/**
+ * Work out where each replacement landed in the output. Returns the matches unchanged
+ * when the output is not simply the source with each match swapped for its replacement,
+ * such as when url_segment also collapses a "//" that was already in the path.
+ */
+const locateReplacements = (result: ModeResult): ModeResult => {
+  let rebuilt = '';
+  let cursor = 0;
+  const located = result.matches.map(match => {
+    rebuilt += result.source.slice(cursor, match.start);
+    const outputStart = rebuilt.length;
+    rebuilt += match.replacement;
+    cursor = match.end;
+    return { ...match, outputStart };
+  });
+  rebuilt += result.source.slice(cursor);
+
+  return rebuilt === result.value ? { ...result, matches: located } : result;
+};
+
+const replaceInMode = (text: string, find: string, replace: string, mode: ReplaceMode, decodeEntities: EntityDecoder): ModeResult => {
+  const value = containsUrlPatterns(text) || text.includes('&amp;') ? decodeEntities(text) : text;
+  const unchanged: ModeResult = { value, source: value, matches: [] };
+
+  switch (mode) {
+    case 'plain':
+      return find ? replaceAll(value, asciiCaseInsensitive(find), replace) : unchanged;
+
+    case 'plain_cs':
+      return find ? replaceAll(value, new RegExp(escapeRegex(find), 'g'), replace) : unchanged;
+
+    case 'regex':
+      return replaceRegex(value, find, replace);
+
+    case 'url':
+      return replaceUrl(value, find, replace);
+
+    case 'url_segment':
+      return replaceUrlSegment(value, find, replace);
+
+    case 'prefix_swap':
+      return value.startsWith(find)
+        ? {
+            value: replace + value.slice(find.length),
+            source: value,
+            matches: [{ start: 0, end: find.length, text: find, replacement: replace }]
+          }
+        : unchanged;
+
+    case 'full_text':
+      return {
+        value: replace,
+        source: value,
+        matches: [{ start: 0, end: value.length, text: value, replacement: replace }]
+      };
+
+    default:
+      throw new Error(`Unknown replace mode: ${mode}`);
+  }
+};
+
+/**
+ * Apply one replace mode to a value exactly as Replace_Engine::perform_replacement does,
+ * including its HTML entity decoding of URL-like content
+ */
+export const applyReplaceMode = (
+  text: string,
+  find: string,
+  replace: string,
+  mode: ReplaceMode,
+  decodeEntities: EntityDecoder = decodeHtmlEntities
+): ModeResult => locateReplacements(replaceInMode(text, find, replace, mode, decodeEntities));
+
+export const countUrls = (text: string): number => (text.match(URL_PATTERN) || []).length;
+
+export interface ModeExample {
+  find: string;
+  replace: string;
+  sample: string;
+  expected: string;
+}
+
+/**
+ * One worked example per mode, with the output the server produces for it
+ *
+ * The examples live in JSON so the parity test can run them through both this port and Replace_Engine.
+ */
+export const MODE_EXAMPLES: Record<ReplaceMode, ModeExample> = modeExamples;
@@ -0,0 +1,46 @@
+import { sourceInfo } from './dataSources';
+import type { MetaScope, ReplaceParams, SearchParams } from '../types';
+
+const escapeRegex = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Same matching as the LIKE clause Search_Engine builds for a meta key pattern:
+ * * is any run of characters, ? is one character, and case is ignored
+ */
+export const keyPatternToRegExp = (pattern: string): RegExp =>
+  new RegExp(
+    '^' + Array.from(pattern).map(char => (char === '*' ? '.*' : char === '?' ? '.' : escapeRegex(char))).join('') + '$',
+    'i'
+  );
+
+/**
+ * The data source, post type, meta key and filter fields of a search, to run a replace over the same rows
+ */
+export const pickScope = (filters: SearchParams): Pick<ReplaceParams, 'post_type' | 'meta_key' | keyof MetaScope> => ({
+  source: filters.source,
+  post_type: filters.post_type,
+  meta_key: filters.meta_key,
+  post_types: filters.post_types,
+  meta_keys: filters.meta_keys,
+  meta_key_pattern: filters.meta_key_pattern,
+  all_meta_keys: filters.all_meta_keys,
+  filters: filters.filters
+});
+
+/**
+ * Short descriptions of the data source, post types and meta keys a search covers
+ */
+export const describeScope = (filters: SearchParams): { source: string; postTypes: string; metaKeys: string } => {
+  const postTypes = filters.post_types?.length ? filters.post_types : filters.post_type ? [filters.post_type] : [];
+  const metaKeys = filters.meta_keys?.length ? filters.meta_keys : filters.meta_key ? [filters.meta_key] : [];
+
+  return {
+    source: sourceInfo(filters.source).label,
+    postTypes: postTypes.length ? postTypes.join(', ') : 'all',
+    metaKeys: filters.all_meta_keys
+      ? 'all'
+      : filters.meta_key_pattern
+        ? filters.meta_key_pattern
+        : metaKeys.length ? metaKeys.join(', ') : 'any'
+  };
+};
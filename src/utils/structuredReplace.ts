@@ -0,0 +1,300 @@
+/**
+ * Structure-aware replacement for serialized PHP and JSON values, mirroring
+ * includes/Replace/Structured_Value.php so the tester previews what the engine writes.
+ */
+
+export type StructuredFormat = 'serialized' | 'json' | 'plain';
+
+export interface StructuredReplaceResult {
+  value: string;
+  format: StructuredFormat;
+  warnings: string[];
+}
+
+type LeafReplacer = (leaf: string) => string;
+
+// How deep a leaf that is itself serialized or JSON is walked into
+const MAX_DEPTH = 5;
+
+export class StructureError extends Error {}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder('utf-8', { fatal: true });
+
+/**
+ * Serialized lengths count UTF-8 bytes, so the walker runs over a "binary" string
+ * holding one byte per character, exactly like PHP sees it
+ */
+export const toBinary = (text: string): string => {
+  const bytes = encoder.encode(text);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return binary;
+};
+
+export const fromBinary = (binary: string): string => {
+  try {
+    return decoder.decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+  } catch {
+    throw new StructureError('string contents are not valid UTF-8');
+  }
+};
+
+/**
+ * Port of WordPress is_serialized() in strict mode
+ */
+export const isSerialized = (value: string): boolean => {
+  const data = value.trim();
+  if (data === 'N;') return true;
+  if (data.length < 4 || data[1] !== ':') return false;
+
+  const last = data[data.length - 1];
+  if (last !== ';' && last !== '}') return false;
+
+  switch (data[0]) {
+    case 's':
+      if (data[data.length - 2] !== '"') return false;
+      return /^s:[0-9]+:/.test(data);
+    case 'a':
+    case 'O':
+    case 'E':
+      return new RegExp(`^${data[0]}:[0-9]+:`).test(data);
+    case 'b':
+    case 'i':
+    case 'd':
+      return new RegExp(`^${data[0]}:[0-9.E+-]+;$`).test(data);
+    default:
+      return false;
+  }
+};
+
+/**
+ * JSON objects and arrays only; "[gallery ids=...]" style shortcodes must not count
+ */
+export const looksLikeJson = (value: string): boolean =>
+  /^\s*(\{\s*["}]|\[\s*([[{"\]\d-]|true|false|null))/.test(value);
+
+const jsonParseError = (value: string): string | null => {
+  try {
+    JSON.parse(value);
+    return null;
+  } catch (error) {
+    return (error as Error).message;
+  }
+};
+
+class SerializedWalker {
+  private offset = 0;
+
+  constructor(
+    private readonly data: string,
+    private readonly replaceLeaf: (leaf: string) => string,
+    private readonly warnings: string[]
+  ) {}
+
+  rebuild(): string {
+    const rebuilt = this.token();
+    if (this.offset !== this.data.length) {
+      throw new StructureError(`unexpected data at byte ${this.offset}`);
+    }
+    return rebuilt;
+  }
+
+  private token(): string {
+    switch (this.data[this.offset]) {
+      case 's': {
+        const leaf = fromBinary(this.readString('s'));
+        const newLeaf = toBinary(this.replaceLeaf(leaf));
+        return `s:${newLeaf.length}:"${newLeaf}";`;
+      }
+
+      case 'a': {
+        const header = this.matchAt(/a:(\d+):\{/y, 'array header');
+        return header[0] + this.members(Number(header[1]));
+      }
+
+      case 'O': {
+        const className = this.readClassName('O');
+        const header = this.matchAt(/:(\d+):\{/y, 'object header');
+        return `O:${className.length}:"${className}"${header[0]}${this.members(Number(header[1]))}`;
+      }
+
+      case 'C': {
+        // Custom serializers own their payload format; copy it byte for byte
+        const start = this.offset;
+        const className = this.readClassName('C');
+        const header = this.matchAt(/:(\d+):\{/y, 'object header');
+        this.offset += Number(header[1]);
+        this.expect('}');
+        this.warnings.push(`Custom-serialized object ${className} was left unchanged.`);
+        return this.data.slice(start, this.offset);
+      }
+
+      case 'E': {
+        const start = this.offset;
+        this.readString('E');
+        return this.data.slice(start, this.offset);
+      }
+
+      case 'N':
+        this.expect('N;');
+        return 'N;';
+
+      default:
+        return this.matchAt(/(b:[01]|i:[+-]?\d+|d:(-?INF|NAN|[+-]?[0-9.]+([eE][+-]?\d+)?)|[rR]:\d+);/y, 'value')[0];
+    }
+  }
+
+  private members(count: number): string {
+    let body = '';
+
+    for (let i = 0; i < count; i++) {
+      // Keys and property names are structure, not content
+      const keyStart = this.offset;
+      if (this.data[this.offset] === 's') {
+        this.readString('s');
+      } else {
+        this.matchAt(/i:[+-]?\d+;/y, 'key');
+      }
+      body += this.data.slice(keyStart, this.offset);
+      body += this.token();
+    }
+
+    this.expect('}');
+    return body + '}';
+  }
+
+  private readString(type: 's' | 'E'): string {
+    const header = this.matchAt(new RegExp(`${type}:(\\d+):"`, 'y'), 'string header');
+    const length = Number(header[1]);
+
+    if (this.data.slice(this.offset + length, this.offset + length + 2) !== '";') {
+      throw new StructureError(`string length ${length} does not match its contents at byte ${this.offset}`);
+    }
+
+    const value = this.data.slice(this.offset, this.offset + length);
+    this.offset += length + 2;
+    return value;
+  }
+
+  private readClassName(type: 'O' | 'C'): string {
+    const header = this.matchAt(new RegExp(`${type}:(\\d+):"`, 'y'), 'class name');
+    const className = this.data.slice(this.offset, this.offset + Number(header[1]));
+    this.offset += className.length;
+    this.expect('"');
+    return className;
+  }
+
+  private matchAt(pattern: RegExp, what: string): RegExpExecArray {
+    pattern.lastIndex = this.offset;
+    const match = pattern.exec(this.data);
+    if (!match) {
+      throw new StructureError(`invalid ${what} at byte ${this.offset}`);
+    }
+    this.offset += match[0].length;
+    return match;
+  }
+
+  private expect(literal: string) {
+    if (this.data.slice(this.offset, this.offset + literal.length) !== literal) {
+      throw new StructureError(`expected '${literal}' at byte ${this.offset}`);
+    }
+    this.offset += literal.length;
+  }
+}
+
+/**
+ * Re-encode a changed JSON string in the escaping style of the literal it replaces
+ */
+const encodeJsonString = (value: string, original: string): string => {
+  let encoded = JSON.stringify(value);
+  if (original.includes('\\/')) {
+    encoded = encoded.replace(/\//g, '\\/');
+  }
+  if (/\\u[0-9a-fA-F]{4}/.test(original)) {
+    encoded = encoded.replace(/[\u0080-\uffff]/g, char => '\\u' + ('000' + char.charCodeAt(0).toString(16)).slice(-4));
+  }
+  return encoded;
+};
+
+const KEY_COLON = /\s*:/y;
+
+/**
+ * Rebuild JSON text, re-encoding only the string values that change
+ */
+const rebuildJson = (json: string, replaceLeaf: (leaf: string) => string): string => {
+  let rebuilt = '';
+  let offset = 0;
+  let quote: number;
+
+  // The text is already known to be valid JSON, so every quote outside a string opens one
+  while ((quote = json.indexOf('"', offset)) !== -1) {
+    rebuilt += json.slice(offset, quote);
+
+    let end = quote + 1;
+    while (end < json.length && json[end] !== '"') {
+      end += json[end] === '\\' ? 2 : 1;
+    }
+    const literal = json.slice(quote, end + 1);
+    offset = end + 1;
+
+    // Object keys are followed by a colon and stay as they are
+    KEY_COLON.lastIndex = offset;
+    if (KEY_COLON.test(json)) {
+      rebuilt += literal;
+      continue;
+    }
+
+    const value: string = JSON.parse(literal);
+    const newValue = replaceLeaf(value);
+    rebuilt += newValue === value ? literal : encodeJsonString(newValue, literal);
+  }
+
+  return rebuilt + json.slice(offset);
+};
+
+const replaceValue = (
+  value: string,
+  replaceLeaf: LeafReplacer,
+  depth: number,
+  warnings: string[]
+): { value: string; format: StructuredFormat } => {
+  const replaceNested = (leaf: string) => replaceValue(leaf, replaceLeaf, depth + 1, warnings).value;
+
+  if (depth < MAX_DEPTH && isSerialized(value)) {
+    try {
+      const trimmed = value.trim();
+      const leading = value.slice(0, value.length - value.trimStart().length);
+      const trailing = value.slice(leading.length + trimmed.length);
+      const walker = new SerializedWalker(toBinary(trimmed), replaceNested, warnings);
+      return { value: leading + fromBinary(walker.rebuild()) + trailing, format: 'serialized' };
+    } catch (error) {
+      if (!(error instanceof StructureError)) throw error;
+      warnings.push(`Value looks like serialized PHP but could not be parsed (${error.message}); it was left unchanged.`);
+      return { value, format: 'serialized' };
+    }
+  }
+
+  if (depth < MAX_DEPTH && looksLikeJson(value)) {
+    const parseError = jsonParseError(value);
+    if (parseError === null) {
+      return { value: rebuildJson(value, replaceNested), format: 'json' };
+    }
+    warnings.push(`Value looks like JSON but is not valid JSON (${parseError}); it was replaced as plain text.`);
+  }
+
+  return { value: replaceLeaf(value), format: 'plain' };
+};
+
+/**
+ * Replace inside the string leaves of a serialized PHP or JSON value, leaving keys
+ * and non-string values alone and recomputing serialized lengths. Anything else is
+ * handed to the replacer whole.
+ */
+export const replaceStructured = (value: string, replaceLeaf: LeafReplacer): StructuredReplaceResult => {
+  const warnings: string[] = [];
+  const result = replaceValue(value, replaceLeaf, 0, warnings);
+  return { ...result, warnings: Array.from(new Set(warnings)) };
+};
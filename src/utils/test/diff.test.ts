@@ -0,0 +1,24 @@
+import { describe, expect, it } from '@jest/globals';
+import { diffChars, diffStats } from '../diff';
+
+describe('diffChars', () => {
+  it('never splits an emoji into its surrogate halves', () => {
+    expect(diffChars('a😀b', 'a😁b')).toEqual([
+      { op: 'equal', text: 'a' },
+      { op: 'delete', text: '😀' },
+      { op: 'insert', text: '😁' },
+      { op: 'equal', text: 'b' }
+    ]);
+  });
+
+  it('counts an emoji as one character', () => {
+    expect(diffStats(diffChars('x😀', 'x'))).toEqual({ inserted: 0, deleted: 1, changes: 1 });
+  });
+
+  it('rebuilds both strings from the segments', () => {
+    const segments = diffChars('Café 😀 old-path', 'Cafe 😀😁 new-path');
+
+    expect(segments.filter(segment => segment.op !== 'insert').map(segment => segment.text).join('')).toBe('Café 😀 old-path');
+    expect(segments.filter(segment => segment.op !== 'delete').map(segment => segment.text).join('')).toBe('Cafe 😀😁 new-path');
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, expect, it } from '@jest/globals';
+import { buildImportRows, guessMapping, mappingProblem, MAX_IMPORT_ROWS, parseCsv, parseMappingFile } from '../mappingImport';
+
+describe('parseCsv', () => {
+  it('reads quoted fields holding delimiters, doubled quotes and line breaks', () => {
+    const { rows, lines } = parseCsv('id,old,new\r\n1,"a, b","say ""hi"""\n2,"line one\nline two",x\n3,,"");');
+
+    expect(rows).toEqual([
+      ['id', 'old', 'new'],
+      ['1', 'a, b', 'say "hi"'],
+      ['2', 'line one\nline two', 'x'],
+      ['3', '', ');']
+    ]);
+    // The row after the quoted line break starts one line further down
+    expect(lines).toEqual([1, 2, 3, 5]);
+  });
+
+  it('keeps a quote inside an unquoted field as text', () => {
+    expect(parseCsv('a,b\n5" screen,x').rows).toEqual([['a', 'b'], ['5" screen', 'x']]);
+  });
+
+  it('picks the delimiter used most in the first line', () => {
+    expect(parseCsv('id;old;new\n1;"a;b";c,d').rows).toEqual([['id', 'old', 'new'], ['1', 'a;b', 'c,d']]);
+    expect(parseCsv('id\told\n1\ta,b').rows).toEqual([['id', 'old'], ['1', 'a,b']]);
+  });
+
+  it('drops a byte order mark and ends without a trailing line break', () => {
+    expect(parseCsv('\ufeffid,old\n1,x\n').rows).toEqual([['id', 'old'], ['1', 'x']]);
+  });
+});
+
+describe('parseMappingFile', () => {
+  it('reads CSV records by header and skips blank lines', () => {
+    const file = parseMappingFile('map.csv', 'Post ID,Old Value,,New\n12,"a,b",,c\n,,,\n\n13,d,,e\n');
+
+    expect(file).toEqual({
+      headers: ['Post ID', 'Old Value', 'Column 3', 'New'],
+      records: [
+        { 'Post ID': '12', 'Old Value': 'a,b', 'Column 3': '', New: 'c' },
+        { 'Post ID': '13', 'Old Value': 'd', 'Column 3': '', New: 'e' }
+      ],
+      lines: [2, 5]
+    });
+  });
+
+  it('reads a JSON array of objects, encoding nested values as JSON', () => {
+    const file = parseMappingFile('map.json', '[{"post_id":7,"new":{"a":[1]}},{"key":"color","new":null}]');
+
+    expect(file).toEqual({
+      headers: ['post_id', 'new', 'key'],
+      records: [
+        { post_id: '7', new: '{"a":[1]}' },
+        { key: 'color', new: '' }
+      ],
+      lines: [1, 2]
+    });
+  });
+
+  it('rejects files that are not a mapping', () => {
+    expect(() => parseMappingFile('map.json', '[{"a":')).toThrow(SyntaxError);
+    expect(() => parseMappingFile('map.json', '{"a":1}')).toThrow('A JSON mapping must be an array of objects, one per row');
+    expect(() => parseMappingFile('map.json', '[1,2]')).toThrow('A JSON mapping must be an array of objects, one per row');
+    expect(() => parseMappingFile('map.csv', 'post_id,new\n')).toThrow('A CSV mapping needs a header line and at least one row');
+  });
+});
+
+describe('guessMapping', () => {
+  it('maps headers by their aliases, each header once', () => {
+    expect(guessMapping(['ID', 'Meta-Key', 'From', 'To', 'Notes'])).toEqual({
+      post_id: 'ID',
+      meta_key: 'Meta-Key',
+      old_value: 'From',
+      new_value: 'To'
+    });
+    expect(guessMapping(['key', 'value'])).toEqual({ post_id: '', meta_key: 'key', old_value: '', new_value: '' });
+  });
+});
+
+describe('buildImportRows', () => {
+  it('trims IDs and keys but keeps values exactly as written', () => {
+    const file = parseMappingFile('map.csv', 'id,key,old,new\n 12 , color ," Red ","<b>Blue</b>\n"\n,size,,L');
+
+    expect(buildImportRows(file, { post_id: 'id', meta_key: 'key', old_value: 'old', new_value: 'new' })).toEqual([
+      { line: 2, post_id: 12, meta_key: 'color', old_value: ' Red ', new_value: '<b>Blue</b>\n' },
+      { line: 4, post_id: 0, meta_key: 'size', old_value: '', new_value: 'L' }
+    ]);
+  });
+});
+
+describe('mappingProblem', () => {
+  const file = parseMappingFile('map.csv', 'id,old,new\n12,a,b\nx1,c,d');
+
+  it('asks for the columns a preview needs', () => {
+    expect(mappingProblem(file, { post_id: 'id', meta_key: '', old_value: 'old', new_value: '' })).toBe('Choose the column holding the new values.');
+    expect(mappingProblem(file, { post_id: '', meta_key: '', old_value: '', new_value: 'new' })).toBe(
+      'Choose an object ID, key or old value column, so each row says which values it changes.'
+    );
+  });
+
+  it('names the line of an ID that is not a number', () => {
+    expect(mappingProblem(file, { post_id: 'id', meta_key: '', old_value: 'old', new_value: 'new' })).toBe('Line 3: "x1" is not an object ID.');
+    expect(mappingProblem(file, { post_id: '', meta_key: '', old_value: 'old', new_value: 'new' })).toBeNull();
+  });
+
+  it('limits the number of rows', () => {
+    const large = parseMappingFile('map.csv', 'old,new\n' + 'a,b\n'.repeat(MAX_IMPORT_ROWS + 1));
+
+    expect(mappingProblem(large, { post_id: '', meta_key: '', old_value: 'old', new_value: 'new' })).toMatch(/^The file has 5,001 rows/);
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, expect, it } from '@jest/globals';
+import { buildMigrationVariants, parseSiteUrl, variantStep } from '../migration';
+import { applyReplaceMode } from '../replaceModes';
+
+// Runs every variant in order, as the migration pipeline does
+const migrate = (text: string, from: string, to: string): string =>
+  buildMigrationVariants(parseSiteUrl(from)!, parseSiteUrl(to)!)
+    .map(variantStep)
+    .reduce((value, step) => applyReplaceMode(value, step.find, step.replace, step.mode).value, text);
+
+describe('migration variants', () => {
+  it.each([
+    ['Visit https://old.com.', 'Visit https://new.com.'],
+    ['Visit https://old.com. Then leave', 'Visit https://new.com. Then leave'],
+    ['(see https://old.com.)', '(see https://new.com.)'],
+    ['See https://old.com/shop, then http://www.old.com/blog/.', 'See https://new.com/shop, then https://new.com/blog/.'],
+    ['{"url":"https:\\/\\/old.com\\/a"}', '{"url":"https:\\/\\/new.com\\/a"}'],
+    ['<img src="//old.com/a.jpg">', '<img src="//new.com/a.jpg">']
+  ])('migrates %j', (text, expected) => {
+    expect(migrate(text, 'https://old.com', 'https://new.com')).toBe(expected);
+  });
+
+  it.each([
+    'https://old.com.au/',
+    'https://old.company.com/',
+    'https://old.com-shop.net/',
+    'https://old.com.au.'
+  ])('leaves %j alone', text => {
+    expect(migrate(text, 'https://old.com', 'https://new.com')).toBe(text);
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, expect, it } from '@jest/globals';
+import { expandPcreReplacement, parsePcrePattern, PatternError, pregQuote, replacementNotes, translatePcrePattern } from '../pcre';
+
+// Every match of the pattern in the text, as preg_match_all() lists them
+const matchAll = (pattern: string, text: string): string[] => text.match(parsePcrePattern(pattern)) ?? [];
+
+describe('translatePcrePattern', () => {
+  it.each([
+    ['/a\\/b/', 'a/b'],
+    ['#a/b#', 'a/b'],
+    ['~a#b~', 'a#b'],
+    ['{a+}', 'aaa'],
+    ['(a)', 'a'],
+    ['[a]', 'a'],
+    ['<a>', 'a']
+  ])('reads the delimiters of %s', (pattern, text) => {
+    expect(matchAll(pattern, text)).toEqual([text]);
+  });
+
+  it('ignores whitespace before the opening delimiter', () => {
+    expect(matchAll('  /x/', 'x')).toEqual(['x']);
+  });
+
+  it.each([
+    ['', 'Empty regular expression'],
+    ['abc', 'Delimiter must not be alphanumeric, backslash, or NUL'],
+    ['\\a\\', 'Delimiter must not be alphanumeric, backslash, or NUL'],
+    ['/abc', "No ending delimiter '/' found"],
+    ['{abc{', "No ending delimiter '}' found"],
+    ['/abc/k', "Unknown modifier 'k'"],
+    ['/abc/e', 'The e modifier was removed in PHP 7, so the server rejects this pattern.']
+  ])('rejects %j as preg_match() does', (pattern, message) => {
+    expect(() => translatePcrePattern(pattern)).toThrow(new PatternError(message));
+  });
+
+  it('applies the modifiers', () => {
+    expect(matchAll('/ab/i', 'AB ab')).toEqual(['AB', 'ab']);
+    expect(matchAll('/^b/m', 'a\nb')).toEqual(['b']);
+    expect(matchAll('/a.b/s', 'a\nb')).toEqual(['a\nb']);
+    expect(matchAll('/a.b/', 'a\nb a\rb')).toEqual(['a\rb']);
+    expect(matchAll('/a b  # comment\n c/x', 'abc')).toEqual(['abc']);
+    expect(matchAll('/a+/U', 'aaa')).toEqual(['a', 'a', 'a']);
+    expect(matchAll('/(a)(?<b>b)/n', 'ab')).toEqual(['ab']);
+    expect(matchAll('/x$/', 'x\n')).toEqual(['x']);
+    expect(matchAll('/x$/D', 'x\n')).toEqual([]);
+    expect(matchAll('/(?i)ab/', 'AB')).toEqual(['AB']);
+    expect(translatePcrePattern('/a/SXJ').regex.flags).toBe('g');
+  });
+
+  it('anchors every match with the A modifier', () => {
+    expect(matchAll('/a/A', 'aab')).toEqual(['a', 'a']);
+    expect(matchAll('/a/A', 'ba')).toEqual([]);
+  });
+
+  it('keeps named groups and their references', () => {
+    const regex = parsePcrePattern('/(?P<word>\\w)(?<digit>\\d)\\k{word}(?P=digit)/');
+
+    expect('a1a1'.replace(regex, '$<digit>$<word>')).toBe('1a');
+    expect(matchAll("/(?'x'a)\\g{x}\\k'x'/", 'aaa')).toEqual(['aaa']);
+  });
+
+  it('resolves relative and numbered backreferences', () => {
+    expect(matchAll('/(a)(b)\\g{-1}\\g1\\2/', 'abbab')).toEqual(['abbab']);
+    expect(() => translatePcrePattern('/\\g{-1}/')).toThrow('points before the first group');
+  });
+
+  it('translates escapes that JavaScript spells differently', () => {
+    expect(matchAll('/\\x{263A}/u', '☺')).toEqual(['☺']);
+    expect(matchAll('/\\Qa.b*\\E+/', 'a.b**')).toEqual(['a.b**']);
+    expect(matchAll('/\\Aa|b\\z/', 'aab')).toEqual(['a', 'b']);
+    expect(matchAll('/\\h+/u', 'a \t\u00a0b')).toEqual([' \t\u00a0']);
+    expect(matchAll('/\\R/', 'a\r\nb\nc')).toEqual(['\r\n', '\n']);
+    expect(matchAll('/[[:digit:][:upper:]]+/', 'ab12CDe')).toEqual(['12CD']);
+    expect(matchAll('/[]a]+/', 'a]a')).toEqual(['a]a']);
+  });
+
+  it.each([
+    ['/a++b/', 'Possessive quantifier "++" has no JavaScript equivalent'],
+    ['/a{2,}+b/', 'Possessive quantifier "{2,}+"'],
+    ['/(?>a+)b/', 'Atomic groups (?>...) have no JavaScript equivalent.'],
+    ['/(?|(a)|(b))/', 'Branch reset groups'],
+    ['/(?(1)a|b)/', 'Conditional groups'],
+    ['/(a(?R)?b)/', 'Recursion and subroutine calls'],
+    ['/(a)(?1)/', 'Recursion and subroutine calls'],
+    ['/a\\Kb/', '\\K (reset match start)'],
+    ['/\\Ga/', '\\G anchors'],
+    ['/a(*SKIP)(*FAIL)|b/', 'Backtracking control verb (*SKIP)'],
+    ['/(*CRLF)a/', '(*CRLF) changes how the server treats newlines'],
+    ['/a(?i)b/', 'Inline modifiers such as (?i) are only supported at the very start'],
+    ['/(?<=a+)b/', 'inside a lookbehind makes it variable-length'],
+    ['/\\x{100}/', 'is above \\xFF, which PCRE only accepts with the u modifier'],
+    ['/[[:^alpha:]]/', 'Negated POSIX class'],
+    ['/[[:foo:]]/', 'Unknown POSIX class [:foo:].'],
+    ['/\\u0041/', 'PCRE has no \\u escape'],
+    ['/[a-z/', 'Missing terminating ] for character class.'],
+    ['/\\X/', '\\X (extended grapheme cluster)'],
+    ['/[\\W]/u', 'inside a character class has no JavaScript equivalent']
+  ])('explains why %s cannot be translated', (pattern, message) => {
+    expect(() => translatePcrePattern(pattern)).toThrow(PatternError);
+    expect(() => translatePcrePattern(pattern)).toThrow(message);
+  });
+
+  it('notes differences the browser cannot reproduce', () => {
+    expect(translatePcrePattern('/é+/').notes).toEqual([
+      'Without the u modifier the server treats non-ASCII characters in the pattern as separate bytes, so quantifiers and classes around them can behave differently.'
+    ]);
+    expect(translatePcrePattern('/\\p{L}/').notes).toHaveLength(1);
+    expect(translatePcrePattern('/é+/u')).toMatchObject({ notes: [], byteMode: false });
+    expect(translatePcrePattern('/a{,2}/').notes).toEqual([
+      'PCRE2 10.43 and later, bundled from PHP 8.4, read {,n} as {0,n}; older servers and the browser match it as literal text.'
+    ]);
+  });
+});
+
+describe('expandPcreReplacement', () => {
+  it.each([
+    ['$1-\\2-${1}0', ['ab', 'a', 'b'], 'a-b-a0'],
+    ['$0|$3|$12', ['ab', 'a', 'b'], 'ab||'],
+    ['\\$1 \\\\1 $', ['ab', 'a'], '$1 \\1 $'],
+    ['${name} $& \\n', ['ab'], '${name} $& \\n']
+  ])('expands %j as preg_replace() does', (template, groups, expected) => {
+    expect(expandPcreReplacement(template, groups)).toBe(expected);
+  });
+
+  it('notes JavaScript replacement syntax that PHP inserts literally', () => {
+    expect(replacementNotes('$<name> and $&')).toHaveLength(1);
+    expect(replacementNotes('$1 ${2} \\3')).toEqual([]);
+  });
+});
+
+describe('pregQuote', () => {
+  it('escapes the special characters and the delimiter', () => {
+    expect(pregQuote('a.b*c?(d)#e/f-g', '/')).toBe('a\\.b\\*c\\?\\(d\\)\\#e\\/f\\-g');
+    expect(pregQuote('%a%', '%')).toBe('\\%a\\%');
+    expect(matchAll(`/${pregQuote('1+1=2?', '/')}/`, 'is 1+1=2?')).toEqual(['1+1=2?']);
+  });
+});
+
+describe('parsePcrePattern with the u modifier', () => {
+  // Outputs checked against preg_match_all() in PHP 8.5 (PCRE2 10.44). The text holds a combining
+  // accent (U+0301), a connector punctuation mark (U+203F) and a no-break space
+  const text = 'Straße café ٣٤ x_y\u203fz naïve e\u0301t\u00a0é';
+
+  it.each([
+    ['/\\w+/u', ['Straße', 'café', '٣٤', 'x_y\u203fz', 'naïve', 'e\u0301t', 'é']],
+    ['/[\\w]+/u', ['Straße', 'café', '٣٤', 'x_y\u203fz', 'naïve', 'e\u0301t', 'é']],
+    ['/\\d+/u', ['٣٤']],
+    ['/\\bcaf\\b/u', []],
+    ['/\\Bé/u', ['é']],
+    ['/\\S+/u', ['Straße', 'café', '٣٤', 'x_y\u203fz', 'naïve', 'e\u0301t', 'é']],
+    ['/[[:alpha:]]+/u', ['Straße', 'café', 'x', 'y', 'z', 'naïve', 'e', 't', 'é']]
+  ])('%s follows Unicode properties as PCRE2_UCP does', (pattern, expected) => {
+    expect(matchAll(pattern, text)).toEqual(expected);
+  });
+
+  it('keeps \\w ASCII-only without the modifier, even after (*UTF8)', () => {
+    const ascii = ['Stra', 'e', 'caf', 'x_y', 'z', 'na', 've', 'e', 't'];
+
+    expect(matchAll('/\\w+/', text)).toEqual(ascii);
+    expect(matchAll('/(*UTF8)\\w+/', text)).toEqual(ascii);
+  });
+
+  it('matches no-break spaces with \\s', () => {
+    expect(matchAll('/\\s/u', text)).toEqual([' ', ' ', ' ', ' ', ' ', '\u00a0']);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from '@jest/globals';
+import { analyzeRegexRisk } from '../regexRisk';
+
+describe('analyzeRegexRisk', () => {
+  it('flags a repeated group holding a quantifier', () => {
+    expect(analyzeRegexRisk(/(a+)+$/)).toEqual([
+      'Nested quantifier in "(a+)+": a repeated group that itself contains + or * can backtrack exponentially when a value almost matches.'
+    ]);
+  });
+
+  it('flags repeated groups whose alternatives overlap', () => {
+    expect(analyzeRegexRisk(/(?:\w|\d)*x/)).toEqual([
+      'Overlapping alternatives in repeated group "(?:\\w|\\d)*": more than one branch can match the same text, so failures backtrack exponentially.'
+    ]);
+    expect(analyzeRegexRisk(/(a|ab)+c/i)).toHaveLength(1);
+  });
+
+  it('flags adjacent quantifiers over the same characters', () => {
+    expect(analyzeRegexRisk(/\d+\w*!/)).toEqual([
+      'Adjacent quantifiers in "\\d+\\w*" can match the same characters, so a failing match is retried in polynomial time on long values.'
+    ]);
+  });
+
+  it('looks inside groups and at repeated backreferences', () => {
+    expect(analyzeRegexRisk(/x(?:y(.*)*)z/)).toHaveLength(1);
+    expect(analyzeRegexRisk(/(a)\1*\1*/)).toHaveLength(1);
+  });
+
+  it('applies the flags when comparing characters', () => {
+    expect(analyzeRegexRisk(/(?:A|a)+b/)).toEqual([]);
+    expect(analyzeRegexRisk(/(?:A|a)+b/i)).toHaveLength(1);
+  });
+
+  it.each([
+    /^[a-z0-9.-]+@[a-z]+\.com$/,
+    /(?:ab|cd)+/,
+    /(?:a{2})+b/,
+    /\d+-\d+/,
+    /https?:\/\/[^\s/]+\/(?<slug>[\w-]+)/,
+    /(a+)?b/
+  ])('finds nothing in %s', regex => {
+    expect(analyzeRegexRisk(regex)).toEqual([]);
+  });
+});
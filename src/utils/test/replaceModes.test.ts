@@ -0,0 +1,73 @@
+import { execFileSync, spawnSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, expect, it } from '@jest/globals';
+import { runLiveTest } from '../liveTest';
+import { MODE_EXAMPLES } from '../replaceModes';
+import type { ReplaceMode } from '../../types';
+import modeCases from './replaceModeCases.json';
+
+interface ModeCase {
+  name: string;
+  mode: ReplaceMode;
+  find: string;
+  replace: string;
+  sample: string;
+  structured?: boolean;
+  expected: string;
+}
+
+interface ModeOutput {
+  value: string;
+  match_count: number;
+}
+
+const ROOT = path.resolve(__dirname, '../../..');
+
+// PHP_BINARY points the test at a PHP other than the one on the PATH; without any PHP the parity check is skipped
+const PHP = process.env.PHP_BINARY || 'php';
+const hasPhp = !spawnSync(PHP, ['-v']).error;
+
+// The example shown for each mode, then the cases where the two engines are most likely to drift apart:
+// entity decoding, word boundaries, case folding, special characters, multibyte text and structured values
+const CASES: ModeCase[] = [
+  ...(Object.keys(MODE_EXAMPLES) as ReplaceMode[]).map(mode => ({ name: `${mode} example`, mode, ...MODE_EXAMPLES[mode] })),
+  ...(modeCases as ModeCase[])
+];
+
+const runEngine = (): ModeOutput[] => {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wcfdr-modes-'));
+  try {
+    const casesFile = path.join(tempDir, 'cases.json');
+    fs.writeFileSync(casesFile, JSON.stringify(CASES));
+    return JSON.parse(
+      execFileSync(PHP, [path.join(ROOT, 'tests/replace-modes.php'), casesFile], { cwd: ROOT, encoding: 'utf8' })
+    );
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+};
+
+// Decodes entities with the browser's table, as the tester does on the main thread
+const liveTest = ({ find, replace, sample, mode, structured = false }: ModeCase): ModeOutput => {
+  const result = runLiveTest({ find, replace, sample, mode, structured });
+  return { value: result.newText, match_count: result.matchCount };
+};
+
+describe('replace mode examples', () => {
+  it.each(CASES.map(modeCase => [modeCase.name, modeCase] as const))('%s gives the expected output in the Live Tester', (_name, modeCase) => {
+    expect(liveTest(modeCase).value).toBe(modeCase.expected);
+  });
+
+  (hasPhp ? it : it.skip)('give the same output and match count in Replace_Engine as in the Live Tester', () => {
+    const engine = runEngine();
+
+    CASES.forEach((modeCase, index) => {
+      // The case name is compared along with the output so a failure names it
+      const { name } = modeCase;
+      expect({ name, value: engine[index].value }).toEqual({ name, value: modeCase.expected });
+      expect({ name, ...engine[index] }).toEqual({ name, ...liveTest(modeCase) });
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, expect, it } from '@jest/globals';
+import { isSerialized, looksLikeJson, replaceStructured } from '../structuredReplace';
+
+const upgrade = (leaf: string): string => leaf.split('http://old.example.com').join('https://new.example.com');
+
+describe('replaceStructured', () => {
+  it('updates serialized string lengths in bytes', () => {
+    const result = replaceStructured('a:2:{s:3:"url";s:22:"http://old.example.com";s:4:"name";s:5:"Café";}', leaf =>
+      leaf === 'Café' ? 'Café Noir' : upgrade(leaf)
+    );
+
+    expect(result).toEqual({
+      value: 'a:2:{s:3:"url";s:23:"https://new.example.com";s:4:"name";s:10:"Café Noir";}',
+      format: 'serialized',
+      warnings: []
+    });
+  });
+
+  it('leaves keys, numbers and booleans alone', () => {
+    const value = 'a:3:{s:3:"old";i:7;s:4:"flag";b:1;i:2;s:3:"old";}';
+
+    expect(replaceStructured(value, leaf => leaf.replace('old', 'new')).value).toBe(
+      'a:3:{s:3:"old";i:7;s:4:"flag";b:1;i:2;s:3:"new";}'
+    );
+  });
+
+  it('rebuilds objects and copies custom-serialized ones with a warning', () => {
+    const result = replaceStructured(
+      'a:2:{i:0;O:8:"stdClass":1:{s:4:"link";s:22:"http://old.example.com";}i:1;C:6:"Custom":6:{old=ok}}',
+      upgrade
+    );
+
+    expect(result.value).toBe(
+      'a:2:{i:0;O:8:"stdClass":1:{s:4:"link";s:23:"https://new.example.com";}i:1;C:6:"Custom":6:{old=ok}}'
+    );
+    expect(result.warnings).toEqual(['Custom-serialized object Custom was left unchanged.']);
+  });
+
+  it('replaces inside JSON nested in a serialized string', () => {
+    const nested = '{"link":"http://old.example.com/"}';
+    const result = replaceStructured(`a:1:{s:4:"data";s:${nested.length}:"${nested}";}`, upgrade);
+
+    expect(result.value).toBe('a:1:{s:4:"data";s:35:"{"link":"https://new.example.com/"}";}');
+  });
+
+  it('keeps the escaping style of nested JSON strings', () => {
+    const result = replaceStructured(
+      '{"hero":{"image":"http:\\/\\/old.example.com\\/a.jpg","alt":"Caf\\u00e9"},"ids":[1,2],"http://old.example.com":true}',
+      leaf => upgrade(leaf).replace('Café', 'Bistró')
+    );
+
+    expect(result).toEqual({
+      value: '{"hero":{"image":"https:\\/\\/new.example.com\\/a.jpg","alt":"Bistr\\u00f3"},"ids":[1,2],"http://old.example.com":true}',
+      format: 'json',
+      warnings: []
+    });
+  });
+
+  it('leaves a value with a wrong serialized length unchanged', () => {
+    const value = 'a:1:{i:0;s:5:"http://old.example.com";}';
+    const result = replaceStructured(value, upgrade);
+
+    expect(result.value).toBe(value);
+    expect(result.warnings[0]).toMatch(/^Value looks like serialized PHP but could not be parsed/);
+  });
+
+  it('replaces invalid JSON and plain text as a whole', () => {
+    expect(replaceStructured('{"link": http://old.example.com}', upgrade)).toMatchObject({
+      value: '{"link": https://new.example.com}',
+      format: 'plain'
+    });
+    expect(replaceStructured('[gallery link="http://old.example.com"]', upgrade)).toEqual({
+      value: '[gallery link="https://new.example.com"]',
+      format: 'plain',
+      warnings: []
+    });
+  });
+});
+
+describe('isSerialized', () => {
+  it.each(['N;', 'b:1;', 'i:-5;', 'd:0.5;', 's:2:"ab";', 'a:0:{}', '  a:1:{i:0;i:1;}\n', 'O:8:"stdClass":0:{}'])(
+    'accepts %j',
+    value => {
+      expect(isSerialized(value)).toBe(true);
+    }
+  );
+
+  it.each(['', 'abc', 's:2:"ab"', 'x:1;', 'a:b:{}', '{"a":1}'])('rejects %j', value => {
+    expect(isSerialized(value)).toBe(false);
+  });
+});
+
+describe('looksLikeJson', () => {
+  it('tells JSON containers from shortcodes', () => {
+    expect(looksLikeJson(' {"a":1}')).toBe(true);
+    expect(looksLikeJson('[1,2]')).toBe(true);
+    expect(looksLikeJson('[]')).toBe(true);
+    expect(looksLikeJson('[gallery ids="1,2"]')).toBe(false);
+    expect(looksLikeJson('{a:1}')).toBe(false);
+  });
+});
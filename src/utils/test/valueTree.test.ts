@@ -0,0 +1,85 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  addEntry,
+  convertNode,
+  detectTreeFormat,
+  parseValueTree,
+  renameEntry,
+  serializeValueTree,
+  updateNode,
+  validateValueTree
+} from '../valueTree';
+import type { TreeFormat, ValueTree } from '../valueTree';
+
+describe('value tree round trips', () => {
+  it.each<[TreeFormat, string]>([
+    ['serialized', 'a:3:{s:4:"name";s:5:"Café";i:5;d:0.50;s:4:"meta";O:8:"stdClass":1:{s:2:"on";b:1;}}'],
+    ['json', '{\n    "name": "Caf\\u00e9",\n    "link": "https:\\/\\/example.com",\n    "n": 1.50,\n    "list": [\n        true,\n        null\n    ]\n}'],
+    ['json', '[{"a":1e3},[]]']
+  ])('serializes an untouched %s tree back to the original text', (format, value) => {
+    expect(detectTreeFormat(value)).toBe(format);
+    expect(serializeValueTree(parseValueTree(value, format))).toBe(value);
+  });
+
+  it('recomputes serialized lengths after an edit', () => {
+    const tree = parseValueTree('a:1:{s:5:"title";s:3:"Old";}', 'serialized');
+    const edited: ValueTree = { ...tree, root: updateNode(tree.root, [0], node => ({ ...node, value: 'Crème brûlée' })) };
+
+    expect(serializeValueTree(edited)).toBe('a:1:{s:5:"title";s:15:"Crème brûlée";}');
+    expect(validateValueTree(edited)).toEqual([]);
+  });
+
+  it('edits nested JSON in its original style', () => {
+    const tree = parseValueTree('{"hero":{"alt":"Caf\\u00e9","src":"a\\/b.jpg"}}', 'json');
+    const edited: ValueTree = { ...tree, root: updateNode(tree.root, [0, 0], node => ({ ...node, value: 'Bistró' })) };
+
+    expect(serializeValueTree(edited)).toBe('{"hero":{"alt":"Bistr\\u00f3","src":"a\\/b.jpg"}}');
+  });
+});
+
+describe('value tree edits', () => {
+  it('keys new array entries by the next free integer', () => {
+    const tree = parseValueTree('a:2:{i:0;s:1:"a";i:4;s:1:"b";}', 'serialized');
+
+    expect(serializeValueTree({ ...tree, root: addEntry(tree.root, [], 'serialized') })).toBe(
+      'a:3:{i:0;s:1:"a";i:4;s:1:"b";i:5;s:0:"";}'
+    );
+  });
+
+  it('stores an integer-looking PHP array key as an int key', () => {
+    const tree = parseValueTree('a:1:{s:3:"key";s:1:"v";}', 'serialized');
+
+    expect(serializeValueTree({ ...tree, root: renameEntry(tree.root, [], 0, '12', 'serialized') })).toBe('a:1:{i:12;s:1:"v";}');
+  });
+
+  it('carries values over when a node changes type', () => {
+    expect(convertNode({ type: 'string', value: '42px' }, 'int', 'json')).toEqual({ type: 'int', value: '42' });
+    expect(convertNode({ type: 'int', value: '1' }, 'bool', 'json')).toEqual({ type: 'bool', value: 'true' });
+    expect(convertNode({ type: 'string', value: 'x' }, 'object', 'serialized')).toEqual({
+      type: 'object',
+      value: '',
+      entries: [],
+      className: 'stdClass'
+    });
+  });
+});
+
+describe('validateValueTree', () => {
+  it('reports numbers the format cannot hold and duplicate keys', () => {
+    const tree = parseValueTree('a:3:{s:1:"a";i:1;s:1:"5";d:1.5;i:7;i:2;}', 'serialized');
+    let root = updateNode(tree.root, [0], node => ({ ...node, value: '1.5' }));
+    root = renameEntry(root, [], 2, '5', 'serialized');
+
+    expect(validateValueTree({ ...tree, root })).toEqual([
+      { path: [2], message: 'Duplicate key "5"' },
+      { path: [0], message: '"1.5" is not a valid integer' }
+    ]);
+  });
+
+  it('rejects numbers JSON does not allow', () => {
+    const tree = parseValueTree('{"n":1}', 'json');
+    const root = updateNode(tree.root, [0], () => ({ type: 'float', value: 'INF' }));
+
+    expect(validateValueTree({ ...tree, root })).toEqual([{ path: [0], message: '"INF" is not a valid number' }]);
+  });
+});
@@ -0,0 +1,106 @@
+import { DATA_SOURCES } from './dataSources';
+import type { AdminTab, DataSource, FilterGroup, SearchParams, SortField } from '../types';
+
+export interface UrlState {
+  tab: AdminTab;
+  filters: SearchParams | null;
+}
+
+const TABS: AdminTab[] = ['search', 'live-tester', 'migration', 'import', 'backups', 'settings', 'help'];
+
+// WordPress owns page (the admin screen) and reads post_type on every admin request, so neither is used here
+const SEARCH_KEYS = ['source', 'type', 'key', 'key_pattern', 'all_keys', 'value', 'case', 'regex', 'per_page', 'paged', 'filters', 'orderby', 'order', 'scroll'];
+
+const SORT_FIELDS: SortField[] = ['post_id', 'title', 'post_type', 'status', 'meta_key', 'value_length', 'modified'];
+
+const readFilters = (text: string | null): FilterGroup | undefined => {
+  if (!text) return undefined;
+  try {
+    const parsed = JSON.parse(text);
+    return parsed && typeof parsed === 'object' && Array.isArray(parsed.conditions) ? parsed : undefined;
+  } catch (error) {
+    console.warn('Ignoring unreadable filters in the address:', error);
+    return undefined;
+  }
+};
+
+const readNumber = (text: string | null): number | undefined => {
+  const number = Number(text);
+  return text && Number.isInteger(number) && number > 0 ? number : undefined;
+};
+
+/**
+ * The tab and search in a query string, such as the current page's address
+ */
+export const readUrlState = (search: string = window.location.search): UrlState => {
+  const query = new URLSearchParams(search);
+  const tab = query.get('tab') as AdminTab | null;
+
+  const hasSearch = SEARCH_KEYS.some(key => query.has(key));
+  if (!hasSearch) {
+    return { tab: tab && TABS.indexOf(tab) !== -1 ? tab : 'search', filters: null };
+  }
+
+  const source = query.get('source') as DataSource | null;
+  const postTypes = query.getAll('type').filter(Boolean);
+  const metaKeys = query.getAll('key').filter(Boolean);
+  const orderby = query.get('orderby') as SortField | null;
+  const isSorted = !!orderby && SORT_FIELDS.indexOf(orderby) !== -1;
+
+  // Single post types and keys go in post_type and meta_key, as SearchFilters sends them
+  const filters: SearchParams = {
+    source: source && DATA_SOURCES.some(info => info.value === source) ? source : undefined,
+    post_type: postTypes.length === 1 ? postTypes[0] : '',
+    post_types: postTypes.length > 1 ? postTypes : undefined,
+    meta_key: metaKeys.length === 1 ? metaKeys[0] : '',
+    meta_keys: metaKeys.length > 1 ? metaKeys : undefined,
+    meta_key_pattern: query.get('key_pattern') || undefined,
+    all_meta_keys: query.get('all_keys') === '1' || undefined,
+    filters: readFilters(query.get('filters')),
+    value: query.get('value') ?? '',
+    case_sensitive: query.get('case') === '1',
+    regex: query.get('regex') === '1',
+    per_page: readNumber(query.get('per_page')),
+    page: readNumber(query.get('paged')) ?? 1,
+    orderby: isSorted ? orderby! : undefined,
+    order: isSorted ? (query.get('order') === 'desc' ? 'desc' : 'asc') : undefined,
+    // Only the mode is kept; a reloaded cursor search starts again from its first batch
+    pagination: query.get('scroll') === '1' ? 'cursor' : undefined
+  };
+
+  return { tab: tab && TABS.indexOf(tab) !== -1 ? tab : 'search', filters };
+};
+
+/**
+ * The current address with the tab and search replaced; other parameters, such as the admin page, are kept
+ */
+export const urlForState = (state: UrlState): string => {
+  const query = new URLSearchParams(window.location.search);
+  ['tab', ...SEARCH_KEYS].forEach(key => query.delete(key));
+
+  if (state.tab !== 'search') {
+    query.set('tab', state.tab);
+  }
+
+  const filters = state.filters;
+  if (filters) {
+    if (filters.source && filters.source !== 'postmeta') query.set('source', filters.source);
+    (filters.post_types?.length ? filters.post_types : filters.post_type ? [filters.post_type] : []).forEach(type => query.append('type', type));
+    (filters.meta_keys?.length ? filters.meta_keys : filters.meta_key ? [filters.meta_key] : []).forEach(key => query.append('key', key));
+    if (filters.meta_key_pattern) query.set('key_pattern', filters.meta_key_pattern);
+    if (filters.all_meta_keys) query.set('all_keys', '1');
+    if (filters.filters) query.set('filters', JSON.stringify(filters.filters));
+    if (filters.value) query.set('value', filters.value);
+    if (filters.case_sensitive) query.set('case', '1');
+    if (filters.regex) query.set('regex', '1');
+    if (filters.per_page) query.set('per_page', String(filters.per_page));
+    if (filters.page && filters.page > 1) query.set('paged', String(filters.page));
+    if (filters.orderby) {
+      query.set('orderby', filters.orderby);
+      query.set('order', filters.order ?? 'asc');
+    }
+    if (filters.pagination === 'cursor') query.set('scroll', '1');
+  }
+
+  return `${window.location.pathname}?${query.toString()}${window.location.hash}`;
+};
@@ -0,0 +1,561 @@
+import { fromBinary, isSerialized, looksLikeJson, StructureError, toBinary } from './structuredReplace';
+
+/**
+ * Editable tree model of JSON and serialized PHP meta values. Parsing keeps numbers,
+ * key types and unknown tokens as written, so an untouched tree serializes back to
+ * the exact original text.
+ */
+
+export type TreeFormat = 'json' | 'serialized';
+
+export type NodeType = 'string' | 'int' | 'float' | 'bool' | 'null' | 'array' | 'object' | 'raw';
+
+export interface TreeEntry {
+  key: string;
+  // Serialized arrays record whether the key was written as i: or s:
+  keyType?: 'int' | 'string';
+  node: TreeNode;
+}
+
+export interface TreeNode {
+  type: NodeType;
+  // Scalars as text: the string itself, numbers as written, 'true'/'false'; raw tokens verbatim
+  value: string;
+  // Serialized objects only
+  className?: string;
+  entries?: TreeEntry[];
+}
+
+export interface JsonStyle {
+  indent: string;
+  escapeSlashes: boolean;
+  escapeUnicode: boolean;
+}
+
+export interface ValueTree {
+  format: TreeFormat;
+  root: TreeNode;
+  style: JsonStyle;
+}
+
+export interface TreeIssue {
+  path: number[];
+  message: string;
+}
+
+export const isContainer = (node: TreeNode): boolean => node.type === 'array' || node.type === 'object';
+
+/**
+ * JSON arrays are positional; everything else (objects, PHP arrays) has real keys
+ */
+export const hasKeys = (format: TreeFormat, node: TreeNode): boolean =>
+  node.type === 'object' || (format === 'serialized' && node.type === 'array');
+
+export const detectTreeFormat = (value: string): TreeFormat | null => {
+  if (isSerialized(value)) return 'serialized';
+  if (looksLikeJson(value)) {
+    try {
+      JSON.parse(value);
+      return 'json';
+    } catch {
+      return null;
+    }
+  }
+  return null;
+};
+
+// JSON
+
+class JsonReader {
+  private offset = 0;
+
+  constructor(private readonly text: string) {}
+
+  read(): TreeNode {
+    const node = this.value();
+    this.whitespace();
+    if (this.offset !== this.text.length) {
+      throw new StructureError(`unexpected data at position ${this.offset}`);
+    }
+    return node;
+  }
+
+  private value(): TreeNode {
+    this.whitespace();
+    const char = this.text[this.offset];
+
+    if (char === '{' || char === '[') {
+      const type = char === '{' ? 'object' : 'array';
+      const close = char === '{' ? '}' : ']';
+      const entries: TreeEntry[] = [];
+      this.offset++;
+      this.whitespace();
+
+      if (this.text[this.offset] === close) {
+        this.offset++;
+        return { type, value: '', entries };
+      }
+
+      for (;;) {
+        let key = String(entries.length);
+        if (type === 'object') {
+          this.whitespace();
+          key = this.string();
+          this.whitespace();
+          this.expect(':');
+        }
+        entries.push({ key, node: this.value() });
+        this.whitespace();
+        if (this.text[this.offset] === ',') {
+          this.offset++;
+          continue;
+        }
+        this.expect(close);
+        return { type, value: '', entries };
+      }
+    }
+
+    if (char === '"') {
+      return { type: 'string', value: this.string() };
+    }
+
+    for (const literal of ['true', 'false', 'null']) {
+      if (this.text.startsWith(literal, this.offset)) {
+        this.offset += literal.length;
+        return literal === 'null' ? { type: 'null', value: '' } : { type: 'bool', value: literal };
+      }
+    }
+
+    JSON_NUMBER.lastIndex = this.offset;
+    const number = JSON_NUMBER.exec(this.text);
+    if (!number) {
+      throw new StructureError(`unexpected character at position ${this.offset}`);
+    }
+    this.offset += number[0].length;
+    return { type: /[.eE]/.test(number[0]) ? 'float' : 'int', value: number[0] };
+  }
+
+  private string(): string {
+    if (this.text[this.offset] !== '"') {
+      throw new StructureError(`expected a string at position ${this.offset}`);
+    }
+    let end = this.offset + 1;
+    while (end < this.text.length && this.text[end] !== '"') {
+      end += this.text[end] === '\\' ? 2 : 1;
+    }
+    const literal = this.text.slice(this.offset, end + 1);
+    this.offset = end + 1;
+    return JSON.parse(literal);
+  }
+
+  private whitespace() {
+    while (/\s/.test(this.text[this.offset] ?? '')) {
+      this.offset++;
+    }
+  }
+
+  private expect(literal: string) {
+    if (this.text[this.offset] !== literal) {
+      throw new StructureError(`expected '${literal}' at position ${this.offset}`);
+    }
+    this.offset++;
+  }
+}
+
+const JSON_NUMBER = /-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?/y;
+
+const detectJsonStyle = (text: string): JsonStyle => ({
+  indent: /\n([ \t]+)\S/.exec(text)?.[1] ?? '',
+  escapeSlashes: text.includes('\\/'),
+  escapeUnicode: /\\u[0-9a-fA-F]{4}/.test(text)
+});
+
+const encodeJsonString = (value: string, style: JsonStyle): string => {
+  let encoded = JSON.stringify(value);
+  if (style.escapeSlashes) {
+    encoded = encoded.replace(/\//g, '\\/');
+  }
+  if (style.escapeUnicode) {
+    encoded = encoded.replace(/[\u0080-\uffff]/g, char => '\\u' + ('000' + char.charCodeAt(0).toString(16)).slice(-4));
+  }
+  return encoded;
+};
+
+const emitJson = (node: TreeNode, style: JsonStyle, depth: number): string => {
+  switch (node.type) {
+    case 'string':
+      return encodeJsonString(node.value, style);
+    case 'null':
+      return 'null';
+    case 'array':
+    case 'object': {
+      const [open, close] = node.type === 'object' ? ['{', '}'] : ['[', ']'];
+      const items = (node.entries ?? []).map(entry =>
+        (node.type === 'object' ? encodeJsonString(entry.key, style) + (style.indent ? ': ' : ':') : '') +
+        emitJson(entry.node, style, depth + 1)
+      );
+      if (items.length === 0) return open + close;
+      if (!style.indent) return open + items.join(',') + close;
+
+      const padding = style.indent.repeat(depth + 1);
+      return `${open}\n${items.map(item => padding + item).join(',\n')}\n${style.indent.repeat(depth)}${close}`;
+    }
+    default:
+      return node.value;
+  }
+};
+
+// Serialized PHP
+
+class SerializedReader {
+  private offset = 0;
+
+  constructor(private readonly data: string) {}
+
+  read(): TreeNode {
+    const node = this.token();
+    if (this.offset !== this.data.length) {
+      throw new StructureError(`unexpected data at byte ${this.offset}`);
+    }
+    return node;
+  }
+
+  private token(): TreeNode {
+    const start = this.offset;
+
+    switch (this.data[this.offset]) {
+      case 's':
+        return { type: 'string', value: fromBinary(this.readString('s')) };
+
+      case 'a': {
+        const header = this.matchAt(/a:(\d+):\{/y, 'array header');
+        return { type: 'array', value: '', entries: this.members(Number(header[1])) };
+      }
+
+      case 'O': {
+        const className = this.readClassName('O');
+        const header = this.matchAt(/:(\d+):\{/y, 'object header');
+        return { type: 'object', value: '', className: fromBinary(className), entries: this.members(Number(header[1])) };
+      }
+
+      case 'C': {
+        // Custom serializers own their payload format, so it is shown but not edited
+        this.readClassName('C');
+        const header = this.matchAt(/:(\d+):\{/y, 'object header');
+        this.offset += Number(header[1]);
+        this.expect('}');
+        return { type: 'raw', value: fromBinary(this.data.slice(start, this.offset)) };
+      }
+
+      case 'E':
+        this.readString('E');
+        return { type: 'raw', value: fromBinary(this.data.slice(start, this.offset)) };
+
+      case 'N':
+        this.expect('N;');
+        return { type: 'null', value: '' };
+
+      default: {
+        const token = this.matchAt(/(b|i|d|r|R):([^;]*);/y, 'value');
+        switch (token[1]) {
+          case 'b':
+            return { type: 'bool', value: token[2] === '1' ? 'true' : 'false' };
+          case 'i':
+            return { type: 'int', value: token[2] };
+          case 'd':
+            return { type: 'float', value: token[2] };
+          default:
+            // References point at other nodes by position and cannot be edited safely
+            return { type: 'raw', value: token[0] };
+        }
+      }
+    }
+  }
+
+  private members(count: number): TreeEntry[] {
+    const entries: TreeEntry[] = [];
+
+    for (let i = 0; i < count; i++) {
+      if (this.data[this.offset] === 's') {
+        const key = fromBinary(this.readString('s'));
+        entries.push({ key, keyType: 'string', node: this.token() });
+      } else {
+        const key = this.matchAt(/i:([+-]?\d+);/y, 'key')[1];
+        entries.push({ key, keyType: 'int', node: this.token() });
+      }
+    }
+
+    this.expect('}');
+    return entries;
+  }
+
+  private readString(type: 's' | 'E'): string {
+    const header = this.matchAt(new RegExp(`${type}:(\\d+):"`, 'y'), 'string header');
+    const length = Number(header[1]);
+
+    if (this.data.slice(this.offset + length, this.offset + length + 2) !== '";') {
+      throw new StructureError(`string length ${length} does not match its contents at byte ${this.offset}`);
+    }
+
+    const value = this.data.slice(this.offset, this.offset + length);
+    this.offset += length + 2;
+    return value;
+  }
+
+  private readClassName(type: 'O' | 'C'): string {
+    const header = this.matchAt(new RegExp(`${type}:(\\d+):"`, 'y'), 'class name');
+    const className = this.data.slice(this.offset, this.offset + Number(header[1]));
+    this.offset += className.length;
+    this.expect('"');
+    return className;
+  }
+
+  private matchAt(pattern: RegExp, what: string): RegExpExecArray {
+    pattern.lastIndex = this.offset;
+    const match = pattern.exec(this.data);
+    if (!match) {
+      throw new StructureError(`invalid ${what} at byte ${this.offset}`);
+    }
+    this.offset += match[0].length;
+    return match;
+  }
+
+  private expect(literal: string) {
+    if (this.data.slice(this.offset, this.offset + literal.length) !== literal) {
+      throw new StructureError(`expected '${literal}' at byte ${this.offset}`);
+    }
+    this.offset += literal.length;
+  }
+}
+
+const serializedString = (type: 's', value: string): string => {
+  const bytes = toBinary(value);
+  return `${type}:${bytes.length}:"${bytes}";`;
+};
+
+// PHP turns decimal-integer string keys into int keys, so new keys follow the same rule
+const INT_KEY = /^(0|-?[1-9]\d*)$/;
+
+const emitSerializedKey = (entry: TreeEntry): string => {
+  const keyType = entry.keyType ?? (INT_KEY.test(entry.key) ? 'int' : 'string');
+  return keyType === 'int' ? `i:${entry.key};` : serializedString('s', entry.key);
+};
+
+/**
+ * Emits the "binary" byte string; the caller decodes it once at the end
+ */
+const emitSerialized = (node: TreeNode): string => {
+  switch (node.type) {
+    case 'string':
+      return serializedString('s', node.value);
+    case 'int':
+      return `i:${node.value};`;
+    case 'float':
+      return `d:${node.value};`;
+    case 'bool':
+      return `b:${node.value === 'true' ? 1 : 0};`;
+    case 'null':
+      return 'N;';
+    case 'array':
+    case 'object': {
+      const entries = node.entries ?? [];
+      const body = entries.map(entry => emitSerializedKey(entry) + emitSerialized(entry.node)).join('');
+      if (node.type === 'array') {
+        return `a:${entries.length}:{${body}}`;
+      }
+      const className = toBinary(node.className || 'stdClass');
+      return `O:${className.length}:"${className}":${entries.length}:{${body}}`;
+    }
+    default:
+      return toBinary(node.value);
+  }
+};
+
+// Public API
+
+/**
+ * Parse a JSON or serialized value into a tree; throws StructureError when it cannot be parsed
+ */
+export const parseValueTree = (value: string, format: TreeFormat): ValueTree => {
+  if (format === 'json') {
+    return { format, root: new JsonReader(value).read(), style: detectJsonStyle(value) };
+  }
+  return {
+    format,
+    root: new SerializedReader(toBinary(value.trim())).read(),
+    style: { indent: '', escapeSlashes: false, escapeUnicode: false }
+  };
+};
+
+export const serializeValueTree = (tree: ValueTree): string =>
+  tree.format === 'json'
+    ? emitJson(tree.root, tree.style, 0)
+    : fromBinary(emitSerialized(tree.root));
+
+export const getNode = (root: TreeNode, path: number[]): TreeNode =>
+  path.reduce((node, index) => node.entries![index].node, root);
+
+/**
+ * Immutably replace the node at a path
+ */
+export const updateNode = (root: TreeNode, path: number[], update: (node: TreeNode) => TreeNode): TreeNode => {
+  if (path.length === 0) return update(root);
+
+  const [index, ...rest] = path;
+  const entries = [...(root.entries ?? [])];
+  entries[index] = { ...entries[index], node: updateNode(entries[index].node, rest, update) };
+  return { ...root, entries };
+};
+
+/**
+ * Immutably update an entry (key and node) of the container at a path
+ */
+export const updateEntry = (root: TreeNode, path: number[], index: number, update: (entry: TreeEntry) => TreeEntry): TreeNode =>
+  updateNode(root, path, container => {
+    const entries = [...(container.entries ?? [])];
+    entries[index] = update(entries[index]);
+    return { ...container, entries };
+  });
+
+/**
+ * Rename an entry; in PHP arrays an integer-looking key becomes an int key, as PHP itself would store it
+ */
+export const renameEntry = (root: TreeNode, path: number[], index: number, key: string, format: TreeFormat): TreeNode =>
+  updateNode(root, path, container => {
+    const entries = [...(container.entries ?? [])];
+    const entry: TreeEntry = { ...entries[index], key };
+    if (format === 'serialized') {
+      entry.keyType = container.type === 'array' && INT_KEY.test(key) ? 'int' : 'string';
+    }
+    entries[index] = entry;
+    return { ...container, entries };
+  });
+
+const renumber = (node: TreeNode): TreeNode =>
+  node.type === 'array' ? { ...node, entries: (node.entries ?? []).map((entry, index) => ({ ...entry, key: String(index) })) } : node;
+
+export const removeEntry = (root: TreeNode, path: number[], index: number, format: TreeFormat): TreeNode =>
+  updateNode(root, path, container => {
+    const next = { ...container, entries: (container.entries ?? []).filter((_, i) => i !== index) };
+    return format === 'json' ? renumber(next) : next;
+  });
+
+/**
+ * Append an empty string entry, keyed by the next free integer for arrays
+ */
+export const addEntry = (root: TreeNode, path: number[], format: TreeFormat): TreeNode =>
+  updateNode(root, path, container => {
+    const entries = container.entries ?? [];
+    const intKeys = entries.filter(entry => INT_KEY.test(entry.key)).map(entry => Number(entry.key));
+    const key = container.type === 'array'
+      ? String(intKeys.length ? Math.max(...intKeys) + 1 : 0)
+      : uniqueKey(entries, 'new_key');
+    const entry: TreeEntry = { key, node: { type: 'string', value: '' } };
+    if (format === 'serialized') {
+      entry.keyType = INT_KEY.test(key) ? 'int' : 'string';
+    }
+    return { ...container, entries: [...entries, entry] };
+  });
+
+const uniqueKey = (entries: TreeEntry[], base: string): string => {
+  const keys = new Set(entries.map(entry => entry.key));
+  let key = base;
+  for (let i = 2; keys.has(key); i++) {
+    key = `${base}_${i}`;
+  }
+  return key;
+};
+
+/**
+ * Change a node's type, carrying over whatever still makes sense
+ */
+export const convertNode = (node: TreeNode, type: NodeType, format: TreeFormat): TreeNode => {
+  if (type === node.type) return node;
+
+  if (type === 'array' || type === 'object') {
+    const entries = isContainer(node) ? node.entries ?? [] : [];
+    const converted: TreeNode = { type, value: '', entries };
+    if (type === 'object' && format === 'serialized') {
+      converted.className = node.className || 'stdClass';
+    }
+    return format === 'json' ? renumber(converted) : converted;
+  }
+
+  const text = isContainer(node) ? '' : node.value;
+  switch (type) {
+    case 'bool':
+      return { type, value: text === 'true' || text === '1' ? 'true' : 'false' };
+    case 'null':
+      return { type, value: '' };
+    case 'int':
+      return { type, value: /^-?\d+/.exec(text)?.[0] ?? '0' };
+    case 'float':
+      return { type, value: text && !Number.isNaN(Number(text)) ? text : '0.0' };
+    default:
+      return { type, value: text };
+  }
+};
+
+// Types a node can be switched to; raw tokens are read-only
+export const EDITABLE_TYPES: NodeType[] = ['string', 'int', 'float', 'bool', 'null', 'array', 'object'];
+
+const NUMBER_PATTERNS: Record<TreeFormat, { int: RegExp; float: RegExp }> = {
+  json: {
+    int: /^-?(0|[1-9]\d*)$/,
+    float: /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/
+  },
+  serialized: {
+    int: /^[+-]?\d+$/,
+    float: /^([+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?|-?INF|NAN)$/
+  }
+};
+
+/**
+ * Check every node before the tree is written back: numbers must be valid for the format,
+ * keys unique within their container, and the result must parse again
+ */
+export const validateValueTree = (tree: ValueTree): TreeIssue[] => {
+  const issues: TreeIssue[] = [];
+  const patterns = NUMBER_PATTERNS[tree.format];
+
+  const visit = (node: TreeNode, path: number[]) => {
+    if (node.type === 'int' && !patterns.int.test(node.value)) {
+      issues.push({ path, message: `"${node.value}" is not a valid integer` });
+    }
+    if (node.type === 'float' && !patterns.float.test(node.value)) {
+      issues.push({ path, message: `"${node.value}" is not a valid number` });
+    }
+    if (node.type === 'object' && tree.format === 'serialized' && !/^[A-Za-z_\\][A-Za-z0-9_\\]*$/.test(node.className ?? '')) {
+      issues.push({ path, message: `"${node.className ?? ''}" is not a valid class name` });
+    }
+
+    if (hasKeys(tree.format, node)) {
+      const seen = new Set<string>();
+      (node.entries ?? []).forEach((entry, index) => {
+        // PHP stores "5" and 5 under the same array key
+        const normalized = tree.format === 'serialized' && INT_KEY.test(entry.key) ? String(Number(entry.key)) : entry.key;
+        if (seen.has(normalized)) {
+          issues.push({ path: [...path, index], message: `Duplicate key "${entry.key}"` });
+        }
+        seen.add(normalized);
+        if (entry.keyType === 'int' && !patterns.int.test(entry.key)) {
+          issues.push({ path: [...path, index], message: `Key "${entry.key}" must be an integer` });
+        }
+      });
+    }
+
+    (node.entries ?? []).forEach((entry, index) => visit(entry.node, [...path, index]));
+  };
+
+  visit(tree.root, []);
+
+  if (issues.length === 0) {
+    try {
+      parseValueTree(serializeValueTree(tree), tree.format);
+    } catch (error) {
+      issues.push({ path: [], message: `The edited value does not parse: ${(error as Error).message}` });
+    }
+  }
+
+  return issues;
+};
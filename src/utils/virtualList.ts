@@ -0,0 +1,75 @@
+/**
+ * Window math for long lists: which items to render at a scroll position, and where to scroll to show one
+ */
+
+export interface VirtualWindow {
+  // First rendered item
+  start: number;
+  // One past the last rendered item
+  end: number;
+  // Space above and below the rendered items, in pixels
+  before: number;
+  after: number;
+}
+
+/**
+ * Top edge of every item, followed by the total height
+ */
+export const itemOffsets = (heights: number[]): number[] => {
+  const offsets = new Array<number>(heights.length + 1);
+  offsets[0] = 0;
+  for (let i = 0; i < heights.length; i++) {
+    offsets[i + 1] = offsets[i] + heights[i];
+  }
+  return offsets;
+};
+
+/**
+ * Index of the item at a vertical position
+ */
+export const itemAt = (offsets: number[], position: number): number => {
+  let low = 0;
+  let high = Math.max(0, offsets.length - 2);
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (offsets[middle] <= position) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return low;
+};
+
+/**
+ * The items to render for a scroll position, with a few extra on each side so fast scrolling shows no gaps
+ */
+export const virtualWindow = (offsets: number[], scrollTop: number, viewportHeight: number, overscan = 5): VirtualWindow => {
+  const count = offsets.length - 1;
+  if (count <= 0) {
+    return { start: 0, end: 0, before: 0, after: 0 };
+  }
+
+  const start = Math.max(0, itemAt(offsets, scrollTop) - overscan);
+  const end = Math.min(count, itemAt(offsets, scrollTop + viewportHeight) + 1 + overscan);
+
+  return { start, end, before: offsets[start], after: offsets[count] - offsets[end] };
+};
+
+/**
+ * Scroll position that brings an item fully into view, or null when it already is
+ *
+ * An item taller than the viewport is aligned to its top edge.
+ */
+export const scrollToShow = (offsets: number[], index: number, scrollTop: number, viewportHeight: number): number | null => {
+  const top = offsets[index];
+  const bottom = offsets[index + 1];
+
+  if (top < scrollTop) {
+    return top;
+  }
+  if (bottom > scrollTop + viewportHeight) {
+    return Math.min(top, bottom - viewportHeight);
+  }
+  return null;
+};
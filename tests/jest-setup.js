@@ -0,0 +1,3 @@
+const { TextDecoder, TextEncoder } = require( 'util' );
+
+Object.assign( global, { TextDecoder, TextEncoder } );
@@ -0,0 +1,72 @@
+<?php
+/**
+ * Runs replace mode cases through Replace_Engine for the parity test
+ *
+ * Usage: php tests/replace-modes.php <cases.json>
+ * The file holds a list of cases, each with a mode, find, replace, sample and optional structured flag.
+ * Prints each case's output and match count, in order, as JSON. Only the replacement itself runs, so no
+ * WordPress install is needed.
+ */
+
+spl_autoload_register(function ($class) {
+    if (strpos($class, 'WCFDR\\') !== 0) {
+        return;
+    }
+
+    $file = dirname(__DIR__) . '/includes/' . str_replace('\\', '/', substr($class, strlen('WCFDR\\'))) . '.php';
+    if (file_exists($file)) {
+        require_once $file;
+    }
+});
+
+// Structured_Value detects serialized values with WordPress's is_serialized()
+if (!function_exists('is_serialized')) {
+    function is_serialized($data) {
+        $data = is_string($data) ? trim($data) : '';
+        if ($data === 'N;') {
+            return true;
+        }
+        if (strlen($data) < 4 || $data[1] !== ':' || !in_array(substr($data, -1), [';', '}'], true)) {
+            return false;
+        }
+        switch ($data[0]) {
+            case 's':
+                return (bool) preg_match('/^s:\d+:".*";$/s', $data);
+            case 'a':
+            case 'O':
+            case 'E':
+                return (bool) preg_match("/^{$data[0]}:\d+:/s", $data);
+            case 'b':
+            case 'i':
+            case 'd':
+                return (bool) preg_match("/^{$data[0]}:[0-9.E+-]+;$/", $data);
+        }
+        return false;
+    }
+}
+
+$cases = json_decode((string) file_get_contents($argv[1] ?? ''), true);
+if (!is_array($cases)) {
+    fwrite(STDERR, "Usage: php tests/replace-modes.php <cases.json>\n");
+    exit(1);
+}
+
+// The replacement runs in a private method; the public entry points sanitize through WordPress
+$replace_value = new ReflectionMethod(WCFDR\Replace\Replace_Engine::class, 'replace_value');
+if (PHP_VERSION_ID < 80100) {
+    $replace_value->setAccessible(true);
+}
+$engine = WCFDR\Replace\Replace_Engine::getInstance();
+
+$results = [];
+foreach ($cases as $case) {
+    $result = $replace_value->invoke($engine, $case['sample'], [
+        'find' => $case['find'],
+        'replace' => $case['replace'],
+        'mode' => $case['mode'],
+        'structured' => !empty($case['structured'])
+    ]);
+    $results[] = ['value' => $result['value'], 'match_count' => $result['match_count']];
+}
+
+echo json_encode($results, JSON_UNESCAPED_SLASHES | JSON_UNESCAPED_UNICODE), "\n";